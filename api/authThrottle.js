@@ -0,0 +1,114 @@
+import { query } from './db.js';
+
+// Failures are tracked per account (or unknown identifier) and per source IP. Every failure past `delayAfter`
+// doubles the wait before the next attempt; reaching `maxFailures` locks the key for `lockSeconds`.
+const THROTTLE_POLICIES = {
+  login: {
+    maxFailures: { identifier: 5, ip: 20 },
+    windowSeconds: 15 * 60,
+    lockSeconds: 15 * 60,
+    delayAfter: 2,
+    maxDelaySeconds: 30,
+  },
+  forgot_password: {
+    maxFailures: { identifier: 3, ip: 10 },
+    windowSeconds: 60 * 60,
+    lockSeconds: 60 * 60,
+    delayAfter: 1,
+    maxDelaySeconds: 60,
+  },
+};
+
+const secondsSince = (date) => (date ? Math.floor((Date.now() - new Date(date).getTime()) / 1000) : Infinity);
+
+const secondsUntil = (date) => (date ? Math.max(0, Math.ceil((new Date(date).getTime() - Date.now()) / 1000)) : 0);
+
+const getDelaySeconds = (policy, failures) =>
+  failures < policy.delayAfter ? 0 : Math.min(policy.maxDelaySeconds, 2 ** (failures - policy.delayAfter));
+
+export const accountThrottleKey = (userId) => ({ type: 'identifier', value: `user:${userId}` });
+
+export const identifierThrottleKey = (identifier) => ({
+  type: 'identifier',
+  value: String(identifier || '')
+    .trim()
+    .toLowerCase(),
+});
+
+export const ipThrottleKey = (ip) => ({ type: 'ip', value: ip || 'unknown' });
+
+// Seconds the caller has to wait before another attempt is accepted; 0 when allowed.
+export const getRetryAfter = async (scope, keys) => {
+  const policy = THROTTLE_POLICIES[scope];
+  const rows = await query(
+    'SELECT failures, last_failed_at, locked_until FROM auth_attempts WHERE scope = ? AND (key_type, key_value) IN (?)',
+    [scope, keys.map((key) => [key.type, key.value])]
+  );
+
+  return rows.reduce((wait, row) => {
+    const lockedFor = secondsUntil(row.locked_until);
+    if (lockedFor > 0) return Math.max(wait, lockedFor);
+
+    const elapsed = secondsSince(row.last_failed_at);
+    if (elapsed > policy.windowSeconds) return wait;
+    return Math.max(wait, getDelaySeconds(policy, row.failures) - elapsed);
+  }, 0);
+};
+
+// Counts a failed (or, for rate-limited scopes, any) attempt. Returns the keys that just became locked.
+// The count is incremented in a single upsert so parallel failures cannot overwrite each other; a key is
+// reported once, by the failure that reached the limit.
+export const recordFailure = async (scope, keys) => {
+  const policy = THROTTLE_POLICIES[scope];
+  const lockedKeys = [];
+
+  for (const key of keys) {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - policy.windowSeconds * 1000);
+    const lockedUntil = new Date(now.getTime() + policy.lockSeconds * 1000);
+    const maxFailures = policy.maxFailures[key.type];
+
+    // MySQL applies the assignments in order, so `locked_until` sees the new count and the window check
+    // reads the previous `last_failed_at`.
+    await query(
+      `INSERT INTO auth_attempts (scope, key_type, key_value, failures, last_failed_at, locked_until)
+       VALUES (?, ?, ?, 1, ?, IF(1 >= ?, ?, NULL))
+       ON DUPLICATE KEY UPDATE
+         failures = IF(last_failed_at >= ?, failures + 1, 1),
+         locked_until = IF(failures >= ?, ?, NULL),
+         last_failed_at = VALUES(last_failed_at)`,
+      [scope, key.type, key.value, now, maxFailures, lockedUntil, windowStart, maxFailures, lockedUntil]
+    );
+
+    const [row] = await query(
+      'SELECT failures FROM auth_attempts WHERE scope = ? AND key_type = ? AND key_value = ? LIMIT 1',
+      [scope, key.type, key.value]
+    );
+    if (row?.failures === maxFailures) lockedKeys.push(key);
+  }
+
+  return lockedKeys;
+};
+
+export const clearFailures = async (scope, keys) => {
+  if (!keys.length) return;
+  await query('DELETE FROM auth_attempts WHERE scope = ? AND (key_type, key_value) IN (?)', [
+    scope,
+    keys.map((key) => [key.type, key.value]),
+  ]);
+};
+
+// Map of user id to lock expiry for accounts currently locked out of login.
+export const getLockedAccounts = async (userIds) => {
+  if (!userIds.length) return {};
+  const rows = await query(
+    'SELECT key_value, locked_until FROM auth_attempts WHERE scope = ? AND key_type = ? AND key_value IN (?) AND locked_until > ?',
+    ['login', 'identifier', userIds.map((id) => accountThrottleKey(id).value), new Date()]
+  );
+  return Object.fromEntries(rows.map((row) => [row.key_value.replace(/^user:/, ''), row.locked_until]));
+};
+
+export const formatRetryAfter = (seconds) => {
+  const [amount, unit] = seconds < 60 ? [seconds, 'second'] : [Math.ceil(seconds / 60), 'minute'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
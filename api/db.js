@@ -10,12 +10,16 @@ export const loadEnv = () => dotenv.config({ path: path.join(__dirname, '.env')
 
 loadEnv();
 
-const pool = mysql.createPool({
+export const connectionOptions = {
   host: process.env.DB_HOST || 'localhost',
   port: Number(process.env.DB_PORT || 3306),
   user: process.env.DB_USER || 'root',
   password: process.env.DB_PASSWORD || '',
   database: process.env.DB_NAME || 'rgi_nexaproc',
+};
+
+const pool = mysql.createPool({
+  ...connectionOptions,
   waitForConnections: true,
   connectionLimit: 10,
 });
@@ -29,4 +33,28 @@ export async function getConnection() {
   return pool.getConnection();
 }
 
+// Runs `callback(db)` on a single connection inside a transaction. `db.query` works like `query`. Everything
+// is committed when the callback resolves and rolled back when it throws, so a workflow either happens in
+// full or not at all. Lock rows the decision depends on with `SELECT ... FOR UPDATE`.
+export async function withTransaction(callback) {
+  const connection = await getConnection();
+  const db = {
+    query: async (sql, params) => {
+      const [rows] = await connection.query(sql, params);
+      return rows;
+    },
+  };
+  try {
+    await connection.beginTransaction();
+    const result = await callback(db);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
 export default pool;
@@ -0,0 +1,102 @@
+import { query } from './db.js';
+
+const pool = { query };
+
+// Documents that can be emailed to the client, with the `settings` columns holding their subject and body
+// templates. Templates use `{number}`, `{client}`, `{recipient}`, `{grand_total}`, `{sender}` and `{company}`.
+const TEMPLATES = {
+  quotations: { label: 'quotation', subject: 'quotation_email_subject', body: 'quotation_email_body' },
+  invoices: { label: 'invoice', subject: 'invoice_email_subject', body: 'invoice_email_body' },
+};
+
+const EMAIL_PATTERN = /^[^\s@,;<>]+@[^\s@,;<>]+\.[^\s@,;<>]+$/;
+const MAX_RECIPIENTS = 10;
+
+export class DocumentEmailError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const isEmailableDocument = (table) => Boolean(TEMPLATES[table]);
+
+export const describeDocument = (table) => TEMPLATES[table].label;
+
+// Placeholders without a value are left in the text, so a typo in a template shows up in the draft.
+const fillTemplate = (template, values) =>
+  String(template || '').replace(/\{(\w+)\}/g, (placeholder, key) =>
+    values[key] === null || values[key] === undefined ? placeholder : String(values[key])
+  );
+
+// Subject and body for the document from its templates in settings.
+export const buildEmailDraft = async (table, values, db = pool) => {
+  const { subject, body } = TEMPLATES[table];
+  const [settings] = await db.query('SELECT ??, ?? FROM `settings` ORDER BY id ASC LIMIT 1', [subject, body]);
+  return {
+    subject: fillTemplate(settings?.[subject], values),
+    body: fillTemplate(settings?.[body], values),
+  };
+};
+
+// Addresses from a comma or semicolon separated list, or an array of them.
+export const parseRecipients = (value) => {
+  const addresses = (Array.isArray(value) ? value : String(value || '').split(/[,;]/))
+    .map((address) => String(address).trim())
+    .filter(Boolean);
+  if (!addresses.length) throw new DocumentEmailError(400, 'Enter at least one recipient');
+  if (addresses.length > MAX_RECIPIENTS) {
+    throw new DocumentEmailError(400, `Send to at most ${MAX_RECIPIENTS} recipients at a time`);
+  }
+  const invalid = addresses.find((address) => !EMAIL_PATTERN.test(address));
+  if (invalid) throw new DocumentEmailError(400, `${invalid} is not a valid email address`);
+  return Array.from(new Set(addresses.map((address) => address.toLowerCase())));
+};
+
+const escapeHtml = (value) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// The plain text body the user edited, as the HTML part of the email.
+export const textToHtml = (text) =>
+  String(text)
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\r?\n/g, '<br>')}</p>`)
+    .join('\n');
+
+// Records a send, or a failed attempt with its `error`, against the document.
+export const logDocumentEmail = async (
+  { table, id, recipients, cc, subject, body, attachmentName, error = null, sentBy },
+  db = pool
+) => {
+  const result = await db.query('INSERT INTO `document_emails` SET ?', [
+    {
+      entity_type: table,
+      entity_id: id,
+      recipients: recipients.join(', '),
+      cc: cc.length ? cc.join(', ') : null,
+      subject,
+      body,
+      attachment_name: attachmentName,
+      status: error ? 'failed' : 'sent',
+      error: error ? String(error.message || error) : null,
+      sent_by: sentBy || null,
+    },
+  ]);
+  return result.insertId;
+};
+
+// Emails sent for the document, most recent first.
+export const listDocumentEmails = async (table, id, db = pool) =>
+  db.query(
+    `SELECT e.id, e.recipients, e.cc, e.subject, e.attachment_name, e.status, e.error, e.created_at,
+       u.full_name AS sent_by_name
+     FROM document_emails e
+     LEFT JOIN users u ON u.id = e.sent_by
+     WHERE e.entity_type = ? AND e.entity_id = ?
+     ORDER BY e.created_at DESC, e.id DESC`,
+    [table, id]
+  );
@@ -0,0 +1,81 @@
+import { query } from './db.js';
+
+const pool = { query };
+
+const ROMAN_MONTHS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+// Documents numbered by the server. Each keeps one counter per year in `document_sequences`; the format comes
+// from the settings column named here.
+export const DOCUMENT_NUMBERS = {
+  quotations: {
+    type: 'quotation',
+    column: 'quotation_number',
+    setting: 'quotation_number_format',
+    defaultFormat: '{seq}/RGI/QTN/{roman_month}/{year}',
+  },
+  delivery_orders: {
+    type: 'delivery_order',
+    column: 'delivery_number',
+    setting: 'delivery_number_format',
+    defaultFormat: '{seq}/RGI/DO/{roman_month}/{year}',
+  },
+  invoices: {
+    type: 'invoice',
+    column: 'invoice_number',
+    setting: 'invoice_number_format',
+    defaultFormat: '{seq}/RGI/INV/{roman_month}/{year}',
+  },
+};
+
+const FORMAT_TOKENS = {
+  seq: ({ sequence }) => String(sequence).padStart(4, '0'),
+  year: ({ date }) => String(date.getFullYear()),
+  month: ({ date }) => String(date.getMonth() + 1).padStart(2, '0'),
+  roman_month: ({ date }) => ROMAN_MONTHS[date.getMonth()],
+};
+
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+
+// Counters restart every year, so a format without the year would repeat numbers.
+export const validateNumberFormat = (format) => {
+  if (typeof format !== 'string' || !format.trim()) return 'Number format is required';
+  if (format.length > 100) return 'Number format must be at most 100 characters';
+  const tokens = [...format.matchAll(TOKEN_PATTERN)].map((match) => match[1]);
+  const unknown = tokens.find((token) => !FORMAT_TOKENS[token]);
+  if (unknown) return `Unknown placeholder {${unknown}} in number format`;
+  if (!tokens.includes('seq') || !tokens.includes('year')) {
+    return 'Number format must contain {seq} and {year}';
+  }
+  return null;
+};
+
+export const formatDocumentNumber = (format, sequence, date = new Date()) =>
+  format.replace(TOKEN_PATTERN, (placeholder, token) =>
+    FORMAT_TOKENS[token] ? FORMAT_TOKENS[token]({ sequence, date }) : placeholder
+  );
+
+// Takes the next number for a document of `table` dated `date`. Run it inside the transaction that inserts the
+// document: the counter row stays locked until commit, so concurrent requests queue instead of sharing a
+// number, and a rolled back insert gives its number back.
+export const allocateDocumentNumber = async (table, db = pool, date = new Date()) => {
+  const config = DOCUMENT_NUMBERS[table];
+  const year = date.getFullYear();
+
+  await db.query('INSERT IGNORE INTO `document_sequences` (document_type, year, last_value) VALUES (?, ?, 0)', [
+    config.type,
+    year,
+  ]);
+  const [counter] = await db.query(
+    'SELECT last_value FROM `document_sequences` WHERE document_type = ? AND year = ? FOR UPDATE',
+    [config.type, year]
+  );
+  const sequence = Number(counter.last_value) + 1;
+  await db.query('UPDATE `document_sequences` SET last_value = ? WHERE document_type = ? AND year = ?', [
+    sequence,
+    config.type,
+    year,
+  ]);
+
+  const [settings] = await db.query('SELECT ?? AS format FROM `settings` ORDER BY id ASC LIMIT 1', [config.setting]);
+  return formatDocumentNumber(settings?.format || config.defaultFormat, sequence, date);
+};
@@ -0,0 +1,597 @@
+import fs from 'fs/promises';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { calculateLineSubtotal } from '../shared/pricing.js';
+import { query } from './db.js';
+import { findStoredFile, getFileIdFromUrl, getStoredFilePath } from './fileStorage.js';
+
+const pool = { query };
+
+const MARGIN = 40;
+const FONT = 'Helvetica';
+const BOLD = 'Helvetica-Bold';
+const TEXT_COLOR = '#111111';
+const MUTED_COLOR = '#555555';
+const RULE_COLOR = '#1e3a8a';
+const BORDER_COLOR = '#9ca3af';
+const HEADER_FILL = '#e5e7eb';
+const CELL_PADDING = 4;
+
+// PDFKit embeds JPEG and PNG only; a logo in another format is left off the letterhead.
+const PDF_IMAGE_TYPES = ['image/jpeg', 'image/png'];
+
+export const formatRupiah = (value) =>
+  `Rp ${new Intl.NumberFormat('id-ID', { maximumFractionDigits: 0 }).format(Number(value) || 0)}`;
+
+const formatNumber = (value) => new Intl.NumberFormat('id-ID', { maximumFractionDigits: 2 }).format(Number(value) || 0);
+
+const formatDate = (value) =>
+  value ? new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }) : '-';
+
+// e.g. `Quotation-0001-RGI-QTN-X-2026.pdf` for quotation 0001/RGI/QTN/X/2026.
+export const getPdfFilename = (label, number) => `${label}-${String(number || '').replace(/[^\w.-]+/g, '-')}.pdf`;
+
+const readLogo = async (logoUrl) => {
+  const fileId = getFileIdFromUrl(logoUrl);
+  const file = fileId ? await findStoredFile(fileId) : null;
+  return file && PDF_IMAGE_TYPES.includes(file.mime_type) ? fs.readFile(getStoredFilePath(file)) : null;
+};
+
+// The settings row with the company logo read from storage, for the top of every generated document.
+export const loadLetterhead = async (db = pool) => {
+  const [settings] = await db.query('SELECT * FROM `settings` ORDER BY id ASC LIMIT 1');
+  const logo = await readLogo(settings?.logo_url).catch((error) => {
+    console.error('Letterhead logo error', error);
+    return null;
+  });
+  return { ...(settings || {}), logo };
+};
+
+const contentWidth = (doc) => doc.page.width - MARGIN * 2;
+
+const ensureSpace = (doc, height) => {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+};
+
+const drawLetterhead = (doc, letterhead) => {
+  const top = MARGIN;
+  let textX = MARGIN;
+  if (letterhead.logo) {
+    try {
+      doc.image(letterhead.logo, MARGIN, top, { fit: [70, 70] });
+      textX = MARGIN + 82;
+    } catch (error) {
+      console.error('Letterhead logo error', error);
+    }
+  }
+
+  const width = doc.page.width - MARGIN - textX;
+  doc.font(BOLD).fontSize(16).fillColor(TEXT_COLOR).text(letterhead.company_name || '', textX, top, { width });
+  doc.font(FONT).fontSize(9).fillColor(MUTED_COLOR);
+  if (letterhead.company_address) doc.text(letterhead.company_address, { width });
+  const contact = [letterhead.phone && `Phone ${letterhead.phone}`, letterhead.email].filter(Boolean).join('  ·  ');
+  if (contact) doc.text(contact, { width });
+  if (letterhead.tax_id) doc.text(`NPWP ${letterhead.tax_id}`, { width });
+
+  const ruleY = Math.max(doc.y, textX === MARGIN ? 0 : top + 70) + 8;
+  doc
+    .moveTo(MARGIN, ruleY)
+    .lineTo(doc.page.width - MARGIN, ruleY)
+    .lineWidth(1.5)
+    .strokeColor(RULE_COLOR)
+    .stroke();
+  doc.x = MARGIN;
+  doc.y = ruleY + 14;
+};
+
+// Page numbers and the company's bank account at the bottom of every page, drawn once the page count is known.
+const drawFooters = (doc, letterhead) => {
+  const range = doc.bufferedPageRange();
+  const bank = [letterhead.bank_name, letterhead.bank_account && `Account ${letterhead.bank_account}`]
+    .filter(Boolean)
+    .join('  ·  ');
+  for (let index = range.start; index < range.start + range.count; index += 1) {
+    doc.switchToPage(index);
+    // Text below the bottom margin would otherwise start a new page.
+    const { bottom } = doc.page.margins;
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - 28;
+    doc.font(FONT).fontSize(8).fillColor(MUTED_COLOR);
+    if (bank) doc.text(bank, MARGIN, y, { width: contentWidth(doc) / 2 });
+    doc.text(`Page ${index - range.start + 1} of ${range.count}`, MARGIN, y, {
+      width: contentWidth(doc),
+      align: 'right',
+    });
+    doc.page.margins.bottom = bottom;
+  }
+};
+
+const drawTitle = (doc, title) => {
+  doc.font(BOLD).fontSize(14).fillColor(TEXT_COLOR).text(title, MARGIN, doc.y, {
+    width: contentWidth(doc),
+    align: 'center',
+    characterSpacing: 1,
+  });
+  doc.moveDown(0.8);
+};
+
+// Label/value pairs in two columns: who the document is for on the left, its references on the right. Pairs
+// without a value are left out.
+const drawDetails = (doc, left, right) => {
+  const top = doc.y;
+  const half = contentWidth(doc) / 2;
+  const drawPairs = (pairs, x) => {
+    doc.y = top;
+    pairs
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .forEach(([label, value]) => {
+        const y = doc.y;
+        doc.font(BOLD).fontSize(9).fillColor(TEXT_COLOR).text(label, x, y, { width: 75 });
+        doc.font(FONT).text(String(value), x + 75, y, { width: half - 85 });
+        doc.moveDown(0.2);
+      });
+    return doc.y;
+  };
+  const bottom = Math.max(drawPairs(left, MARGIN), drawPairs(right, MARGIN + half));
+  doc.x = MARGIN;
+  doc.y = bottom + 10;
+};
+
+// Columns are `{ header, width, align, value(row, index) }` with widths as fractions of the page's content
+// width. The header row is repeated on every page the table runs onto.
+const drawTable = (doc, columns, rows) => {
+  const width = contentWidth(doc);
+  const cells = columns.map((column) => ({ ...column, width: column.width * width }));
+  const headers = cells.map((cell) => cell.header);
+
+  const drawRow = (values, { header = false } = {}) => {
+    doc.font(header ? BOLD : FONT).fontSize(8.5);
+    const height =
+      Math.max(
+        ...cells.map((cell, index) => doc.heightOfString(values[index], { width: cell.width - CELL_PADDING * 2 }))
+      ) +
+      CELL_PADDING * 2;
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+      if (!header) drawRow(headers, { header: true });
+    }
+
+    const top = doc.y;
+    if (header) doc.rect(MARGIN, top, width, height).fill(HEADER_FILL);
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      doc.rect(x, top, cell.width, height).lineWidth(0.5).strokeColor(BORDER_COLOR).stroke();
+      doc
+        .font(header ? BOLD : FONT)
+        .fontSize(8.5)
+        .fillColor(TEXT_COLOR)
+        .text(values[index], x + CELL_PADDING, top + CELL_PADDING, {
+          width: cell.width - CELL_PADDING * 2,
+          align: header ? 'center' : cell.align || 'left',
+        });
+      x += cell.width;
+    });
+    doc.x = MARGIN;
+    doc.y = top + height;
+  };
+
+  drawRow(headers, { header: true });
+  rows.forEach((row, rowIndex) =>
+    drawRow(cells.map((cell) => String(cell.value(row, rowIndex) ?? '-')))
+  );
+};
+
+// `[label, amount, { bold }]` lines right-aligned under a table.
+const drawTotals = (doc, lines) => {
+  const width = 240;
+  const x = doc.page.width - MARGIN - width;
+  doc.moveDown(0.6);
+  ensureSpace(doc, lines.length * 15);
+  lines.forEach(([label, value, { bold = false } = {}]) => {
+    const y = doc.y;
+    doc.font(bold ? BOLD : FONT).fontSize(9).fillColor(TEXT_COLOR).text(label, x, y, { width: 120 });
+    doc.text(value, x + 120, y, { width: width - 120, align: 'right' });
+    doc.y = Math.max(doc.y, y + 15);
+  });
+  doc.x = MARGIN;
+};
+
+// Terms and remarks as label/value lines.
+const drawNotes = (doc, notes) => {
+  doc.moveDown(0.8);
+  notes
+    .filter(([, value]) => value)
+    .forEach(([label, value]) => {
+      ensureSpace(doc, 14);
+      const y = doc.y;
+      doc.font(BOLD).fontSize(9).fillColor(TEXT_COLOR).text(label, MARGIN, y, { width: 90 });
+      doc.font(FONT).text(value, MARGIN + 90, y, { width: contentWidth(doc) - 90 });
+      doc.moveDown(0.2);
+    });
+  doc.x = MARGIN;
+};
+
+const drawParagraph = (doc, text) => {
+  doc.moveDown(0.4);
+  doc.font(FONT).fontSize(9).fillColor(TEXT_COLOR).text(text, MARGIN, doc.y, {
+    width: contentWidth(doc),
+    align: 'justify',
+    lineGap: 2,
+  });
+  doc.moveDown(0.8);
+};
+
+// Signature boxes side by side, right-aligned: `{ heading, name, title }` each, with room to sign above the name.
+const drawSignatures = (doc, signers) => {
+  const height = 115;
+  doc.moveDown(1);
+  ensureSpace(doc, height);
+  const slots = Math.max(signers.length, 2);
+  const boxWidth = contentWidth(doc) / slots;
+  const top = doc.y;
+
+  signers.forEach((signer, index) => {
+    const x = MARGIN + (slots - signers.length + index) * boxWidth;
+    const textOptions = { width: boxWidth - 20, align: 'center' };
+    doc.font(FONT).fontSize(9).fillColor(TEXT_COLOR).text(signer.heading, x + 10, top, textOptions);
+    const lineY = top + 85;
+    doc
+      .moveTo(x + 20, lineY)
+      .lineTo(x + boxWidth - 20, lineY)
+      .lineWidth(0.5)
+      .strokeColor(TEXT_COLOR)
+      .stroke();
+    doc.font(BOLD).text(signer.name || ' ', x + 10, lineY + 4, textOptions);
+    if (signer.title) doc.font(FONT).fillColor(MUTED_COLOR).text(signer.title, x + 10, doc.y, textOptions);
+  });
+  doc.x = MARGIN;
+  doc.y = top + height;
+};
+
+const renderPdf = (title, draw) =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN, bufferPages: true, info: { Title: title } });
+    const chunks = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    try {
+      draw(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+
+const SMALL_NUMBERS = [
+  '',
+  'satu',
+  'dua',
+  'tiga',
+  'empat',
+  'lima',
+  'enam',
+  'tujuh',
+  'delapan',
+  'sembilan',
+  'sepuluh',
+  'sebelas',
+];
+
+const LARGE_NUMBERS = [
+  [1e12, 'triliun'],
+  [1e9, 'miliar'],
+  [1e6, 'juta'],
+];
+
+const spellNumber = (value) => {
+  if (value < 12) return SMALL_NUMBERS[value];
+  if (value < 20) return `${spellNumber(value - 10)} belas`;
+  if (value < 100) return `${spellNumber(Math.floor(value / 10))} puluh ${spellNumber(value % 10)}`;
+  if (value < 200) return `seratus ${spellNumber(value - 100)}`;
+  if (value < 1000) return `${spellNumber(Math.floor(value / 100))} ratus ${spellNumber(value % 100)}`;
+  if (value < 2000) return `seribu ${spellNumber(value - 1000)}`;
+  if (value < 1e6) return `${spellNumber(Math.floor(value / 1000))} ribu ${spellNumber(value % 1000)}`;
+  const [unit, name] = LARGE_NUMBERS.find(([size]) => value >= size);
+  return `${spellNumber(Math.floor(value / unit))} ${name} ${spellNumber(value % unit)}`;
+};
+
+// A rupiah amount in Indonesian words ("terbilang"), e.g. 1.250.000 as `Satu Juta Dua Ratus Lima Puluh Ribu Rupiah`.
+export const terbilang = (value) => {
+  const amount = Math.round(Math.abs(Number(value) || 0));
+  const words = amount === 0 ? 'nol' : spellNumber(amount).replace(/\s+/g, ' ').trim();
+  return `${words} rupiah`.replace(/(^|\s)\S/g, (letter) => letter.toUpperCase());
+};
+
+// Columns for the lines of a priced document (quotation or invoice items). Discounts only get a column when a line
+// has one; `deliveryTime` adds the delivery time quotations promise per line.
+const goodsColumns = (items, { deliveryTime = false } = {}) => {
+  const hasDiscount = items.some((item) => Number(item.discount));
+  return [
+    { header: 'No', width: 0.06, align: 'center', value: (_item, index) => index + 1 },
+    {
+      header: 'Description',
+      width: 0.48 - (hasDiscount ? 0.08 : 0) - (deliveryTime ? 0.1 : 0),
+      value: (item) => [item.name ?? item.goods, item.description].filter(Boolean).join('\n'),
+    },
+    { header: 'Qty', width: 0.08, align: 'right', value: (item) => formatNumber(item.qty) },
+    { header: 'Unit', width: 0.08, align: 'center', value: (item) => item.unit || '-' },
+    { header: 'Unit Price', width: 0.15, align: 'right', value: (item) => formatRupiah(item.price) },
+    hasDiscount && {
+      header: 'Disc.',
+      width: 0.08,
+      align: 'right',
+      value: (item) => (Number(item.discount) ? `${formatNumber(item.discount)}%` : '-'),
+    },
+    deliveryTime && {
+      header: 'Delivery',
+      width: 0.1,
+      align: 'center',
+      value: (item) =>
+        item.delivery_time === null || item.delivery_time === undefined ? '-' : `${item.delivery_time} days`,
+    },
+    { header: 'Amount', width: 0.15, align: 'right', value: (item) => formatRupiah(calculateLineSubtotal(item)) },
+  ].filter(Boolean);
+};
+
+// DPP (the tax base, `total_amount`), PPN and grand total. When the prices include PPN the lines add up to more
+// than the DPP, so their sum is shown first.
+const priceTotalLines = (document, items, taxRate) => {
+  const lines = [];
+  if (document.include_tax) {
+    const linesTotal = items.reduce((sum, item) => sum + calculateLineSubtotal(item), 0);
+    lines.push(['Total (incl. PPN)', formatRupiah(linesTotal)]);
+  }
+  lines.push(
+    ['DPP', formatRupiah(document.total_amount)],
+    [`PPN ${formatNumber(taxRate)}%`, formatRupiah(document.tax_amount)],
+    ['Grand Total', formatRupiah(document.grand_total), { bold: true }]
+  );
+  return lines;
+};
+
+// A number of days is printed as such; free text like `COD` or `50% DP` is printed as written.
+const describePaymentTime = (value) => {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  return /^\d+$/.test(text) ? `${text} days after invoice` : text;
+};
+
+// `quotation` is loaded with its `goods`; `rfq` and `preparedBy` (the user who wrote it) are optional.
+export const renderQuotationPdf = ({ quotation, rfq, preparedBy, letterhead }) =>
+  renderPdf(`Quotation ${quotation.quotation_number}`, (doc) => {
+    const items = Array.isArray(quotation.goods) ? quotation.goods : [];
+    const taxRate = quotation.tax_rate ?? letterhead.tax_rate;
+
+    drawLetterhead(doc, letterhead);
+    drawTitle(doc, 'QUOTATION');
+    drawDetails(
+      doc,
+      [
+        ['To', quotation.company_name],
+        ['Attention', quotation.pic_name],
+        ['Email', quotation.pic_email],
+        ['Phone', quotation.pic_phone],
+      ],
+      [
+        ['Number', quotation.quotation_number],
+        ['Date', formatDate(quotation.created_at)],
+        ['Reference', rfq?.rfq_number],
+      ]
+    );
+    drawTable(doc, goodsColumns(items, { deliveryTime: true }), items);
+    drawTotals(doc, priceTotalLines(quotation, items, taxRate));
+    drawNotes(doc, [
+      ['Payment', describePaymentTime(quotation.payment_time)],
+      [
+        'Prices',
+        quotation.include_tax
+          ? `Unit prices include PPN ${formatNumber(taxRate)}%`
+          : `PPN ${formatNumber(taxRate)}% is added to the DPP`,
+      ],
+    ]);
+    drawSignatures(doc, [
+      {
+        heading: `Regards,\n${letterhead.company_name || ''}`,
+        name: preparedBy?.full_name,
+        title: preparedBy?.title,
+      },
+    ]);
+    drawFooters(doc, letterhead);
+  });
+
+// `payment_time` is a number of days after the invoice date; older invoices may hold free text, shown as is.
+const describeDueTerms = (invoice) => {
+  const days = Number(invoice.payment_time);
+  if (!invoice.payment_time) return null;
+  if (!Number.isInteger(days) || !invoice.invoice_date) return String(invoice.payment_time);
+  const dueDate = new Date(invoice.invoice_date);
+  dueDate.setDate(dueDate.getDate() + days);
+  return `${days} days after the invoice date, due ${formatDate(dueDate)}`;
+};
+
+// `invoice` is loaded with its `goods`; `order` is the sales order it bills, for its numbers, if still there.
+export const renderInvoicePdf = ({ invoice, order, letterhead }) =>
+  renderPdf(`Invoice ${invoice.invoice_number}`, (doc) => {
+    const items = Array.isArray(invoice.goods) ? invoice.goods : [];
+    const taxRate = invoice.tax_rate ?? letterhead.tax_rate;
+
+    drawLetterhead(doc, letterhead);
+    drawTitle(doc, 'INVOICE');
+    drawDetails(
+      doc,
+      [
+        ['Bill To', invoice.company_name],
+        ['Address', invoice.billing_address],
+      ],
+      [
+        ['Number', invoice.invoice_number],
+        ['Date', formatDate(invoice.invoice_date)],
+        ['Sales Order', order?.order_number],
+        ['PO Number', order?.po_number],
+      ]
+    );
+    drawTable(doc, goodsColumns(items), items);
+    drawTotals(doc, priceTotalLines(invoice, items, taxRate));
+    drawNotes(doc, [
+      ['Amount in words', terbilang(invoice.grand_total)],
+      ['Payment terms', describeDueTerms(invoice)],
+      [
+        'Transfer to',
+        [
+          letterhead.bank_name,
+          letterhead.bank_account && `Account no. ${letterhead.bank_account}`,
+          letterhead.company_name && `Account name ${letterhead.company_name}`,
+        ]
+          .filter(Boolean)
+          .join('\n') || null,
+      ],
+      ['Reference', `Please quote invoice ${invoice.invoice_number} in the transfer description.`],
+    ]);
+    drawSignatures(doc, [
+      { heading: `Regards,\n${letterhead.company_name || ''}`, name: null, title: 'Authorized Signature' },
+    ]);
+    drawFooters(doc, letterhead);
+  });
+
+// A QR code image with a caption beside it, so a printout leads back to its record.
+const drawQrCode = (doc, image, caption) => {
+  const size = 72;
+  doc.moveDown(0.8);
+  ensureSpace(doc, size);
+  const top = doc.y;
+  doc.image(image, MARGIN, top, { width: size, height: size });
+  doc
+    .font(FONT)
+    .fontSize(8)
+    .fillColor(MUTED_COLOR)
+    .text(caption, MARGIN + size + 10, top + size / 2 - 10, { width: 220 });
+  doc.x = MARGIN;
+  doc.y = top + size;
+};
+
+// `delivery` is loaded with its `goods`; `order` is the sales order it ships, `sender` the user who created it
+// and `recordUrl` the delivery's page in the web app, encoded in the QR code.
+export const renderDeliveryNotePdf = async ({ delivery, order, sender, shipAddress, recordUrl, letterhead }) => {
+  const qrCode = await QRCode.toBuffer(recordUrl, { margin: 1, width: 240 });
+  return renderPdf(`Delivery Note ${delivery.delivery_number}`, (doc) => {
+    const items = Array.isArray(delivery.goods) ? delivery.goods : [];
+
+    drawLetterhead(doc, letterhead);
+    drawTitle(doc, 'DELIVERY NOTE (SURAT JALAN)');
+    drawDetails(
+      doc,
+      [
+        ['To', delivery.company_name || order?.company_name],
+        ['Ship To', shipAddress],
+      ],
+      [
+        ['Number', delivery.delivery_number],
+        ['Date', formatDate(delivery.delivery_date)],
+        ['Sales Order', order?.order_number],
+        ['PO Number', order?.po_number],
+      ]
+    );
+    drawTable(
+      doc,
+      [
+        { header: 'No', width: 0.06, align: 'center', value: (_item, index) => index + 1 },
+        {
+          header: 'Description',
+          width: 0.54,
+          value: (item) => [item.name, item.description].filter(Boolean).join('\n'),
+        },
+        { header: 'Qty', width: 0.1, align: 'right', value: (item) => formatNumber(item.qty) },
+        { header: 'Unit', width: 0.1, align: 'center', value: (item) => item.unit || '-' },
+        { header: 'Remarks', width: 0.2, value: () => ' ' },
+      ],
+      items
+    );
+    drawQrCode(doc, qrCode, `Scan to open delivery ${delivery.delivery_number} in RGI NexaProc.`);
+    drawNotes(doc, [['Received', 'The goods above were received complete and in good condition.']]);
+    drawSignatures(doc, [
+      { heading: `Sender\n${letterhead.company_name || ''}`, name: sender?.full_name, title: 'Name & date' },
+      { heading: 'Driver\n ', name: null, title: 'Name & date' },
+      {
+        heading: `Received by\n${delivery.company_name || order?.company_name || ''}`,
+        name: null,
+        title: 'Name, stamp & date',
+      },
+    ]);
+    drawFooters(doc, letterhead);
+  });
+};
+
+// Berita Acara Serah Terima: the client's confirmation that a sales order was handed over in full. `order` is the
+// sales order and `deliveries` all of its delivery orders, loaded with their `goods`.
+export const renderBastPdf = ({ order, deliveries, letterhead }) =>
+  renderPdf(`BAST ${order.po_number || order.order_number}`, (doc) => {
+    const rows = deliveries.flatMap((delivery) =>
+      (Array.isArray(delivery.goods) ? delivery.goods : []).map((item) => ({ ...item, delivery }))
+    );
+    const completedOn = deliveries
+      .map((delivery) => delivery.delivery_date)
+      .filter(Boolean)
+      .sort()
+      .pop();
+    const client = order.company_name || 'the client';
+    const reference = [
+      order.po_number ? `purchase order ${order.po_number}` : `sales order ${order.order_number}`,
+      order.project_name && `for project ${order.project_name}`,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    drawLetterhead(doc, letterhead);
+    drawTitle(doc, 'BERITA ACARA SERAH TERIMA');
+    drawDetails(
+      doc,
+      [
+        ['Client', order.company_name],
+        ['Attention', order.pic_name],
+        ['Project', order.project_name],
+      ],
+      [
+        ['Sales Order', order.order_number],
+        ['PO Number', order.po_number],
+        ['Delivered', formatDate(completedOn)],
+      ]
+    );
+    drawParagraph(
+      doc,
+      `The undersigned ${letterhead.company_name || 'supplier'} (First Party) hands over to ${client} (Second ` +
+        `Party), and the Second Party accepts, the goods below supplied under ${reference}. The goods were ` +
+        `delivered in full with the delivery notes listed and received complete and in good condition.`
+    );
+    drawTable(
+      doc,
+      [
+        { header: 'No', width: 0.06, align: 'center', value: (_row, index) => index + 1 },
+        {
+          header: 'Description',
+          width: 0.46,
+          value: (row) => [row.name, row.description].filter(Boolean).join('\n'),
+        },
+        { header: 'Qty', width: 0.1, align: 'right', value: (row) => formatNumber(row.qty) },
+        { header: 'Unit', width: 0.1, align: 'center', value: (row) => row.unit || '-' },
+        {
+          header: 'Delivery Note',
+          width: 0.28,
+          value: (row) => `${row.delivery.delivery_number}\n${formatDate(row.delivery.delivery_date)}`,
+        },
+      ],
+      rows
+    );
+    drawParagraph(
+      doc,
+      'This report is made in two copies, one for each party, and signed by both. With it the Second Party ' +
+        'accepts the goods and the First Party may invoice them.'
+    );
+    drawSignatures(doc, [
+      { heading: `First Party\n${letterhead.company_name || ''}`, name: null, title: 'Name, title & date' },
+      { heading: `Second Party\n${client}`, name: null, title: 'Name, title, stamp & date' },
+    ]);
+    drawFooters(doc, letterhead);
+  });
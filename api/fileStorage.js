@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { query } from './db.js';
+import { getMultipartBoundary, parseMultipart } from './multipart.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const uploadDir = path.join(__dirname, 'uploads');
+
+if (!fs.existsSync(uploadDir)) {
+  fs.mkdirSync(uploadDir, { recursive: true });
+}
+
+// What a file is attached to decides who may download it (see FILE_ACCESS_CHECKS in index.js).
+export const FILE_CONTEXTS = {
+  RFQ_ATTACHMENT: 'rfq_attachment',
+  SALES_ORDER_DOCUMENT: 'sales_order_document',
+  CHAT_ATTACHMENT: 'chat_attachment',
+  USER_PHOTO: 'user_photo',
+  COMPANY_LOGO: 'company_logo',
+};
+
+const MB = 1024 * 1024;
+
+const startsWith = (head, bytes, offset = 0) => bytes.every((byte, index) => head[offset + index] === byte);
+const ascii = (text) => [...text].map((char) => char.charCodeAt(0));
+const extensionOf = (name) => String(name || '').split('.').pop().toLowerCase();
+
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+const OLE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// Types are recognised from the file's leading bytes, never from the declared MIME type. Office formats share
+// the ZIP or OLE container signature, so the extension only picks between formats with a matching container.
+const FILE_TYPES = {
+  pdf: { mimeType: 'application/pdf', extension: 'pdf', matches: (head) => startsWith(head, ascii('%PDF-')) },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg', matches: (head) => startsWith(head, [0xff, 0xd8, 0xff]) },
+  png: {
+    mimeType: 'image/png',
+    extension: 'png',
+    matches: (head) => startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  gif: { mimeType: 'image/gif', extension: 'gif', matches: (head) => startsWith(head, ascii('GIF8')) },
+  webp: {
+    mimeType: 'image/webp',
+    extension: 'webp',
+    matches: (head) => startsWith(head, ascii('RIFF')) && startsWith(head, ascii('WEBP'), 8),
+  },
+  docx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx',
+    matches: (head, name) => startsWith(head, ZIP) && extensionOf(name) === 'docx',
+  },
+  xlsx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+    matches: (head, name) => startsWith(head, ZIP) && extensionOf(name) === 'xlsx',
+  },
+  pptx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    extension: 'pptx',
+    matches: (head, name) => startsWith(head, ZIP) && extensionOf(name) === 'pptx',
+  },
+  doc: {
+    mimeType: 'application/msword',
+    extension: 'doc',
+    matches: (head, name) => startsWith(head, OLE) && extensionOf(name) === 'doc',
+  },
+  xls: {
+    mimeType: 'application/vnd.ms-excel',
+    extension: 'xls',
+    matches: (head, name) => startsWith(head, OLE) && extensionOf(name) === 'xls',
+  },
+  ppt: {
+    mimeType: 'application/vnd.ms-powerpoint',
+    extension: 'ppt',
+    matches: (head, name) => startsWith(head, OLE) && extensionOf(name) === 'ppt',
+  },
+  mp3: {
+    mimeType: 'audio/mpeg',
+    extension: 'mp3',
+    matches: (head) => startsWith(head, ascii('ID3')) || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0),
+  },
+  ogg: { mimeType: 'audio/ogg', extension: 'ogg', matches: (head) => startsWith(head, ascii('OggS')) },
+  wav: {
+    mimeType: 'audio/wav',
+    extension: 'wav',
+    matches: (head) => startsWith(head, ascii('RIFF')) && startsWith(head, ascii('WAVE'), 8),
+  },
+  webm: { mimeType: 'audio/webm', extension: 'webm', matches: (head) => startsWith(head, [0x1a, 0x45, 0xdf, 0xa3]) },
+  m4a: {
+    mimeType: 'audio/mp4',
+    extension: 'm4a',
+    matches: (head, name) => startsWith(head, ascii('ftyp'), 4) && extensionOf(name) === 'm4a',
+  },
+};
+
+const SIGNATURE_BYTES = 12;
+const IMAGE_TYPES = ['jpeg', 'png', 'gif', 'webp'];
+const DOCUMENT_TYPES = ['pdf', ...IMAGE_TYPES, 'docx', 'xlsx', 'pptx', 'doc', 'xls', 'ppt'];
+const AUDIO_TYPES = ['mp3', 'ogg', 'wav', 'webm', 'm4a'];
+
+// Accepted types and size limit for each upload context.
+const UPLOAD_RULES = {
+  [FILE_CONTEXTS.RFQ_ATTACHMENT]: { types: DOCUMENT_TYPES, maxBytes: 5 * MB },
+  [FILE_CONTEXTS.SALES_ORDER_DOCUMENT]: { types: DOCUMENT_TYPES, maxBytes: 5 * MB },
+  [FILE_CONTEXTS.CHAT_ATTACHMENT]: { types: [...DOCUMENT_TYPES, ...AUDIO_TYPES], maxBytes: 5 * MB },
+  [FILE_CONTEXTS.USER_PHOTO]: { types: IMAGE_TYPES, maxBytes: 2 * MB },
+  [FILE_CONTEXTS.COMPANY_LOGO]: { types: IMAGE_TYPES, maxBytes: 2 * MB },
+};
+
+export const isUploadContext = (context) => Object.prototype.hasOwnProperty.call(UPLOAD_RULES, context);
+
+export class UploadError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const detectFileType = (head, name, allowedTypes) =>
+  allowedTypes.map((key) => FILE_TYPES[key]).find((type) => type.matches(head, name)) || null;
+
+const FILE_URL_PATTERN = /^\/api\/files\/([a-f0-9]{32})$/;
+
+export const buildFileUrl = (fileId) => `/api/files/${fileId}`;
+
+export const getFileIdFromUrl = (url) => (typeof url === 'string' ? url.match(FILE_URL_PATTERN)?.[1] || null : null);
+
+// Streams the `file` field of a multipart request to disk under a random name and records it in `files`.
+// The type is checked against the context's allow-list from the first bytes, before anything is written.
+export const saveUploadedFile = async (req, context, { uploadedBy = null } = {}) => {
+  const rules = UPLOAD_RULES[context];
+  const boundary = getMultipartBoundary(req.headers['content-type']);
+  if (!boundary) {
+    throw new UploadError(400, 'Expected a multipart/form-data upload');
+  }
+  const declaredLength = Number(req.headers['content-length']);
+  if (declaredLength > rules.maxBytes + 64 * 1024) {
+    throw new UploadError(413, `File is larger than ${rules.maxBytes / MB} MB`);
+  }
+
+  const fileId = crypto.randomBytes(16).toString('hex');
+  let saved = null;
+  let current = null;
+  let handle = null;
+  let storedPath = null;
+  let head = Buffer.alloc(0);
+  let sizeBytes = 0;
+
+  const startWriting = async () => {
+    const type = detectFileType(head, current.filename, rules.types);
+    if (!type) {
+      throw new UploadError(415, 'This file type is not allowed here');
+    }
+    saved = { type, name: current.filename };
+    storedPath = path.join(uploadDir, `${fileId}.${type.extension}`);
+    handle = await fs.promises.open(storedPath, 'wx');
+    await handle.write(head);
+  };
+
+  try {
+    for await (const event of parseMultipart(req, boundary)) {
+      if (event.type === 'part') {
+        current = !saved && event.part.name === 'file' && event.part.filename !== null ? event.part : null;
+      } else if (event.type === 'data' && current) {
+        sizeBytes += event.chunk.length;
+        if (sizeBytes > rules.maxBytes) {
+          throw new UploadError(413, `File is larger than ${rules.maxBytes / MB} MB`);
+        }
+        if (handle) {
+          await handle.write(event.chunk);
+        } else {
+          head = Buffer.concat([head, event.chunk]);
+          if (head.length >= SIGNATURE_BYTES) await startWriting();
+        }
+      } else if (event.type === 'part_end' && current) {
+        if (!handle && head.length) await startWriting();
+        current = null;
+      }
+    }
+    if (!handle) {
+      throw new UploadError(400, 'No file was uploaded');
+    }
+    await handle.close();
+    handle = null;
+  } catch (error) {
+    await handle?.close().catch(() => {});
+    if (storedPath) await fs.promises.unlink(storedPath).catch(() => {});
+    if (error instanceof UploadError) throw error;
+    throw new UploadError(400, error.message || 'Upload failed');
+  }
+
+  const file = {
+    id: fileId,
+    stored_name: path.basename(storedPath),
+    original_name: saved.name ? String(saved.name).slice(0, 255) : null,
+    mime_type: saved.type.mimeType,
+    size_bytes: sizeBytes,
+    context,
+    uploaded_by: uploadedBy,
+  };
+  try {
+    await query('INSERT INTO files SET ?', file);
+  } catch (error) {
+    await fs.promises.unlink(storedPath).catch(() => {});
+    throw error;
+  }
+  return file;
+};
+
+// A file the user uploaded for this context and is about to attach to a record.
+export const findUploadedFile = async (fileId, context, uploadedBy) => {
+  const file = await findStoredFile(fileId);
+  return file && file.context === context && String(file.uploaded_by) === String(uploadedBy) ? file : null;
+};
+
+export const findStoredFile = async (fileId) => {
+  if (!/^[a-f0-9]{32}$/.test(String(fileId))) return null;
+  const [file] = await query('SELECT * FROM files WHERE id = ? LIMIT 1', [fileId]);
+  return file || null;
+};
+
+export const getStoredFilePath = (file) => path.join(uploadDir, file.stored_name);
+
+// Files written before `files` existed were linked as `/uploads/<name>`; migration 010 registered them under that
+// name, so links still around resolve to the same tracked file.
+export const findStoredFileByName = async (filename) => {
+  const safeName = path.basename(String(filename || ''));
+  if (!safeName) return null;
+  const [file] = await query('SELECT * FROM files WHERE stored_name = ? LIMIT 1', [safeName]);
+  return file || null;
+};
@@ -0,0 +1,69 @@
+import { query } from './db.js';
+import { toLikePattern } from './listQuery.js';
+import { isSoftDeletable } from './recycleBin.js';
+
+// Record types covered by the header search, in the order their groups are returned. `columns` are matched
+// against the term; `title` and `subtitle` are what the result shows.
+const SEARCH_SOURCES = [
+  { table: 'rfqs', columns: ['rfq_number', 'company_name'], title: 'rfq_number', subtitle: ['company_name'] },
+  {
+    table: 'quotations',
+    columns: ['quotation_number', 'company_name'],
+    title: 'quotation_number',
+    subtitle: ['company_name'],
+  },
+  {
+    table: 'sales_orders',
+    columns: ['order_number', 'po_number', 'project_name', 'company_name'],
+    title: 'order_number',
+    subtitle: ['po_number', 'company_name'],
+  },
+  {
+    table: 'delivery_orders',
+    columns: ['delivery_number', 'company_name'],
+    title: 'delivery_number',
+    subtitle: ['company_name'],
+  },
+  {
+    table: 'invoices',
+    columns: ['invoice_number', 'company_name'],
+    title: 'invoice_number',
+    subtitle: ['company_name'],
+  },
+  { table: 'clients', columns: ['company_name', 'email'], title: 'company_name', subtitle: ['email'] },
+  { table: 'suppliers', columns: ['name', 'contact_person'], title: 'name', subtitle: ['city'] },
+  { table: 'goods', columns: ['sku', 'name'], title: 'name', subtitle: ['sku'] },
+];
+
+export const MIN_SEARCH_LENGTH = 2;
+const RESULTS_PER_TYPE = 5;
+
+const searchSource = async (source, pattern) => {
+  const notDeleted = isSoftDeletable(source.table) ? ' AND deleted_at IS NULL' : '';
+  const rows = await query(
+    `SELECT id, ?? AS title, CONCAT_WS(?, ${source.subtitle.map(() => 'NULLIF(??, \'\')').join(', ')}) AS subtitle
+     FROM ??
+     WHERE (${source.columns.map(() => '?? LIKE ?').join(' OR ')})${notDeleted}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ?`,
+    [
+      source.title,
+      ' · ',
+      ...source.subtitle,
+      source.table,
+      ...source.columns.flatMap((column) => [column, pattern]),
+      RESULTS_PER_TYPE,
+    ]
+  );
+  return rows.map((row) => ({ id: row.id, title: row.title, subtitle: row.subtitle || null }));
+};
+
+// Newest matches per record type the caller may read, grouped by table. Types without matches are left out.
+export const searchRecords = async (term, canRead) => {
+  const pattern = toLikePattern(term);
+  const sources = SEARCH_SOURCES.filter((source) => canRead(source.table));
+  const results = await Promise.all(sources.map((source) => searchSource(source, pattern)));
+  return sources
+    .map((source, index) => ({ type: source.table, results: results[index] }))
+    .filter((group) => group.results.length);
+};
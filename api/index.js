@@ -1,33 +1,115 @@
 import express from 'express';
 import cors from 'cors';
-import path from 'path';
-import fs from 'fs';
 import crypto from 'crypto';
 import { promisify } from 'util';
-import { fileURLToPath } from 'url';
 import net from 'net';
 import tls from 'tls';
 import http from 'http';
 import { Server as SocketIOServer } from 'socket.io';
-import { loadEnv, query } from './db.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import QRCode from 'qrcode';
+import {
+  calculateLineSubtotal,
+  calculateTotals,
+  findTotalsMismatch,
+  validatePricedItems,
+} from '../shared/pricing.js';
+import { loadEnv, query, withTransaction } from './db.js';
+import {
+  CAPABILITIES,
+  SCOPES,
+  SUPERADMIN_ROLE,
+  can,
+  getRoleGrants,
+  getRolePermissions,
+  getRoles,
+  getRolesWith,
+  invalidatePermissions,
+  isCapability,
+  isOwnableCapability,
+  loadPermissions,
+  roleExists,
+} from './permissions.js';
+import {
+  buildOtpauthUrl,
+  generateBackupCodes,
+  generateTotpSecret,
+  hashBackupCode,
+  verifyTotp,
+} from './totp.js';
+import {
+  accountThrottleKey,
+  clearFailures,
+  formatRetryAfter,
+  getLockedAccounts,
+  getRetryAfter,
+  identifierThrottleKey,
+  ipThrottleKey,
+  recordFailure,
+} from './authThrottle.js';
+import {
+  buildFileUrl,
+  FILE_CONTEXTS,
+  findStoredFile,
+  findStoredFileByName,
+  findUploadedFile,
+  getFileIdFromUrl,
+  getStoredFilePath,
+  isUploadContext,
+  saveUploadedFile,
+  UploadError,
+} from './fileStorage.js';
+import { ListQueryError, parseListQuery } from './listQuery.js';
+import { MIN_SEARCH_LENGTH, searchRecords } from './globalSearch.js';
+import {
+  DocumentEmailError,
+  buildEmailDraft,
+  describeDocument,
+  isEmailableDocument,
+  listDocumentEmails,
+  logDocumentEmail,
+  parseRecipients,
+  textToHtml,
+} from './documentEmails.js';
+import {
+  formatRupiah,
+  getPdfFilename,
+  loadLetterhead,
+  renderBastPdf,
+  renderDeliveryNotePdf,
+  renderInvoicePdf,
+  renderQuotationPdf,
+} from './documentPdf.js';
+import { DOCUMENT_NUMBERS, allocateDocumentNumber, validateNumberFormat } from './documentNumbers.js';
+import {
+  RecycleBinError,
+  describeRecord,
+  isSoftDeletable,
+  listRecycleBin,
+  purgeRecord,
+  restoreRecord,
+  softDeleteRecord,
+} from './recycleBin.js';
+import {
+  assertDeliveredLinesKept,
+  attachLineItems,
+  buildDeliveryItems,
+  getLineItems,
+  isFullyShipped,
+  LineItemError,
+  saveLineItems,
+} from './lineItems.js';
 
 loadEnv();
 
 const app = express();
+// Needed behind a reverse proxy so per-IP login throttling sees the client address.
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', process.env.TRUST_PROXY);
+}
 const server = http.createServer(app);
 const port = Number(process.env.PORT || process.env.SERVER_PORT || 4000);
-const uploadDir = path.join(__dirname, 'uploads');
-
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
 app.use(cors());
-app.use(express.json({ limit: '15mb' }));
-app.use('/uploads', express.static(uploadDir));
+app.use(express.json({ limit: '1mb' }));
 
 const io = new SocketIOServer(server, {
   cors: {
@@ -36,7 +118,6 @@ const io = new SocketIOServer(server, {
   },
 });
 
-const CHAT_ROLES = new Set(['superadmin', 'admin', 'manager', 'staff']);
 const CHAT_ROOM = 'shared';
 const CHAT_RETENTION_DAYS = 7;
 
@@ -74,15 +155,14 @@ const fetchChatHistory = async () => {
   );
 };
 
-const normalizeChatAttachment = (attachment) => {
+const normalizeChatAttachment = async (attachment, uploadedBy) => {
   if (!attachment || typeof attachment !== 'object') return null;
-  const { data, name, type } = attachment;
-  if (!data || typeof data !== 'string') return null;
-  const url = saveBase64File(data, 'chat-attachment');
+  const file = await findUploadedFile(attachment.file_id, FILE_CONTEXTS.CHAT_ATTACHMENT, uploadedBy);
+  if (!file) return null;
   return {
-    url,
-    name: name || 'attachment',
-    type: type || 'application/octet-stream',
+    url: buildFileUrl(file.id),
+    name: file.original_name || 'attachment',
+    type: file.mime_type,
   };
 };
 
@@ -109,59 +189,121 @@ const TABLES = [
 
 const isValidTable = (name) => TABLES.includes(name);
 
-const saveBase64File = (fileData, filenamePrefix = 'upload') => {
-  const matches = fileData.match(/^data:(.+);base64,(.+)$/);
-  if (!matches || matches.length !== 3) {
-    throw new Error('Invalid file data');
+// Column holding the owning user for tables whose permissions grant access to owners.
+const OWNER_COLUMNS = {
+  rfqs: 'performed_by',
+  quotations: 'performed_by',
+  users: 'id',
+  activity_logs: 'user_id',
+};
+
+const isRecordOwner = async (table, id, userId) => {
+  const ownerColumn = OWNER_COLUMNS[table];
+  if (!ownerColumn || !userId) return false;
+  const [row] = await query('SELECT ?? AS owner_id FROM ?? WHERE id = ? LIMIT 1', [ownerColumn, table, id]);
+  return Boolean(row?.owner_id) && String(row.owner_id) === String(userId);
+};
+
+const FORBIDDEN_MESSAGE = 'You do not have permission to perform this action';
+
+const forbidden = (res, message = FORBIDDEN_MESSAGE) => res.status(403).json({ error: message });
+
+// Thrown inside a transaction to roll it back and answer the request with `status`.
+class RequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
   }
+}
 
-  const mimeType = matches[1];
-  const extensionMap = {
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
-    'application/msword': 'doc',
-  };
-  const extension = extensionMap[mimeType] || mimeType.split('/')[1] || 'bin';
-  const buffer = Buffer.from(matches[2], 'base64');
-  const filename = `${filenamePrefix}-${Date.now()}.${extension}`;
-  const filePath = path.join(uploadDir, filename);
+// Thrown when an update was based on an older version of the record than the one stored.
+class VersionConflictError extends Error {
+  constructor() {
+    super('This record changed while you were editing');
+  }
+}
 
-  fs.writeFileSync(filePath, buffer);
+// Tables whose records carry a `version` that every update increments.
+const VERSIONED_TABLES = [
+  'clients',
+  'suppliers',
+  'goods',
+  'rfqs',
+  'quotations',
+  'sales_orders',
+  'delivery_orders',
+  'invoices',
+];
 
-  return `/uploads/${filename}`;
+const parseVersion = (value) =>
+  value === undefined || value === null || value === '' || !Number.isInteger(Number(value)) ? null : Number(value);
+
+// Increments the record's version; call it in the update's transaction so a failed update gives it back. When
+// the client sent the version it loaded and someone has saved the record since, throws a VersionConflictError.
+const claimVersion = async (db, table, id, expectedVersion) => {
+  const result = await db.query('UPDATE ?? SET version = version + 1 WHERE id = ? AND (? IS NULL OR version = ?)', [
+    table,
+    id,
+    expectedVersion,
+    expectedVersion,
+  ]);
+  if (!result.affectedRows) {
+    throw new VersionConflictError();
+  }
 };
 
-const saveBase64Image = (photoData, filenamePrefix = 'user') => saveBase64File(photoData, filenamePrefix);
+const omitUserSecrets = ({
+  password: _password,
+  totp_secret: _totpSecret,
+  totp_last_step: _totpLastStep,
+  totp_backup_codes: _totpBackupCodes,
+  ...user
+}) => ({ ...user, totp_enabled: Boolean(user.totp_enabled) });
+
+// Sales order documents the order flow looks for, by their `type`; other documents have none. A `BAST` is the
+// handover report signed by the client, required before an order moves to waiting payment.
+const ORDER_DOCUMENT_TYPES = ['BAST'];
+
+const hasOrderDocument = (documents, type) => documents.some((doc) => doc?.type === type);
 
-const normalizeDocumentsPayload = (documents = [], filenamePrefix = 'document') => {
+// Documents either keep a URL the order already had or reference a file the user just uploaded, so an
+// order cannot be used to expose someone else's upload.
+const normalizeDocumentsPayload = async (documents = [], uploadedBy = null, existingDocuments = []) => {
   if (!Array.isArray(documents)) return [];
-  return documents
-    .map((doc) => {
+  const existingUrls = new Set(existingDocuments.map((doc) => doc?.url).filter(Boolean));
+  const normalized = await Promise.all(
+    documents.map(async (doc) => {
       if (!doc) return null;
+      const type = ORDER_DOCUMENT_TYPES.includes(doc.type) ? { type: doc.type } : {};
       if (doc.url) {
-        return { name: doc.name || 'document', url: doc.url };
-      }
-      if (doc.data && typeof doc.data === 'string') {
-        try {
-          const url = saveBase64File(doc.data, filenamePrefix);
-          return { name: doc.name || 'document', url };
-        } catch (error) {
-          console.error('Failed to save document', error);
-          return null;
-        }
+        return existingUrls.has(doc.url) ? { name: doc.name || 'document', url: doc.url, ...type } : null;
       }
-      return null;
+      const file = await findUploadedFile(doc.file_id, FILE_CONTEXTS.SALES_ORDER_DOCUMENT, uploadedBy);
+      return file
+        ? { name: doc.name || file.original_name || 'document', url: buildFileUrl(file.id), ...type }
+        : null;
     })
-    .filter(Boolean);
+  );
+  return normalized.filter(Boolean);
 };
 
-const normalizeSettingsPayload = (payload = {}, id) => {
-  const { logo_data: logoData, logo_url: logoUrl, performed_by: _performedBy, performedBy: _performedByAlt, ...rest } = payload;
+const normalizeSettingsPayload = async (payload = {}, uploadedBy = null) => {
+  const { logo_file_id: logoFileId, logo_url: logoUrl, performed_by: _performedBy, performedBy: _performedByAlt, ...rest } = payload;
   const nextPayload = { ...rest };
-  if (logoData && typeof logoData === 'string') {
-    nextPayload.logo_url = saveBase64File(logoData, id ? `company-logo-${id}` : 'company-logo');
+  const logoFile = logoFileId ? await findUploadedFile(logoFileId, FILE_CONTEXTS.COMPANY_LOGO, uploadedBy) : null;
+  if (logoFile) {
+    nextPayload.logo_url = buildFileUrl(logoFile.id);
   } else if (logoUrl !== undefined) {
     nextPayload.logo_url = logoUrl;
   }
+  for (const { setting } of Object.values(DOCUMENT_NUMBERS)) {
+    if (nextPayload[setting] === undefined) continue;
+    const formatError = validateNumberFormat(nextPayload[setting]);
+    if (formatError) {
+      throw new RequestError(400, formatError);
+    }
+    nextPayload[setting] = nextPayload[setting].trim();
+  }
   return nextPayload;
 };
 
@@ -230,7 +372,6 @@ const hashPassword = async (password) => {
   return `${PASSWORD_HASH_PREFIX}${salt}:${derivedKey.toString('hex')}`;
 };
 
-const generateDefaultPassword = () => crypto.randomBytes(6).toString('base64url');
 
 const verifyPassword = async (password, storedHash) => {
   if (!storedHash) return false;
@@ -251,6 +392,210 @@ const verifyPassword = async (password, storedHash) => {
 
 const preventSuperadminCreation = (role) => role === 'superadmin';
 
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 30;
+const REFRESH_TOKEN_TTL_SECONDS = 60 * 60 * 12;
+const SETUP_TOKEN_TTL_SECONDS = 60 * 30;
+const TWO_FACTOR_TOKEN_TTL_SECONDS = 60 * 5;
+
+// Roles that must sign in with an authenticator app code in addition to their password.
+const TWO_FACTOR_ROLES = ['superadmin', 'manager'];
+const TWO_FACTOR_ISSUER = 'RGI NexaProc';
+// Download links embedded in emails work without signing in, so they expire.
+const FILE_LINK_TTL_SECONDS = 60 * 60 * 24;
+
+const authTokenSecret = process.env.AUTH_TOKEN_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.AUTH_TOKEN_SECRET) {
+  console.warn('AUTH_TOKEN_SECRET is not set; sessions will be invalidated when the API restarts');
+}
+
+const signTokenPayload = (encodedPayload) =>
+  crypto.createHmac('sha256', authTokenSecret).update(encodedPayload).digest('base64url');
+
+const createSignedToken = (payload, ttlSeconds) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const encodedPayload = Buffer.from(
+    JSON.stringify({ ...payload, iat: issuedAt, exp: issuedAt + ttlSeconds })
+  ).toString('base64url');
+  return `${encodedPayload}.${signTokenPayload(encodedPayload)}`;
+};
+
+// Returns the token payload, `{ expired: true }` for a well-signed but expired token, or null.
+const verifySignedToken = (token, expectedType) => {
+  if (!token || typeof token !== 'string') return null;
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return null;
+
+  const expectedSignature = signTokenPayload(encodedPayload);
+  const signatureBuffer = Buffer.from(signature);
+  const expectedBuffer = Buffer.from(expectedSignature);
+  if (signatureBuffer.length !== expectedBuffer.length || !crypto.timingSafeEqual(signatureBuffer, expectedBuffer)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    if (payload.typ !== expectedType || !payload.sub) return null;
+    if (!payload.exp || payload.exp <= Math.floor(Date.now() / 1000)) return { expired: true };
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+const issueSessionTokens = (userId, sessionId) => ({
+  access_token: createSignedToken({ sub: userId, sid: sessionId, typ: 'access' }, ACCESS_TOKEN_TTL_SECONDS),
+  refresh_token: createSignedToken({ sub: userId, sid: sessionId, typ: 'refresh' }, REFRESH_TOKEN_TTL_SECONDS),
+  expires_at: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000).toISOString(),
+});
+
+// Every signed-in device gets a row in user_sessions; tokens carry its id so the session can be revoked.
+const startSession = async (userId, req) => {
+  const sessionId = crypto.randomBytes(16).toString('hex');
+  await query(
+    'INSERT INTO user_sessions (id, user_id, ip_address, user_agent, expires_at) VALUES (?, ?, ?, ?, ?)',
+    [
+      sessionId,
+      userId,
+      req.ip || null,
+      String(req.get('user-agent') || '').slice(0, 255) || null,
+      new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+    ]
+  );
+  return issueSessionTokens(userId, sessionId);
+};
+
+const isSessionActive = async (payload) => {
+  if (!payload.sid) return false;
+  const [session] = await query(
+    'SELECT id FROM user_sessions WHERE id = ? AND user_id = ? AND revoked_at IS NULL AND expires_at > NOW() LIMIT 1',
+    [payload.sid, payload.sub]
+  );
+  return Boolean(session);
+};
+
+// Activity is recorded at most once a minute per session to keep authenticated requests cheap.
+const touchSession = (sessionId, ipAddress) =>
+  query(
+    'UPDATE user_sessions SET last_seen_at = NOW(), ip_address = ? WHERE id = ? AND (last_seen_at IS NULL OR last_seen_at < NOW() - INTERVAL 1 MINUTE)',
+    [ipAddress || null, sessionId]
+  );
+
+// Revokes the user's sessions (all, or only `sessionId`) and drops their open chat sockets.
+const revokeSessions = async (userId, { sessionId = null, exceptSessionId = null } = {}) => {
+  const conditions = ['user_id = ?', 'revoked_at IS NULL'];
+  const params = [userId];
+  if (sessionId) {
+    conditions.push('id = ?');
+    params.push(sessionId);
+  }
+  if (exceptSessionId) {
+    conditions.push('id <> ?');
+    params.push(exceptSessionId);
+  }
+  const result = await query(`UPDATE user_sessions SET revoked_at = NOW() WHERE ${conditions.join(' AND ')}`, params);
+
+  for (const socket of await io.fetchSockets()) {
+    const socketSession = socket.data.sessionId;
+    const matches =
+      String(socket.data.sessionUser?.id) === String(userId) &&
+      (!sessionId || socketSession === sessionId) &&
+      (!exceptSessionId || socketSession !== exceptSessionId);
+    if (matches) socket.disconnect(true);
+  }
+  return result.affectedRows || 0;
+};
+
+const issueSetupToken = (userId) => createSignedToken({ sub: userId, typ: 'setup' }, SETUP_TOKEN_TTL_SECONDS);
+
+const issueTwoFactorToken = (userId) =>
+  createSignedToken({ sub: userId, typ: 'two_factor' }, TWO_FACTOR_TOKEN_TTL_SECONDS);
+
+const requiresTwoFactor = (user) => TWO_FACTOR_ROLES.includes(user.role);
+
+// Absolute link into the web app, e.g. `buildAppUrl('/quotations/12')`.
+const buildAppUrl = (path) => `${process.env.APP_BASE_URL || 'http://localhost:5173'}${path}`;
+
+// Absolute, time-limited link to a stored file for use outside the app; null for legacy or external URLs.
+const buildSignedFileUrl = (url) => {
+  const fileId = getFileIdFromUrl(url);
+  if (!fileId) return null;
+  const apiBaseUrl = process.env.API_PUBLIC_URL || `http://localhost:${port}`;
+  const token = createSignedToken({ sub: fileId, typ: 'file' }, FILE_LINK_TTL_SECONDS);
+  return `${apiBaseUrl}${url}?token=${token}`;
+};
+
+const getBearerToken = (req) => {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+};
+
+const buildSessionProfile = (user) => ({
+  id: user.id,
+  email: user.email,
+  username: user.username,
+  full_name: user.full_name,
+  role: user.role,
+  phone: user.phone,
+  photo_url: user.photo_url,
+  two_factor_enabled: Boolean(user.totp_enabled),
+  two_factor_required: requiresTwoFactor(user),
+});
+
+// Password (or Google) checks passed: finish setup first, then ask for the authenticator code, then sign in.
+const buildLoginResponse = async (user, req) => {
+  const profile = buildSessionProfile(user);
+  const requiresSetup = !user.username || user.password_reset_required === 1;
+  if (requiresSetup) {
+    return { profile, requires_setup: true, setup_token: issueSetupToken(user.id) };
+  }
+  if (user.totp_enabled) {
+    return { profile, requires_two_factor: true, two_factor_token: issueTwoFactorToken(user.id) };
+  }
+  return { profile, requires_setup: false, session: await startSession(user.id, req) };
+};
+
+const findSessionUser = async (userId) => {
+  const [user] = await query(
+    "SELECT id, email, full_name, role, phone, photo_url, username, totp_enabled FROM users WHERE id = ? AND status = 'active' LIMIT 1",
+    [userId]
+  );
+  return user || null;
+};
+
+const requireAuth = async (req, res, next) => {
+  const payload = verifySignedToken(getBearerToken(req), 'access');
+  if (!payload) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (payload.expired) {
+    return res.status(401).json({ error: 'Session expired', code: 'token_expired' });
+  }
+
+  try {
+    if (!(await isSessionActive(payload))) {
+      return res.status(401).json({ error: 'Session has been signed out', code: 'session_revoked' });
+    }
+    const user = await findSessionUser(payload.sub);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await touchSession(payload.sid, req.ip);
+    if (requiresTwoFactor(user) && !user.totp_enabled && !req.path.startsWith('/api/auth/')) {
+      return res
+        .status(403)
+        .json({ error: 'Two-factor authentication must be enabled for this account', code: 'two_factor_required' });
+    }
+    await loadPermissions();
+    req.user = user;
+    req.sessionId = payload.sid;
+    return next();
+  } catch (error) {
+    console.error('Auth lookup error', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 const logActivity = async ({ performedBy, entityType, entityId, action, description }) => {
   if (!performedBy || !entityType || !entityId || !action) return;
 
@@ -275,84 +620,75 @@ const parseJsonArray = (value, fallback = []) => {
   }
 };
 
-const romanMonths = [
-  'I',
-  'II',
-  'III',
-  'IV',
-  'V',
-  'VI',
-  'VII',
-  'VIII',
-  'IX',
-  'X',
-  'XI',
-  'XII',
-];
+const buildInvoiceGoods = (orderGoods) =>
+  orderGoods.map((item, index) => ({
+    no: index + 1,
+    sales_order_item_id: item.id || null,
+    good_id: item.good_id || null,
+    goods: item.name || null,
+    description: item.description || null,
+    unit: item.unit || null,
+    qty: Number(item.qty) || 0,
+    price: Number(item.price) || 0,
+    discount: Number(item.discount) || 0,
+    subtotal: calculateLineSubtotal(item),
+  }));
 
-const formatInvoiceNumber = (sequence, date = new Date()) => {
-  const padded = String(sequence).padStart(4, '0');
-  const monthRoman = romanMonths[date.getMonth()] || romanMonths[0];
-  const year = date.getFullYear();
-  return `${padded}/RGI/INV/${monthRoman}/${year}`;
+const getSettingsTaxRate = async (db) => {
+  const [settings] = await db.query('SELECT tax_rate FROM `settings` ORDER BY id ASC LIMIT 1');
+  return Number(settings?.tax_rate) || 0;
 };
 
-const getNextInvoiceSequence = async (year) => {
-  const [row] = await query(
-    'SELECT COUNT(*) as count FROM invoices WHERE YEAR(COALESCE(invoice_date, created_at)) = ?',
-    [year]
-  );
-  return Number(row?.count || 0) + 1;
-};
+const TOTAL_LABELS = { total_amount: 'Total', tax_amount: 'Tax', grand_total: 'Grand total' };
 
-const buildInvoiceGoods = (orderGoods) =>
-  orderGoods.map((item, index) => {
-    const qty = Number(item.qty) || 0;
-    const price = Number(item.price) || 0;
-    return {
-      no: index + 1,
-      goods: item.name || null,
-      description: item.description || null,
-      unit: item.unit || null,
-      qty,
-      price,
-      subtotal: qty * price,
-    };
-  });
+// Totals of a quotation or sales order computed from its lines, as the columns to store. Totals sent with the
+// request are only checked against them, so a form pricing with stale lines or an old tax rate is refused.
+const priceDocument = (items, submitted, { taxRate, includeTax }) => {
+  const invalidItem = validatePricedItems(items);
+  if (invalidItem) {
+    throw new RequestError(400, invalidItem);
+  }
+  const totals = calculateTotals(items, { taxRate, includeTax });
+  const mismatch = findTotalsMismatch(submitted, totals);
+  if (mismatch) {
+    throw new RequestError(
+      400,
+      `${TOTAL_LABELS[mismatch.field]} does not match the line items; expected ${formatCurrency(mismatch.expected)}`
+    );
+  }
+  return {
+    total_amount: totals.totalAmount,
+    tax_amount: totals.taxAmount,
+    grand_total: totals.grandTotal,
+    tax_rate: Number(taxRate) || 0,
+    include_tax: includeTax ? 1 : 0,
+  };
+};
 
-const resolveInvoiceTotals = (order, invoiceGoods) => {
-  const subtotal =
-    order?.total_amount !== undefined && order?.total_amount !== null
-      ? Number(order.total_amount) || 0
-      : invoiceGoods.reduce((sum, item) => sum + (Number(item.subtotal) || 0), 0);
-  const taxAmount =
-    order?.tax_amount !== undefined && order?.tax_amount !== null ? Number(order.tax_amount) || 0 : 0;
-  const grandTotal =
-    order?.grand_total !== undefined && order?.grand_total !== null
-      ? Number(order.grand_total) || subtotal + taxAmount
-      : subtotal + taxAmount;
-  return { subtotal, taxAmount, grandTotal };
-};
-
-const createInvoiceForOrder = async (order, performedBy) => {
+// Creates the invoice of a sales order inside the caller's transaction, which must hold the order's row lock so
+// two approvals cannot both create one. Returns null when the order already has an invoice outside the recycle bin.
+const createInvoiceForOrder = async (order, db) => {
   if (!order?.id) return null;
-  const [existingInvoice] = await query(
-    'SELECT id FROM invoices WHERE sales_order_id = ? LIMIT 1',
+  const [existingInvoice] = await db.query(
+    'SELECT id FROM invoices WHERE sales_order_id = ? AND deleted_at IS NULL LIMIT 1',
     [order.id]
   );
   if (existingInvoice) return null;
 
-  const orderGoods = parseJsonArray(order.goods);
+  const orderGoods = (await getLineItems('sales_orders', [order.id], db))[String(order.id)] || [];
   const invoiceGoods = buildInvoiceGoods(orderGoods);
   const now = new Date();
   const invoiceDate = formatDateOnly(now);
-  const sequence = await getNextInvoiceSequence(now.getFullYear());
-  const invoiceNumber = formatInvoiceNumber(sequence, now);
-  const { subtotal, taxAmount, grandTotal } = resolveInvoiceTotals(order, invoiceGoods);
+  const invoiceNumber = await allocateDocumentNumber('invoices', db, now);
+  // Priced like the order it bills, even if the tax rate in settings has changed since.
+  const pricing = priceDocument(invoiceGoods, null, {
+    taxRate: order.tax_rate ?? (await getSettingsTaxRate(db)),
+    includeTax: Boolean(order.include_tax),
+  });
 
   let client = null;
   if (order.client_id) {
-    const [clientRow] = await query('SELECT * FROM `clients` WHERE id = ? LIMIT 1', [
+    const [clientRow] = await db.query('SELECT * FROM `clients` WHERE id = ? LIMIT 1', [
       order.client_id,
     ]);
     client = clientRow || null;
@@ -360,7 +696,7 @@ const createInvoiceForOrder = async (order, performedBy) => {
 
   let quotation = null;
   if (order.quotation_id) {
-    const [quotationRow] = await query('SELECT * FROM `quotations` WHERE id = ? LIMIT 1', [
+    const [quotationRow] = await db.query('SELECT * FROM `quotations` WHERE id = ? LIMIT 1', [
       order.quotation_id,
     ]);
     quotation = quotationRow || null;
@@ -374,25 +710,14 @@ const createInvoiceForOrder = async (order, performedBy) => {
     billing_address: client?.address || null,
     payment_time: quotation?.payment_time || order.payment_time || null,
     invoice_date: invoiceDate,
-    goods: JSON.stringify(invoiceGoods),
-    total_amount: subtotal,
-    tax_amount: taxAmount,
-    grand_total: grandTotal,
+    ...pricing,
     status: 'overdue',
     paid_date: null,
   };
 
-  const result = await query('INSERT INTO `invoices` SET ?', [invoicePayload]);
-
-  await logActivity({
-    performedBy,
-    entityType: 'invoices',
-    entityId: result.insertId,
-    action: 'create',
-    description: `Auto-created invoice ${invoiceNumber}`,
-  });
-
-  return result.insertId;
+  const result = await db.query('INSERT INTO `invoices` SET ?', [invoicePayload]);
+  await saveLineItems('invoices', result.insertId, invoiceGoods, db);
+  return { id: result.insertId, invoice_number: invoiceNumber };
 };
 
 const attachSuppliersToGoods = async (goodsRows) => {
@@ -421,6 +746,36 @@ const attachSuppliersToGoods = async (goodsRows) => {
   }));
 };
 
+const rejectInactiveAccount = (res) =>
+  res.status(403).json({ error: 'This account has been deactivated', code: 'account_inactive' });
+
+const rejectThrottled = (res, retryAfter) => {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    error: `Too many attempts. Try again in ${formatRetryAfter(retryAfter)}.`,
+    code: 'too_many_attempts',
+    retry_after: retryAfter,
+  });
+};
+
+const recordLoginFailure = async (user, throttleKeys) => {
+  const lockedKeys = await recordFailure('login', throttleKeys);
+  if (!lockedKeys.length) return;
+
+  if (user && lockedKeys.some((key) => key.type === 'identifier')) {
+    await logActivity({
+      performedBy: user.id,
+      entityType: 'auth',
+      entityId: user.id,
+      action: 'lockout',
+      description: 'Account locked after repeated failed sign-in attempts',
+    });
+  }
+  if (lockedKeys.some((key) => key.type === 'ip')) {
+    console.warn(`Login attempts from ${throttleKeys.find((key) => key.type === 'ip')?.value} temporarily blocked`);
+  }
+};
+
 app.post('/api/auth/login', async (req, res) => {
   const { identifier, email, password } = req.body;
   const loginIdentifier = identifier || email;
@@ -431,18 +786,25 @@ app.post('/api/auth/login', async (req, res) => {
 
   try {
     const rows = await query(
-      'SELECT id, email, full_name, role, password, phone, photo_url, username, password_reset_required FROM users WHERE email = ? OR username = ? LIMIT 1',
+      'SELECT id, email, full_name, role, password, phone, photo_url, username, password_reset_required, totp_enabled, status FROM users WHERE email = ? OR username = ? LIMIT 1',
       [loginIdentifier, normalizeUsername(loginIdentifier)]
     );
 
-    if (rows.length === 0) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+    const accountKey = rows[0] ? accountThrottleKey(rows[0].id) : identifierThrottleKey(loginIdentifier);
+    const throttleKeys = [accountKey, ipThrottleKey(req.ip)];
+    const retryAfter = await getRetryAfter('login', throttleKeys);
+    if (retryAfter > 0) {
+      return rejectThrottled(res, retryAfter);
     }
 
-    const passwordValid = await verifyPassword(password, rows[0].password);
+    const passwordValid = rows.length > 0 && (await verifyPassword(password, rows[0].password));
     if (!passwordValid) {
+      await recordLoginFailure(rows[0], throttleKeys);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
+    if (rows[0].status !== 'active') {
+      return rejectInactiveAccount(res);
+    }
 
     if (!isPasswordHashed(rows[0].password)) {
       try {
@@ -453,16 +815,6 @@ app.post('/api/auth/login', async (req, res) => {
       }
     }
 
-    const profile = {
-      id: rows[0].id,
-      email: rows[0].email,
-      username: rows[0].username,
-      full_name: rows[0].full_name,
-      role: rows[0].role,
-      phone: rows[0].phone,
-      photo_url: rows[0].photo_url,
-    };
-
     await logActivity({
       performedBy: rows[0].id,
       entityType: 'auth',
@@ -470,22 +822,190 @@ app.post('/api/auth/login', async (req, res) => {
       action: 'login',
       description: 'User logged in',
     });
-    const requiresSetup = !rows[0].username || rows[0].password_reset_required === 1;
-    return res.json({ profile, requires_setup: requiresSetup });
+    const loginResponse = await buildLoginResponse(rows[0], req);
+    // With two-factor pending the counter is only cleared once the code is verified.
+    if (!loginResponse.requires_two_factor) {
+      await clearFailures('login', [accountKey]);
+    }
+    return res.json(loginResponse);
   } catch (error) {
     console.error('Login error', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.post('/api/auth/logout', async (req, res) => {
-  const { user_id: userId } = req.body || {};
+app.post('/api/auth/refresh', async (req, res) => {
+  const { refresh_token: refreshToken } = req.body || {};
+  const payload = verifySignedToken(refreshToken, 'refresh');
+
+  if (!payload || payload.expired) {
+    return res.status(401).json({ error: 'Session expired', code: 'token_expired' });
+  }
+
+  try {
+    if (!(await isSessionActive(payload))) {
+      return res.status(401).json({ error: 'Session has been signed out', code: 'session_revoked' });
+    }
+    const user = await findSessionUser(payload.sub);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await query('UPDATE user_sessions SET last_seen_at = NOW(), ip_address = ?, expires_at = ? WHERE id = ?', [
+      req.ip || null,
+      new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+      payload.sid,
+    ]);
+    return res.json({ profile: buildSessionProfile(user), session: issueSessionTokens(user.id, payload.sid) });
+  } catch (error) {
+    console.error('Refresh session error', error);
+    return res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+app.get('/api/auth/me', requireAuth, async (req, res) => res.json({ profile: buildSessionProfile(req.user) }));
+
+app.get('/api/auth/permissions', requireAuth, async (req, res) =>
+  res.json({ role: req.user.role, permissions: getRolePermissions(req.user.role) })
+);
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{1,49}$/;
+
+const requireSuperadmin = (req, res, next) => {
+  if (req.user.role !== SUPERADMIN_ROLE) return forbidden(res);
+  return next();
+};
+
+const buildPermissionMatrix = () => ({
+  capabilities: CAPABILITIES,
+  roles: getRoles(),
+  grants: Object.fromEntries(getRoles().map((role) => [role.name, getRoleGrants(role.name)])),
+});
+
+app.get('/api/roles', requireAuth, async (_req, res) => res.json(getRoles()));
+
+app.get('/api/roles/permissions', requireAuth, requireSuperadmin, async (_req, res) => res.json(buildPermissionMatrix()));
+
+app.post('/api/roles', requireAuth, requireSuperadmin, async (req, res) => {
+  const name = String(req.body?.name || '')
+    .trim()
+    .toLowerCase();
+  const label = String(req.body?.label || '').trim() || name;
+
+  if (!ROLE_NAME_PATTERN.test(name)) {
+    return res
+      .status(400)
+      .json({ error: 'Role name must start with a letter and use only lowercase letters, numbers, "-" or "_".' });
+  }
+  if (roleExists(name)) {
+    return res.status(409).json({ error: 'Role already exists' });
+  }
 
   try {
+    const result = await query('INSERT INTO roles (name, label, is_system) VALUES (?, ?, 0)', [name, label]);
+    invalidatePermissions();
+    await loadPermissions();
     await logActivity({
-      performedBy: userId,
+      performedBy: req.user.id,
+      entityType: 'roles',
+      entityId: result.insertId,
+      action: 'create',
+      description: `Created role ${name}`,
+    });
+    return res.status(201).json(buildPermissionMatrix());
+  } catch (error) {
+    console.error('Create role error', error);
+    return res.status(500).json({ error: 'Failed to create role' });
+  }
+});
+
+app.put('/api/roles/:name/permissions', requireAuth, requireSuperadmin, async (req, res) => {
+  const { name } = req.params;
+  const grants = req.body?.grants;
+  const role = getRoles().find((entry) => entry.name === name);
+
+  if (!role) {
+    return res.status(404).json({ error: 'Role not found' });
+  }
+  if (name === SUPERADMIN_ROLE) {
+    return res.status(400).json({ error: 'Superadmin always has every permission' });
+  }
+  if (!grants || typeof grants !== 'object' || Array.isArray(grants)) {
+    return res.status(400).json({ error: 'Permissions are required' });
+  }
+
+  const entries = Object.entries(grants).filter(([, scope]) => scope);
+  const invalid = entries.find(
+    ([capability, scope]) =>
+      !isCapability(capability) || !SCOPES.includes(scope) || (scope === 'own' && !isOwnableCapability(capability))
+  );
+  if (invalid) {
+    return res.status(400).json({ error: `Invalid permission: ${invalid[0]}` });
+  }
+
+  try {
+    await query('DELETE FROM role_permissions WHERE role = ?', [name]);
+    if (entries.length) {
+      await query('INSERT INTO role_permissions (role, capability, scope) VALUES ?', [
+        entries.map(([capability, scope]) => [name, capability, scope]),
+      ]);
+    }
+    invalidatePermissions();
+    await loadPermissions();
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'roles',
+      entityId: role.id,
+      action: 'update',
+      description: `Updated permissions for role ${name}`,
+    });
+    return res.json(buildPermissionMatrix());
+  } catch (error) {
+    console.error('Update role permissions error', error);
+    return res.status(500).json({ error: 'Failed to update permissions' });
+  }
+});
+
+app.delete('/api/roles/:name', requireAuth, requireSuperadmin, async (req, res) => {
+  const { name } = req.params;
+  const role = getRoles().find((entry) => entry.name === name);
+
+  if (!role) {
+    return res.status(404).json({ error: 'Role not found' });
+  }
+  if (role.is_system) {
+    return res.status(400).json({ error: 'Built-in roles cannot be deleted' });
+  }
+
+  try {
+    const [assigned] = await query('SELECT COUNT(*) AS total FROM users WHERE role = ?', [name]);
+    if (Number(assigned?.total) > 0) {
+      return res.status(409).json({ error: 'Reassign users with this role before deleting it' });
+    }
+
+    await query('DELETE FROM roles WHERE name = ?', [name]);
+    invalidatePermissions();
+    await loadPermissions();
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'roles',
+      entityId: role.id,
+      action: 'delete',
+      description: `Deleted role ${name}`,
+    });
+    return res.json(buildPermissionMatrix());
+  } catch (error) {
+    console.error('Delete role error', error);
+    return res.status(500).json({ error: 'Failed to delete role' });
+  }
+});
+
+app.post('/api/auth/logout', requireAuth, async (req, res) => {
+  try {
+    await revokeSessions(req.user.id, { sessionId: req.sessionId });
+    await logActivity({
+      performedBy: req.user.id,
       entityType: 'auth',
-      entityId: userId || 0,
+      entityId: req.user.id,
       action: 'logout',
       description: 'User logged out',
     });
@@ -496,13 +1016,74 @@ app.post('/api/auth/logout', async (req, res) => {
   return res.json({ success: true });
 });
 
+const SESSION_COLUMNS = 'id, ip_address, user_agent, created_at, last_seen_at, expires_at';
+
+app.get('/api/auth/sessions', requireAuth, async (req, res) => {
+  try {
+    const rows = await query(
+      `SELECT ${SESSION_COLUMNS} FROM user_sessions WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW() ORDER BY COALESCE(last_seen_at, created_at) DESC`,
+      [req.user.id]
+    );
+    return res.json(rows.map((row) => ({ ...row, current: row.id === req.sessionId })));
+  } catch (error) {
+    console.error('Fetch sessions error', error);
+    return res.status(500).json({ error: 'Failed to load sessions' });
+  }
+});
+
+app.delete('/api/auth/sessions/:sessionId', requireAuth, async (req, res) => {
+  try {
+    const revoked = await revokeSessions(req.user.id, { sessionId: req.params.sessionId });
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'auth',
+      entityId: req.user.id,
+      action: 'revoke_session',
+      description: 'User signed out a session remotely',
+    });
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Revoke session error', error);
+    return res.status(500).json({ error: 'Failed to sign out session' });
+  }
+});
+
+app.post('/api/auth/sessions/revoke-others', requireAuth, async (req, res) => {
+  try {
+    const revoked = await revokeSessions(req.user.id, { exceptSessionId: req.sessionId });
+    if (revoked) {
+      await logActivity({
+        performedBy: req.user.id,
+        entityType: 'auth',
+        entityId: req.user.id,
+        action: 'revoke_session',
+        description: `User signed out ${revoked} other session(s)`,
+      });
+    }
+    return res.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Revoke sessions error', error);
+    return res.status(500).json({ error: 'Failed to sign out sessions' });
+  }
+});
+
 app.post('/api/auth/complete-setup', async (req, res) => {
-  const { user_id: userId, current_password: currentPassword, username, password } = req.body || {};
+  const { current_password: currentPassword, username, password } = req.body || {};
+  const setupPayload = verifySignedToken(getBearerToken(req), 'setup');
+
+  if (!setupPayload || setupPayload.expired) {
+    return res.status(401).json({ error: 'Setup session is invalid. Please sign in again.' });
+  }
+
+  const userId = setupPayload.sub;
 
-  if (!userId || !currentPassword || !username || !password) {
+  if (!currentPassword || !username || !password) {
     return res
       .status(400)
-      .json({ error: 'User, current password, username, and new password are required' });
+      .json({ error: 'Current password, username, and new password are required' });
   }
 
   try {
@@ -511,10 +1092,13 @@ app.post('/api/auth/complete-setup', async (req, res) => {
       return res.status(400).json({ error: 'Username is required' });
     }
 
-    const [user] = await query('SELECT id, password, username FROM users WHERE id = ? LIMIT 1', [userId]);
+    const [user] = await query('SELECT id, password, username, status FROM users WHERE id = ? LIMIT 1', [userId]);
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
+    if (user.status !== 'active') {
+      return rejectInactiveAccount(res);
+    }
 
     const passwordValid = await verifyPassword(currentPassword, user.password);
     if (!passwordValid) {
@@ -543,59 +1127,285 @@ app.post('/api/auth/complete-setup', async (req, res) => {
       description: 'User completed initial setup',
     });
 
-    return res.json({ success: true });
+    const sessionUser = await findSessionUser(userId);
+    return res.json({ profile: buildSessionProfile(sessionUser), session: await startSession(userId, req) });
   } catch (error) {
     console.error('Complete setup error', error);
     return res.status(500).json({ error: 'Failed to complete setup' });
   }
 });
 
-app.post('/api/auth/google', async (req, res) => {
-  const { credential } = req.body || {};
-  const googleClientId = process.env.GOOGLE_CLIENT_ID;
+const findTwoFactorUser = async (userId) => {
+  const [user] = await query(
+    'SELECT id, email, full_name, role, phone, photo_url, username, totp_secret, totp_enabled, totp_last_step, totp_backup_codes, status FROM users WHERE id = ? LIMIT 1',
+    [userId]
+  );
+  return user || null;
+};
 
-  if (!credential) {
-    return res.status(400).json({ error: 'Google credential is required' });
-  }
-  if (!googleClientId) {
-    return res.status(500).json({ error: 'Google client ID is not configured' });
+const getTwoFactorStatus = (user) => ({
+  enabled: Boolean(user.totp_enabled),
+  required: requiresTwoFactor(user),
+  backup_codes_remaining: parseJsonArray(user.totp_backup_codes).length,
+});
+
+// Checks an authenticator code, or consumes a backup code when `allowBackupCode` is set.
+const checkTwoFactorCode = async (user, code, { allowBackupCode = false } = {}) => {
+  const step = verifyTotp(user.totp_secret, code, { lastUsedStep: user.totp_last_step });
+  if (step !== null) {
+    await query('UPDATE users SET totp_last_step = ? WHERE id = ?', [step, user.id]);
+    return { valid: true, usedBackupCode: false };
   }
 
-  try {
-    const tokenInfoResponse = await fetch(
-      `https://oauth2.googleapis.com/tokeninfo?id_token=${encodeURIComponent(credential)}`
-    );
-    const tokenInfo = await tokenInfoResponse.json();
-    if (!tokenInfoResponse.ok) {
-      return res.status(401).json({ error: tokenInfo?.error_description || 'Invalid Google token' });
-    }
-    if (tokenInfo.aud !== googleClientId) {
-      return res.status(401).json({ error: 'Invalid Google token audience' });
-    }
+  if (!allowBackupCode) return { valid: false };
 
-    const email = tokenInfo.email?.toLowerCase();
-    if (!email) {
-      return res.status(400).json({ error: 'Google account has no email' });
-    }
+  const backupCodes = parseJsonArray(user.totp_backup_codes);
+  const codeHash = hashBackupCode(code);
+  if (!backupCodes.includes(codeHash)) return { valid: false };
+
+  await query('UPDATE users SET totp_backup_codes = ? WHERE id = ?', [
+    JSON.stringify(backupCodes.filter((hash) => hash !== codeHash)),
+    user.id,
+  ]);
+  return { valid: true, usedBackupCode: true };
+};
+
+const issueBackupCodes = async (userId) => {
+  const backupCodes = generateBackupCodes();
+  await query('UPDATE users SET totp_backup_codes = ? WHERE id = ?', [
+    JSON.stringify(backupCodes.map(hashBackupCode)),
+    userId,
+  ]);
+  return backupCodes;
+};
+
+app.post('/api/auth/two-factor/verify', async (req, res) => {
+  const { two_factor_token: twoFactorToken, code } = req.body || {};
+  const payload = verifySignedToken(twoFactorToken, 'two_factor');
+
+  if (!payload || payload.expired) {
+    return res.status(401).json({ error: 'Verification session expired. Please sign in again.' });
+  }
+  if (!code) {
+    return res.status(400).json({ error: 'Verification code is required' });
+  }
+
+  try {
+    const user = await findTwoFactorUser(payload.sub);
+    if (!user || !user.totp_enabled) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (user.status !== 'active') {
+      return rejectInactiveAccount(res);
+    }
+
+    const throttleKeys = [accountThrottleKey(user.id), ipThrottleKey(req.ip)];
+    const retryAfter = await getRetryAfter('login', throttleKeys);
+    if (retryAfter > 0) {
+      return rejectThrottled(res, retryAfter);
+    }
+
+    const result = await checkTwoFactorCode(user, code, { allowBackupCode: true });
+    if (!result.valid) {
+      await recordLoginFailure(user, throttleKeys);
+      return res.status(401).json({ error: 'Invalid verification code' });
+    }
+    await clearFailures('login', [throttleKeys[0]]);
+
+    await logActivity({
+      performedBy: user.id,
+      entityType: 'auth',
+      entityId: user.id,
+      action: 'two_factor_verify',
+      description: result.usedBackupCode ? 'User signed in with a backup code' : 'User completed two-factor sign in',
+    });
+
+    return res.json({
+      profile: buildSessionProfile(user),
+      requires_setup: false,
+      session: await startSession(user.id, req),
+      backup_codes_remaining: result.usedBackupCode ? parseJsonArray(user.totp_backup_codes).length - 1 : undefined,
+    });
+  } catch (error) {
+    console.error('Two-factor verify error', error);
+    return res.status(500).json({ error: 'Failed to verify code' });
+  }
+});
+
+app.get('/api/auth/two-factor', requireAuth, async (req, res) => {
+  try {
+    const user = await findTwoFactorUser(req.user.id);
+    return res.json(getTwoFactorStatus(user));
+  } catch (error) {
+    console.error('Two-factor status error', error);
+    return res.status(500).json({ error: 'Failed to load two-factor status' });
+  }
+});
+
+app.post('/api/auth/two-factor/setup', requireAuth, async (req, res) => {
+  try {
+    const user = await findTwoFactorUser(req.user.id);
+    if (user.totp_enabled) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const secret = generateTotpSecret();
+    await query('UPDATE users SET totp_secret = ?, totp_last_step = NULL WHERE id = ?', [secret, user.id]);
+
+    const otpauthUrl = buildOtpauthUrl({
+      secret,
+      accountName: user.username || user.email,
+      issuer: TWO_FACTOR_ISSUER,
+    });
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+    return res.json({ secret, otpauth_url: otpauthUrl, qr_code: qrCode });
+  } catch (error) {
+    console.error('Two-factor setup error', error);
+    return res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+app.post('/api/auth/two-factor/enable', requireAuth, async (req, res) => {
+  const { code } = req.body || {};
+
+  try {
+    const user = await findTwoFactorUser(req.user.id);
+    if (user.totp_enabled) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+    if (!user.totp_secret) {
+      return res.status(400).json({ error: 'Start two-factor setup first' });
+    }
+
+    const { valid } = await checkTwoFactorCode(user, code);
+    if (!valid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    await query('UPDATE users SET totp_enabled = 1 WHERE id = ?', [user.id]);
+    const backupCodes = await issueBackupCodes(user.id);
+
+    await logActivity({
+      performedBy: user.id,
+      entityType: 'auth',
+      entityId: user.id,
+      action: 'two_factor_enable',
+      description: 'User enabled two-factor authentication',
+    });
+
+    return res.json({
+      profile: buildSessionProfile({ ...user, totp_enabled: 1 }),
+      backup_codes: backupCodes,
+    });
+  } catch (error) {
+    console.error('Two-factor enable error', error);
+    return res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+app.post('/api/auth/two-factor/backup-codes', requireAuth, async (req, res) => {
+  const { code } = req.body || {};
+
+  try {
+    const user = await findTwoFactorUser(req.user.id);
+    if (!user.totp_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const { valid } = await checkTwoFactorCode(user, code);
+    if (!valid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    const backupCodes = await issueBackupCodes(user.id);
+    await logActivity({
+      performedBy: user.id,
+      entityType: 'auth',
+      entityId: user.id,
+      action: 'two_factor_backup_codes',
+      description: 'User regenerated two-factor backup codes',
+    });
+    return res.json({ backup_codes: backupCodes });
+  } catch (error) {
+    console.error('Backup codes error', error);
+    return res.status(500).json({ error: 'Failed to regenerate backup codes' });
+  }
+});
+
+app.post('/api/auth/two-factor/disable', requireAuth, async (req, res) => {
+  const { code } = req.body || {};
+
+  try {
+    const user = await findTwoFactorUser(req.user.id);
+    if (requiresTwoFactor(user)) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+    }
+    if (!user.totp_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const { valid } = await checkTwoFactorCode(user, code, { allowBackupCode: true });
+    if (!valid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    await query(
+      'UPDATE users SET totp_enabled = 0, totp_secret = NULL, totp_last_step = NULL, totp_backup_codes = NULL WHERE id = ?',
+      [user.id]
+    );
+    await logActivity({
+      performedBy: user.id,
+      entityType: 'auth',
+      entityId: user.id,
+      action: 'two_factor_disable',
+      description: 'User disabled two-factor authentication',
+    });
+    return res.json({ profile: buildSessionProfile({ ...user, totp_enabled: 0 }) });
+  } catch (error) {
+    console.error('Two-factor disable error', error);
+    return res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+app.post('/api/auth/google', async (req, res) => {
+  const { credential } = req.body || {};
+  const googleClientId = process.env.GOOGLE_CLIENT_ID;
+
+  if (!credential) {
+    return res.status(400).json({ error: 'Google credential is required' });
+  }
+  if (!googleClientId) {
+    return res.status(500).json({ error: 'Google client ID is not configured' });
+  }
+
+  try {
+    const tokenInfoResponse = await fetch(
+      `https://oauth2.googleapis.com/tokeninfo?id_token=${encodeURIComponent(credential)}`
+    );
+    const tokenInfo = await tokenInfoResponse.json();
+    if (!tokenInfoResponse.ok) {
+      return res.status(401).json({ error: tokenInfo?.error_description || 'Invalid Google token' });
+    }
+    if (tokenInfo.aud !== googleClientId) {
+      return res.status(401).json({ error: 'Invalid Google token audience' });
+    }
+
+    const email = tokenInfo.email?.toLowerCase();
+    if (!email) {
+      return res.status(400).json({ error: 'Google account has no email' });
+    }
 
     const rows = await query(
-      'SELECT id, email, full_name, role, phone, photo_url, username, password_reset_required FROM users WHERE email = ? LIMIT 1',
+      'SELECT id, email, full_name, role, phone, photo_url, username, password_reset_required, totp_enabled, status FROM users WHERE email = ? LIMIT 1',
       [email]
     );
 
     if (!rows.length) {
       return res.status(401).json({ error: 'No user found for this Google account' });
     }
-
-    const profile = {
-      id: rows[0].id,
-      email: rows[0].email,
-      username: rows[0].username,
-      full_name: rows[0].full_name,
-      role: rows[0].role,
-      phone: rows[0].phone,
-      photo_url: rows[0].photo_url,
-    };
+    if (rows[0].status !== 'active') {
+      return rejectInactiveAccount(res);
+    }
 
     await logActivity({
       performedBy: rows[0].id,
@@ -605,8 +1415,7 @@ app.post('/api/auth/google', async (req, res) => {
       description: 'User logged in with Google',
     });
 
-    const requiresSetup = !rows[0].username || rows[0].password_reset_required === 1;
-    return res.json({ profile, requires_setup: requiresSetup });
+    return res.json(await buildLoginResponse(rows[0], req));
   } catch (error) {
     console.error('Google login error', error);
     return res.status(500).json({ error: 'Failed to login with Google' });
@@ -692,7 +1501,42 @@ const wrapSmtpLines = (content, maxLength = 998) => {
     .join('\r\n');
 };
 
-const sendSmtpMail = async ({ to, subject, html }) => {
+// Lines starting with a dot are doubled so the server does not read them as the end of the message.
+const dotStuff = (content) => content.replace(/^\./gm, '..');
+
+// Non-ASCII header values (e.g. an edited subject) as RFC 2047 encoded words.
+const encodeHeader = (value) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+// Attachments are `{ filename, contentType, content }` with `content` a Buffer.
+const buildMimeBody = (html, attachments) => {
+  if (!attachments.length) {
+    return ['Content-Type: text/html; charset="UTF-8"', '', wrapSmtpLines(html)];
+  }
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/html; charset="UTF-8"',
+    '',
+    wrapSmtpLines(html),
+    ...attachments.flatMap((attachment) => {
+      const filename = attachment.filename.replace(/["\r\n]/g, '');
+      return [
+        `--${boundary}`,
+        `Content-Type: ${attachment.contentType || 'application/octet-stream'}; name="${filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${filename}"`,
+        '',
+        attachment.content.toString('base64').replace(/.{76}/g, '$&\r\n').replace(/\r\n$/, ''),
+      ];
+    }),
+    `--${boundary}--`,
+  ];
+};
+
+const sendSmtpMail = async ({ to, cc = [], replyTo, subject, html, attachments = [] }) => {
   const host = process.env.MAIL_HOST;
   const port = Number(process.env.MAIL_PORT || 0);
   const encryption = process.env.MAIL_ENCRYPTION;
@@ -705,6 +1549,7 @@ const sendSmtpMail = async ({ to, subject, html }) => {
     throw new Error('SMTP configuration missing');
   }
 
+  const recipients = Array.isArray(to) ? to : [to];
   const secure = encryption === 'ssl' || port === 465;
   let client = await createSmtpClient({ host, port, secure });
 
@@ -733,22 +1578,23 @@ const sendSmtpMail = async ({ to, subject, html }) => {
   }
 
   await client.sendCommand(`MAIL FROM:<${senderEmail}>`, [250]);
-  await client.sendCommand(`RCPT TO:<${to}>`, [250, 251]);
+  for (const address of [...recipients, ...cc]) {
+    await client.sendCommand(`RCPT TO:<${address}>`, [250, 251]);
+  }
   await client.sendCommand('DATA', [354]);
 
   const senderDomain = senderEmail.includes('@') ? senderEmail.split('@')[1] : host;
   const messageId = `<${Date.now()}.${crypto.randomBytes(16).toString('hex')}@${senderDomain || 'localhost'}>`;
-  const safeHtml = wrapSmtpLines(html);
   const message = [
     `From: ${senderName} <${senderEmail}>`,
-    `To: <${to}>`,
-    `Subject: ${subject}`,
+    `To: ${recipients.map((address) => `<${address}>`).join(', ')}`,
+    ...(cc.length ? [`Cc: ${cc.map((address) => `<${address}>`).join(', ')}`] : []),
+    ...(replyTo ? [`Reply-To: <${replyTo}>`] : []),
+    `Subject: ${encodeHeader(subject)}`,
     `Date: ${new Date().toUTCString()}`,
     `Message-ID: ${messageId}`,
     'MIME-Version: 1.0',
-    'Content-Type: text/html; charset="UTF-8"',
-    '',
-    safeHtml,
+    dotStuff(buildMimeBody(html, attachments).join('\r\n')),
     '.',
   ].join('\r\n');
 
@@ -758,7 +1604,8 @@ const sendSmtpMail = async ({ to, subject, html }) => {
 };
 
 const getRoleEmails = async (roles) => {
-  const rows = await query('SELECT email FROM users WHERE role IN (?)', [roles]);
+  if (!roles.length) return [];
+  const rows = await query("SELECT email FROM users WHERE role IN (?) AND status = 'active'", [roles]);
   const emails = rows.map((row) => row.email).filter(Boolean);
   return Array.from(new Set(emails));
 };
@@ -772,7 +1619,7 @@ const getUserById = async (id) => {
 const getRfqById = async (id) => {
   if (!id) return null;
   const [rfq] = await query(
-    'SELECT id, rfq_number, company_name, pic_name, pic_email, pic_phone FROM rfqs WHERE id = ? LIMIT 1',
+    'SELECT id, rfq_number, company_name, pic_name, pic_email, pic_phone, attachment_url FROM rfqs WHERE id = ? LIMIT 1',
     [id]
   );
   return rfq || null;
@@ -798,6 +1645,7 @@ const formatStatusLabel = (status) => {
 
 const buildQuotationEmailHtml = ({ quotation, goods, requester, rfq, statusLabel }) => {
   const rows = Array.isArray(goods) ? goods : [];
+  const rfqAttachmentLink = buildSignedFileUrl(rfq?.attachment_url);
   const goodsRows = rows.length
     ? rows
         .map(
@@ -835,7 +1683,9 @@ const buildQuotationEmailHtml = ({ quotation, goods, requester, rfq, statusLabel
       <tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">Total</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${formatCurrency(quotation.total_amount)}</td></tr>
       <tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">Tax</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${formatCurrency(quotation.tax_amount)}</td></tr>
       <tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">Grand Total</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${formatCurrency(quotation.grand_total)}</td></tr>
-      <tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">RFQ</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${rfq?.rfq_number || quotation.rfq_id || '-'}</td></tr>
+      <tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">RFQ</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${rfq?.rfq_number || quotation.rfq_id || '-'}${
+        rfqAttachmentLink ? ` (<a href="${rfqAttachmentLink}">attachment</a>)` : ''
+      }</td></tr>
       <tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">Submitted by</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${requester?.full_name || 'User'} ${requester?.email ? `(${requester.email})` : ''}</td></tr>
     </table>
     <h3>Goods Items</h3>
@@ -854,6 +1704,7 @@ const buildQuotationEmailHtml = ({ quotation, goods, requester, rfq, statusLabel
         ${goodsRows}
       </tbody>
     </table>
+    <p><a href="${buildAppUrl(`/quotations/${quotation.id}`)}">Open quotation in RGI NexaProc</a></p>
     <p>Thank you.</p>
   `;
 };
@@ -897,6 +1748,9 @@ const formatOrderStatusLabel = (status) => {
 };
 
 const buildDeliveryApprovalEmailHtml = ({ order, orderGoods, deliveries, requester }) => {
+  const documentLinks = parseJsonArray(order.documents)
+    .map((doc) => ({ name: doc.name || 'document', link: buildSignedFileUrl(doc.url) }))
+    .filter((doc) => doc.link);
   const goodsRows = orderGoods.length
     ? orderGoods
         .map(
@@ -907,9 +1761,7 @@ const buildDeliveryApprovalEmailHtml = ({ order, orderGoods, deliveries, request
               <td style="padding:8px;border:1px solid #e2e8f0;">${item.unit || '-'}</td>
               <td style="padding:8px;border:1px solid #e2e8f0;">${item.qty ?? 0}</td>
               <td style="padding:8px;border:1px solid #e2e8f0;">${formatCurrency(item.price)}</td>
-              <td style="padding:8px;border:1px solid #e2e8f0;">${formatCurrency(
-                (Number(item.qty) || 0) * (Number(item.price) || 0)
-              )}</td>
+              <td style="padding:8px;border:1px solid #e2e8f0;">${formatCurrency(calculateLineSubtotal(item))}</td>
             </tr>
           `
         )
@@ -991,6 +1843,13 @@ const buildDeliveryApprovalEmailHtml = ({ order, orderGoods, deliveries, request
       <tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">Tax</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${formatCurrency(order.tax_amount)}</td></tr>
       <tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">Grand Total</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${formatCurrency(order.grand_total)}</td></tr>
       <tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">Submitted by</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${requester?.full_name || 'User'} ${requester?.email ? `(${requester.email})` : ''}</td></tr>
+      ${
+        documentLinks.length
+          ? `<tr><td style="padding:6px 8px;border:1px solid #e2e8f0;">Documents</td><td style="padding:6px 8px;border:1px solid #e2e8f0;">${documentLinks
+              .map((doc) => `<a href="${doc.link}">${doc.name}</a>`)
+              .join('<br />')}</td></tr>`
+          : ''
+      }
     </table>
     <h3>Sales Order Goods</h3>
     <table style="border-collapse:collapse;width:100%;max-width:720px;">
@@ -1020,7 +1879,9 @@ const buildDeliveryApprovalEmailHtml = ({ order, orderGoods, deliveries, request
         ${deliveryRows}
       </tbody>
     </table>
-    <p>Please review and approve to move the status to waiting payment.</p>
+    <p>Please print the handover report (BAST) from the sales order, have the client sign it and upload the signed scan.</p>
+    <p>Please review and approve to move the status to waiting payment once the signed BAST is uploaded.</p>
+    <p><a href="${buildAppUrl(`/orders/${order.id}/deliveries`)}">Open sales order deliveries in RGI NexaProc</a></p>
   `;
 };
 
@@ -1044,6 +1905,69 @@ const sendDeliveryApprovalNotification = async ({ order, orderGoods, deliveries,
   }
 };
 
+// Moves a sales order to waiting approval once every line has shipped and back to on-delivery while anything
+// is left to ship. Returns the new status.
+const updateDeliveryStatus = async (order, db) => {
+  const nextStatus = (await isFullyShipped(order.id, db)) ? 'waiting approval' : 'on-delivery';
+  await db.query('UPDATE `sales_orders` SET status = ?, version = version + 1 WHERE id = ?', [nextStatus, order.id]);
+  return nextStatus;
+};
+
+// Statuses that follow what has been delivered; approved orders keep theirs.
+const DELIVERY_DRIVEN_STATUSES = ['ongoing', 'on-delivery', 'waiting approval'];
+
+// Recomputes the status of the live sales orders whose delivery orders were among `entries` binned or restored,
+// inside the caller's transaction. An order left without deliveries goes back to ongoing. Returns the orders
+// that have just become fully delivered, for notifying after commit.
+const refreshDeliveryStatuses = async (entries, db) => {
+  const deliveryIds = entries.filter((entry) => entry.table === 'delivery_orders').map((entry) => entry.id);
+  if (!deliveryIds.length) return [];
+  const orders = await db.query(
+    `SELECT * FROM sales_orders
+     WHERE id IN (SELECT sales_order_id FROM delivery_orders WHERE id IN (?)) AND deleted_at IS NULL
+     FOR UPDATE`,
+    [deliveryIds]
+  );
+  const completed = [];
+  for (const order of orders.filter((row) => DELIVERY_DRIVEN_STATUSES.includes(row.status))) {
+    const [delivery] = await db.query(
+      'SELECT id FROM `delivery_orders` WHERE sales_order_id = ? AND deleted_at IS NULL LIMIT 1',
+      [order.id]
+    );
+    let nextStatus = 'ongoing';
+    if (delivery) {
+      nextStatus = await updateDeliveryStatus(order, db);
+    } else {
+      await db.query('UPDATE `sales_orders` SET status = ?, version = version + 1 WHERE id = ?', [
+        nextStatus,
+        order.id,
+      ]);
+    }
+    if (nextStatus === 'waiting approval' && order.status !== nextStatus) {
+      completed.push({ ...order, status: nextStatus });
+    }
+  }
+  return completed;
+};
+
+// Tells the approvers that a sales order has been delivered in full.
+const notifyDeliveryApproval = async (order, performedBy) => {
+  const [orderWithGoods] = await attachLineItems('sales_orders', [order]);
+  const deliveries = await attachLineItems(
+    'delivery_orders',
+    await query('SELECT * FROM `delivery_orders` WHERE sales_order_id = ? AND deleted_at IS NULL', [order.id])
+  );
+  const roleEmails = await getRoleEmails(getRolesWith('sales_orders', 'status'));
+  const requester = await getUserById(performedBy);
+  await sendDeliveryApprovalNotification({
+    order,
+    orderGoods: orderWithGoods.goods,
+    deliveries,
+    recipients: roleEmails,
+    requester,
+  });
+};
+
 app.post('/api/auth/forgot-password', async (req, res) => {
   const { email } = req.body || {};
 
@@ -1052,7 +1976,27 @@ app.post('/api/auth/forgot-password', async (req, res) => {
   }
 
   try {
-    const [user] = await query('SELECT id, email, full_name FROM users WHERE email = ? LIMIT 1', [email]);
+    const throttleKeys = [identifierThrottleKey(email), ipThrottleKey(req.ip)];
+    const retryAfter = await getRetryAfter('forgot_password', throttleKeys);
+    if (retryAfter > 0) {
+      return rejectThrottled(res, retryAfter);
+    }
+
+    const [user] = await query("SELECT id, email, full_name FROM users WHERE email = ? AND status = 'active' LIMIT 1", [
+      email,
+    ]);
+
+    // Every request counts here, successful or not, so the endpoint cannot be used to flood a mailbox.
+    const lockedKeys = await recordFailure('forgot_password', throttleKeys);
+    if (user && lockedKeys.some((key) => key.type === 'identifier')) {
+      await logActivity({
+        performedBy: user.id,
+        entityType: 'auth',
+        entityId: user.id,
+        action: 'lockout',
+        description: 'Password reset requests paused after too many attempts',
+      });
+    }
 
     if (user) {
       const token = crypto.randomBytes(32).toString('hex');
@@ -1065,8 +2009,7 @@ app.post('/api/auth/forgot-password', async (req, res) => {
         expires_at: expiresAt,
       });
 
-      const appBaseUrl = process.env.APP_BASE_URL || 'http://localhost:5173';
-      const resetLink = `${appBaseUrl}/?reset_token=${token}`;
+      const resetLink = buildAppUrl(`/?reset_token=${token}`);
 
       await sendSmtpMail({
         to: user.email,
@@ -1108,6 +2051,10 @@ app.post('/api/auth/reset-password', async (req, res) => {
     const hashedPassword = await hashPassword(password);
     await query('UPDATE users SET password = ? WHERE id = ?', [hashedPassword, resetEntry.user_id]);
     await query('UPDATE password_resets SET used_at = NOW() WHERE id = ?', [resetEntry.id]);
+    await revokeSessions(resetEntry.user_id);
+    // Proving ownership of the mailbox lifts a login lockout, the same as an admin unlock.
+    const locked = await getLockedAccounts([resetEntry.user_id]);
+    await clearFailures('login', [accountThrottleKey(resetEntry.user_id)]);
 
     await logActivity({
       performedBy: resetEntry.user_id,
@@ -1116,6 +2063,15 @@ app.post('/api/auth/reset-password', async (req, res) => {
       action: 'reset_password',
       description: 'User reset password via email link',
     });
+    if (locked[resetEntry.user_id]) {
+      await logActivity({
+        performedBy: resetEntry.user_id,
+        entityType: 'users',
+        entityId: resetEntry.user_id,
+        action: 'unlock',
+        description: 'Sign in unlocked by a password reset',
+      });
+    }
 
     return res.json({ success: true });
   } catch (error) {
@@ -1124,221 +2080,777 @@ app.post('/api/auth/reset-password', async (req, res) => {
   }
 });
 
-app.get('/api/:table', async (req, res) => {
-  const { table } = req.params;
-  if (!isValidTable(table)) return res.status(404).json({ error: 'Table not found' });
+const INVITATION_TTL_MS = 1000 * 60 * 60 * 24 * 7;
 
-  try {
-    if (table === 'activity_logs') {
-      const { user_id: userId } = req.query;
-      const rows = userId
-        ? await query('SELECT * FROM `activity_logs` WHERE user_id = ? ORDER BY created_at DESC', [userId])
-        : await query('SELECT * FROM `activity_logs` ORDER BY created_at DESC');
-      return res.json(rows);
-    }
+const hashInvitationToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
 
-    if (table === 'rfqs') {
-      const rows = await query('SELECT * FROM `rfqs` ORDER BY created_at DESC');
-      const goodsRows = await query('SELECT id, name FROM `goods`');
-      const goodsMap = goodsRows.reduce((acc, row) => ({ ...acc, [row.id]: row.name }), {});
+const isSetupPending = (user) => !user.username || Number(user.password_reset_required) === 1;
 
-      const parsed = rows.map((row) => {
-        let goods = [];
-        try {
-          goods = JSON.parse(row.goods || '[]');
-        } catch {
-          goods = [];
-        }
+// Replaces any pending invitation for the user with a fresh single-use link and emails it.
+const sendInvitation = async (user, invitedBy) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  await query('UPDATE user_invitations SET revoked_at = NOW() WHERE user_id = ? AND used_at IS NULL AND revoked_at IS NULL', [
+    user.id,
+  ]);
+  await query('INSERT INTO user_invitations SET ?', {
+    user_id: user.id,
+    token_hash: hashInvitationToken(token),
+    invited_by: invitedBy,
+    expires_at: new Date(Date.now() + INVITATION_TTL_MS),
+  });
 
-        const mappedGoods = goods.map((item) => ({
-          ...item,
-          display_name:
-            item.type === 'existing'
-              ? goodsMap[item.good_id] || item.name || 'Existing good'
-              : item.name,
-        }));
+  const inviteLink = buildAppUrl(`/?invite_token=${token}`);
+  await sendSmtpMail({
+    to: user.email,
+    subject: 'Undangan Akun RGI NexaProc',
+    html: `
+      <p>Halo ${user.full_name || 'User'},</p>
+      <p>Akun RGI NexaProc Anda sudah dibuat. Klik tautan berikut untuk memilih username dan password Anda:</p>
+      <p><a href="${inviteLink}">${inviteLink}</a></p>
+      <p>Tautan ini hanya dapat digunakan sekali dan berlaku selama 7 hari.</p>
+    `,
+  });
+};
 
-        return { ...row, goods: mappedGoods };
-      });
+// Latest invitation per user as `{ invitation_status, invitation_expires_at }`; status is
+// pending, expired, revoked or accepted.
+const getInvitationStatuses = async (userIds) => {
+  if (!userIds.length) return {};
+  const rows = await query(
+    `SELECT i.user_id, i.expires_at, i.used_at, i.revoked_at
+     FROM user_invitations i
+     JOIN (SELECT user_id, MAX(id) AS id FROM user_invitations WHERE user_id IN (?) GROUP BY user_id) latest ON latest.id = i.id`,
+    [userIds]
+  );
+  return Object.fromEntries(
+    rows.map((row) => {
+      let status = 'pending';
+      if (row.used_at) status = 'accepted';
+      else if (row.revoked_at) status = 'revoked';
+      else if (new Date(row.expires_at).getTime() <= Date.now()) status = 'expired';
+      return [String(row.user_id), { invitation_status: status, invitation_expires_at: row.expires_at }];
+    })
+  );
+};
 
-      return res.json(parsed);
-    }
+const findPendingInvitation = async (token) => {
+  if (!token) return null;
+  const [invitation] = await query(
+    `SELECT i.id, i.user_id, u.email, u.full_name, u.username, u.password_reset_required
+     FROM user_invitations i
+     JOIN users u ON u.id = i.user_id
+     WHERE i.token_hash = ? AND i.used_at IS NULL AND i.revoked_at IS NULL AND i.expires_at > NOW() AND u.status = 'active'
+     LIMIT 1`,
+    [hashInvitationToken(token)]
+  );
+  return invitation || null;
+};
 
-    if (table === 'quotations') {
-      const rows = await query('SELECT * FROM `quotations` ORDER BY created_at DESC');
-      const parsed = rows.map((row) => {
-        let goods = [];
-        try {
-          goods = JSON.parse(row.goods || '[]');
-        } catch {
-          goods = [];
-        }
+app.get('/api/auth/invitations/:token', async (req, res) => {
+  try {
+    const invitation = await findPendingInvitation(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation link is invalid or has expired' });
+    }
+    return res.json({ email: invitation.email, full_name: invitation.full_name });
+  } catch (error) {
+    console.error('Fetch invitation error', error);
+    return res.status(500).json({ error: 'Failed to load invitation' });
+  }
+});
 
-        return { ...row, goods };
-      });
+app.post('/api/auth/accept-invitation', async (req, res) => {
+  const { token, username, password } = req.body || {};
 
-      return res.json(parsed);
-    }
+  if (!token || !username || !password) {
+    return res.status(400).json({ error: 'Token, username, and password are required' });
+  }
 
-    if (table === 'goods') {
-      const rows = await attachSuppliersToGoods(await query('SELECT * FROM `goods` ORDER BY created_at DESC'));
-      return res.json(rows);
+  try {
+    const invitation = await findPendingInvitation(token);
+    if (!invitation) {
+      return res.status(400).json({ error: 'Invitation link is invalid or has expired' });
     }
 
-    if (table === 'sales_orders') {
-      const rows = await query('SELECT * FROM `sales_orders` ORDER BY created_at DESC');
-      const formatted = rows.map((row) => ({
-        ...row,
-        order_date: formatDateOnly(row.order_date),
-      }));
-      return res.json(formatted);
+    const normalizedUsername = normalizeUsername(username);
+    if (!normalizedUsername) {
+      return res.status(400).json({ error: 'Username is required' });
     }
-
-    if (table === 'delivery_orders') {
-      const rows = await query('SELECT * FROM `delivery_orders` ORDER BY created_at DESC');
-      const formatted = rows.map((row) => ({
-        ...row,
-        delivery_date: formatDateOnly(row.delivery_date),
-        goods: parseJsonArray(row.goods),
-      }));
-      return res.json(formatted);
+    const [existingUsername] = await query('SELECT id FROM users WHERE username = ? AND id <> ? LIMIT 1', [
+      normalizedUsername,
+      invitation.user_id,
+    ]);
+    if (existingUsername) {
+      return res.status(409).json({ error: 'Username is already taken' });
     }
 
-    if (table === 'invoices') {
-      const rows = await query('SELECT * FROM `invoices` ORDER BY created_at DESC');
-      const formatted = rows.map((row) => ({
-        ...row,
-        invoice_date: formatDateOnly(row.invoice_date),
-        paid_date: formatDateOnly(row.paid_date),
-        goods: parseJsonArray(row.goods),
-      }));
-      return res.json(formatted);
-    }
+    const hashedPassword = await hashPassword(password);
+    // Claiming the invitation first makes it single use: of two requests with the same link, only one updates it.
+    await withTransaction(async (db) => {
+      const claim = await db.query(
+        `UPDATE user_invitations SET used_at = NOW()
+         WHERE id = ? AND used_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()`,
+        [invitation.id]
+      );
+      if (claim.affectedRows !== 1) {
+        throw new RequestError(400, 'Invitation link is invalid or has expired');
+      }
+      await db.query('UPDATE users SET username = ?, password = ?, password_reset_required = 0 WHERE id = ?', [
+        normalizedUsername,
+        hashedPassword,
+        invitation.user_id,
+      ]);
+    });
 
-    const rows = await query(`SELECT * FROM \`${table}\` ORDER BY created_at DESC`);
+    await logActivity({
+      performedBy: invitation.user_id,
+      entityType: 'auth',
+      entityId: invitation.user_id,
+      action: 'accept_invitation',
+      description: 'User accepted invitation and completed account setup',
+    });
 
-    return res.json(rows);
+    const sessionUser = await findSessionUser(invitation.user_id);
+    return res.json(await buildLoginResponse({ ...sessionUser, password_reset_required: 0 }, req));
   } catch (error) {
-    console.error('Fetch error', error);
-    return res.status(500).json({ error: 'Failed to fetch data' });
+    if (error instanceof RequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Accept invitation error', error);
+    return res.status(500).json({ error: 'Failed to accept invitation' });
   }
 });
 
-app.get('/api/:table/:id', async (req, res) => {
-  const { table, id } = req.params;
-  if (!isValidTable(table)) return res.status(404).json({ error: 'Table not found' });
+// Who may download a stored file besides its uploader, keyed by upload context. Files in any other context
+// are only readable by their uploader and superadmins.
+const FILE_ACCESS_CHECKS = {
+  [FILE_CONTEXTS.RFQ_ATTACHMENT]: async (url, user) => {
+    const [rfq] = await query('SELECT performed_by FROM rfqs WHERE attachment_url = ? LIMIT 1', [url]);
+    return Boolean(rfq) && can(user.role, 'rfqs', 'read', { isOwner: String(rfq.performed_by) === String(user.id) });
+  },
+  [FILE_CONTEXTS.SALES_ORDER_DOCUMENT]: async (url, user) => {
+    const [order] = await query(
+      "SELECT created_by FROM sales_orders WHERE JSON_SEARCH(documents, 'one', ?, NULL, '$[*].url') IS NOT NULL LIMIT 1",
+      [url]
+    );
+    return (
+      Boolean(order) &&
+      can(user.role, 'sales_orders', 'read', { isOwner: String(order.created_by) === String(user.id) })
+    );
+  },
+  // Everyone signed in joins the shared chat room, so an attachment is readable while its message is still
+  // in the chat history; files uploaded but never sent, or on pruned messages, are not.
+  [FILE_CONTEXTS.CHAT_ATTACHMENT]: async (url) => {
+    const [message] = await query(
+      'SELECT id FROM chat_messages WHERE attachment_url = ? AND created_at >= DATE_SUB(NOW(), INTERVAL ? DAY) LIMIT 1',
+      [url, CHAT_RETENTION_DAYS]
+    );
+    return Boolean(message);
+  },
+  // Profile photos show next to names across the app, including on chat messages sent before a photo changed.
+  [FILE_CONTEXTS.USER_PHOTO]: async (url) => {
+    const [owner] = await query(
+      'SELECT id FROM users WHERE photo_url = ? UNION ALL SELECT id FROM chat_messages WHERE user_photo_url = ? LIMIT 1',
+      [url, url]
+    );
+    return Boolean(owner);
+  },
+  [FILE_CONTEXTS.COMPANY_LOGO]: async (url) => {
+    const [settings] = await query('SELECT id FROM settings WHERE logo_url = ? LIMIT 1', [url]);
+    return Boolean(settings);
+  },
+};
 
-  try {
-    if (table === 'goods') {
-      const goodsRows = await query('SELECT * FROM `goods` WHERE id = ? LIMIT 1', [id]);
-      if (!goodsRows.length) {
-        return res.status(404).json({ error: 'Record not found' });
-      }
-      const [goodWithSuppliers] = await attachSuppliersToGoods(goodsRows);
-      return res.json(goodWithSuppliers);
-    }
+const canAccessFile = async (file, user) => {
+  if (user.role === SUPERADMIN_ROLE || String(file.uploaded_by) === String(user.id)) return true;
+  const check = FILE_ACCESS_CHECKS[file.context];
+  return check ? check(`/api/files/${file.id}`, user) : false;
+};
 
-    if (table === 'rfqs') {
-      const rows = await query('SELECT * FROM `rfqs` WHERE id = ? LIMIT 1', [id]);
-      if (!rows.length) {
-        return res.status(404).json({ error: 'Record not found' });
-      }
+// Signed links from emails are accepted instead of a session for the file they were issued for.
+const requireFileAccess = (req, res, next) => {
+  if (!req.query.token) return requireAuth(req, res, next);
+  const payload = verifySignedToken(String(req.query.token), 'file');
+  if (!payload || payload.expired || payload.sub !== req.params.fileId) {
+    return res.status(403).json({ error: 'Download link is invalid or has expired' });
+  }
+  req.signedFileLink = true;
+  return next();
+};
 
-      let goods = [];
-      try {
-        goods = JSON.parse(rows[0].goods || '[]');
-      } catch {
-        goods = [];
-      }
+const sendStoredFile = (res, filePath, { mimeType, name }) => {
+  res.set({
+    'Content-Type': mimeType || 'application/octet-stream',
+    'Cache-Control': 'private, max-age=300',
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'; img-src 'self'; style-src 'unsafe-inline'; sandbox",
+  });
+  if (name) {
+    res.set('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(name)}`);
+  }
+  return res.sendFile(filePath);
+};
 
-      return res.json({ ...rows[0], goods });
-    }
+// Who may upload into each context; the record the file is later attached to checks its own permissions too.
+const UPLOAD_PERMISSIONS = {
+  [FILE_CONTEXTS.RFQ_ATTACHMENT]: (role) => can(role, 'rfqs', 'create') || can(role, 'rfqs', 'update', { isOwner: true }),
+  [FILE_CONTEXTS.SALES_ORDER_DOCUMENT]: (role) => can(role, 'sales_orders', 'create') || can(role, 'sales_orders', 'update'),
+  [FILE_CONTEXTS.COMPANY_LOGO]: (role) => can(role, 'settings', 'create') || can(role, 'settings', 'update'),
+};
 
-    if (table === 'quotations') {
-      const rows = await query('SELECT * FROM `quotations` WHERE id = ? LIMIT 1', [id]);
-      if (!rows.length) {
-        return res.status(404).json({ error: 'Record not found' });
-      }
+app.post('/api/files', requireAuth, async (req, res) => {
+  const context = String(req.query.context || '');
+  if (!isUploadContext(context)) {
+    return res.status(400).json({ error: 'Unknown upload context' });
+  }
+  const permission = UPLOAD_PERMISSIONS[context];
+  if (permission && !permission(req.user.role)) return forbidden(res);
 
-      let goods = [];
-      try {
-        goods = JSON.parse(rows[0].goods || '[]');
-      } catch {
-        goods = [];
-      }
+  try {
+    const file = await saveUploadedFile(req, context, { uploadedBy: req.user.id });
+    return res.status(201).json({
+      id: file.id,
+      url: buildFileUrl(file.id),
+      name: file.original_name,
+      mime_type: file.mime_type,
+      size_bytes: file.size_bytes,
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      // The rest of a rejected body is not read, so the connection cannot be reused.
+      res.set('Connection', 'close');
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('File upload error', error);
+    return res.status(500).json({ error: 'Failed to upload file' });
+  }
+});
+
+app.get('/api/files/:fileId', requireFileAccess, async (req, res) => {
+  try {
+    const file = await findStoredFile(req.params.fileId);
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    if (!req.signedFileLink && !(await canAccessFile(file, req.user))) return forbidden(res);
+
+    return sendStoredFile(res, getStoredFilePath(file), { mimeType: file.mime_type, name: file.original_name });
+  } catch (error) {
+    console.error('File download error', error);
+    return res.status(500).json({ error: 'Failed to load file' });
+  }
+});
+
+// `/uploads/<name>` links from before the files table; migration 010 moved their records to `/api/files/<id>`.
+// Old links get the same checks, and files no record referenced were never imported, so they are not served.
+app.get('/api/uploads/:filename', requireAuth, async (req, res) => {
+  try {
+    const file = await findStoredFileByName(req.params.filename);
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    if (!(await canAccessFile(file, req.user))) return forbidden(res);
+
+    return sendStoredFile(res, getStoredFilePath(file), { mimeType: file.mime_type, name: file.original_name });
+  } catch (error) {
+    console.error('Legacy file download error', error);
+    return res.status(500).json({ error: 'Failed to load file' });
+  }
+});
+
+app.get('/api/search', requireAuth, async (req, res) => {
+  const term = String(req.query.q || '').trim();
+  if (term.length < MIN_SEARCH_LENGTH) {
+    return res.status(400).json({ error: `Search needs at least ${MIN_SEARCH_LENGTH} characters` });
+  }
+
+  try {
+    const groups = await searchRecords(
+      term,
+      (table) => can(req.user.role, table, 'read') || can(req.user.role, table, 'read', { isOwner: true })
+    );
+    return res.json({ groups });
+  } catch (error) {
+    console.error('Search error', error);
+    return res.status(500).json({ error: 'Failed to search records' });
+  }
+});
+
+const sendRecycleBinError = (res, error) => res.status(error.status).json({ error: error.message, ...error.details });
+
+const describeRelated = (count) => (count ? ` with ${count} related document${count === 1 ? '' : 's'}` : '');
+
+app.get('/api/recycle-bin', requireAuth, requireSuperadmin, async (_req, res) => {
+  try {
+    return res.json(await listRecycleBin());
+  } catch (error) {
+    console.error('Recycle bin error', error);
+    return res.status(500).json({ error: 'Failed to load the recycle bin' });
+  }
+});
 
-      return res.json({ ...rows[0], goods });
+app.post('/api/recycle-bin/:table/:id/restore', requireAuth, requireSuperadmin, async (req, res) => {
+  const { table, id } = req.params;
+  if (!isSoftDeletable(table)) return res.status(404).json({ error: 'Table not found' });
+
+  try {
+    const { record, dependentCount, completedOrders } = await withTransaction(async (db) => {
+      const restored = await restoreRecord(table, id, db);
+      return { ...restored, completedOrders: await refreshDeliveryStatuses(restored.entries, db) };
+    });
+    for (const order of completedOrders) {
+      await notifyDeliveryApproval(order, req.user.id);
+    }
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: table,
+      entityId: record.id,
+      action: 'restore',
+      description: `Restored ${describeRecord(table, record)}${describeRelated(dependentCount)} from the recycle bin`,
+    });
+    return res.json(await loadRecord(table, record.id));
+  } catch (error) {
+    if (error instanceof RecycleBinError) return sendRecycleBinError(res, error);
+    console.error('Restore error', error);
+    return res.status(500).json({ error: 'Failed to restore record' });
+  }
+});
+
+app.delete('/api/recycle-bin/:table/:id', requireAuth, requireSuperadmin, async (req, res) => {
+  const { table, id } = req.params;
+  if (!isSoftDeletable(table)) return res.status(404).json({ error: 'Table not found' });
+
+  try {
+    const { record, dependentCount } = await withTransaction((db) => purgeRecord(table, id, db));
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: table,
+      entityId: record.id,
+      action: 'purge',
+      description: `Permanently deleted ${describeRecord(table, record)}${describeRelated(dependentCount)}`,
+    });
+    return res.status(204).send();
+  } catch (error) {
+    if (error instanceof RecycleBinError) return sendRecycleBinError(res, error);
+    // e.g. a live delivery order still pointing at the lines of a purged sales order
+    if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+      return res.status(409).json({ error: 'This record is still referenced by other records' });
+    }
+    console.error('Purge error', error);
+    return res.status(500).json({ error: 'Failed to delete record permanently' });
+  }
+});
+
+const fetchList = async (table, list) => {
+  const pageClause = list.paged ? ' LIMIT ? OFFSET ?' : '';
+  const pageValues = list.paged ? [list.limit, (list.page - 1) * list.limit] : [];
+  const rows = await query(`SELECT * FROM ?? ${list.where} ${list.orderBy}${pageClause}`, [
+    table,
+    ...list.values,
+    ...pageValues,
+  ]);
+  if (!list.paged) return { rows, total: rows.length };
+  const [{ total }] = await query(`SELECT COUNT(*) AS total FROM ?? ${list.where}`, [table, ...list.values]);
+  return { rows, total: Number(total) };
+};
+
+// Paged requests get `{ data, total, page, limit }`; unpaged ones keep returning a plain array.
+const sendList = (res, list, rows, total) =>
+  res.json(list.paged ? { data: rows, total, page: list.page, limit: list.limit } : rows);
+
+app.get('/api/:table', requireAuth, async (req, res) => {
+  const { table } = req.params;
+  if (!isValidTable(table)) return res.status(404).json({ error: 'Table not found' });
+
+  const canReadAll = can(req.user.role, table, 'read');
+  if (!canReadAll && !can(req.user.role, table, 'read', { isOwner: true })) return forbidden(res);
+
+  // Users who may only read their own activity always get it filtered to themselves.
+  const ownActivityOnly = table === 'activity_logs' && !canReadAll;
+  if (ownActivityOnly && req.query.user_id && String(req.query.user_id) !== String(req.user.id)) {
+    return forbidden(res);
+  }
+
+  try {
+    const list = parseListQuery(table, ownActivityOnly ? { ...req.query, user_id: req.user.id } : req.query);
+    const { rows, total } = await fetchList(table, list);
+
+    if (table === 'rfqs' || table === 'quotations') {
+      return sendList(res, list, await attachLineItems(table, rows), total);
+    }
+
+    if (table === 'goods') {
+      return sendList(res, list, await attachSuppliersToGoods(rows), total);
     }
 
     if (table === 'sales_orders') {
-      const rows = await query('SELECT * FROM `sales_orders` WHERE id = ? LIMIT 1', [id]);
-      if (!rows.length) {
-        return res.status(404).json({ error: 'Record not found' });
-      }
-      return res.json({ ...rows[0], order_date: formatDateOnly(rows[0].order_date) });
+      const formatted = (await attachLineItems(table, rows)).map((row) => ({
+        ...row,
+        order_date: formatDateOnly(row.order_date),
+      }));
+      return sendList(res, list, formatted, total);
     }
 
     if (table === 'delivery_orders') {
-      const rows = await query('SELECT * FROM `delivery_orders` WHERE id = ? LIMIT 1', [id]);
-      if (!rows.length) {
-        return res.status(404).json({ error: 'Record not found' });
-      }
-      return res.json({
-        ...rows[0],
-        delivery_date: formatDateOnly(rows[0].delivery_date),
-        goods: parseJsonArray(rows[0].goods),
-      });
+      const formatted = (await attachLineItems(table, rows)).map((row) => ({
+        ...row,
+        delivery_date: formatDateOnly(row.delivery_date),
+      }));
+      return sendList(res, list, formatted, total);
     }
 
     if (table === 'invoices') {
-      const rows = await query('SELECT * FROM `invoices` WHERE id = ? LIMIT 1', [id]);
-      if (!rows.length) {
-        return res.status(404).json({ error: 'Record not found' });
-      }
-      return res.json({
-        ...rows[0],
-        invoice_date: formatDateOnly(rows[0].invoice_date),
-        paid_date: formatDateOnly(rows[0].paid_date),
-        goods: parseJsonArray(rows[0].goods),
-      });
+      const formatted = (await attachLineItems(table, rows)).map((row) => ({
+        ...row,
+        invoice_date: formatDateOnly(row.invoice_date),
+        paid_date: formatDateOnly(row.paid_date),
+      }));
+      return sendList(res, list, formatted, total);
     }
 
-    const rows = await query('SELECT * FROM ?? WHERE id = ? LIMIT 1', [table, id]);
+    if (table === 'users') {
+      const userIds = rows.map((row) => row.id);
+      const [lockedAccounts, invitations] = await Promise.all([
+        getLockedAccounts(userIds),
+        getInvitationStatuses(userIds),
+      ]);
+      return sendList(
+        res,
+        list,
+        rows.map((row) => ({
+          ...omitUserSecrets(row),
+          ...invitations[String(row.id)],
+          locked_until: lockedAccounts[String(row.id)] || null,
+        })),
+        total
+      );
+    }
 
-    if (!rows.length) {
-      return res.status(404).json({ error: 'Record not found' });
+    return sendList(res, list, rows, total);
+  } catch (error) {
+    if (error instanceof ListQueryError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Fetch error', error);
+    return res.status(500).json({ error: 'Failed to fetch data' });
+  }
+});
+
+// A record the way `GET /api/:table/:id` returns it, or null when there is none.
+const loadRecord = async (table, id) => {
+  const rows = await query(
+    `SELECT * FROM ?? WHERE id = ?${isSoftDeletable(table) ? ' AND deleted_at IS NULL' : ''} LIMIT 1`,
+    [table, id]
+  );
+  if (!rows.length) return null;
+
+  if (table === 'goods') {
+    const [goodWithSuppliers] = await attachSuppliersToGoods(rows);
+    return goodWithSuppliers;
+  }
+
+  if (table === 'rfqs' || table === 'quotations') {
+    const [record] = await attachLineItems(table, rows);
+    return record;
+  }
+
+  if (table === 'sales_orders') {
+    const [order] = await attachLineItems(table, rows);
+    return { ...order, order_date: formatDateOnly(order.order_date) };
+  }
+
+  if (table === 'delivery_orders') {
+    const [delivery] = await attachLineItems(table, rows);
+    return { ...delivery, delivery_date: formatDateOnly(delivery.delivery_date) };
+  }
+
+  if (table === 'invoices') {
+    const [invoice] = await attachLineItems(table, rows);
+    return {
+      ...invoice,
+      invoice_date: formatDateOnly(invoice.invoice_date),
+      paid_date: formatDateOnly(invoice.paid_date),
+    };
+  }
 
-    return res.json(rows[0]);
+  return table === 'users' ? omitUserSecrets(rows[0]) : rows[0];
+};
+
+app.get('/api/:table/:id', requireAuth, async (req, res) => {
+  const { table, id } = req.params;
+  if (!isValidTable(table)) return res.status(404).json({ error: 'Table not found' });
+
+  try {
+    const isOwner = await isRecordOwner(table, id, req.user.id);
+    if (!can(req.user.role, table, 'read', { isOwner })) return forbidden(res);
+
+    const record = await loadRecord(table, id);
+    if (!record) {
+      return res.status(404).json({ error: 'Record not found' });
+    }
+    return res.json(record);
   } catch (error) {
     console.error('Fetch error', error);
     return res.status(500).json({ error: 'Failed to fetch data' });
   }
 });
 
-app.post('/api/:table', async (req, res) => {
+// Documents that can be printed on the company letterhead, by table: the filename label and how to render one
+// from its record the way `loadRecord` returns it.
+const PDF_DOCUMENTS = {
+  quotations: {
+    label: 'Quotation',
+    numberColumn: 'quotation_number',
+    render: async (quotation, letterhead) => {
+      const [preparedBy] = await query('SELECT full_name, title FROM users WHERE id = ? LIMIT 1', [
+        quotation.performed_by,
+      ]);
+      const rfq = await getRfqById(quotation.rfq_id);
+      return renderQuotationPdf({ quotation, rfq, preparedBy, letterhead });
+    },
+  },
+  invoices: {
+    label: 'Invoice',
+    numberColumn: 'invoice_number',
+    render: async (invoice, letterhead) => {
+      const [order] = await query(
+        'SELECT order_number, po_number FROM sales_orders WHERE id = ? AND deleted_at IS NULL LIMIT 1',
+        [invoice.sales_order_id]
+      );
+      return renderInvoicePdf({ invoice, order, letterhead });
+    },
+  },
+  delivery_orders: {
+    label: 'Delivery-Note',
+    numberColumn: 'delivery_number',
+    render: async (delivery, letterhead) => {
+      const [order] = await query(
+        `SELECT order_number, po_number, company_name, client_id FROM sales_orders
+         WHERE id = ? AND deleted_at IS NULL LIMIT 1`,
+        [delivery.sales_order_id]
+      );
+      const [sender] = await query('SELECT full_name FROM users WHERE id = ? LIMIT 1', [delivery.created_by]);
+      // Deliveries saved without an address go to the client of the sales order.
+      const clientId = delivery.client_id || order?.client_id;
+      let shipAddress = delivery.ship_address;
+      if (!shipAddress && clientId) {
+        const [client] = await query('SELECT address FROM clients WHERE id = ? LIMIT 1', [clientId]);
+        shipAddress = client?.address || null;
+      }
+      return renderDeliveryNotePdf({
+        delivery,
+        order,
+        sender,
+        shipAddress,
+        recordUrl: buildAppUrl(`/delivery-orders/${delivery.id}`),
+        letterhead,
+      });
+    },
+  },
+  // The handover report (BAST) of a sales order, once everything on it has been delivered.
+  sales_orders: {
+    label: 'BAST',
+    numberColumn: 'order_number',
+    render: async (order, letterhead) => {
+      if (!(await isFullyShipped(order.id))) {
+        throw new RequestError(409, 'The handover report is available once the whole order has been delivered');
+      }
+      const deliveries = await attachLineItems(
+        'delivery_orders',
+        await query(
+          `SELECT * FROM \`delivery_orders\`
+           WHERE sales_order_id = ? AND deleted_at IS NULL
+           ORDER BY delivery_date ASC, id ASC`,
+          [order.id]
+        )
+      );
+      return renderBastPdf({
+        order,
+        deliveries: deliveries.map((delivery) => ({
+          ...delivery,
+          delivery_date: formatDateOnly(delivery.delivery_date),
+        })),
+        letterhead,
+      });
+    },
+  },
+};
+
+// The record behind a document route, when the user may read it.
+const loadReadableRecord = async (table, id, user) => {
+  const isOwner = await isRecordOwner(table, id, user.id);
+  if (!can(user.role, table, 'read', { isOwner })) throw new RequestError(403, FORBIDDEN_MESSAGE);
+  const record = await loadRecord(table, id);
+  if (!record) throw new RequestError(404, 'Record not found');
+  return record;
+};
+
+const getDocumentFilename = (table, record) =>
+  getPdfFilename(PDF_DOCUMENTS[table].label, record[PDF_DOCUMENTS[table].numberColumn] || record.id);
+
+// Served inline for previewing in the browser, or as a download with `?download=1`.
+app.get('/api/:table/:id/pdf', requireAuth, async (req, res) => {
+  const { table, id } = req.params;
+  const document = PDF_DOCUMENTS[table];
+  if (!document) return res.status(404).json({ error: 'No printable document for this table' });
+
+  try {
+    const record = await loadReadableRecord(table, id, req.user);
+    const pdf = await document.render(record, await loadLetterhead());
+    const filename = getDocumentFilename(table, record);
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Cache-Control': 'no-store',
+      'Content-Disposition': `${req.query.download === '1' ? 'attachment' : 'inline'}; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    });
+    return res.send(pdf);
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('PDF error', error);
+    return res.status(500).json({ error: 'Failed to generate PDF' });
+  }
+});
+
+// Who a document is emailed to: the quotation's PIC, or the billed client (the sales order's PIC when the client
+// has no email on file).
+const getClientEmailRecipient = async (table, record) => {
+  if (table === 'quotations') return { email: record.pic_email || null, name: record.pic_name || null };
+  const [client] = record.client_id
+    ? await query('SELECT email FROM clients WHERE id = ? LIMIT 1', [record.client_id])
+    : [];
+  const [order] = await query('SELECT pic_name, pic_email FROM sales_orders WHERE id = ? LIMIT 1', [
+    record.sales_order_id,
+  ]);
+  return { email: client?.email || order?.pic_email || null, name: order?.pic_name || null };
+};
+
+const sendDocumentEmailError = (res, error, fallback) => {
+  if (error instanceof RequestError || error instanceof DocumentEmailError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(fallback, error);
+  return res.status(500).json({ error: fallback });
+};
+
+// A draft of the client email from the templates in settings, with the emails already sent for the document.
+app.get('/api/:table/:id/email', requireAuth, async (req, res) => {
+  const { table, id } = req.params;
+  if (!isEmailableDocument(table)) return res.status(404).json({ error: 'This document cannot be emailed' });
+
+  try {
+    const record = await loadReadableRecord(table, id, req.user);
+    const sender = await getUserById(req.user.id);
+    const recipient = await getClientEmailRecipient(table, record);
+    const [settings] = await query('SELECT company_name FROM `settings` ORDER BY id ASC LIMIT 1');
+    const draft = await buildEmailDraft(table, {
+      number: record[PDF_DOCUMENTS[table].numberColumn],
+      client: record.company_name,
+      recipient: recipient.name || record.company_name,
+      grand_total: formatRupiah(record.grand_total),
+      sender: sender?.full_name,
+      company: settings?.company_name,
+    });
+    return res.json({
+      to: recipient.email ? [recipient.email] : [],
+      cc: sender?.email ? [sender.email] : [],
+      ...draft,
+      attachment_name: getDocumentFilename(table, record),
+      history: await listDocumentEmails(table, record.id),
+    });
+  } catch (error) {
+    return sendDocumentEmailError(res, error, 'Failed to prepare email');
+  }
+});
+
+// Emails the document's PDF to the client, copying the sender. Failed sends are logged with the document too.
+app.post('/api/:table/:id/email', requireAuth, async (req, res) => {
+  const { table, id } = req.params;
+  if (!isEmailableDocument(table)) return res.status(404).json({ error: 'This document cannot be emailed' });
+
+  try {
+    const record = await loadReadableRecord(table, id, req.user);
+    // Sending goes out from the company mailbox, so it needs the same access as changing the document.
+    const isOwner = await isRecordOwner(table, id, req.user.id);
+    if (!can(req.user.role, table, 'update', { isOwner })) return forbidden(res);
+    const { to, subject, body } = req.body || {};
+    const recipients = parseRecipients(to);
+    if (!String(subject || '').trim() || !String(body || '').trim()) {
+      return res.status(400).json({ error: 'Subject and message are required' });
+    }
+
+    const sender = await getUserById(req.user.id);
+    const cc = sender?.email && !recipients.includes(sender.email.toLowerCase()) ? [sender.email] : [];
+    const attachmentName = getDocumentFilename(table, record);
+    const pdf = await PDF_DOCUMENTS[table].render(record, await loadLetterhead());
+    const email = {
+      table,
+      id: record.id,
+      recipients,
+      cc,
+      subject: String(subject).trim(),
+      body: String(body),
+      attachmentName,
+      sentBy: req.user.id,
+    };
+
+    try {
+      await sendSmtpMail({
+        to: recipients,
+        cc,
+        replyTo: sender?.email,
+        subject: email.subject,
+        html: textToHtml(email.body),
+        attachments: [{ filename: attachmentName, contentType: 'application/pdf', content: pdf }],
+      });
+    } catch (error) {
+      console.error('Client email error', error);
+      await logDocumentEmail({ ...email, error });
+      return res
+        .status(502)
+        .json({ error: 'The email could not be sent. Check the mail server settings and try again.' });
+    }
+
+    await logDocumentEmail(email);
+    const number = record[PDF_DOCUMENTS[table].numberColumn] || record.id;
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: table,
+      entityId: record.id,
+      action: 'email',
+      description: `Emailed ${describeDocument(table)} ${number} to ${recipients.join(', ')}`,
+    });
+    return res.status(201).json({ history: await listDocumentEmails(table, record.id) });
+  } catch (error) {
+    return sendDocumentEmailError(res, error, 'Failed to send email');
+  }
+});
+
+app.post('/api/:table', requireAuth, async (req, res) => {
   const { table } = req.params;
+  const performedBy = req.user.id;
   if (!isValidTable(table)) return res.status(404).json({ error: 'Table not found' });
+  if (!can(req.user.role, table, 'create')) return forbidden(res);
 
   try {
     const payload = req.body || {};
 
     if (table === 'activity_logs') {
-      const { user_id: userId, entity_type, entity_id, action, description } = payload;
-      if (!userId || !entity_type || !entity_id || !action) {
+      const { entity_type, entity_id, action, description } = payload;
+      if (!entity_type || !entity_id || !action) {
         return res.status(400).json({ error: 'Missing required fields' });
       }
       const result = await query(
         'INSERT INTO activity_logs (user_id, entity_type, entity_id, action, description) VALUES (?, ?, ?, ?, ?)',
-        [userId, entity_type, entity_id, action, description || null],
+        [performedBy, entity_type, entity_id, action, description || null],
       );
       const [created] = await query('SELECT * FROM activity_logs WHERE id = ?', [result.insertId]);
       return res.status(201).json(created);
     }
 
     if (table === 'settings') {
-      const { performed_by: performedBy } = payload;
-      const settingsPayload = normalizeSettingsPayload(payload);
+      const settingsPayload = await normalizeSettingsPayload(payload, performedBy);
       const result = await query('INSERT INTO ?? SET ?', [table, settingsPayload]);
       const [created] = await query('SELECT * FROM ?? WHERE id = ?', [table, result.insertId]);
 
@@ -1353,7 +2865,7 @@ app.post('/api/:table', async (req, res) => {
     }
 
     if (table === 'goods') {
-      const { suppliers = [], performed_by: performedBy, ...goodPayload } = payload;
+      const { suppliers = [], performed_by: _performedBy, ...goodPayload } = payload;
       const result = await query('INSERT INTO ?? SET ?', [table, goodPayload]);
 
       if (Array.isArray(suppliers) && suppliers.length > 0) {
@@ -1376,7 +2888,7 @@ app.post('/api/:table', async (req, res) => {
     }
 
     if (table === 'clients') {
-      const { performed_by: performedBy, ship_addresses: shipAddresses, ...clientPayload } = payload;
+      const { performed_by: _performedBy, ship_addresses: shipAddresses, ...clientPayload } = payload;
       const normalizedShipAddresses = Array.isArray(shipAddresses)
         ? JSON.stringify(shipAddresses)
         : shipAddresses ?? null;
@@ -1398,11 +2910,15 @@ app.post('/api/:table', async (req, res) => {
     }
 
     if (table === 'rfqs') {
-      const { goods = [], attachment_data: attachmentData, performed_by: performedBy, performer_role: performerRole, ...rfqPayload } = payload;
+      const { goods = [], attachment_file_id: attachmentFileId, performed_by: _performedBy, performer_role: _performerRole, ...rfqPayload } = payload;
       let attachmentUrl = null;
 
-      if (attachmentData) {
-        attachmentUrl = saveBase64File(attachmentData, 'rfq');
+      if (attachmentFileId) {
+        const attachment = await findUploadedFile(attachmentFileId, FILE_CONTEXTS.RFQ_ATTACHMENT, performedBy);
+        if (!attachment) {
+          return res.status(400).json({ error: 'Attachment upload not found' });
+        }
+        attachmentUrl = buildFileUrl(attachment.id);
       }
 
       const rawDeadlineDays = rfqPayload.deadline_days;
@@ -1411,95 +2927,106 @@ app.post('/api/:table', async (req, res) => {
           ? 30
           : Number(rawDeadlineDays);
 
-      const cleanedGoods = Array.isArray(goods)
-        ? goods.map((item) => ({
-            type: item.type || (item.good_id ? 'existing' : 'other'),
-            good_id: item.good_id || null,
-            name: item.name || null,
-          }))
-        : [];
-
-      const result = await query('INSERT INTO ?? SET ?', [
-        table,
-        {
-          ...rfqPayload,
-          performed_by: performedBy || null,
-          goods: JSON.stringify(cleanedGoods),
-          attachment_url: attachmentUrl,
-          deadline_days: Number.isNaN(resolvedDeadlineDays) ? 30 : resolvedDeadlineDays,
-        },
-      ]);
-      const [created] = await query('SELECT * FROM ?? WHERE id = ?', [table, result.insertId]);
+      const created = await withTransaction(async (db) => {
+        const result = await db.query('INSERT INTO ?? SET ?', [
+          table,
+          {
+            ...rfqPayload,
+            performed_by: performedBy || null,
+            attachment_url: attachmentUrl,
+            deadline_days: Number.isNaN(resolvedDeadlineDays) ? 30 : resolvedDeadlineDays,
+          },
+        ]);
+        await saveLineItems(table, result.insertId, Array.isArray(goods) ? goods : [], db);
+        const [row] = await attachLineItems(
+          table,
+          await db.query('SELECT * FROM ?? WHERE id = ?', [table, result.insertId]),
+          db
+        );
+        return row;
+      });
 
       await logActivity({
         performedBy,
         entityType: 'rfqs',
-        entityId: result.insertId,
+        entityId: created.id,
         action: 'create',
-        description: `Created RFQ ${rfqPayload.rfq_number || rfqPayload.title || result.insertId}`,
+        description: `Created RFQ ${rfqPayload.rfq_number || rfqPayload.title || created.id}`,
       });
 
-      return res.status(201).json({ ...created, goods: cleanedGoods, attachment_url: attachmentUrl });
+      return res.status(201).json(created);
     }
 
     if (table === 'quotations') {
       const {
         goods = [],
         rfq_id: rfqId,
-        performed_by: performedBy,
-        performer_role: performerRole,
+        performed_by: _performedBy,
+        performer_role: _performerRole,
+        tax_rate: _taxRate,
         ...quotationPayload
       } = payload;
-      const cleanedGoods = Array.isArray(goods)
-        ? goods.map((item) => ({
-            good_id: item.good_id || null,
-            name: item.name || null,
-            description: item.description || null,
-            unit: item.unit || null,
-            qty: item.qty || 0,
-            price: item.price || 0,
-            delivery_time: item.delivery_time ?? null,
-          }))
-        : [];
       const cleanedQuotationPayload = { ...quotationPayload };
       delete cleanedQuotationPayload.performer_role;
       delete cleanedQuotationPayload.performerRole;
+      delete cleanedQuotationPayload.quotation_number;
       const status = cleanedQuotationPayload.status || 'waiting';
 
-      const result = await query('INSERT INTO ?? SET ?', [
-        table,
-        {
-          ...cleanedQuotationPayload,
-          rfq_id: rfqId || null,
-          goods: JSON.stringify(cleanedGoods),
-          status,
-          negotiation_round: 0,
-          performed_by: performedBy || null,
-        },
-      ]);
-      const [created] = await query('SELECT * FROM ?? WHERE id = ?', [table, result.insertId]);
-
-      if (rfqId) {
-        await query('UPDATE `rfqs` SET status = ? WHERE id = ?', ['process', rfqId]);
-      }
+      // The RFQ moves to process together with the quotation being written, or not at all.
+      const created = await withTransaction(async (db) => {
+        if (rfqId) {
+          const [rfq] = await db.query('SELECT id FROM `rfqs` WHERE id = ? AND deleted_at IS NULL FOR UPDATE', [
+            rfqId,
+          ]);
+          if (!rfq) {
+            throw new RequestError(400, 'RFQ not found');
+          }
+        }
+        const pricing = priceDocument(Array.isArray(goods) ? goods : [], cleanedQuotationPayload, {
+          taxRate: await getSettingsTaxRate(db),
+          includeTax: Boolean(cleanedQuotationPayload.include_tax),
+        });
+        const result = await db.query('INSERT INTO ?? SET ?', [
+          table,
+          {
+            ...cleanedQuotationPayload,
+            ...pricing,
+            quotation_number: await allocateDocumentNumber(table, db),
+            rfq_id: rfqId || null,
+            status,
+            negotiation_round: 0,
+            performed_by: performedBy || null,
+          },
+        ]);
+        await saveLineItems(table, result.insertId, Array.isArray(goods) ? goods : [], db);
+        if (rfqId) {
+          await db.query('UPDATE `rfqs` SET status = ?, version = version + 1 WHERE id = ?', ['process', rfqId]);
+        }
+        const [row] = await attachLineItems(
+          table,
+          await db.query('SELECT * FROM ?? WHERE id = ?', [table, result.insertId]),
+          db
+        );
+        return row;
+      });
 
       await logActivity({
         performedBy,
         entityType: 'quotations',
-        entityId: result.insertId,
+        entityId: created.id,
         action: 'create',
-        description: `Created quotation ${cleanedQuotationPayload.quotation_number || result.insertId}`,
+        description: `Created quotation ${created.quotation_number}`,
       });
 
       if (status === 'waiting') {
         const requester = await getUserById(performedBy);
         const rfq = await getRfqById(rfqId);
-        const roleEmails = await getRoleEmails(['superadmin', 'manager']);
+        const roleEmails = await getRoleEmails(getRolesWith('quotations', 'status'));
         const requesterEmail = requester?.email ? requester.email.toLowerCase() : null;
         const recipients = roleEmails.filter((email) => email.toLowerCase() !== requesterEmail);
         await sendQuotationNotification({
           quotation: created,
-          goods: cleanedGoods,
+          goods: created.goods,
           statusLabel: 'waiting',
           recipients,
           requester,
@@ -1507,7 +3034,7 @@ app.post('/api/:table', async (req, res) => {
         });
       }
 
-      return res.status(201).json({ ...created, goods: cleanedGoods });
+      return res.status(201).json(created);
     }
 
     if (table === 'delivery_orders') {
@@ -1515,148 +3042,129 @@ app.post('/api/:table', async (req, res) => {
         goods = [],
         delivery_date: deliveryDate,
         sales_order_id: salesOrderId,
-        created_by: createdBy,
-        delivery_number: deliveryNumber,
         company_name: companyName,
+        ship_address: shipAddress,
       } = payload;
 
-      if (!deliveryDate || !salesOrderId || !deliveryNumber) {
+      if (!deliveryDate || !salesOrderId) {
         return res.status(400).json({ error: 'Missing required fields' });
       }
 
-      const cleanedGoods = Array.isArray(goods)
-        ? goods
-            .filter((item) => Number(item?.qty) > 0)
-            .map((item) => ({
-              good_id: item.good_id || null,
-              name: item.name || null,
-              description: item.description || null,
-              unit: item.unit || null,
-              qty: Number(item.qty) || 0,
-            }))
-        : [];
-
-      if (cleanedGoods.length === 0) {
-        return res.status(400).json({ error: 'Delivery goods are required' });
-      }
-
-      const result = await query('INSERT INTO ?? SET ?', [
-        table,
-        {
-          delivery_number: deliveryNumber,
-          delivery_date: formatDateOnly(deliveryDate),
-          sales_order_id: salesOrderId,
-          company_name: companyName || null,
-          goods: JSON.stringify(cleanedGoods),
-          created_by: createdBy || null,
-        },
-      ]);
-
-      const [created] = await query('SELECT * FROM `delivery_orders` WHERE id = ?', [result.insertId]);
+      // The sales order row stays locked until commit, so two deliveries of the same order cannot both pass the
+      // remaining quantity check.
+      const { order, nextStatus, created } = await withTransaction(async (db) => {
+        const [lockedOrder] = await db.query(
+          'SELECT * FROM `sales_orders` WHERE id = ? AND deleted_at IS NULL FOR UPDATE',
+          [salesOrderId]
+        );
+        if (!lockedOrder) {
+          throw new RequestError(400, 'Sales order not found');
+        }
 
-      const [order] = await query('SELECT * FROM `sales_orders` WHERE id = ? LIMIT 1', [salesOrderId]);
-      if (order) {
-        const orderGoods = parseJsonArray(order.goods);
-        const deliveries = await query('SELECT * FROM `delivery_orders` WHERE sales_order_id = ?', [
-          salesOrderId,
+        const deliveryGoods = await buildDeliveryItems(salesOrderId, Array.isArray(goods) ? goods : [], {}, db);
+
+        const result = await db.query('INSERT INTO ?? SET ?', [
+          table,
+          {
+            delivery_number: await allocateDocumentNumber(table, db),
+            delivery_date: formatDateOnly(deliveryDate),
+            sales_order_id: salesOrderId,
+            client_id: lockedOrder.client_id || null,
+            company_name: companyName || null,
+            ship_address: shipAddress || null,
+            created_by: performedBy,
+          },
         ]);
-        const shippedMap = {};
-        deliveries.forEach((delivery) => {
-          const items = parseJsonArray(delivery.goods);
-          items.forEach((item) => {
-            const key = item.good_id ? `id:${item.good_id}` : `name:${item.name}`;
-            shippedMap[key] = (shippedMap[key] || 0) + (Number(item.qty) || 0);
-          });
-        });
+        await saveLineItems(table, result.insertId, deliveryGoods, db);
 
-        const allShipped =
-          orderGoods.length > 0 &&
-          orderGoods.every((item) => {
-            const key = item.good_id ? `id:${item.good_id}` : `name:${item.name}`;
-            const orderedQty = Number(item.qty) || 0;
-            const shippedQty = shippedMap[key] || 0;
-            return orderedQty > 0 ? shippedQty >= orderedQty : true;
-          });
-
-        const nextStatus = allShipped ? 'waiting approval' : 'on-delivery';
-        await query('UPDATE `sales_orders` SET status = ? WHERE id = ?', [nextStatus, salesOrderId]);
-
-        if (allShipped) {
-          const roleEmails = await getRoleEmails(['superadmin', 'manager']);
-          const requester = await getUserById(createdBy || order.created_by);
-          await sendDeliveryApprovalNotification({
-            order: { ...order, status: nextStatus },
-            orderGoods,
-            deliveries,
-            recipients: roleEmails,
-            requester,
-          });
-        }
+        const [row] = await attachLineItems(
+          table,
+          await db.query('SELECT * FROM `delivery_orders` WHERE id = ?', [result.insertId]),
+          db
+        );
+        return { order: lockedOrder, nextStatus: await updateDeliveryStatus(lockedOrder, db), created: row };
+      });
+
+      if (nextStatus === 'waiting approval' && order.status !== nextStatus) {
+        await notifyDeliveryApproval({ ...order, status: nextStatus }, performedBy);
       }
 
       await logActivity({
-        performedBy: createdBy,
+        performedBy,
         entityType: 'delivery_orders',
-        entityId: result.insertId,
+        entityId: created.id,
         action: 'create',
-        description: `Created delivery order ${deliveryNumber}`,
+        description: `Created delivery order ${created.delivery_number}`,
       });
 
       return res.status(201).json({
         ...created,
         delivery_date: formatDateOnly(created?.delivery_date),
-        goods: cleanedGoods,
       });
     }
 
-    if (table === 'invoices') {
-      return res.status(403).json({ error: 'Invoices are generated automatically' });
-    }
-
     if (table === 'sales_orders') {
       const {
         goods = [],
         documents = [],
         status,
-        performed_by: performedBy,
-        created_by: createdBy,
+        performed_by: _performedBy,
+        created_by: _createdBy,
+        tax_rate: _taxRate,
+        include_tax: _includeTax,
         ...orderPayload
       } = payload;
       if (orderPayload.order_date) {
         orderPayload.order_date = formatDateOnly(orderPayload.order_date);
       }
-      const cleanedGoods = Array.isArray(goods) ? goods : [];
-      const cleanedDocuments = normalizeDocumentsPayload(documents, 'sales-order');
-      const result = await query('INSERT INTO ?? SET ?', [
-        table,
-        {
-          ...orderPayload,
-          goods: JSON.stringify(cleanedGoods),
-          documents: cleanedDocuments.length ? JSON.stringify(cleanedDocuments) : null,
-          status: status || 'ongoing',
-          created_by: createdBy || performedBy || null,
-        },
-      ]);
-      const [created] = await query('SELECT * FROM `sales_orders` WHERE id = ?', [result.insertId]);
+      const cleanedDocuments = await normalizeDocumentsPayload(documents, performedBy);
+      const created = await withTransaction(async (db) => {
+        // An order is priced like the quotation it comes from.
+        const [quotation] = orderPayload.quotation_id
+          ? await db.query('SELECT tax_rate, include_tax FROM `quotations` WHERE id = ? LIMIT 1', [
+              orderPayload.quotation_id,
+            ])
+          : [];
+        const pricing = priceDocument(Array.isArray(goods) ? goods : [], orderPayload, {
+          taxRate: quotation?.tax_rate ?? (await getSettingsTaxRate(db)),
+          includeTax: Boolean(quotation?.include_tax),
+        });
+        const result = await db.query('INSERT INTO ?? SET ?', [
+          table,
+          {
+            ...orderPayload,
+            ...pricing,
+            documents: cleanedDocuments.length ? JSON.stringify(cleanedDocuments) : null,
+            status: status || 'ongoing',
+            created_by: performedBy,
+          },
+        ]);
+        await saveLineItems(table, result.insertId, Array.isArray(goods) ? goods : [], db);
+        const [row] = await attachLineItems(
+          table,
+          await db.query('SELECT * FROM `sales_orders` WHERE id = ?', [result.insertId]),
+          db
+        );
+        return row;
+      });
 
       await logActivity({
-        performedBy: createdBy || performedBy,
+        performedBy,
         entityType: 'sales_orders',
-        entityId: result.insertId,
+        entityId: created.id,
         action: 'create',
-        description: `Created sales order ${orderPayload.order_number || result.insertId}`,
+        description: `Created sales order ${orderPayload.order_number || created.id}`,
       });
 
       return res.status(201).json({
         ...created,
         order_date: formatDateOnly(created?.order_date),
-        goods: cleanedGoods,
         documents: cleanedDocuments,
       });
     }
 
     if (table === 'suppliers') {
-      const { performed_by: performedBy, performer_role: _performerRole, ...supplierPayload } = payload;
+      const { performed_by: _performedBy, performer_role: _performerRole, ...supplierPayload } = payload;
 
       const result = await query('INSERT INTO ?? SET ?', [table, supplierPayload]);
       const [created] = await query('SELECT * FROM ?? WHERE id = ?', [table, result.insertId]);
@@ -1677,9 +3185,13 @@ app.post('/api/:table', async (req, res) => {
         return res.status(403).json({ error: 'Superadmin account cannot be created' });
       }
 
+      if (payload.role && !roleExists(payload.role)) {
+        return res.status(400).json({ error: 'Unknown role' });
+      }
+
       const cleanPayload = sanitizeUserPayload(payload, ['full_name', 'email', 'role', 'phone', 'photo_url']);
-      const defaultPassword = generateDefaultPassword();
-      const hashedPassword = await hashPassword(defaultPassword);
+      // Nobody knows this password; the user chooses their own through the invitation link.
+      const hashedPassword = await hashPassword(crypto.randomBytes(32).toString('hex'));
       const userPayload = {
         ...cleanPayload,
         role: cleanPayload.role || 'staff',
@@ -1688,68 +3200,89 @@ app.post('/api/:table', async (req, res) => {
         password_reset_required: 1,
       };
       const result = await query('INSERT INTO ?? SET ?', [table, userPayload]);
-      const [created] = await query('SELECT * FROM ?? WHERE id = ?', [table, result.insertId]);
+      const [createdRow] = await query('SELECT * FROM ?? WHERE id = ?', [table, result.insertId]);
+      const created = omitUserSecrets(createdRow);
 
-      if (payload.performed_by && ['superadmin', 'admin', 'manager'].includes(payload.creator_role)) {
-        await logActivity({
-          performedBy: payload.performed_by,
-          entityType: 'users',
-          entityId: result.insertId,
-          action: 'create',
-          description: `Created user ${cleanPayload.full_name}`,
-        });
-      }
+      await logActivity({
+        performedBy,
+        entityType: 'users',
+        entityId: result.insertId,
+        action: 'create',
+        description: `Created user ${cleanPayload.full_name}`,
+      });
 
       if (created?.email) {
-        const appBaseUrl = process.env.APP_BASE_URL || 'http://localhost:5173';
         try {
-          await sendSmtpMail({
-            to: created.email,
-            subject: 'Akun Baru RGI NexaProc',
-            html: `
-              <p>Halo ${created.full_name || 'User'},</p>
-              <p>Akun RGI NexaProc Anda sudah dibuat.</p>
-              <p><strong>Email:</strong> ${created.email}<br />
-              <strong>Password default:</strong> ${defaultPassword}</p>
-              <p>Silakan login di <a href="${appBaseUrl}">${appBaseUrl}</a> dan lengkapi username serta password baru Anda.</p>
-            `,
-          });
+          await sendInvitation(created, performedBy);
         } catch (error) {
-          console.error('New user email error', error);
+          console.error('New user invitation error', error);
         }
       }
 
-      return res.status(201).json(created);
+      const [invitation] = Object.values(await getInvitationStatuses([created.id]));
+      return res.status(201).json({ ...created, ...invitation });
     }
 
     const result = await query('INSERT INTO ?? SET ?', [table, payload]);
     const [created] = await query('SELECT * FROM ?? WHERE id = ?', [table, result.insertId]);
     return res.status(201).json(created);
   } catch (error) {
+    if (error instanceof RequestError || error instanceof LineItemError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    // e.g. a number format changed so that it produces a number issued earlier
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ error: 'A record with this number already exists' });
+    }
     console.error('Insert error', error);
     return res.status(500).json({ error: 'Failed to create record' });
   }
 });
 
-app.put('/api/:table/:id', async (req, res) => {
+app.put('/api/:table/:id', requireAuth, async (req, res) => {
   const { table, id } = req.params;
+  const performedBy = req.user.id;
+  const performerRole = req.user.role;
   if (!isValidTable(table)) return res.status(404).json({ error: 'Table not found' });
 
   try {
-    if (table === 'delivery_orders') {
-      return res.status(403).json({ error: 'Delivery orders cannot be edited' });
+    const isOwner = await isRecordOwner(table, id, performedBy);
+    if (!can(performerRole, table, 'update', { isOwner })) return forbidden(res);
+    const canChangeStatus = can(performerRole, table, 'status', { isOwner });
+
+    // The version the client loaded. It is only compared, never written as sent.
+    const expectedVersion = parseVersion(req.body?.version);
+    if (req.body && VERSIONED_TABLES.includes(table)) {
+      delete req.body.version;
+    }
+
+    // Records in the recycle bin cannot be edited until they are restored, and only the bin moves them in or out.
+    if (isSoftDeletable(table)) {
+      const [binned] = await query('SELECT id FROM ?? WHERE id = ? AND deleted_at IS NOT NULL LIMIT 1', [table, id]);
+      if (binned) return res.status(404).json({ error: 'Record not found' });
+      if (req.body) {
+        delete req.body.deleted_at;
+        delete req.body.deleted_by;
+        delete req.body.deletion_id;
+      }
     }
 
     if (table === 'clients') {
       const {
-        performed_by: performedBy,
-        performer_role: performerRole,
+        performed_by: _performedBy,
+        performer_role: _performerRole,
         ship_addresses: shipAddresses,
         ...clientUpdates
       } = req.body || {};
-      const isPrivileged = performerRole && ['superadmin', 'manager'].includes(performerRole);
-      if (Object.prototype.hasOwnProperty.call(clientUpdates, 'status') && !isPrivileged) {
-        return res.status(403).json({ error: 'Only managers can update client status' });
+      const [existingClient] = await query('SELECT status FROM `clients` WHERE id = ? LIMIT 1', [id]);
+      if (!existingClient) {
+        return res.status(404).json({ error: 'Record not found' });
+      }
+      const isClientStatusChange =
+        Object.prototype.hasOwnProperty.call(clientUpdates, 'status') &&
+        clientUpdates.status !== existingClient.status;
+      if (isClientStatusChange && !canChangeStatus) {
+        return forbidden(res);
       }
       const normalizedShipAddresses = Array.isArray(shipAddresses)
         ? JSON.stringify(shipAddresses)
@@ -1758,8 +3291,12 @@ app.put('/api/:table/:id', async (req, res) => {
       if (shipAddresses !== undefined) {
         nextUpdates.ship_addresses = normalizedShipAddresses;
       }
-      await query('UPDATE ?? SET ? WHERE id = ?', [table, nextUpdates, id]);
-      const [updated] = await query('SELECT * FROM ?? WHERE id = ?', [table, id]);
+      const updated = await withTransaction(async (db) => {
+        await claimVersion(db, table, id, expectedVersion);
+        await db.query('UPDATE ?? SET ? WHERE id = ?', [table, nextUpdates, id]);
+        const [row] = await db.query('SELECT * FROM ?? WHERE id = ?', [table, id]);
+        return row;
+      });
 
       await logActivity({
         performedBy,
@@ -1773,8 +3310,7 @@ app.put('/api/:table/:id', async (req, res) => {
     }
 
     if (table === 'settings') {
-      const { performed_by: performedBy } = req.body || {};
-      const settingsUpdates = normalizeSettingsPayload(req.body || {}, id);
+      const settingsUpdates = await normalizeSettingsPayload(req.body || {}, performedBy);
       await query('UPDATE ?? SET ? WHERE id = ?', [table, settingsUpdates, id]);
       const [updated] = await query('SELECT * FROM ?? WHERE id = ?', [table, id]);
 
@@ -1792,56 +3328,89 @@ app.put('/api/:table/:id', async (req, res) => {
       const {
         goods,
         documents,
-        performed_by: performedBy,
-        performer_role: performerRole,
+        performed_by: _performedBy,
+        performer_role: _performerRole,
+        tax_rate: _taxRate,
+        include_tax: _includeTax,
         ...orderUpdates
       } = req.body || {};
-      const [existing] = await query('SELECT * FROM `sales_orders` WHERE id = ? LIMIT 1', [id]);
+      const requestedStatus = orderUpdates.status;
 
-      if (!existing) {
-        return res.status(404).json({ error: 'Record not found' });
-      }
+      // The order row stays locked until commit: the status check, the line changes and the invoice raised on
+      // waiting payment see no concurrent delivery or update, and a failed step leaves the order untouched.
+      const { updated, cleanedDocuments, isStatusChange, invoice } = await withTransaction(async (db) => {
+        const [existing] = await db.query('SELECT * FROM `sales_orders` WHERE id = ? FOR UPDATE', [id]);
 
-      const nextUpdates = { ...orderUpdates };
-      const requestedStatus = orderUpdates.status;
-      const isStatusChange = requestedStatus && requestedStatus !== existing.status;
-      const isPrivileged = performerRole && ['superadmin', 'manager'].includes(performerRole);
+        if (!existing) {
+          throw new RequestError(404, 'Record not found');
+        }
 
-      if (isStatusChange && requestedStatus === 'waiting payment' && !isPrivileged) {
-        return res.status(403).json({ error: 'Only managers can update status to waiting payment' });
-      }
+        const nextUpdates = { ...orderUpdates };
+        const statusChanging = Boolean(requestedStatus && requestedStatus !== existing.status);
 
-      if (nextUpdates.order_date) {
-        nextUpdates.order_date = formatDateOnly(nextUpdates.order_date);
-      }
+        if (statusChanging && !canChangeStatus) {
+          throw new RequestError(403, FORBIDDEN_MESSAGE);
+        }
+
+        if (nextUpdates.order_date) {
+          nextUpdates.order_date = formatDateOnly(nextUpdates.order_date);
+        }
 
-      if (performedBy) {
         nextUpdates.last_edited_by = performedBy;
-      }
-      let cleanedGoods;
-      let cleanedDocuments;
+        let cleanedGoods;
+        let nextDocuments;
 
-      if (Object.prototype.hasOwnProperty.call(req.body || {}, 'goods')) {
-        cleanedGoods = Array.isArray(goods) ? goods : [];
-        nextUpdates.goods = JSON.stringify(cleanedGoods);
-      }
+        if (Object.prototype.hasOwnProperty.call(req.body || {}, 'goods')) {
+          cleanedGoods = Array.isArray(goods) ? goods : [];
+          await assertDeliveredLinesKept(id, cleanedGoods, db);
+        }
 
-      if (Object.prototype.hasOwnProperty.call(req.body || {}, 'documents')) {
-        cleanedDocuments = normalizeDocumentsPayload(documents, 'sales-order');
-        nextUpdates.documents = cleanedDocuments.length ? JSON.stringify(cleanedDocuments) : null;
-      }
+        if (cleanedGoods || Object.keys(TOTAL_LABELS).some((field) => field in nextUpdates)) {
+          const items = cleanedGoods || (await getLineItems(table, [id], db))[String(id)] || [];
+          Object.assign(
+            nextUpdates,
+            priceDocument(items, nextUpdates, {
+              taxRate: existing.tax_rate ?? (await getSettingsTaxRate(db)),
+              includeTax: Boolean(existing.include_tax),
+            })
+          );
+        }
 
-      await query('UPDATE ?? SET ? WHERE id = ?', [table, nextUpdates, id]);
-      const [updated] = await query('SELECT * FROM `sales_orders` WHERE id = ?', [id]);
+        if (Object.prototype.hasOwnProperty.call(req.body || {}, 'documents')) {
+          nextDocuments = await normalizeDocumentsPayload(documents, performedBy, parseJsonArray(existing.documents));
+          nextUpdates.documents = nextDocuments.length ? JSON.stringify(nextDocuments) : null;
+        }
 
-      let responseGoods = cleanedGoods;
-      if (!responseGoods) {
-        try {
-          responseGoods = JSON.parse(updated?.goods || '[]');
-        } catch {
-          responseGoods = [];
+        if (
+          statusChanging &&
+          requestedStatus === 'waiting payment' &&
+          !hasOrderDocument(nextDocuments || parseJsonArray(existing.documents), 'BAST')
+        ) {
+          throw new RequestError(
+            400,
+            'Upload the BAST signed by the client before moving the order to waiting payment'
+          );
         }
-      }
+
+        await claimVersion(db, table, id, expectedVersion);
+        await db.query('UPDATE ?? SET ? WHERE id = ?', [table, nextUpdates, id]);
+        if (cleanedGoods) {
+          await saveLineItems(table, id, cleanedGoods, db);
+        }
+        const [row] = await attachLineItems(
+          table,
+          await db.query('SELECT * FROM `sales_orders` WHERE id = ?', [id]),
+          db
+        );
+
+        return {
+          updated: row,
+          cleanedDocuments: nextDocuments,
+          isStatusChange: statusChanging,
+          invoice:
+            statusChanging && requestedStatus === 'waiting payment' ? await createInvoiceForOrder(row, db) : null,
+        };
+      });
 
       let responseDocuments = cleanedDocuments;
       if (!responseDocuments) {
@@ -1870,14 +3439,19 @@ app.put('/api/:table/:id', async (req, res) => {
         });
       }
 
-      if (isStatusChange && requestedStatus === 'waiting payment') {
-        await createInvoiceForOrder(updated, performedBy);
+      if (invoice) {
+        await logActivity({
+          performedBy,
+          entityType: 'invoices',
+          entityId: invoice.id,
+          action: 'create',
+          description: `Auto-created invoice ${invoice.invoice_number}`,
+        });
       }
 
       return res.json({
         ...updated,
         order_date: formatDateOnly(updated?.order_date),
-        goods: responseGoods,
         documents: responseDocuments,
       });
     }
@@ -1886,8 +3460,8 @@ app.put('/api/:table/:id', async (req, res) => {
       const {
         goods,
         rfq_id: rfqId,
-        performed_by: performedBy,
-        performer_role: performerRole,
+        performed_by: _performedBy,
+        performer_role: _performerRole,
         ...quotationUpdates
       } = req.body || {};
       const [existing] = await query('SELECT * FROM `quotations` WHERE id = ? LIMIT 1', [id]);
@@ -1900,44 +3474,18 @@ app.put('/api/:table/:id', async (req, res) => {
         return res.status(403).json({ error: 'Rejected quotations cannot be edited' });
       }
 
-      const isPrivileged = performerRole && ['superadmin', 'manager'].includes(performerRole);
-      const isRequester =
-        performedBy &&
-        existing.performed_by &&
-        String(existing.performed_by) === String(performedBy);
-
-      if (!isPrivileged && !isRequester) {
-        return res.status(403).json({ error: 'Not authorized to edit this quotation' });
-      }
-
       let hasGoodsUpdate = Object.prototype.hasOwnProperty.call(req.body || {}, 'goods');
-      let cleanedGoods = hasGoodsUpdate
-        ? Array.isArray(goods)
-          ? goods.map((item) => ({
-              good_id: item.good_id || null,
-              name: item.name || null,
-              description: item.description || null,
-              unit: item.unit || null,
-              qty: item.qty || 0,
-              price: item.price || 0,
-              delivery_time: item.delivery_time ?? null,
-            }))
-          : []
-        : JSON.parse(existing.goods || '[]');
 
       const editableFields = ['payment_time', 'total_amount', 'tax_amount', 'grand_total', 'include_tax'];
       let sanitizedUpdates = Object.fromEntries(
         Object.entries(quotationUpdates || {}).filter(([key]) => editableFields.includes(key))
       );
       let nextUpdates = { ...sanitizedUpdates };
-      if (hasGoodsUpdate) {
-        nextUpdates.goods = JSON.stringify(cleanedGoods);
-      }
 
       const requestedStatus = quotationUpdates.status;
       const isStatusChange = requestedStatus && requestedStatus !== existing.status;
       const isRejectRequest = requestedStatus === 'reject' || requestedStatus === 'rejected';
-      const canRejectProcessed = existing.status === 'process' && isStatusChange && isRejectRequest && isPrivileged;
+      const canRejectProcessed = existing.status === 'process' && isStatusChange && isRejectRequest && canChangeStatus;
       const isOtherUpdate =
         hasGoodsUpdate ||
         Object.keys(sanitizedUpdates).length > 0;
@@ -1947,13 +3495,12 @@ app.put('/api/:table/:id', async (req, res) => {
       }
       if (canRejectProcessed) {
         hasGoodsUpdate = false;
-        cleanedGoods = JSON.parse(existing.goods || '[]');
         sanitizedUpdates = {};
         nextUpdates = { status: requestedStatus };
       }
 
-      if (isStatusChange && !isPrivileged) {
-        return res.status(403).json({ error: 'Only managers can update status' });
+      if (isStatusChange && !canChangeStatus) {
+        return forbidden(res);
       }
 
       const shouldAutoRenegotiate =
@@ -1970,8 +3517,28 @@ app.put('/api/:table/:id', async (req, res) => {
         nextUpdates.status = requestedStatus;
       }
 
-      await query('UPDATE ?? SET ? WHERE id = ?', [table, nextUpdates, id]);
-      const [updated] = await query('SELECT * FROM ?? WHERE id = ?', [table, id]);
+      const updated = await withTransaction(async (db) => {
+        await claimVersion(db, table, id, expectedVersion);
+        // A quotation keeps the tax rate it was first priced with.
+        if (hasGoodsUpdate || Object.keys(sanitizedUpdates).some((field) => field !== 'payment_time')) {
+          const items = hasGoodsUpdate ? goods : (await getLineItems(table, [id], db))[String(id)];
+          Object.assign(
+            nextUpdates,
+            priceDocument(Array.isArray(items) ? items : [], sanitizedUpdates, {
+              taxRate: existing.tax_rate ?? (await getSettingsTaxRate(db)),
+              includeTax: Boolean(sanitizedUpdates.include_tax ?? existing.include_tax),
+            })
+          );
+        }
+        if (Object.keys(nextUpdates).length) {
+          await db.query('UPDATE ?? SET ? WHERE id = ?', [table, nextUpdates, id]);
+        }
+        if (hasGoodsUpdate) {
+          await saveLineItems(table, id, Array.isArray(goods) ? goods : [], db);
+        }
+        const [row] = await attachLineItems(table, await db.query('SELECT * FROM ?? WHERE id = ?', [table, id]), db);
+        return row;
+      });
 
       if (isOtherUpdate) {
         await logActivity({
@@ -1995,7 +3562,7 @@ app.put('/api/:table/:id', async (req, res) => {
 
       const requester = await getUserById(updated?.performed_by || existing.performed_by);
       const rfq = await getRfqById(updated?.rfq_id || existing.rfq_id);
-      const roleEmails = await getRoleEmails(['superadmin', 'manager']);
+      const roleEmails = await getRoleEmails(getRolesWith('quotations', 'status'));
       const requesterEmail = requester?.email ? requester.email.toLowerCase() : null;
       const roleRecipients = roleEmails.filter((email) => email.toLowerCase() !== requesterEmail);
       const statusForNotification = shouldAutoRenegotiate ? 'renegotiation' : updated?.status || existing.status;
@@ -2018,7 +3585,7 @@ app.put('/api/:table/:id', async (req, res) => {
       if (shouldNotifyWaitingOrRenegotiation) {
         await sendQuotationNotification({
           quotation: updated,
-          goods: cleanedGoods,
+          goods: updated.goods,
           statusLabel: statusForNotification,
           recipients: roleRecipients,
           requester,
@@ -2029,7 +3596,7 @@ app.put('/api/:table/:id', async (req, res) => {
       if (shouldNotifyRequester) {
         await sendQuotationNotification({
           quotation: updated,
-          goods: cleanedGoods,
+          goods: updated.goods,
           statusLabel: statusForNotification,
           recipients: requesterRecipients,
           requester,
@@ -2043,7 +3610,7 @@ app.put('/api/:table/:id', async (req, res) => {
         );
         await sendQuotationNotification({
           quotation: updated,
-          goods: cleanedGoods,
+          goods: updated.goods,
           statusLabel: 'process',
           recipients: processRecipients,
           requester,
@@ -2051,25 +3618,19 @@ app.put('/api/:table/:id', async (req, res) => {
         });
       }
 
-      return res.json({ ...updated, goods: cleanedGoods });
+      return res.json(updated);
     }
 
     if (table === 'rfqs') {
-      const { goods = [], attachment_data: attachmentData, performed_by: performedBy, performer_role: performerRole, ...rfqUpdates } = req.body || {};
+      const { goods = [], attachment_file_id: attachmentFileId, performed_by: _performedBy, performer_role: _performerRole, ...rfqUpdates } = req.body || {};
       const [existing] = await query('SELECT * FROM `rfqs` WHERE id = ? LIMIT 1', [id]);
 
       if (!existing) {
         return res.status(404).json({ error: 'Record not found' });
       }
 
-      const allowedRoles = ['superadmin', 'admin', 'manager'];
-      const isPrivileged = performerRole && allowedRoles.includes(performerRole);
-      const isRequester =
-        performedBy &&
-        existing.performed_by &&
-        String(existing.performed_by) === String(performedBy);
-      if (!isPrivileged && !isRequester) {
-        return res.status(403).json({ error: 'Not authorized to edit this RFQ' });
+      if (rfqUpdates.status && rfqUpdates.status !== existing.status && !canChangeStatus) {
+        return forbidden(res);
       }
 
       if (existing.status === 'process') {
@@ -2077,18 +3638,15 @@ app.put('/api/:table/:id', async (req, res) => {
       }
 
       let attachmentUrl = existing.attachment_url;
-      if (attachmentData) {
-        attachmentUrl = saveBase64File(attachmentData, `rfq-${id}`);
+      if (attachmentFileId) {
+        const attachment = await findUploadedFile(attachmentFileId, FILE_CONTEXTS.RFQ_ATTACHMENT, performedBy);
+        if (!attachment) {
+          return res.status(400).json({ error: 'Attachment upload not found' });
+        }
+        attachmentUrl = buildFileUrl(attachment.id);
       }
 
       const hasGoodsPayload = Object.prototype.hasOwnProperty.call(req.body || {}, 'goods');
-      const cleanedGoods = hasGoodsPayload && Array.isArray(goods)
-        ? goods.map((item) => ({
-            type: item.type || (item.good_id ? 'existing' : 'other'),
-            good_id: item.good_id || null,
-            name: item.name || null,
-          }))
-        : JSON.parse(existing.goods || '[]');
 
       const nextUpdates = { ...rfqUpdates };
       if (Object.prototype.hasOwnProperty.call(nextUpdates, 'deadline_days')) {
@@ -2100,12 +3658,15 @@ app.put('/api/:table/:id', async (req, res) => {
         nextUpdates.deadline_days = Number.isNaN(resolvedDeadlineDays) ? 30 : resolvedDeadlineDays;
       }
 
-      await query('UPDATE ?? SET ? WHERE id = ?', [
-        table,
-        { ...nextUpdates, goods: JSON.stringify(cleanedGoods), attachment_url: attachmentUrl },
-        id,
-      ]);
-      const [updated] = await query('SELECT * FROM ?? WHERE id = ?', [table, id]);
+      const updated = await withTransaction(async (db) => {
+        await claimVersion(db, table, id, expectedVersion);
+        await db.query('UPDATE ?? SET ? WHERE id = ?', [table, { ...nextUpdates, attachment_url: attachmentUrl }, id]);
+        if (hasGoodsPayload && Array.isArray(goods)) {
+          await saveLineItems(table, id, goods, db);
+        }
+        const [row] = await attachLineItems(table, await db.query('SELECT * FROM ?? WHERE id = ?', [table, id]), db);
+        return row;
+      });
 
       await logActivity({
         performedBy,
@@ -2115,7 +3676,7 @@ app.put('/api/:table/:id', async (req, res) => {
         description: `Updated RFQ ${rfqUpdates.rfq_number || updated?.rfq_number || id}`,
       });
 
-      return res.json({ ...updated, goods: cleanedGoods });
+      return res.json(updated);
     }
 
     if (table === 'goods') {
@@ -2124,16 +3685,22 @@ app.put('/api/:table/:id', async (req, res) => {
         return res.status(404).json({ error: 'Record not found' });
       }
 
-      const { suppliers = [], performed_by: performedBy, ...goodUpdates } = req.body || {};
-      if (Object.keys(goodUpdates).length > 0) {
-        await query('UPDATE ?? SET ? WHERE id = ?', [table, goodUpdates, id]);
+      const { suppliers = [], performed_by: _performedBy, ...goodUpdates } = req.body || {};
+      if (goodUpdates.status && goodUpdates.status !== existingGood.status && !canChangeStatus) {
+        return forbidden(res);
       }
+      await withTransaction(async (db) => {
+        await claimVersion(db, table, id, expectedVersion);
+        if (Object.keys(goodUpdates).length > 0) {
+          await db.query('UPDATE ?? SET ? WHERE id = ?', [table, goodUpdates, id]);
+        }
 
-      await query('DELETE FROM goods_suppliers WHERE good_id = ?', [id]);
-      if (Array.isArray(suppliers) && suppliers.length > 0) {
-        const supplierValues = suppliers.map((supplierId) => [id, supplierId]);
-        await query('INSERT INTO goods_suppliers (good_id, supplier_id) VALUES ?', [supplierValues]);
-      }
+        await db.query('DELETE FROM goods_suppliers WHERE good_id = ?', [id]);
+        if (Array.isArray(suppliers) && suppliers.length > 0) {
+          const supplierValues = suppliers.map((supplierId) => [id, supplierId]);
+          await db.query('INSERT INTO goods_suppliers (good_id, supplier_id) VALUES ?', [supplierValues]);
+        }
+      });
 
       const [updated] = await attachSuppliersToGoods(await query('SELECT * FROM `goods` WHERE id = ?', [id]));
 
@@ -2148,12 +3715,21 @@ app.put('/api/:table/:id', async (req, res) => {
     }
 
     if (table === 'suppliers') {
-      const { performed_by: performedBy, performer_role: performerRole, ...supplierUpdates } = req.body || {};
-      const isPrivileged = performerRole && ['superadmin', 'manager'].includes(performerRole);
-      if (Object.prototype.hasOwnProperty.call(supplierUpdates, 'status') && !isPrivileged) {
-        return res.status(403).json({ error: 'Only managers can update supplier status' });
+      const { performed_by: _performedBy, performer_role: _performerRole, ...supplierUpdates } = req.body || {};
+      const [existingSupplier] = await query('SELECT status FROM `suppliers` WHERE id = ? LIMIT 1', [id]);
+      if (!existingSupplier) {
+        return res.status(404).json({ error: 'Record not found' });
       }
-      await query('UPDATE ?? SET ? WHERE id = ?', [table, supplierUpdates, id]);
+      const isSupplierStatusChange =
+        Object.prototype.hasOwnProperty.call(supplierUpdates, 'status') &&
+        supplierUpdates.status !== existingSupplier.status;
+      if (isSupplierStatusChange && !canChangeStatus) {
+        return forbidden(res);
+      }
+      await withTransaction(async (db) => {
+        await claimVersion(db, table, id, expectedVersion);
+        await db.query('UPDATE ?? SET ? WHERE id = ?', [table, supplierUpdates, id]);
+      });
       const [updated] = await query('SELECT * FROM ?? WHERE id = ?', [table, id]);
 
       await logActivity({
@@ -2166,66 +3742,142 @@ app.put('/api/:table/:id', async (req, res) => {
       return res.json(updated);
     }
 
-    if (table === 'invoices') {
-      const { payment_time: paymentTime, billing_address: billingAddress, status, performed_by: performedBy } = req.body || {};
-      const [existingInvoice] = await query('SELECT * FROM `invoices` WHERE id = ? LIMIT 1', [id]);
-      if (!existingInvoice) {
-        return res.status(404).json({ error: 'Record not found' });
-      }
+    if (table === 'delivery_orders') {
+      const { delivery_date: deliveryDate, ship_address: shipAddress, goods } = req.body || {};
+      // Locks the sales order like a new delivery does, so the remaining quantities cannot change underneath.
+      const { order, nextStatus, updated } = await withTransaction(async (db) => {
+        const [existing] = await db.query('SELECT * FROM `delivery_orders` WHERE id = ? LIMIT 1', [id]);
+        if (!existing) {
+          throw new RequestError(404, 'Record not found');
+        }
 
-      const updates = {};
-      if (paymentTime !== undefined) {
-        updates.payment_time = paymentTime;
-      }
-      if (billingAddress !== undefined) {
-        updates.billing_address = billingAddress;
-      }
-      if (status !== undefined) {
-        if (existingInvoice.status !== 'overdue' || status !== 'paid') {
-          return res.status(403).json({ error: 'Invoice status can only be updated from overdue to paid' });
+        const [lockedOrder] = await db.query('SELECT * FROM `sales_orders` WHERE id = ? FOR UPDATE', [
+          existing.sales_order_id,
+        ]);
+        if (lockedOrder && ['waiting payment', 'done'].includes(lockedOrder.status)) {
+          throw new RequestError(409, 'Delivery orders cannot be edited once the sales order is approved or done');
         }
-        updates.status = 'paid';
-        updates.paid_date = formatDateOnly(new Date());
-      }
 
-      if (Object.keys(updates).length === 0) {
-        return res.status(400).json({ error: 'No valid fields to update' });
-      }
+        const deliveryGoods = Array.isArray(goods)
+          ? await buildDeliveryItems(existing.sales_order_id, goods, { excludeDeliveryId: existing.id }, db)
+          : null;
 
-      await query('UPDATE ?? SET ? WHERE id = ?', [table, updates, id]);
-      const [updated] = await query('SELECT * FROM `invoices` WHERE id = ? LIMIT 1', [id]);
+        const updates = {};
+        if (deliveryDate !== undefined) {
+          updates.delivery_date = formatDateOnly(deliveryDate);
+        }
+        if (shipAddress !== undefined) {
+          updates.ship_address = shipAddress || null;
+        }
+        await claimVersion(db, table, id, expectedVersion);
+        if (Object.keys(updates).length) {
+          await db.query('UPDATE ?? SET ? WHERE id = ?', [table, updates, id]);
+        }
+        let status = null;
+        if (deliveryGoods) {
+          await saveLineItems(table, id, deliveryGoods, db);
+          if (lockedOrder) {
+            status = await updateDeliveryStatus(lockedOrder, db);
+          }
+        }
+
+        const [row] = await attachLineItems(
+          table,
+          await db.query('SELECT * FROM `delivery_orders` WHERE id = ?', [id]),
+          db
+        );
+        return { order: lockedOrder, nextStatus: status, updated: row };
+      });
+
+      if (nextStatus === 'waiting approval' && order.status !== nextStatus) {
+        await notifyDeliveryApproval({ ...order, status: nextStatus }, performedBy);
+      }
 
       await logActivity({
         performedBy,
-        entityType: 'invoices',
+        entityType: 'delivery_orders',
         entityId: Number(id),
         action: 'update',
-        description: `Updated invoice ${updated?.invoice_number || id}`,
+        description: `Updated delivery order ${updated.delivery_number || id}`,
       });
 
-      if (status === 'paid') {
-        if (updated?.sales_order_id) {
-          await query('UPDATE `sales_orders` SET status = ? WHERE id = ?', ['done', updated.sales_order_id]);
-          const [order] = await query('SELECT * FROM `sales_orders` WHERE id = ? LIMIT 1', [
-            updated.sales_order_id,
+      return res.json({ ...updated, delivery_date: formatDateOnly(updated.delivery_date) });
+    }
+
+    if (table === 'invoices') {
+      const { payment_time: paymentTime, billing_address: billingAddress, status, performed_by: _performedBy } = req.body || {};
+      // Marking an invoice paid closes its sales order, quotation and RFQ in the same transaction; the invoice
+      // row is locked so it can only be paid once.
+      const updated = await withTransaction(async (db) => {
+        const [existingInvoice] = await db.query('SELECT * FROM `invoices` WHERE id = ? FOR UPDATE', [id]);
+        if (!existingInvoice) {
+          throw new RequestError(404, 'Record not found');
+        }
+
+        const updates = {};
+        if (paymentTime !== undefined) {
+          updates.payment_time = paymentTime;
+        }
+        if (billingAddress !== undefined) {
+          updates.billing_address = billingAddress;
+        }
+        if (status !== undefined) {
+          if (!canChangeStatus) {
+            throw new RequestError(403, FORBIDDEN_MESSAGE);
+          }
+          if (existingInvoice.status !== 'overdue' || status !== 'paid') {
+            throw new RequestError(403, 'Invoice status can only be updated from overdue to paid');
+          }
+          updates.status = 'paid';
+          updates.paid_date = formatDateOnly(new Date());
+        }
+
+        if (Object.keys(updates).length === 0) {
+          throw new RequestError(400, 'No valid fields to update');
+        }
+
+        await claimVersion(db, table, id, expectedVersion);
+        await db.query('UPDATE ?? SET ? WHERE id = ?', [table, updates, id]);
+        const [row] = await db.query('SELECT * FROM `invoices` WHERE id = ? LIMIT 1', [id]);
+
+        if (status === 'paid' && row?.sales_order_id) {
+          await db.query('UPDATE `sales_orders` SET status = ?, version = version + 1 WHERE id = ?', [
+            'done',
+            row.sales_order_id,
           ]);
+          const [order] = await db.query('SELECT * FROM `sales_orders` WHERE id = ? LIMIT 1', [row.sales_order_id]);
           if (order?.quotation_id) {
-            await query('UPDATE `quotations` SET status = ? WHERE id = ?', ['success', order.quotation_id]);
-            const [quotation] = await query('SELECT * FROM `quotations` WHERE id = ? LIMIT 1', [
+            await db.query('UPDATE `quotations` SET status = ?, version = version + 1 WHERE id = ?', [
+              'success',
+              order.quotation_id,
+            ]);
+            const [quotation] = await db.query('SELECT * FROM `quotations` WHERE id = ? LIMIT 1', [
               order.quotation_id,
             ]);
             if (quotation?.rfq_id) {
-              await query('UPDATE `rfqs` SET status = ? WHERE id = ?', ['success', quotation.rfq_id]);
+              await db.query('UPDATE `rfqs` SET status = ?, version = version + 1 WHERE id = ?', [
+                'success',
+                quotation.rfq_id,
+              ]);
             }
           }
         }
-      }
+        return row;
+      });
 
+      await logActivity({
+        performedBy,
+        entityType: 'invoices',
+        entityId: Number(id),
+        action: 'update',
+        description: `Updated invoice ${updated?.invoice_number || id}`,
+      });
+
+      const [invoice] = await attachLineItems(table, [updated]);
       return res.json({
-        ...updated,
-        invoice_date: formatDateOnly(updated?.invoice_date),
-        paid_date: formatDateOnly(updated?.paid_date),
-        goods: parseJsonArray(updated?.goods),
+        ...invoice,
+        invoice_date: formatDateOnly(invoice.invoice_date),
+        paid_date: formatDateOnly(invoice.paid_date),
       });
     }
 
@@ -2235,6 +3887,11 @@ app.put('/api/:table/:id', async (req, res) => {
         return res.status(404).json({ error: 'User not found' });
       }
 
+      const canManageUsers = can(performerRole, 'users', 'update');
+      if (existing.role === 'superadmin' && performerRole !== 'superadmin') {
+        return forbidden(res);
+      }
+
       if (existing.role === 'superadmin') {
         const updates = sanitizeUserPayload(req.body || {}, [
           'full_name',
@@ -2280,6 +3937,14 @@ app.put('/api/:table/:id', async (req, res) => {
           return res.status(403).json({ error: 'Cannot promote user to superadmin' });
         }
 
+        if (updates.role && !roleExists(updates.role)) {
+          return res.status(400).json({ error: 'Unknown role' });
+        }
+
+        if (updates.role && updates.role !== existing.role && !canManageUsers) {
+          return forbidden(res);
+        }
+
         if (Object.keys(updates).length === 0) {
           return res.status(400).json({ error: 'No valid fields to update' });
         }
@@ -2302,24 +3967,34 @@ app.put('/api/:table/:id', async (req, res) => {
       }
 
       const [updated] = await query('SELECT * FROM ?? WHERE id = ?', [table, id]);
-      return res.json(updated);
+      return res.json(omitUserSecrets(updated));
     }
 
     await query('UPDATE ?? SET ? WHERE id = ?', [table, req.body || {}, id]);
     const [updated] = await query('SELECT * FROM ?? WHERE id = ?', [table, id]);
     return res.json(updated);
   } catch (error) {
+    if (error instanceof RequestError || error instanceof LineItemError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({ error: error.message, current: await loadRecord(table, id) });
+    }
     console.error('Update error', error);
     return res.status(500).json({ error: 'Failed to update record' });
   }
 });
 
-app.post('/api/users/:id/photo', async (req, res) => {
+app.post('/api/users/:id/photo', requireAuth, async (req, res) => {
   const { id } = req.params;
-  const { photoData } = req.body || {};
+  const { file_id: fileId } = req.body || {};
+
+  if (!can(req.user.role, 'users', 'update', { isOwner: String(id) === String(req.user.id) })) {
+    return forbidden(res);
+  }
 
-  if (!photoData) {
-    return res.status(400).json({ error: 'Photo data is required' });
+  if (!fileId) {
+    return res.status(400).json({ error: 'Photo upload is required' });
   }
 
   try {
@@ -2329,7 +4004,11 @@ app.post('/api/users/:id/photo', async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const photoUrl = saveBase64Image(photoData, `user-${id}`);
+    const photo = await findUploadedFile(fileId, FILE_CONTEXTS.USER_PHOTO, req.user.id);
+    if (!photo) {
+      return res.status(400).json({ error: 'Photo upload not found' });
+    }
+    const photoUrl = buildFileUrl(photo.id);
 
     await query('UPDATE ?? SET ? WHERE id = ?', ['users', { photo_url: photoUrl }, id]);
     return res.json({ photo_url: photoUrl });
@@ -2339,46 +4018,428 @@ app.post('/api/users/:id/photo', async (req, res) => {
   }
 });
 
-app.delete('/api/:table/:id', async (req, res) => {
-  const { table, id } = req.params;
-  if (!isValidTable(table)) return res.status(404).json({ error: 'Table not found' });
+// Recovery for users who lost their authenticator and backup codes; they enroll again on next sign in.
+app.post('/api/users/:id/two-factor/reset', requireAuth, requireSuperadmin, async (req, res) => {
+  const { id } = req.params;
+
+  if (String(id) === String(req.user.id)) {
+    return res.status(400).json({ error: 'Use your backup codes to recover your own account' });
+  }
 
   try {
-    const { performed_by: performedBy } = req.body || {};
+    const [existing] = await query('SELECT id, full_name FROM users WHERE id = ? LIMIT 1', [id]);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
 
-    if (table === 'goods') {
-      return res.status(403).json({ error: 'Goods cannot be deleted' });
+    await query(
+      'UPDATE users SET totp_enabled = 0, totp_secret = NULL, totp_last_step = NULL, totp_backup_codes = NULL WHERE id = ?',
+      [id]
+    );
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'users',
+      entityId: existing.id,
+      action: 'two_factor_reset',
+      description: `Reset two-factor authentication for ${existing.full_name}`,
+    });
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Two-factor reset error', error);
+    return res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  }
+});
+
+app.post('/api/users/:id/unlock', requireAuth, async (req, res) => {
+  const { id } = req.params;
+  if (!can(req.user.role, 'users', 'update')) return forbidden(res);
+
+  try {
+    const [existing] = await query('SELECT id, full_name FROM users WHERE id = ? LIMIT 1', [id]);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
     }
 
-    if (table === 'clients') {
-      return res.status(403).json({ error: 'Clients cannot be deleted' });
+    await clearFailures('login', [accountThrottleKey(existing.id)]);
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'users',
+      entityId: existing.id,
+      action: 'unlock',
+      description: `Unlocked sign in for ${existing.full_name}`,
+    });
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Unlock user error', error);
+    return res.status(500).json({ error: 'Failed to unlock user' });
+  }
+});
+
+app.post('/api/users/:id/invitation', requireAuth, async (req, res) => {
+  const { id } = req.params;
+  if (!can(req.user.role, 'users', 'create')) return forbidden(res);
+
+  try {
+    const [existing] = await query(
+      'SELECT id, email, full_name, username, password_reset_required, status FROM users WHERE id = ? LIMIT 1',
+      [id]
+    );
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (existing.status !== 'active') {
+      return res.status(409).json({ error: 'Activate the user before sending an invitation' });
+    }
+    if (!isSetupPending(existing)) {
+      return res.status(409).json({ error: 'User has already set up their account' });
     }
 
-    if (table === 'users') {
-      const [target] = await query('SELECT role FROM ?? WHERE id = ? LIMIT 1', [table, id]);
-      if (target?.role === 'superadmin') {
-        return res.status(403).json({ error: 'Superadmin account cannot be deleted' });
+    await sendInvitation(existing, req.user.id);
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'users',
+      entityId: existing.id,
+      action: 'resend_invitation',
+      description: `Sent a new invitation to ${existing.full_name}`,
+    });
+    const invitations = await getInvitationStatuses([existing.id]);
+    return res.json(invitations[String(existing.id)]);
+  } catch (error) {
+    console.error('Resend invitation error', error);
+    return res.status(500).json({ error: 'Failed to send invitation' });
+  }
+});
+
+app.delete('/api/users/:id/invitation', requireAuth, async (req, res) => {
+  const { id } = req.params;
+  if (!can(req.user.role, 'users', 'create')) return forbidden(res);
+
+  try {
+    const [existing] = await query('SELECT id, full_name FROM users WHERE id = ? LIMIT 1', [id]);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const result = await query(
+      'UPDATE user_invitations SET revoked_at = NOW() WHERE user_id = ? AND used_at IS NULL AND revoked_at IS NULL',
+      [existing.id]
+    );
+    if (!result.affectedRows) {
+      return res.status(404).json({ error: 'No pending invitation' });
+    }
+
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'users',
+      entityId: existing.id,
+      action: 'revoke_invitation',
+      description: `Revoked the invitation for ${existing.full_name}`,
+    });
+    const invitations = await getInvitationStatuses([existing.id]);
+    return res.json(invitations[String(existing.id)]);
+  } catch (error) {
+    console.error('Revoke invitation error', error);
+    return res.status(500).json({ error: 'Failed to revoke invitation' });
+  }
+});
+
+app.post('/api/users/:id/sessions/revoke', requireAuth, requireSuperadmin, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const [existing] = await query('SELECT id, full_name FROM users WHERE id = ? LIMIT 1', [id]);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const revoked = await revokeSessions(existing.id);
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'users',
+      entityId: existing.id,
+      action: 'revoke_sessions',
+      description: `Signed out all ${revoked} session(s) of ${existing.full_name}`,
+    });
+    return res.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Revoke user sessions error', error);
+    return res.status(500).json({ error: 'Failed to sign out user sessions' });
+  }
+});
+
+// Records a departing user still owns, and the statuses after which a record no longer needs an owner.
+const REASSIGNABLE_RECORDS = [
+  { table: 'rfqs', ownerColumn: 'performed_by', numberColumn: 'rfq_number', closedStatuses: ['success', 'expired'] },
+  {
+    table: 'quotations',
+    ownerColumn: 'performed_by',
+    numberColumn: 'quotation_number',
+    closedStatuses: ['success', 'rejected', 'reject'],
+  },
+  { table: 'sales_orders', ownerColumn: 'created_by', numberColumn: 'order_number', closedStatuses: ['done'] },
+];
+
+const getOpenRecords = async (userId, db = { query }) => {
+  const entries = await Promise.all(
+    REASSIGNABLE_RECORDS.map(async ({ table, ownerColumn, numberColumn, closedStatuses }) => {
+      const rows = await db.query(
+        `SELECT id, ?? AS number, status FROM ?? WHERE ?? = ? AND deleted_at IS NULL
+         AND (status IS NULL OR status NOT IN (?)) ORDER BY id`,
+        [numberColumn, table, ownerColumn, userId, closedStatuses]
+      );
+      return [table, rows];
+    })
+  );
+  return Object.fromEntries(entries);
+};
+
+// Hands the user's open records to `toUser` inside the caller's transaction. Returns them per table, for
+// logging once the transaction has committed.
+const reassignOpenRecords = async (fromUser, toUser, db) => {
+  const openRecords = await getOpenRecords(fromUser.id, db);
+  for (const { table, ownerColumn } of REASSIGNABLE_RECORDS) {
+    const rows = openRecords[table];
+    if (!rows.length) continue;
+    await db.query('UPDATE ?? SET ?? = ?, version = version + 1 WHERE id IN (?)', [
+      table,
+      ownerColumn,
+      toUser.id,
+      rows.map((row) => row.id),
+    ]);
+  }
+  return openRecords;
+};
+
+// Logs each transferred record and a summary on the user. Returns the number transferred per table.
+const logReassignment = async (fromUser, toUser, openRecords, performedBy) => {
+  const transferred = {};
+  for (const { table } of REASSIGNABLE_RECORDS) {
+    const rows = openRecords[table];
+    transferred[table] = rows.length;
+    for (const row of rows) {
+      await logActivity({
+        performedBy,
+        entityType: table,
+        entityId: row.id,
+        action: 'reassign',
+        description: `Transferred ${row.number} from ${fromUser.full_name} to ${toUser.full_name}`,
+      });
+    }
+  }
+
+  await logActivity({
+    performedBy,
+    entityType: 'users',
+    entityId: fromUser.id,
+    action: 'reassign',
+    description: `Transferred ${transferred.rfqs} RFQ(s), ${transferred.quotations} quotation(s) and ${transferred.sales_orders} sales order(s) from ${fromUser.full_name} to ${toUser.full_name}`,
+  });
+  return transferred;
+};
+
+const findManagedUser = async (id) => {
+  const [user] = await query('SELECT id, full_name, role, status FROM users WHERE id = ? LIMIT 1', [id]);
+  return user || null;
+};
+
+// The superadmin account and the acting user cannot be deactivated or stripped of their records.
+const isProtectedAccount = (user, actingUser) =>
+  user.role === SUPERADMIN_ROLE || String(user.id) === String(actingUser.id);
+
+// Locked, so the user taking over cannot be deactivated while the records move to them.
+const findReassignTarget = async (targetId, fromUserId, db) => {
+  const [target] = await db.query(
+    "SELECT id, full_name FROM users WHERE id = ? AND status = 'active' LIMIT 1 FOR UPDATE",
+    [targetId]
+  );
+  return target && String(target.id) !== String(fromUserId) ? target : null;
+};
+
+app.get('/api/users/:id/open-records', requireAuth, async (req, res) => {
+  if (!can(req.user.role, 'users', 'delete')) return forbidden(res);
+
+  try {
+    return res.json(await getOpenRecords(req.params.id));
+  } catch (error) {
+    console.error('Fetch open records error', error);
+    return res.status(500).json({ error: 'Failed to load open records' });
+  }
+});
+
+app.post('/api/users/:id/deactivate', requireAuth, async (req, res) => {
+  if (!can(req.user.role, 'users', 'delete')) return forbidden(res);
+  const { reassign_to: reassignTo } = req.body || {};
+
+  try {
+    const existing = await findManagedUser(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (isProtectedAccount(existing, req.user)) return forbidden(res);
+    if (existing.status !== 'active') {
+      return res.status(409).json({ error: 'User is already inactive' });
+    }
+
+    // The user row stays locked until commit, so two deactivations cannot both transfer the records.
+    const { target, openRecords } = await withTransaction(async (db) => {
+      const [locked] = await db.query('SELECT status FROM users WHERE id = ? FOR UPDATE', [existing.id]);
+      if (locked?.status !== 'active') {
+        throw new RequestError(409, 'User is already inactive');
+      }
+      let reassignment = { target: null, openRecords: null };
+      if (reassignTo) {
+        const reassignTarget = await findReassignTarget(reassignTo, existing.id, db);
+        if (!reassignTarget) {
+          throw new RequestError(400, 'Choose another active user to take over the records');
+        }
+        reassignment = {
+          target: reassignTarget,
+          openRecords: await reassignOpenRecords(existing, reassignTarget, db),
+        };
       }
+
+      await db.query("UPDATE users SET status = 'inactive', deactivated_at = NOW() WHERE id = ?", [existing.id]);
+      await db.query(
+        'UPDATE user_invitations SET revoked_at = NOW() WHERE user_id = ? AND used_at IS NULL AND revoked_at IS NULL',
+        [existing.id]
+      );
+      return reassignment;
+    });
+
+    await revokeSessions(existing.id);
+    const transferred = target ? await logReassignment(existing, target, openRecords, req.user.id) : null;
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'users',
+      entityId: existing.id,
+      action: 'deactivate',
+      description: `Deactivated user ${existing.full_name}`,
+    });
+    return res.json({ success: true, transferred });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return res.status(error.status).json({ error: error.message });
     }
-    if (table === 'suppliers') {
-      return res.status(403).json({ error: 'Suppliers cannot be deleted' });
+    console.error('Deactivate user error', error);
+    return res.status(500).json({ error: 'Failed to deactivate user' });
+  }
+});
+
+app.post('/api/users/:id/activate', requireAuth, async (req, res) => {
+  if (!can(req.user.role, 'users', 'delete')) return forbidden(res);
+
+  try {
+    const existing = await findManagedUser(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (isProtectedAccount(existing, req.user)) return forbidden(res);
+    if (existing.status === 'active') {
+      return res.status(409).json({ error: 'User is already active' });
+    }
+
+    await query("UPDATE users SET status = 'active', deactivated_at = NULL WHERE id = ?", [existing.id]);
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: 'users',
+      entityId: existing.id,
+      action: 'activate',
+      description: `Reactivated user ${existing.full_name}`,
+    });
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Activate user error', error);
+    return res.status(500).json({ error: 'Failed to activate user' });
+  }
+});
+
+app.delete('/api/:table/:id', requireAuth, async (req, res) => {
+  const { table, id } = req.params;
+  if (!isValidTable(table)) return res.status(404).json({ error: 'Table not found' });
+  if (!can(req.user.role, table, 'delete')) return forbidden(res);
+
+  try {
+    // Deleting a user would cascade away their activity history, so accounts are only deactivated.
+    if (table === 'users') {
+      return res.status(409).json({ error: 'Users cannot be deleted. Deactivate the account instead.' });
+    }
+
+    // Documents go to the recycle bin. Their related documents only go with them when `cascade=true` is asked
+    // for; otherwise the delete is refused with the related documents counted per table.
+    if (isSoftDeletable(table)) {
+      // Binning a delivery puts its goods back on the order, so the order's status is recomputed with it.
+      const { record, dependentCount } = await withTransaction(async (db) => {
+        const deleted = await softDeleteRecord(
+          table,
+          id,
+          {
+            cascade: req.query.cascade === 'true',
+            deletedBy: req.user.id,
+            canDelete: (dependentTable) => can(req.user.role, dependentTable, 'delete'),
+          },
+          db
+        );
+        await refreshDeliveryStatuses(deleted.entries, db);
+        return deleted;
+      });
+      await logActivity({
+        performedBy: req.user.id,
+        entityType: table,
+        entityId: record.id,
+        action: 'delete',
+        description: `Moved ${describeRecord(table, record)}${describeRelated(dependentCount)} to the recycle bin`,
+      });
+      return res.status(204).send();
     }
 
     await query('DELETE FROM ?? WHERE id = ?', [table, id]);
+    await logActivity({
+      performedBy: req.user.id,
+      entityType: table,
+      entityId: id,
+      action: 'delete',
+      description: `Deleted ${table} record #${id}`,
+    });
     return res.status(204).send();
   } catch (error) {
+    if (error instanceof RecycleBinError) return sendRecycleBinError(res, error);
+    // e.g. a sales order whose lines have been delivered
+    if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+      return res.status(409).json({ error: 'This record is still referenced by other records' });
+    }
     console.error('Delete error', error);
     return res.status(500).json({ error: 'Failed to delete record' });
   }
 });
 
-io.on('connection', (socket) => {
-  socket.on('register', (payload = {}, callback) => {
-    const { user_id: userId, role, name, photo_url: photoUrl } = payload;
-    if (!userId || !role || !CHAT_ROLES.has(role)) {
-      if (callback) callback({ ok: false, error: 'Invalid user payload' });
+io.use(async (socket, next) => {
+  const payload = verifySignedToken(socket.handshake.auth?.token, 'access');
+  if (!payload || payload.expired) {
+    next(new Error('Authentication required'));
+    return;
+  }
+  try {
+    const user = (await isSessionActive(payload)) ? await findSessionUser(payload.sub) : null;
+    if (!user) {
+      next(new Error('Authentication required'));
       return;
     }
+    if (requiresTwoFactor(user) && !user.totp_enabled) {
+      next(new Error('Two-factor authentication required'));
+      return;
+    }
+    socket.data.sessionUser = user;
+    socket.data.sessionId = payload.sid;
+    next();
+  } catch (error) {
+    console.error('Socket auth error', error);
+    next(new Error('Internal server error'));
+  }
+});
+
+io.on('connection', (socket) => {
+  socket.on('register', (_payload = {}, callback) => {
+    const { id: userId, role, full_name: name, photo_url: photoUrl } = socket.data.sessionUser;
     socket.data.user = { id: userId, role, name: name || null, photo_url: photoUrl || null };
     socket.join(CHAT_ROOM);
     const respond = async () => {
@@ -2401,15 +4462,19 @@ io.on('connection', (socket) => {
       if (callback) callback({ ok: false, error: 'User not registered' });
       return;
     }
-    const normalizedAttachment = normalizeChatAttachment(attachment);
     const hasMessage = typeof message === 'string' && message.trim().length > 0;
-    if (!hasMessage && !normalizedAttachment) {
+    if (!hasMessage && !attachment?.file_id) {
       if (callback) callback({ ok: false, error: 'Message or attachment is required' });
       return;
     }
     const trimmedMessage = hasMessage ? message.trim() : '';
     const handleMessage = async () => {
       try {
+        const normalizedAttachment = await normalizeChatAttachment(attachment, user.id);
+        if (!hasMessage && !normalizedAttachment) {
+          if (callback) callback({ ok: false, error: 'Message or attachment is required' });
+          return;
+        }
         await pruneOldChatMessages();
         const resolvedUserId = await resolveChatUserId(user.id);
         const result = await query(
@@ -0,0 +1,267 @@
+import { calculateLineSubtotal } from '../shared/pricing.js';
+import { query } from './db.js';
+
+// Queries outside a transaction; the helpers below take a transaction's `db` instead when given one.
+const pool = { query };
+
+const toNumber = (value) => Number(value) || 0;
+
+const toOptionalInteger = (value) =>
+  value === null || value === undefined || value === '' || Number.isNaN(Number(value)) ? null : Math.round(Number(value));
+
+// Line items per document type. The API still exchanges them as the document's `goods` array: `toRow` turns an
+// item from a request into a table row and `toItem` turns a stored row back into an item.
+const LINE_ITEMS = {
+  rfqs: {
+    table: 'rfq_items',
+    parentColumn: 'rfq_id',
+    toRow: (item) => ({
+      type: item.type || (item.good_id ? 'existing' : 'other'),
+      good_id: item.good_id || null,
+      name: item.name || null,
+    }),
+    toItem: (row) => ({
+      id: row.id,
+      type: row.type,
+      good_id: row.good_id,
+      name: row.name,
+      display_name: row.type === 'existing' ? row.good_name || row.name || 'Existing good' : row.name,
+    }),
+  },
+  quotations: {
+    table: 'quotation_items',
+    parentColumn: 'quotation_id',
+    toRow: (item) => ({
+      good_id: item.good_id || null,
+      name: item.name || null,
+      description: item.description || null,
+      unit: item.unit || null,
+      qty: toNumber(item.qty),
+      price: toNumber(item.price),
+      discount: toNumber(item.discount),
+      delivery_time: toOptionalInteger(item.delivery_time),
+    }),
+    toItem: (row) => ({
+      id: row.id,
+      good_id: row.good_id,
+      name: row.name,
+      description: row.description,
+      unit: row.unit,
+      qty: toNumber(row.qty),
+      price: toNumber(row.price),
+      discount: toNumber(row.discount),
+      delivery_time: row.delivery_time,
+    }),
+  },
+  sales_orders: {
+    table: 'sales_order_items',
+    parentColumn: 'sales_order_id',
+    // How much of each line has gone out on delivery orders so far.
+    select: `(SELECT COALESCE(SUM(d.qty), 0) FROM delivery_order_items d
+      JOIN delivery_orders o ON o.id = d.delivery_order_id
+      WHERE d.sales_order_item_id = i.id AND o.deleted_at IS NULL) AS shipped_qty`,
+    toRow: (item) => ({
+      good_id: item.good_id || null,
+      name: item.name || null,
+      description: item.description || null,
+      unit: item.unit || null,
+      qty: toNumber(item.qty),
+      price: toNumber(item.price),
+      discount: toNumber(item.discount),
+      deadline_days: toOptionalInteger(item.deadline_days),
+    }),
+    toItem: (row) => ({
+      id: row.id,
+      good_id: row.good_id,
+      name: row.name,
+      description: row.description,
+      unit: row.unit,
+      qty: toNumber(row.qty),
+      price: toNumber(row.price),
+      discount: toNumber(row.discount),
+      deadline_days: row.deadline_days,
+      shipped_qty: toNumber(row.shipped_qty),
+    }),
+  },
+  delivery_orders: {
+    table: 'delivery_order_items',
+    parentColumn: 'delivery_order_id',
+    toRow: (item) => ({
+      sales_order_item_id: item.sales_order_item_id || null,
+      good_id: item.good_id || null,
+      name: item.name || null,
+      description: item.description || null,
+      unit: item.unit || null,
+      qty: toNumber(item.qty),
+    }),
+    toItem: (row) => ({
+      id: row.id,
+      sales_order_item_id: row.sales_order_item_id,
+      good_id: row.good_id,
+      name: row.name,
+      description: row.description,
+      unit: row.unit,
+      qty: toNumber(row.qty),
+    }),
+  },
+  invoices: {
+    table: 'invoice_items',
+    parentColumn: 'invoice_id',
+    toRow: (item) => ({
+      sales_order_item_id: item.sales_order_item_id || null,
+      good_id: item.good_id || null,
+      name: item.goods || item.name || null,
+      description: item.description || null,
+      unit: item.unit || null,
+      qty: toNumber(item.qty),
+      price: toNumber(item.price),
+      discount: toNumber(item.discount),
+    }),
+    // Invoices have always numbered their lines and named the good `goods`.
+    toItem: (row) => ({
+      id: row.id,
+      no: row.line_no,
+      sales_order_item_id: row.sales_order_item_id,
+      good_id: row.good_id,
+      goods: row.name,
+      description: row.description,
+      unit: row.unit,
+      qty: toNumber(row.qty),
+      price: toNumber(row.price),
+      discount: toNumber(row.discount),
+      subtotal: calculateLineSubtotal(row),
+    }),
+  },
+};
+
+export class LineItemError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Line items of the given documents keyed by document id, in the order they were entered.
+export const getLineItems = async (table, parentIds, db = pool) => {
+  const config = LINE_ITEMS[table];
+  if (!parentIds.length) return {};
+  const rows = await db.query(
+    `SELECT i.*, g.name AS good_name${config.select ? `, ${config.select}` : ''}
+     FROM ?? i
+     LEFT JOIN goods g ON g.id = i.good_id
+     WHERE i.?? IN (?)
+     ORDER BY i.line_no ASC, i.id ASC`,
+    [config.table, config.parentColumn, parentIds]
+  );
+  return rows.reduce((acc, row) => {
+    const key = String(row[config.parentColumn]);
+    acc[key] = acc[key] || [];
+    acc[key].push(config.toItem(row));
+    return acc;
+  }, {});
+};
+
+// Adds each document's line items as `goods`.
+export const attachLineItems = async (table, rows, db = pool) => {
+  const itemsById = await getLineItems(table, rows.map((row) => row.id), db);
+  return rows.map((row) => ({ ...row, goods: itemsById[String(row.id)] || [] }));
+};
+
+// Makes the document's lines match `items`. Items carrying the id of one of its existing lines update that
+// line, so references to it (deliveries of a sales order line) survive; other items are added and lines
+// missing from `items` are removed.
+export const saveLineItems = async (table, parentId, items, db = pool) => {
+  const config = LINE_ITEMS[table];
+  const existingRows = await db.query('SELECT id FROM ?? WHERE ?? = ?', [config.table, config.parentColumn, parentId]);
+  const existingIds = new Set(existingRows.map((row) => String(row.id)));
+  const keptIds = new Set();
+
+  for (const [index, item] of items.entries()) {
+    const row = { ...config.toRow(item), line_no: index + 1 };
+    if (item.id && existingIds.has(String(item.id)) && !keptIds.has(String(item.id))) {
+      await db.query('UPDATE ?? SET ? WHERE id = ?', [config.table, row, item.id]);
+      keptIds.add(String(item.id));
+    } else {
+      await db.query('INSERT INTO ?? SET ?', [config.table, { ...row, [config.parentColumn]: parentId }]);
+    }
+  }
+
+  const removedIds = [...existingIds].filter((id) => !keptIds.has(id));
+  if (removedIds.length) {
+    await db.query('DELETE FROM ?? WHERE id IN (?)', [config.table, removedIds]);
+  }
+};
+
+// Quantity delivered per sales order line, optionally leaving out one delivery order (the one being edited).
+// Delivery orders in the recycle bin do not count.
+export const getShippedQuantities = async (salesOrderId, { excludeDeliveryId = null } = {}, db = pool) => {
+  const rows = await db.query(
+    `SELECT i.sales_order_item_id, SUM(i.qty) AS shipped
+     FROM delivery_order_items i
+     JOIN delivery_orders d ON d.id = i.delivery_order_id
+     WHERE d.sales_order_id = ? AND d.deleted_at IS NULL AND i.sales_order_item_id IS NOT NULL
+       AND (? IS NULL OR d.id <> ?)
+     GROUP BY i.sales_order_item_id`,
+    [salesOrderId, excludeDeliveryId, excludeDeliveryId]
+  );
+  return rows.reduce((acc, row) => ({ ...acc, [String(row.sales_order_item_id)]: toNumber(row.shipped) }), {});
+};
+
+// Checks requested delivery lines against what is left to ship on the sales order and copies the good, name
+// and unit from the sales order line. Throws a LineItemError for lines that do not belong to the order or
+// exceed the remaining quantity.
+export const buildDeliveryItems = async (salesOrderId, items, { excludeDeliveryId = null } = {}, db = pool) => {
+  const orderItems = await getLineItems('sales_orders', [salesOrderId], db);
+  const shipped = await getShippedQuantities(salesOrderId, { excludeDeliveryId }, db);
+  const orderLines = new Map((orderItems[String(salesOrderId)] || []).map((line) => [String(line.id), line]));
+  const requested = {};
+
+  const deliveryItems = items
+    .filter((item) => toNumber(item?.qty) > 0)
+    .map((item) => {
+      const line = orderLines.get(String(item.sales_order_item_id));
+      if (!line) {
+        throw new LineItemError(400, 'Delivery goods must come from the sales order');
+      }
+      const key = String(line.id);
+      requested[key] = (requested[key] || 0) + toNumber(item.qty);
+      if (requested[key] > line.qty - (shipped[key] || 0)) {
+        throw new LineItemError(400, `Delivery quantity for ${line.name || 'an item'} exceeds the remaining order quantity`);
+      }
+      return {
+        id: item.id,
+        sales_order_item_id: line.id,
+        good_id: line.good_id,
+        name: line.name,
+        description: line.description,
+        unit: line.unit,
+        qty: toNumber(item.qty),
+      };
+    });
+
+  if (!deliveryItems.length) {
+    throw new LineItemError(400, 'Delivery goods are required');
+  }
+  return deliveryItems;
+};
+
+// Rejects sales order line changes that would drop below what has already been delivered.
+export const assertDeliveredLinesKept = async (salesOrderId, items, db = pool) => {
+  const shipped = await getShippedQuantities(salesOrderId, {}, db);
+  const requestedQty = items.reduce(
+    (acc, item) => (item.id ? { ...acc, [String(item.id)]: toNumber(item.qty) } : acc),
+    {}
+  );
+  const conflict = Object.entries(shipped).find(
+    ([lineId, shippedQty]) => shippedQty > 0 && (requestedQty[lineId] ?? 0) < shippedQty
+  );
+  if (conflict) {
+    throw new LineItemError(409, 'Goods that have already been delivered cannot be removed or reduced below the delivered quantity');
+  }
+};
+
+// The sales order is fully delivered once every line with a quantity has shipped in full.
+export const isFullyShipped = async (salesOrderId, db = pool) => {
+  const orderItems = (await getLineItems('sales_orders', [salesOrderId], db))[String(salesOrderId)] || [];
+  return orderItems.length > 0 && orderItems.every((line) => line.qty <= 0 || line.shipped_qty >= line.qty);
+};
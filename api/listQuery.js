@@ -0,0 +1,162 @@
+import { isSoftDeletable } from './recycleBin.js';
+
+// Query parameters accepted by GET /api/:table. Every table lists the columns that may be sorted, filtered
+// (exact match, comma separated for several values) and searched, plus the date column used by
+// `date_from`/`date_to`. `itemSearch` also matches documents by the goods on their line items. Records in the
+// recycle bin are never listed.
+const LIST_QUERIES = {
+  suppliers: {
+    sort: ['created_at', 'name', 'city', 'status'],
+    filters: ['status', 'city'],
+    search: ['name', 'contact_person', 'email', 'phone', 'city'],
+  },
+  clients: {
+    sort: ['created_at', 'company_name', 'status'],
+    filters: ['status'],
+    search: ['company_name', 'email', 'phone', 'address', 'tax_id'],
+  },
+  goods: {
+    sort: ['created_at', 'name', 'sku', 'category', 'price', 'status'],
+    filters: ['status', 'category'],
+    search: ['sku', 'name', 'description', 'category', 'unit'],
+  },
+  goods_suppliers: {
+    sort: ['created_at'],
+    filters: ['good_id', 'supplier_id'],
+    search: [],
+  },
+  rfqs: {
+    sort: ['created_at', 'rfq_number', 'company_name', 'deadline_days', 'status'],
+    filters: ['status', 'client_id', 'performed_by'],
+    search: ['rfq_number', 'company_name', 'pic_name', 'pic_email'],
+    itemSearch: { table: 'rfq_items', parentColumn: 'rfq_id' },
+  },
+  quotations: {
+    sort: ['created_at', 'quotation_number', 'company_name', 'grand_total', 'status'],
+    filters: ['status', 'client_id', 'rfq_id', 'performed_by'],
+    search: ['quotation_number', 'company_name', 'pic_name', 'pic_email'],
+    itemSearch: { table: 'quotation_items', parentColumn: 'quotation_id' },
+  },
+  sales_orders: {
+    sort: ['created_at', 'order_date', 'order_number', 'company_name', 'grand_total', 'status'],
+    filters: ['status', 'client_id', 'quotation_id', 'created_by'],
+    search: ['order_number', 'po_number', 'project_name', 'company_name', 'pic_name'],
+    dateColumn: 'order_date',
+  },
+  delivery_orders: {
+    sort: ['created_at', 'delivery_date', 'delivery_number', 'company_name'],
+    filters: ['sales_order_id', 'client_id', 'created_by'],
+    search: ['delivery_number', 'company_name', 'ship_address'],
+    dateColumn: 'delivery_date',
+  },
+  invoices: {
+    sort: ['created_at', 'invoice_date', 'invoice_number', 'company_name', 'grand_total', 'status'],
+    filters: ['status', 'client_id', 'sales_order_id'],
+    search: ['invoice_number', 'company_name'],
+    dateColumn: 'invoice_date',
+  },
+  settings: {
+    sort: ['created_at'],
+    filters: [],
+    search: [],
+  },
+  users: {
+    sort: ['created_at', 'full_name', 'username', 'role', 'status'],
+    filters: ['role', 'status'],
+    search: ['full_name', 'username', 'email', 'phone'],
+  },
+  activity_logs: {
+    sort: ['created_at'],
+    filters: ['user_id', 'entity_type', 'entity_id', 'action'],
+    search: ['description'],
+  },
+};
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class ListQueryError extends Error {}
+
+// `%term%` for LIKE, with the term's own wildcards escaped.
+export const toLikePattern = (term) => `%${String(term).replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+const toPositiveInteger = (value, name) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new ListQueryError(`${name} must be a positive integer`);
+  }
+  return number;
+};
+
+// Turns request query parameters into a WHERE clause, ORDER BY and optional LIMIT for `table`.
+// Results are paged only when `page` or `limit` is given; otherwise every matching row is returned.
+export const parseListQuery = (table, params = {}) => {
+  const config = LIST_QUERIES[table];
+  const conditions = isSoftDeletable(table) ? ['`deleted_at` IS NULL'] : [];
+  const values = [];
+
+  config.filters.forEach((column) => {
+    const raw = params[column];
+    if (raw === undefined || raw === '') return;
+    const options = String(raw)
+      .split(',')
+      .map((option) => option.trim())
+      .filter(Boolean);
+    if (!options.length) return;
+    conditions.push('?? IN (?)');
+    values.push(column, options);
+  });
+
+  const dateColumn = config.dateColumn || 'created_at';
+  [
+    ['date_from', '>='],
+    ['date_to', '<'],
+  ].forEach(([param, operator]) => {
+    const raw = params[param];
+    if (!raw) return;
+    if (!DATE_PATTERN.test(String(raw))) {
+      throw new ListQueryError(`${param} must be a date (YYYY-MM-DD)`);
+    }
+    conditions.push(`?? ${operator} ${param === 'date_to' ? 'DATE_ADD(?, INTERVAL 1 DAY)' : '?'}`);
+    values.push(dateColumn, String(raw));
+  });
+
+  const search = String(params.search || '').trim();
+  if (search && config.search.length) {
+    const pattern = toLikePattern(search);
+    const matches = config.search.map(() => 'CAST(?? AS CHAR) LIKE ?');
+    config.search.forEach((column) => values.push(column, pattern));
+    if (config.itemSearch) {
+      matches.push(
+        `EXISTS (SELECT 1 FROM ?? li LEFT JOIN goods g ON g.id = li.good_id
+          WHERE li.?? = ??.id AND (li.name LIKE ? OR g.name LIKE ? OR g.sku LIKE ?))`
+      );
+      values.push(config.itemSearch.table, config.itemSearch.parentColumn, table, pattern, pattern, pattern);
+    }
+    conditions.push(`(${matches.join(' OR ')})`);
+  }
+
+  const sort = params.sort ? String(params.sort) : 'created_at';
+  if (!config.sort.includes(sort)) {
+    throw new ListQueryError(`Cannot sort ${table} by ${sort}`);
+  }
+  const order = String(params.order || 'desc').toLowerCase();
+  if (!['asc', 'desc'].includes(order)) {
+    throw new ListQueryError('order must be asc or desc');
+  }
+
+  const paged = params.page !== undefined || params.limit !== undefined;
+  const limit = paged ? Math.min(MAX_LIMIT, toPositiveInteger(params.limit ?? DEFAULT_LIMIT, 'limit')) : null;
+  const page = paged ? toPositiveInteger(params.page ?? 1, 'page') : null;
+
+  return {
+    where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '',
+    values,
+    // `id` breaks ties so rows never move between pages.
+    orderBy: `ORDER BY \`${sort}\` ${order.toUpperCase()}, \`id\` ${order.toUpperCase()}`,
+    paged,
+    page,
+    limit,
+  };
+};
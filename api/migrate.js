@@ -0,0 +1,55 @@
+import {
+  MigrationError,
+  getMigrationStatus,
+  openMigrationConnection,
+  runPendingMigrations,
+  runSeed,
+} from './migrations.js';
+
+const USAGE = 'Usage: node migrate.js <up|status|seed>';
+
+const formatDate = (value) => (value ? new Date(value).toISOString().replace('T', ' ').slice(0, 19) : '');
+
+const commands = {
+  up: async (connection) => {
+    const applied = await runPendingMigrations(connection, {
+      onApply: (name) => console.log(`Applying ${name}`),
+    });
+    console.log(applied.length ? `Applied ${applied.length} migration(s).` : 'Database is up to date.');
+  },
+  status: async (connection) => {
+    const { migrations, missing } = await getMigrationStatus(connection);
+    migrations.forEach((migration) => {
+      const state = migration.appliedAt ? `applied ${formatDate(migration.appliedAt)}` : 'pending';
+      console.log(`${migration.name.padEnd(48)} ${state}`);
+    });
+    missing.forEach((name) => console.log(`${name.padEnd(48)} applied, file missing`));
+    const pendingCount = migrations.filter((migration) => !migration.appliedAt).length;
+    console.log(pendingCount ? `${pendingCount} pending migration(s).` : 'Database is up to date.');
+  },
+  seed: async (connection) => {
+    await runSeed(connection);
+    console.log('Default data is in place.');
+  },
+};
+
+const command = commands[process.argv[2]];
+if (!command) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+let connection;
+try {
+  connection = await openMigrationConnection();
+  await command(connection);
+} catch (error) {
+  if (error instanceof MigrationError) {
+    console.error(error.message);
+  } else {
+    console.error('Migration error', error);
+  }
+  process.exitCode = 1;
+} finally {
+  await connection?.end();
+}
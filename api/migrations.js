@@ -0,0 +1,116 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import mysql from 'mysql2/promise';
+import { connectionOptions } from './db.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATABASE_DIR = path.join(__dirname, '..', 'database');
+const MIGRATIONS_DIR = path.join(DATABASE_DIR, 'migrations');
+const SEED_FILE = path.join(DATABASE_DIR, 'seed.sql');
+
+// Migrations are `NNN_description.sql` or `NNN_description.js` files, applied in name order. A `.js`
+// migration exports `up({ query, columnExists })`.
+const MIGRATION_PATTERN = /^\d+_[\w-]+\.(sql|js)$/;
+
+// Only one runner may apply migrations at a time, e.g. when several servers deploy at once.
+const LOCK_NAME = 'rgi_nexaproc_migrations';
+const LOCK_TIMEOUT_SECONDS = 30;
+
+export class MigrationError extends Error {}
+
+// Separate connection so multi-statement `.sql` files can run in one go; the app pool never allows that.
+export const openMigrationConnection = () => mysql.createConnection({ ...connectionOptions, multipleStatements: true });
+
+const ensureMigrationsTable = (connection) =>
+  connection.query(`
+    CREATE TABLE IF NOT EXISTS \`schema_migrations\` (
+      \`name\` VARCHAR(255) PRIMARY KEY,
+      \`applied_at\` TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+const listMigrationFiles = async () => {
+  const entries = await fs.readdir(MIGRATIONS_DIR);
+  return entries.filter((name) => MIGRATION_PATTERN.test(name)).sort();
+};
+
+const getAppliedMigrations = async (connection) => {
+  const [rows] = await connection.query('SELECT name, applied_at FROM schema_migrations ORDER BY name ASC');
+  return rows;
+};
+
+// Every migration file with when it was applied (null while pending), plus applied names whose file is gone.
+export const getMigrationStatus = async (connection) => {
+  await ensureMigrationsTable(connection);
+  const [files, applied] = await Promise.all([listMigrationFiles(), getAppliedMigrations(connection)]);
+  const appliedAt = new Map(applied.map((row) => [row.name, row.applied_at]));
+  return {
+    migrations: files.map((name) => ({ name, appliedAt: appliedAt.get(name) || null })),
+    missing: applied.map((row) => row.name).filter((name) => !files.includes(name)),
+  };
+};
+
+const runMigration = async (connection, name) => {
+  const filePath = path.join(MIGRATIONS_DIR, name);
+  if (name.endsWith('.sql')) {
+    await connection.query(await fs.readFile(filePath, 'utf8'));
+    return;
+  }
+
+  const migration = await import(pathToFileURL(filePath).href);
+  if (typeof migration.up !== 'function') {
+    throw new MigrationError(`${name} does not export an up() function`);
+  }
+  await migration.up({
+    query: async (sql, params) => {
+      const [rows] = await connection.query(sql, params);
+      return rows;
+    },
+    columnExists: async (table, column) => {
+      const [rows] = await connection.query(
+        `SELECT 1 FROM information_schema.COLUMNS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+        [table, column]
+      );
+      return rows.length > 0;
+    },
+  });
+};
+
+// Applies pending migrations in order and returns their names. MySQL commits schema changes as it goes, so
+// a failing migration is not recorded and stops the run; fix it and run again.
+export const runPendingMigrations = async (connection, { onApply } = {}) => {
+  const [[lock]] = await connection.query('SELECT GET_LOCK(?, ?) AS acquired', [LOCK_NAME, LOCK_TIMEOUT_SECONDS]);
+  if (!lock.acquired) {
+    throw new MigrationError('Another migration run is in progress');
+  }
+
+  try {
+    const { migrations } = await getMigrationStatus(connection);
+    const pending = migrations.filter((migration) => !migration.appliedAt).map((migration) => migration.name);
+    for (const name of pending) {
+      onApply?.(name);
+      try {
+        await runMigration(connection, name);
+      } catch (error) {
+        throw new MigrationError(`${name} failed: ${error.message}`);
+      }
+      await connection.query('INSERT INTO schema_migrations (name) VALUES (?)', [name]);
+    }
+    return pending;
+  } finally {
+    await connection.query('SELECT RELEASE_LOCK(?)', [LOCK_NAME]);
+  }
+};
+
+// Inserts default roles, permissions, the initial superadmin and the settings row when they are missing.
+export const runSeed = async (connection) => {
+  const { migrations } = await getMigrationStatus(connection);
+  if (migrations.some((migration) => !migration.appliedAt)) {
+    throw new MigrationError('Apply pending migrations before seeding');
+  }
+  await connection.query(await fs.readFile(SEED_FILE, 'utf8'));
+};
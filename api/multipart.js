@@ -0,0 +1,96 @@
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+const MAX_HEADER_BYTES = 16 * 1024;
+
+export const getMultipartBoundary = (contentType = '') => {
+  if (!/^multipart\/form-data/i.test(contentType)) return null;
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  return match ? (match[1] || match[2]).trim() : null;
+};
+
+const parsePartHeaders = (raw) => {
+  const headers = {};
+  raw
+    .toString('utf8')
+    .split('\r\n')
+    .forEach((line) => {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+      }
+    });
+
+  const disposition = headers['content-disposition'] || '';
+  const name = disposition.match(/\bname="([^"]*)"/i)?.[1] ?? null;
+  const encodedFilename = disposition.match(/\bfilename\*=UTF-8''([^;]+)/i)?.[1];
+  const filename = encodedFilename
+    ? decodeURIComponent(encodedFilename)
+    : (disposition.match(/\bfilename="([^"]*)"/i)?.[1] ?? null);
+
+  return { name, filename, contentType: headers['content-type'] || null };
+};
+
+// Streams a multipart/form-data body without buffering whole parts. Yields `{ type: 'part', part }` when a part
+// starts, `{ type: 'data', chunk }` for its content and `{ type: 'part_end' }` after it. Chunks are only valid
+// until the consumer asks for the next event, which also gives the consumer backpressure over the request.
+export async function* parseMultipart(stream, boundary) {
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  // The first boundary is not preceded by a line break; adding one lets every boundary match `delimiter`.
+  let buffer = Buffer.from(CRLF);
+  let state = 'preamble';
+
+  for await (const chunk of stream) {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+
+    while (buffer.length) {
+      if (state === 'preamble') {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1));
+          break;
+        }
+        buffer = buffer.subarray(index + delimiter.length);
+        state = 'boundary';
+      } else if (state === 'boundary') {
+        if (buffer.length < 2) break;
+        const marker = buffer.subarray(0, 2).toString();
+        if (marker === '--') {
+          state = 'done';
+          buffer = Buffer.alloc(0);
+          break;
+        }
+        if (marker !== '\r\n') throw new Error('Malformed multipart body');
+        buffer = buffer.subarray(2);
+        state = 'headers';
+      } else if (state === 'headers') {
+        const index = buffer.indexOf(HEADER_END);
+        if (index === -1) {
+          if (buffer.length > MAX_HEADER_BYTES) throw new Error('Multipart headers are too large');
+          break;
+        }
+        yield { type: 'part', part: parsePartHeaders(buffer.subarray(0, index)) };
+        buffer = buffer.subarray(index + HEADER_END.length);
+        state = 'body';
+      } else if (state === 'body') {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          // Keep enough bytes to recognise a delimiter split across chunks.
+          const safeLength = buffer.length - delimiter.length + 1;
+          if (safeLength > 0) {
+            yield { type: 'data', chunk: buffer.subarray(0, safeLength) };
+            buffer = buffer.subarray(safeLength);
+          }
+          break;
+        }
+        if (index > 0) yield { type: 'data', chunk: buffer.subarray(0, index) };
+        yield { type: 'part_end' };
+        buffer = buffer.subarray(index + delimiter.length);
+        state = 'boundary';
+      } else {
+        buffer = Buffer.alloc(0);
+      }
+    }
+  }
+
+  if (state !== 'done') throw new Error('Upload ended unexpectedly');
+}
@@ -0,0 +1,142 @@
+import { query } from './db.js';
+
+export const SUPERADMIN_ROLE = 'superadmin';
+export const ACTIONS = ['read', 'create', 'update', 'delete', 'status'];
+export const SCOPES = ['all', 'own'];
+
+// Capabilities the superadmin can grant per role. `ownable` ones may be limited to records the user owns
+// (their RFQs/quotations, their account, their logs).
+export const CAPABILITIES = [
+  { key: 'suppliers.read', group: 'Suppliers', label: 'View suppliers' },
+  { key: 'suppliers.create', group: 'Suppliers', label: 'Create suppliers' },
+  { key: 'suppliers.update', group: 'Suppliers', label: 'Edit suppliers' },
+  { key: 'suppliers.status', group: 'Suppliers', label: 'Deactivate suppliers' },
+  { key: 'suppliers.delete', group: 'Suppliers', label: 'Delete suppliers' },
+  { key: 'clients.read', group: 'Clients', label: 'View clients' },
+  { key: 'clients.create', group: 'Clients', label: 'Create clients' },
+  { key: 'clients.update', group: 'Clients', label: 'Edit clients' },
+  { key: 'clients.status', group: 'Clients', label: 'Blacklist clients' },
+  { key: 'clients.delete', group: 'Clients', label: 'Delete clients' },
+  { key: 'goods.read', group: 'Goods', label: 'View goods' },
+  { key: 'goods.create', group: 'Goods', label: 'Create goods' },
+  { key: 'goods.update', group: 'Goods', label: 'Edit goods' },
+  { key: 'goods.status', group: 'Goods', label: 'Deactivate goods' },
+  { key: 'goods.delete', group: 'Goods', label: 'Delete goods' },
+  { key: 'rfqs.read', group: 'RFQ', label: 'View RFQs' },
+  { key: 'rfqs.create', group: 'RFQ', label: 'Create RFQs' },
+  { key: 'rfqs.update', group: 'RFQ', label: 'Edit RFQs', ownable: true },
+  { key: 'rfqs.status', group: 'RFQ', label: 'Change RFQ status', ownable: true },
+  { key: 'rfqs.delete', group: 'RFQ', label: 'Delete RFQs' },
+  { key: 'quotations.read', group: 'Quotations', label: 'View quotations' },
+  { key: 'quotations.create', group: 'Quotations', label: 'Create quotations' },
+  { key: 'quotations.update', group: 'Quotations', label: 'Edit quotations', ownable: true },
+  { key: 'quotations.status', group: 'Quotations', label: 'Approve quotations' },
+  { key: 'quotations.delete', group: 'Quotations', label: 'Delete quotations' },
+  { key: 'sales_orders.read', group: 'Sales Orders', label: 'View sales orders' },
+  { key: 'sales_orders.create', group: 'Sales Orders', label: 'Create sales orders' },
+  { key: 'sales_orders.update', group: 'Sales Orders', label: 'Edit sales orders' },
+  { key: 'sales_orders.status', group: 'Sales Orders', label: 'Approve sales orders for payment' },
+  { key: 'sales_orders.delete', group: 'Sales Orders', label: 'Delete sales orders' },
+  { key: 'delivery_orders.read', group: 'Delivery Orders', label: 'View delivery orders' },
+  { key: 'delivery_orders.create', group: 'Delivery Orders', label: 'Create delivery orders' },
+  { key: 'delivery_orders.delete', group: 'Delivery Orders', label: 'Delete delivery orders' },
+  { key: 'invoices.read', group: 'Invoices', label: 'View invoices' },
+  { key: 'invoices.update', group: 'Invoices', label: 'Edit invoices' },
+  { key: 'invoices.status', group: 'Invoices', label: 'Mark invoices paid' },
+  { key: 'invoices.delete', group: 'Invoices', label: 'Delete invoices' },
+  { key: 'settings.read', group: 'Settings', label: 'View company settings' },
+  { key: 'settings.update', group: 'Settings', label: 'Edit company settings' },
+  { key: 'users.read', group: 'Users', label: 'View users' },
+  { key: 'users.create', group: 'Users', label: 'Create users' },
+  { key: 'users.update', group: 'Users', label: 'Edit users', ownable: true },
+  { key: 'users.delete', group: 'Users', label: 'Deactivate users and transfer their records' },
+  { key: 'activity_logs.read', group: 'Activity Logs', label: 'View activity logs', ownable: true },
+];
+
+const CAPABILITY_KEYS = new Set(CAPABILITIES.map((capability) => capability.key));
+
+// Table actions that are governed by another capability instead of having their own.
+const CAPABILITY_ALIASES = {
+  'goods_suppliers.read': 'goods.read',
+  'settings.create': 'settings.update',
+};
+
+// Table actions every signed-in user needs regardless of role.
+const IMPLICIT_CAPABILITIES = new Set(['activity_logs.create']);
+
+const PERMISSION_TABLES = [
+  ...new Set(
+    [...CAPABILITY_KEYS, ...Object.keys(CAPABILITY_ALIASES), ...IMPLICIT_CAPABILITIES].map((key) => key.split('.')[0])
+  ),
+];
+
+let roleCache = null;
+let grantCache = null;
+
+export const loadPermissions = async () => {
+  if (roleCache && grantCache) return;
+
+  const [roles, grants] = await Promise.all([
+    query('SELECT id, name, label, is_system FROM roles ORDER BY is_system DESC, id ASC'),
+    query('SELECT role, capability, scope FROM role_permissions'),
+  ]);
+
+  roleCache = roles.map((role) => ({
+    id: role.id,
+    name: role.name,
+    label: role.label,
+    is_system: Boolean(role.is_system),
+  }));
+  grantCache = grants.reduce((acc, grant) => {
+    acc[grant.role] = acc[grant.role] || {};
+    acc[grant.role][grant.capability] = grant.scope;
+    return acc;
+  }, {});
+};
+
+export const invalidatePermissions = () => {
+  roleCache = null;
+  grantCache = null;
+};
+
+export const getRoles = () => roleCache || [];
+
+export const roleExists = (role) => getRoles().some((entry) => entry.name === role);
+
+export const getRoleGrants = (role) => ({ ...(grantCache?.[role] || {}) });
+
+export const isCapability = (key) => CAPABILITY_KEYS.has(key);
+
+export const isOwnableCapability = (key) =>
+  CAPABILITIES.some((capability) => capability.key === key && capability.ownable);
+
+export const can = (role, table, action, { isOwner = false } = {}) => {
+  if (role === SUPERADMIN_ROLE) return true;
+
+  const key = CAPABILITY_ALIASES[`${table}.${action}`] || `${table}.${action}`;
+  if (IMPLICIT_CAPABILITIES.has(key)) return true;
+
+  const scope = grantCache?.[role]?.[key];
+  return scope === 'all' || (isOwner && scope === 'own');
+};
+
+// Roles allowed to perform an action on any record, e.g. to address approval notifications.
+export const getRolesWith = (table, action) =>
+  getRoles()
+    .map((role) => role.name)
+    .filter((role) => can(role, table, action));
+
+// Serializes the matrix for one role: `true` for any record, `'own'` for owned records only.
+export const getRolePermissions = (role) =>
+  Object.fromEntries(
+    PERMISSION_TABLES.map((table) => [
+      table,
+      Object.fromEntries(
+        ACTIONS.map((action) => {
+          if (can(role, table, action)) return [action, true];
+          if (can(role, table, action, { isOwner: true })) return [action, 'own'];
+          return [action, false];
+        })
+      ),
+    ])
+  );
@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto';
+import { query } from './db.js';
+import { buildDeliveryItems, getLineItems, LineItemError } from './lineItems.js';
+
+const pool = { query };
+
+// Documents that go to the recycle bin instead of being deleted. `parent` is the document each one was created
+// from and `dependents` the documents created from it, which go to the bin with it when deleting cascades.
+const SOFT_DELETE = {
+  rfqs: {
+    label: 'RFQ',
+    numberColumn: 'rfq_number',
+    dependents: [{ table: 'quotations', column: 'rfq_id' }],
+  },
+  quotations: {
+    label: 'quotation',
+    numberColumn: 'quotation_number',
+    parent: { table: 'rfqs', column: 'rfq_id' },
+    dependents: [{ table: 'sales_orders', column: 'quotation_id' }],
+  },
+  sales_orders: {
+    label: 'sales order',
+    numberColumn: 'order_number',
+    parent: { table: 'quotations', column: 'quotation_id' },
+    dependents: [
+      { table: 'delivery_orders', column: 'sales_order_id' },
+      { table: 'invoices', column: 'sales_order_id' },
+    ],
+  },
+  delivery_orders: {
+    label: 'delivery order',
+    numberColumn: 'delivery_number',
+    parent: { table: 'sales_orders', column: 'sales_order_id' },
+    dependents: [],
+  },
+  invoices: {
+    label: 'invoice',
+    numberColumn: 'invoice_number',
+    parent: { table: 'sales_orders', column: 'sales_order_id' },
+    dependents: [],
+  },
+};
+
+// Dependents before the documents they were created from, so purging never hits a foreign key.
+const PURGE_ORDER = ['invoices', 'delivery_orders', 'sales_orders', 'quotations', 'rfqs'];
+
+export class RecycleBinError extends Error {
+  constructor(status, message, details = {}) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const isSoftDeletable = (table) => Boolean(SOFT_DELETE[table]);
+
+// e.g. `sales order SO-2026-0012`, for messages and the activity log.
+export const describeRecord = (table, record) =>
+  `${SOFT_DELETE[table].label} ${record[SOFT_DELETE[table].numberColumn] || `#${record.id}`}`;
+
+const countByTable = (records) =>
+  records.reduce((acc, record) => ({ ...acc, [record.table]: (acc[record.table] || 0) + 1 }), {});
+
+// Documents still in use that were created from the record, directly or further down the chain, locked.
+const findDependents = async (table, id, db) => {
+  const found = [];
+  for (const dependent of SOFT_DELETE[table].dependents) {
+    const rows = await db.query('SELECT id FROM ?? WHERE ?? = ? AND deleted_at IS NULL FOR UPDATE', [
+      dependent.table,
+      dependent.column,
+      id,
+    ]);
+    for (const row of rows) {
+      found.push({ table: dependent.table, id: row.id });
+      found.push(...(await findDependents(dependent.table, row.id, db)));
+    }
+  }
+  return found;
+};
+
+// Everything that went to the bin in the same delete as the record.
+const findDeletionGroup = async (deletionId, db) => {
+  const groups = await Promise.all(
+    PURGE_ORDER.map(async (table) => {
+      const rows = await db.query('SELECT id FROM ?? WHERE deletion_id = ?', [table, deletionId]);
+      return rows.map((row) => ({ table, id: row.id }));
+    })
+  );
+  return groups.flat();
+};
+
+// Documents created from the group that went to the bin in a delete of their own, which purging would orphan.
+const findSeparatelyBinned = async (group, deletionId, db) => {
+  const found = [];
+  for (const entry of group) {
+    for (const dependent of SOFT_DELETE[entry.table].dependents) {
+      const rows = await db.query(
+        'SELECT id FROM ?? WHERE ?? = ? AND deleted_at IS NOT NULL AND deletion_id <> ?',
+        [dependent.table, dependent.column, entry.id, deletionId]
+      );
+      found.push(...rows.map((row) => ({ table: dependent.table, id: row.id })));
+    }
+  }
+  return found;
+};
+
+const findBinnedRecord = async (table, id, db) => {
+  const [record] = await db.query('SELECT * FROM ?? WHERE id = ? AND deleted_at IS NOT NULL FOR UPDATE', [table, id]);
+  if (!record) throw new RecycleBinError(404, 'Record is not in the recycle bin');
+  return record;
+};
+
+// Moves the record to the recycle bin. Documents created from it have to go with it, so unless `cascade` is set
+// a record that has any is refused with a 409 listing them per table. `canDelete(table)` must allow every table
+// the cascade reaches. Returns the record and the number of dependents binned with it.
+export const softDeleteRecord = async (table, id, { cascade = false, deletedBy, canDelete }, db = pool) => {
+  const [record] = await db.query('SELECT * FROM ?? WHERE id = ? AND deleted_at IS NULL FOR UPDATE', [table, id]);
+  if (!record) throw new RecycleBinError(404, 'Record not found');
+
+  const dependents = await findDependents(table, record.id, db);
+  const dependentCounts = countByTable(dependents);
+  if (dependents.length && !cascade) {
+    throw new RecycleBinError(
+      409,
+      `This ${SOFT_DELETE[table].label} has related documents. Delete them together or remove them first.`,
+      { dependents: dependentCounts }
+    );
+  }
+  if (Object.keys(dependentCounts).some((dependentTable) => !canDelete(dependentTable))) {
+    throw new RecycleBinError(403, 'You are not allowed to delete all of the related documents');
+  }
+
+  const deletionId = randomUUID();
+  const entries = [{ table, id: record.id }, ...dependents];
+  for (const entry of entries) {
+    await db.query('UPDATE ?? SET deleted_at = NOW(), deleted_by = ?, deletion_id = ? WHERE id = ?', [
+      entry.table,
+      deletedBy,
+      deletionId,
+      entry.id,
+    ]);
+  }
+  return { record, dependentCount: dependents.length, entries };
+};
+
+// A delivery or invoice coming back on its own goes onto a sales order that moved on while it was in the bin:
+// its lines may have been shipped again, or the order invoiced again. The order row stays locked until commit.
+const assertRestorable = async (group, db) => {
+  const restored = new Set(group.map((entry) => `${entry.table}:${entry.id}`));
+  for (const entry of group.filter((item) => ['delivery_orders', 'invoices'].includes(item.table))) {
+    const [document] = await db.query('SELECT sales_order_id FROM ?? WHERE id = ?', [entry.table, entry.id]);
+    const salesOrderId = document?.sales_order_id;
+    if (!salesOrderId || restored.has(`sales_orders:${salesOrderId}`)) continue;
+    await db.query('SELECT id FROM `sales_orders` WHERE id = ? FOR UPDATE', [salesOrderId]);
+
+    if (entry.table === 'invoices') {
+      const [invoice] = await db.query(
+        'SELECT id FROM `invoices` WHERE sales_order_id = ? AND deleted_at IS NULL LIMIT 1',
+        [salesOrderId]
+      );
+      if (invoice) {
+        throw new RecycleBinError(409, 'The sales order was invoiced again while this invoice was in the recycle bin');
+      }
+      continue;
+    }
+
+    const lines = ((await getLineItems('delivery_orders', [entry.id], db))[String(entry.id)] || []).filter(
+      (line) => line.sales_order_item_id
+    );
+    if (!lines.length) continue;
+    try {
+      await buildDeliveryItems(salesOrderId, lines, { excludeDeliveryId: entry.id }, db);
+    } catch (error) {
+      if (!(error instanceof LineItemError)) throw error;
+      throw new RecycleBinError(409, `Goods were delivered again while it was in the recycle bin. ${error.message}`);
+    }
+  }
+};
+
+// Takes the record out of the bin with everything deleted together with it. A document deleted along with the one
+// it was created from comes back with that one, so it cannot be restored while its parent is still in the bin.
+export const restoreRecord = async (table, id, db = pool) => {
+  const record = await findBinnedRecord(table, id, db);
+  const { parent } = SOFT_DELETE[table];
+  if (parent && record[parent.column]) {
+    const [parentRecord] = await db.query('SELECT deleted_at FROM ?? WHERE id = ?', [
+      parent.table,
+      record[parent.column],
+    ]);
+    if (!parentRecord) {
+      throw new RecycleBinError(
+        409,
+        `The ${SOFT_DELETE[parent.table].label} it belongs to was deleted permanently, so it cannot be restored`
+      );
+    }
+    if (parentRecord.deleted_at) {
+      throw new RecycleBinError(409, `Restore the ${SOFT_DELETE[parent.table].label} it belongs to first`);
+    }
+  }
+
+  const group = await findDeletionGroup(record.deletion_id, db);
+  await assertRestorable(group, db);
+  for (const entry of group) {
+    await db.query('UPDATE ?? SET deleted_at = NULL, deleted_by = NULL, deletion_id = NULL WHERE id = ?', [
+      entry.table,
+      entry.id,
+    ]);
+  }
+  return { record, dependentCount: group.length - 1, entries: group };
+};
+
+// Deletes the record for good, with everything deleted together with it. Line items go with their documents
+// through their foreign keys. Documents created from it that were binned in a separate delete have to be purged
+// first, so nothing is left in the bin pointing at a record that no longer exists.
+export const purgeRecord = async (table, id, db = pool) => {
+  const record = await findBinnedRecord(table, id, db);
+  const { parent } = SOFT_DELETE[table];
+  if (parent && record[parent.column]) {
+    const [parentRecord] = await db.query('SELECT deletion_id FROM ?? WHERE id = ?', [
+      parent.table,
+      record[parent.column],
+    ]);
+    if (parentRecord?.deletion_id && parentRecord.deletion_id === record.deletion_id) {
+      throw new RecycleBinError(409, `It was deleted with its ${SOFT_DELETE[parent.table].label}; purge that instead`);
+    }
+  }
+
+  const group = await findDeletionGroup(record.deletion_id, db);
+  const separatelyBinned = await findSeparatelyBinned(group, record.deletion_id, db);
+  if (separatelyBinned.length) {
+    throw new RecycleBinError(
+      409,
+      `Documents created from this ${SOFT_DELETE[table].label} are still in the recycle bin. Purge them first.`,
+      { dependents: countByTable(separatelyBinned) }
+    );
+  }
+  for (const entry of group) {
+    await db.query('DELETE FROM ?? WHERE id = ?', [entry.table, entry.id]);
+  }
+  return { record, dependentCount: group.length - 1 };
+};
+
+// The recycle bin, most recently deleted first. Each delete is listed once, under the record that was deleted;
+// `related` counts the documents that went to the bin with it, per table.
+export const listRecycleBin = async (db = pool) => {
+  const rows = (
+    await Promise.all(
+      Object.entries(SOFT_DELETE).map(async ([table, config]) => {
+        const records = await db.query(
+          `SELECT t.id, t.?? AS number, t.company_name, t.deleted_at, t.deletion_id,
+             ${config.parent ? 't.??' : 'NULL'} AS parent_id, u.full_name AS deleted_by_name
+           FROM ?? t
+           LEFT JOIN users u ON u.id = t.deleted_by
+           WHERE t.deleted_at IS NOT NULL`,
+          [config.numberColumn, ...(config.parent ? [config.parent.column] : []), table]
+        );
+        return records.map((record) => ({ ...record, table }));
+      })
+    )
+  ).flat();
+
+  const groups = rows.reduce((acc, row) => {
+    acc[row.deletion_id] = acc[row.deletion_id] || [];
+    acc[row.deletion_id].push(row);
+    return acc;
+  }, {});
+
+  return Object.values(groups)
+    .flatMap((group) => {
+      const isRoot = (row) => {
+        const { parent } = SOFT_DELETE[row.table];
+        return !parent || !group.some((other) => other.table === parent.table && other.id === row.parent_id);
+      };
+      return group.filter(isRoot).map((row) => ({
+        table: row.table,
+        id: row.id,
+        number: row.number,
+        company_name: row.company_name,
+        deleted_at: row.deleted_at,
+        deleted_by_name: row.deleted_by_name,
+        related: countByTable(group.filter((other) => other !== row)),
+      }));
+    })
+    .sort((a, b) => new Date(b.deleted_at) - new Date(a.deleted_at));
+};
@@ -1,8 +1,7 @@
--- RGI NexaProc MySQL schema
-CREATE DATABASE IF NOT EXISTS `rgi_nexaproc`;
-USE `rgi_nexaproc`;
+-- Initial schema. Tables that already exist on older installs are left alone; columns they are missing
+-- are added by 002.
 
--- Users with fixed roles
+-- Users (role refers to `roles`.`name`)
 CREATE TABLE IF NOT EXISTS `users` (
   `id` INT AUTO_INCREMENT PRIMARY KEY,
   `full_name` VARCHAR(255) NOT NULL,
@@ -10,17 +9,19 @@ CREATE TABLE IF NOT EXISTS `users` (
   `email` VARCHAR(255) NOT NULL UNIQUE,
   `password` VARCHAR(255) NOT NULL,
   `password_reset_required` TINYINT(1) NOT NULL DEFAULT 0,
-  `role` ENUM('superadmin','admin','manager','staff') NOT NULL DEFAULT 'staff',
+  `role` VARCHAR(50) NOT NULL DEFAULT 'staff',
   `title` VARCHAR(150) DEFAULT NULL,
   `phone` VARCHAR(50) DEFAULT NULL,
   `photo_url` VARCHAR(500) DEFAULT NULL,
+  `totp_secret` VARCHAR(64) DEFAULT NULL,
+  `totp_enabled` TINYINT(1) NOT NULL DEFAULT 0,
+  `totp_last_step` BIGINT DEFAULT NULL,
+  `totp_backup_codes` JSON DEFAULT NULL,
+  `status` VARCHAR(20) NOT NULL DEFAULT 'active',
+  `deactivated_at` TIMESTAMP NULL DEFAULT NULL,
   `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
-INSERT INTO `users` (`full_name`, `username`, `email`, `password`, `password_reset_required`, `role`, `title`, `phone`)
-VALUES ('Mhd Zidane Alparizi', 'zidanist', 'zidanalfarizi321@gmail.com', 'scrypt$55bfb64956e76e8a298867897d5d47d6:5067c8b96e780777ddff0dc873790293c1725ecd460e1facb4d708d7a419d1587a87c9be8a62465eb67f09eefd124b9e54e2d69458f90052f862883f1f219adf', 0, 'superadmin', 'Superadmin', '82170179410')
-ON DUPLICATE KEY UPDATE `role` = VALUES(`role`), `password` = VALUES(`password`), `phone` = VALUES(`phone`), `full_name` = VALUES(`full_name`), `username` = VALUES(`username`), `password_reset_required` = VALUES(`password_reset_required`);
-
 CREATE TABLE IF NOT EXISTS `password_resets` (
   `id` INT AUTO_INCREMENT PRIMARY KEY,
   `user_id` INT NOT NULL,
@@ -33,6 +34,80 @@ CREATE TABLE IF NOT EXISTS `password_resets` (
   CONSTRAINT `fk_password_resets_user` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
 );
 
+-- Single-use invitation links emailed to new users so they can choose their own username and password.
+CREATE TABLE IF NOT EXISTS `user_invitations` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `token_hash` VARCHAR(255) NOT NULL,
+  `invited_by` INT NULL,
+  `expires_at` TIMESTAMP NOT NULL,
+  `used_at` TIMESTAMP NULL DEFAULT NULL,
+  `revoked_at` TIMESTAMP NULL DEFAULT NULL,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX `idx_user_invitations_user` (`user_id`),
+  INDEX `idx_user_invitations_token` (`token_hash`),
+  CONSTRAINT `fk_user_invitations_user` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_user_invitations_invited_by` FOREIGN KEY (`invited_by`) REFERENCES `users` (`id`) ON DELETE SET NULL
+);
+
+-- One row per signed-in device; session tokens carry the id so they can be revoked remotely.
+CREATE TABLE IF NOT EXISTS `user_sessions` (
+  `id` CHAR(32) PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `ip_address` VARCHAR(64) NULL,
+  `user_agent` VARCHAR(255) NULL,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  `last_seen_at` TIMESTAMP NULL DEFAULT NULL,
+  `expires_at` TIMESTAMP NOT NULL,
+  `revoked_at` TIMESTAMP NULL DEFAULT NULL,
+  INDEX `idx_user_sessions_user` (`user_id`),
+  CONSTRAINT `fk_user_sessions_user` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+);
+
+-- Failed sign-in and password reset attempts, keyed by account/identifier and by source IP.
+CREATE TABLE IF NOT EXISTS `auth_attempts` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `scope` VARCHAR(50) NOT NULL,
+  `key_type` VARCHAR(20) NOT NULL,
+  `key_value` VARCHAR(255) NOT NULL,
+  `failures` INT NOT NULL DEFAULT 0,
+  `last_failed_at` TIMESTAMP NULL DEFAULT NULL,
+  `locked_until` TIMESTAMP NULL DEFAULT NULL,
+  UNIQUE KEY `uniq_auth_attempts_key` (`scope`, `key_type`, `key_value`)
+);
+
+-- Roles and the permission matrix edited by the superadmin in Settings.
+-- Superadmin implicitly holds every capability; custom roles start with none.
+CREATE TABLE IF NOT EXISTS `roles` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `name` VARCHAR(50) NOT NULL UNIQUE,
+  `label` VARCHAR(120) NOT NULL,
+  `is_system` TINYINT(1) NOT NULL DEFAULT 0,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS `role_permissions` (
+  `role` VARCHAR(50) NOT NULL,
+  `capability` VARCHAR(100) NOT NULL,
+  `scope` ENUM('all','own') NOT NULL DEFAULT 'all',
+  PRIMARY KEY (`role`, `capability`),
+  CONSTRAINT `fk_role_permissions_role` FOREIGN KEY (`role`) REFERENCES `roles` (`name`) ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Uploaded files. Stored names are random so files cannot be guessed; downloads go through /api/files/:id.
+CREATE TABLE IF NOT EXISTS `files` (
+  `id` CHAR(32) PRIMARY KEY,
+  `stored_name` VARCHAR(100) NOT NULL,
+  `original_name` VARCHAR(255) NULL,
+  `mime_type` VARCHAR(150) NOT NULL,
+  `size_bytes` INT NOT NULL,
+  `context` VARCHAR(50) NOT NULL,
+  `uploaded_by` INT NULL,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX `idx_files_context` (`context`),
+  CONSTRAINT `fk_files_uploaded_by` FOREIGN KEY (`uploaded_by`) REFERENCES `users` (`id`) ON DELETE SET NULL
+);
+
 -- Suppliers
 CREATE TABLE IF NOT EXISTS `suppliers` (
   `id` INT AUTO_INCREMENT PRIMARY KEY,
@@ -188,7 +263,7 @@ CREATE TABLE IF NOT EXISTS `invoices` (
 CREATE TABLE IF NOT EXISTS `settings` (
   `id` INT AUTO_INCREMENT PRIMARY KEY,
   `company_name` VARCHAR(255) NOT NULL DEFAULT 'PT Royal General Indonesia',
-  `company_address` TEXT NOT NULL DEFAULT 'Jl. Desa Harapan No. 47 RT/RW 004/001 Kel. Air Jamban, Kec. Mandau, Kab. Bengkalis, Prov. Riau 28784',
+  `company_address` TEXT NOT NULL DEFAULT ('Jl. Desa Harapan No. 47 RT/RW 004/001 Kel. Air Jamban, Kec. Mandau, Kab. Bengkalis, Prov. Riau 28784'),
   `tax_id` VARCHAR(150) DEFAULT '0751 1971 0421 9000',
   `tax_rate` DECIMAL(5,2) NOT NULL DEFAULT 11.00,
   `email` VARCHAR(255) NOT NULL DEFAULT 'royalgeneralindonesia@gmail.com',
@@ -0,0 +1,41 @@
+// Installs created before these columns existed had them added by hand, if at all. Add whatever is
+// missing so every install matches 001; on fresh installs this changes nothing.
+const COLUMNS = [
+  ['users', 'username', 'VARCHAR(120) DEFAULT NULL UNIQUE AFTER `full_name`'],
+  ['users', 'password_reset_required', 'TINYINT(1) NOT NULL DEFAULT 0 AFTER `password`'],
+  ['users', 'title', 'VARCHAR(150) DEFAULT NULL AFTER `role`'],
+  ['users', 'phone', 'VARCHAR(50) DEFAULT NULL AFTER `title`'],
+  ['users', 'photo_url', 'VARCHAR(500) DEFAULT NULL AFTER `phone`'],
+  ['users', 'totp_secret', 'VARCHAR(64) DEFAULT NULL AFTER `photo_url`'],
+  ['users', 'totp_enabled', 'TINYINT(1) NOT NULL DEFAULT 0 AFTER `totp_secret`'],
+  ['users', 'totp_last_step', 'BIGINT DEFAULT NULL AFTER `totp_enabled`'],
+  ['users', 'totp_backup_codes', 'JSON DEFAULT NULL AFTER `totp_last_step`'],
+  ['users', 'status', "VARCHAR(20) NOT NULL DEFAULT 'active' AFTER `totp_backup_codes`"],
+  ['users', 'deactivated_at', 'TIMESTAMP NULL DEFAULT NULL AFTER `status`'],
+  ['clients', 'ship_addresses', 'JSON DEFAULT NULL AFTER `tax_id`'],
+  ['rfqs', 'client_id', 'INT DEFAULT NULL AFTER `rfq_number`'],
+  ['rfqs', 'attachment_url', 'VARCHAR(500) DEFAULT NULL AFTER `goods`'],
+  ['rfqs', 'performed_by', 'INT DEFAULT NULL AFTER `status`'],
+  ['quotations', 'include_tax', 'TINYINT(1) NOT NULL DEFAULT 0 AFTER `grand_total`'],
+  ['quotations', 'negotiation_round', 'INT DEFAULT 0 AFTER `status`'],
+  ['quotations', 'performed_by', 'INT DEFAULT NULL AFTER `negotiation_round`'],
+  ['sales_orders', 'po_number', 'VARCHAR(120) DEFAULT NULL AFTER `order_number`'],
+  ['sales_orders', 'project_name', 'VARCHAR(255) DEFAULT NULL AFTER `po_number`'],
+  ['sales_orders', 'order_date', 'DATE DEFAULT NULL AFTER `project_name`'],
+  ['sales_orders', 'documents', 'JSON DEFAULT NULL AFTER `goods`'],
+  ['sales_orders', 'created_by', 'INT DEFAULT NULL AFTER `status`'],
+  ['sales_orders', 'last_edited_by', 'INT DEFAULT NULL AFTER `created_by`'],
+  ['delivery_orders', 'ship_address', 'TEXT DEFAULT NULL AFTER `company_name`'],
+  ['invoices', 'paid_date', 'DATE DEFAULT NULL AFTER `status`'],
+  ['settings', 'logo_url', 'VARCHAR(500) DEFAULT NULL AFTER `bank_account`'],
+];
+
+export async function up({ query, columnExists }) {
+  for (const [table, column, definition] of COLUMNS) {
+    if (await columnExists(table, column)) continue;
+    await query(`ALTER TABLE ?? ADD COLUMN ?? ${definition}`, [table, column]);
+  }
+
+  // Roles used to be a fixed ENUM.
+  await query("ALTER TABLE `users` MODIFY `role` VARCHAR(50) NOT NULL DEFAULT 'staff'");
+}
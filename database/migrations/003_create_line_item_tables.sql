@@ -0,0 +1,86 @@
+-- Line items of RFQs, quotations, sales orders, delivery orders and invoices, previously stored as JSON in
+-- each document's `goods` column. `line_no` keeps the order the lines were entered in.
+
+CREATE TABLE IF NOT EXISTS `rfq_items` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `rfq_id` INT NOT NULL,
+  `line_no` INT NOT NULL DEFAULT 1,
+  `type` VARCHAR(20) NOT NULL DEFAULT 'existing',
+  `good_id` INT DEFAULT NULL,
+  `name` VARCHAR(255) DEFAULT NULL,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX `idx_rfq_items_rfq` (`rfq_id`, `line_no`),
+  CONSTRAINT `fk_rfq_items_rfq` FOREIGN KEY (`rfq_id`) REFERENCES `rfqs` (`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_rfq_items_good` FOREIGN KEY (`good_id`) REFERENCES `goods` (`id`) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS `quotation_items` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `quotation_id` INT NOT NULL,
+  `line_no` INT NOT NULL DEFAULT 1,
+  `good_id` INT DEFAULT NULL,
+  `name` VARCHAR(255) DEFAULT NULL,
+  `description` TEXT,
+  `unit` VARCHAR(50) DEFAULT NULL,
+  `qty` DECIMAL(12,2) NOT NULL DEFAULT 0,
+  `price` DECIMAL(12,2) NOT NULL DEFAULT 0,
+  `delivery_time` INT DEFAULT NULL,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX `idx_quotation_items_quotation` (`quotation_id`, `line_no`),
+  CONSTRAINT `fk_quotation_items_quotation` FOREIGN KEY (`quotation_id`) REFERENCES `quotations` (`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_quotation_items_good` FOREIGN KEY (`good_id`) REFERENCES `goods` (`id`) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS `sales_order_items` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `sales_order_id` INT NOT NULL,
+  `line_no` INT NOT NULL DEFAULT 1,
+  `good_id` INT DEFAULT NULL,
+  `name` VARCHAR(255) DEFAULT NULL,
+  `description` TEXT,
+  `unit` VARCHAR(50) DEFAULT NULL,
+  `qty` DECIMAL(12,2) NOT NULL DEFAULT 0,
+  `price` DECIMAL(12,2) NOT NULL DEFAULT 0,
+  `deadline_days` INT DEFAULT NULL,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX `idx_sales_order_items_order` (`sales_order_id`, `line_no`),
+  CONSTRAINT `fk_sales_order_items_order` FOREIGN KEY (`sales_order_id`) REFERENCES `sales_orders` (`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_sales_order_items_good` FOREIGN KEY (`good_id`) REFERENCES `goods` (`id`) ON DELETE SET NULL
+);
+
+-- Each delivered line fulfils one sales order line. Lines migrated from JSON that matched no sales order line
+-- keep a NULL `sales_order_item_id`.
+CREATE TABLE IF NOT EXISTS `delivery_order_items` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `delivery_order_id` INT NOT NULL,
+  `sales_order_item_id` INT DEFAULT NULL,
+  `line_no` INT NOT NULL DEFAULT 1,
+  `good_id` INT DEFAULT NULL,
+  `name` VARCHAR(255) DEFAULT NULL,
+  `description` TEXT,
+  `unit` VARCHAR(50) DEFAULT NULL,
+  `qty` DECIMAL(12,2) NOT NULL DEFAULT 0,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX `idx_delivery_order_items_delivery` (`delivery_order_id`, `line_no`),
+  CONSTRAINT `fk_delivery_order_items_delivery` FOREIGN KEY (`delivery_order_id`) REFERENCES `delivery_orders` (`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_delivery_order_items_order_item` FOREIGN KEY (`sales_order_item_id`) REFERENCES `sales_order_items` (`id`),
+  CONSTRAINT `fk_delivery_order_items_good` FOREIGN KEY (`good_id`) REFERENCES `goods` (`id`) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS `invoice_items` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `invoice_id` INT NOT NULL,
+  `sales_order_item_id` INT DEFAULT NULL,
+  `line_no` INT NOT NULL DEFAULT 1,
+  `good_id` INT DEFAULT NULL,
+  `name` VARCHAR(255) DEFAULT NULL,
+  `description` TEXT,
+  `unit` VARCHAR(50) DEFAULT NULL,
+  `qty` DECIMAL(12,2) NOT NULL DEFAULT 0,
+  `price` DECIMAL(12,2) NOT NULL DEFAULT 0,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX `idx_invoice_items_invoice` (`invoice_id`, `line_no`),
+  CONSTRAINT `fk_invoice_items_invoice` FOREIGN KEY (`invoice_id`) REFERENCES `invoices` (`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_invoice_items_order_item` FOREIGN KEY (`sales_order_item_id`) REFERENCES `sales_order_items` (`id`) ON DELETE SET NULL,
+  CONSTRAINT `fk_invoice_items_good` FOREIGN KEY (`good_id`) REFERENCES `goods` (`id`) ON DELETE SET NULL
+);
@@ -0,0 +1,143 @@
+// Copies the JSON `goods` of every document into the line item tables from 003, then drops the JSON columns.
+// Delivery and invoice lines are linked to the sales order line they belong to by good, then by name, the
+// same way shipped quantities used to be matched.
+
+const parseItems = (value) => {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const toNumber = (value) => Number(value) || 0;
+
+const toOptionalInteger = (value) =>
+  value === null || value === undefined || value === '' || Number.isNaN(Number(value)) ? null : Math.round(Number(value));
+
+// Lines for goods deleted since the order lost their good id above, so those are matched by name and, when both
+// sides have one, unit.
+const sameGood = (item, line) => {
+  if (item.good_id && line.source_good_id) return String(item.good_id) === String(line.source_good_id);
+  return Boolean(item.name) && item.name === line.name && (!item.unit || !line.unit || item.unit === line.unit);
+};
+
+export async function up({ query, columnExists }) {
+  const goodIds = new Set((await query('SELECT id FROM `goods`')).map((row) => String(row.id)));
+  // Goods deleted since the document was written cannot be referenced any more; their name is kept on the line.
+  const toGoodId = (value) => (value && goodIds.has(String(value)) ? Number(value) : null);
+
+  const copyItems = async ({ table, itemTable, parentColumn, toRows }) => {
+    if (!(await columnExists(table, 'goods'))) return;
+    // A previous run may have stopped before dropping the column; start this table over.
+    await query('DELETE FROM ??', [itemTable]);
+    const documents = await query('SELECT * FROM ??', [table]);
+    for (const document of documents) {
+      const rows = await toRows(document, parseItems(document.goods));
+      for (const [index, row] of rows.entries()) {
+        await query('INSERT INTO ?? SET ?', [itemTable, { ...row, [parentColumn]: document.id, line_no: index + 1 }]);
+      }
+    }
+    await query('ALTER TABLE ?? DROP COLUMN `goods`', [table]);
+  };
+
+  await copyItems({
+    table: 'rfqs',
+    itemTable: 'rfq_items',
+    parentColumn: 'rfq_id',
+    toRows: (_rfq, items) =>
+      items.map((item) => ({
+        type: item.type || (item.good_id ? 'existing' : 'other'),
+        good_id: toGoodId(item.good_id),
+        name: item.name || null,
+      })),
+  });
+
+  await copyItems({
+    table: 'quotations',
+    itemTable: 'quotation_items',
+    parentColumn: 'quotation_id',
+    toRows: (_quotation, items) =>
+      items.map((item) => ({
+        good_id: toGoodId(item.good_id),
+        name: item.name || null,
+        description: item.description || null,
+        unit: item.unit || null,
+        qty: toNumber(item.qty),
+        price: toNumber(item.price),
+        delivery_time: toOptionalInteger(item.delivery_time),
+      })),
+  });
+
+  // Sales order lines with the good id they were written with, for matching deliveries and invoices below.
+  const orderLines = {};
+  await copyItems({
+    table: 'sales_orders',
+    itemTable: 'sales_order_items',
+    parentColumn: 'sales_order_id',
+    toRows: (_order, items) =>
+      items.map((item) => ({
+        good_id: toGoodId(item.good_id),
+        name: item.name || null,
+        description: item.description || null,
+        unit: item.unit || null,
+        qty: toNumber(item.qty),
+        price: toNumber(item.price),
+        deadline_days: toOptionalInteger(item.deadline_days),
+      })),
+  });
+  const orderLineRows = await query('SELECT id, sales_order_id, good_id, name, unit, qty FROM `sales_order_items`');
+  orderLineRows.forEach((line) => {
+    const key = String(line.sales_order_id);
+    orderLines[key] = orderLines[key] || [];
+    orderLines[key].push({ ...line, source_good_id: line.good_id, remaining: toNumber(line.qty) });
+  });
+
+  await copyItems({
+    table: 'delivery_orders',
+    itemTable: 'delivery_order_items',
+    parentColumn: 'delivery_order_id',
+    toRows: (delivery, items) => {
+      const lines = orderLines[String(delivery.sales_order_id)] || [];
+      return items.map((item) => {
+        const candidates = lines.filter((line) => sameGood(item, line));
+        const line = candidates.find((candidate) => candidate.remaining > 0) || candidates[0];
+        if (line) line.remaining -= toNumber(item.qty);
+        return {
+          sales_order_item_id: line?.id || null,
+          good_id: toGoodId(item.good_id) || line?.good_id || null,
+          name: item.name || line?.name || null,
+          description: item.description || null,
+          unit: item.unit || null,
+          qty: toNumber(item.qty),
+        };
+      });
+    },
+  });
+
+  await copyItems({
+    table: 'invoices',
+    itemTable: 'invoice_items',
+    parentColumn: 'invoice_id',
+    toRows: (invoice, items) => {
+      const lines = orderLines[String(invoice.sales_order_id)] || [];
+      return items.map((item, index) => {
+        const name = item.goods || item.name || null;
+        const line =
+          lines[index]?.name === name ? lines[index] : lines.find((candidate) => name && candidate.name === name);
+        return {
+          sales_order_item_id: line?.id || null,
+          good_id: line?.good_id || null,
+          name,
+          description: item.description || null,
+          unit: item.unit || null,
+          qty: toNumber(item.qty),
+          price: toNumber(item.price),
+        };
+      });
+    },
+  });
+}
@@ -0,0 +1,96 @@
+// Moves quotation, delivery order and invoice numbering to the server: a counter per document type and year in
+// `document_sequences`, a configurable format per type in `settings`, and a unique index on each number column.
+// Counters start after the highest number already issued that year. Numbers issued twice by the old browser-side
+// numbering keep their oldest document as is; the others get `-<id>` appended so the unique index can be added.
+
+const DOCUMENTS = [
+  {
+    table: 'quotations',
+    type: 'quotation',
+    column: 'quotation_number',
+    setting: 'quotation_number_format',
+    defaultFormat: '{seq}/RGI/QTN/{roman_month}/{year}',
+  },
+  {
+    table: 'delivery_orders',
+    type: 'delivery_order',
+    column: 'delivery_number',
+    setting: 'delivery_number_format',
+    defaultFormat: '{seq}/RGI/DO/{roman_month}/{year}',
+  },
+  {
+    table: 'invoices',
+    type: 'invoice',
+    column: 'invoice_number',
+    setting: 'invoice_number_format',
+    defaultFormat: '{seq}/RGI/INV/{roman_month}/{year}',
+  },
+];
+
+// `0001/RGI/QTN/IX/2026`, and `RGI-QTN-2026-0001` from before quotations used the slash format.
+const parseNumber = (value) => {
+  const current = String(value || '').match(/^(\d+)\/.*\/(\d{4})$/);
+  if (current) return { sequence: Number(current[1]), year: Number(current[2]) };
+  const legacy = String(value || '').match(/^RGI-QTN-(\d{4})-(\d+)$/);
+  if (legacy) return { sequence: Number(legacy[2]), year: Number(legacy[1]) };
+  return null;
+};
+
+export async function up({ query, columnExists }) {
+  await query(`
+    CREATE TABLE IF NOT EXISTS \`document_sequences\` (
+      \`document_type\` VARCHAR(50) NOT NULL,
+      \`year\` INT NOT NULL,
+      \`last_value\` INT NOT NULL DEFAULT 0,
+      PRIMARY KEY (\`document_type\`, \`year\`)
+    )
+  `);
+
+  for (const document of DOCUMENTS) {
+    if (!(await columnExists('settings', document.setting))) {
+      await query(`ALTER TABLE \`settings\` ADD COLUMN ?? VARCHAR(100) NOT NULL DEFAULT '${document.defaultFormat}'`, [
+        document.setting,
+      ]);
+    }
+
+    const rows = await query('SELECT id, ?? AS number FROM ?? ORDER BY id ASC', [document.column, document.table]);
+
+    const counters = {};
+    rows.forEach((row) => {
+      const parsed = parseNumber(row.number);
+      if (!parsed) return;
+      counters[parsed.year] = Math.max(counters[parsed.year] || 0, parsed.sequence);
+    });
+    for (const [year, lastValue] of Object.entries(counters)) {
+      await query(
+        `INSERT INTO \`document_sequences\` (document_type, year, last_value) VALUES (?, ?, ?)
+         ON DUPLICATE KEY UPDATE last_value = GREATEST(last_value, VALUES(last_value))`,
+        [document.type, Number(year), lastValue]
+      );
+    }
+
+    const seen = new Set();
+    for (const row of rows) {
+      if (seen.has(row.number)) {
+        await query('UPDATE ?? SET ?? = ? WHERE id = ?', [
+          document.table,
+          document.column,
+          `${row.number}-${row.id}`,
+          row.id,
+        ]);
+      } else {
+        seen.add(row.number);
+      }
+    }
+
+    const indexName = `uniq_${document.table}_${document.column}`;
+    const [existingIndex] = await query(
+      `SELECT 1 FROM information_schema.STATISTICS
+       WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ? LIMIT 1`,
+      [document.table, indexName]
+    );
+    if (!existingIndex) {
+      await query('ALTER TABLE ?? ADD UNIQUE INDEX ?? (??)', [document.table, indexName, document.column]);
+    }
+  }
+}
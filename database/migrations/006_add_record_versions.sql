@@ -0,0 +1,11 @@
+-- Optimistic concurrency: every update of an editable record increments `version`. A client sends back the
+-- version it loaded, and the API refuses the update with 409 when the record has changed since.
+
+ALTER TABLE `clients` ADD COLUMN `version` INT NOT NULL DEFAULT 1;
+ALTER TABLE `suppliers` ADD COLUMN `version` INT NOT NULL DEFAULT 1;
+ALTER TABLE `goods` ADD COLUMN `version` INT NOT NULL DEFAULT 1;
+ALTER TABLE `rfqs` ADD COLUMN `version` INT NOT NULL DEFAULT 1;
+ALTER TABLE `quotations` ADD COLUMN `version` INT NOT NULL DEFAULT 1;
+ALTER TABLE `sales_orders` ADD COLUMN `version` INT NOT NULL DEFAULT 1;
+ALTER TABLE `delivery_orders` ADD COLUMN `version` INT NOT NULL DEFAULT 1;
+ALTER TABLE `invoices` ADD COLUMN `version` INT NOT NULL DEFAULT 1;
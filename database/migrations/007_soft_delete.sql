@@ -0,0 +1,29 @@
+-- Soft delete for documents: deleting sets `deleted_at` and hides the record until a superadmin restores or
+-- purges it from the recycle bin. Records deleted together (a sales order with its invoices) share a
+-- `deletion_id`, so they are restored or purged together.
+
+ALTER TABLE `rfqs`
+  ADD COLUMN `deleted_at` TIMESTAMP NULL DEFAULT NULL,
+  ADD COLUMN `deleted_by` INT DEFAULT NULL,
+  ADD COLUMN `deletion_id` CHAR(36) DEFAULT NULL,
+  ADD INDEX `idx_rfqs_deleted_at` (`deleted_at`);
+ALTER TABLE `quotations`
+  ADD COLUMN `deleted_at` TIMESTAMP NULL DEFAULT NULL,
+  ADD COLUMN `deleted_by` INT DEFAULT NULL,
+  ADD COLUMN `deletion_id` CHAR(36) DEFAULT NULL,
+  ADD INDEX `idx_quotations_deleted_at` (`deleted_at`);
+ALTER TABLE `sales_orders`
+  ADD COLUMN `deleted_at` TIMESTAMP NULL DEFAULT NULL,
+  ADD COLUMN `deleted_by` INT DEFAULT NULL,
+  ADD COLUMN `deletion_id` CHAR(36) DEFAULT NULL,
+  ADD INDEX `idx_sales_orders_deleted_at` (`deleted_at`);
+ALTER TABLE `delivery_orders`
+  ADD COLUMN `deleted_at` TIMESTAMP NULL DEFAULT NULL,
+  ADD COLUMN `deleted_by` INT DEFAULT NULL,
+  ADD COLUMN `deletion_id` CHAR(36) DEFAULT NULL,
+  ADD INDEX `idx_delivery_orders_deleted_at` (`deleted_at`);
+ALTER TABLE `invoices`
+  ADD COLUMN `deleted_at` TIMESTAMP NULL DEFAULT NULL,
+  ADD COLUMN `deleted_by` INT DEFAULT NULL,
+  ADD COLUMN `deletion_id` CHAR(36) DEFAULT NULL,
+  ADD INDEX `idx_invoices_deleted_at` (`deleted_at`);
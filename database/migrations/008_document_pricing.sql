@@ -0,0 +1,31 @@
+-- Pricing computed by the API (`shared/pricing.js`): lines get a discount percentage, and priced documents keep
+-- the tax rate and inclusive/exclusive mode they were priced with, so later edits and the invoice reproduce the
+-- same totals after the rate in settings changes. Existing documents get the rate their stored totals imply.
+
+ALTER TABLE `quotation_items` ADD COLUMN `discount` DECIMAL(5,2) NOT NULL DEFAULT 0 AFTER `price`;
+ALTER TABLE `sales_order_items` ADD COLUMN `discount` DECIMAL(5,2) NOT NULL DEFAULT 0 AFTER `price`;
+ALTER TABLE `invoice_items` ADD COLUMN `discount` DECIMAL(5,2) NOT NULL DEFAULT 0 AFTER `price`;
+
+ALTER TABLE `quotations` ADD COLUMN `tax_rate` DECIMAL(5,2) DEFAULT NULL AFTER `tax_amount`;
+ALTER TABLE `sales_orders`
+  ADD COLUMN `tax_rate` DECIMAL(5,2) DEFAULT NULL AFTER `tax_amount`,
+  ADD COLUMN `include_tax` TINYINT(1) NOT NULL DEFAULT 0 AFTER `tax_rate`;
+ALTER TABLE `invoices`
+  ADD COLUMN `tax_rate` DECIMAL(5,2) DEFAULT NULL AFTER `tax_amount`,
+  ADD COLUMN `include_tax` TINYINT(1) NOT NULL DEFAULT 0 AFTER `tax_rate`;
+
+UPDATE `quotations`
+SET `tax_rate` = IF(`total_amount` > 0, ROUND(`tax_amount` * 100 / `total_amount`, 2),
+  (SELECT `tax_rate` FROM `settings` ORDER BY `id` ASC LIMIT 1));
+
+UPDATE `sales_orders` o
+LEFT JOIN `quotations` q ON q.`id` = o.`quotation_id`
+SET o.`include_tax` = COALESCE(q.`include_tax`, 0),
+  o.`tax_rate` = COALESCE(q.`tax_rate`, IF(o.`total_amount` > 0, ROUND(o.`tax_amount` * 100 / o.`total_amount`, 2),
+    (SELECT `tax_rate` FROM `settings` ORDER BY `id` ASC LIMIT 1)));
+
+UPDATE `invoices` i
+LEFT JOIN `sales_orders` o ON o.`id` = i.`sales_order_id`
+SET i.`include_tax` = COALESCE(o.`include_tax`, 0),
+  i.`tax_rate` = COALESCE(o.`tax_rate`, IF(i.`total_amount` > 0, ROUND(i.`tax_amount` * 100 / i.`total_amount`, 2),
+    (SELECT `tax_rate` FROM `settings` ORDER BY `id` ASC LIMIT 1)));
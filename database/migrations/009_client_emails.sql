@@ -0,0 +1,28 @@
+-- Quotations and invoices emailed to clients from the app: subject and body templates per document type in
+-- `settings`, and `document_emails` recording every send (and failed attempt) against its document.
+
+ALTER TABLE `settings`
+  ADD COLUMN `quotation_email_subject` VARCHAR(255) NOT NULL DEFAULT 'Quotation {number} from {company}',
+  ADD COLUMN `quotation_email_body` TEXT NOT NULL DEFAULT (
+    'Dear {recipient},\n\nPlease find attached our quotation {number} with a total of {grand_total}.\n\nWe look forward to hearing from you.\n\nBest regards,\n{sender}\n{company}'
+  ),
+  ADD COLUMN `invoice_email_subject` VARCHAR(255) NOT NULL DEFAULT 'Invoice {number} from {company}',
+  ADD COLUMN `invoice_email_body` TEXT NOT NULL DEFAULT (
+    'Dear {recipient},\n\nPlease find attached invoice {number} for {grand_total}. Payment details are on the invoice.\n\nThank you for your business.\n\nBest regards,\n{sender}\n{company}'
+  );
+
+CREATE TABLE IF NOT EXISTS `document_emails` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `entity_type` VARCHAR(100) NOT NULL,
+  `entity_id` INT NOT NULL,
+  `recipients` VARCHAR(1000) NOT NULL,
+  `cc` VARCHAR(1000) DEFAULT NULL,
+  `subject` VARCHAR(255) NOT NULL,
+  `body` TEXT NOT NULL,
+  `attachment_name` VARCHAR(255) NOT NULL,
+  `status` VARCHAR(20) NOT NULL,
+  `error` TEXT DEFAULT NULL,
+  `sent_by` INT DEFAULT NULL,
+  `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX `idx_document_emails_entity` (`entity_type`, `entity_id`)
+);
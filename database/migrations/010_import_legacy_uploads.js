@@ -0,0 +1,126 @@
+// Files uploaded before `files` existed were saved as `api/uploads/<prefix>-<timestamp>.<ext>` and linked as
+// `/uploads/<name>`, readable by anyone signed in. Each one still referenced by a record is registered in `files`
+// under the context of that record, the file staying where it is, and the record is pointed at `/api/files/<id>`
+// so the same access checks as new uploads apply. Files no record points at are left unregistered.
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const UPLOAD_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', '..', 'api', 'uploads');
+
+const LEGACY_URL_PATTERN = /^\/uploads\/([^/]+)$/;
+
+// The old upload code named files after the declared MIME subtype (`docx`/`doc` aside), so the extension maps back.
+const MIME_TYPES = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  doc: 'application/msword',
+  'vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'vnd.ms-excel': 'application/vnd.ms-excel',
+  xls: 'application/vnd.ms-excel',
+  'vnd.openxmlformats-officedocument.presentationml.presentation':
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'vnd.ms-powerpoint': 'application/vnd.ms-powerpoint',
+  ppt: 'application/vnd.ms-powerpoint',
+  mpeg: 'audio/mpeg',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+  mp4: 'audio/mp4',
+  m4a: 'audio/mp4',
+};
+
+// Record columns holding a single legacy URL, with the context and uploader the file gets.
+const URL_COLUMNS = [
+  { table: 'rfqs', column: 'attachment_url', context: 'rfq_attachment', uploaderColumn: 'performed_by' },
+  { table: 'chat_messages', column: 'attachment_url', context: 'chat_attachment', uploaderColumn: 'user_id' },
+  { table: 'users', column: 'photo_url', context: 'user_photo', uploaderColumn: 'id' },
+  { table: 'chat_messages', column: 'user_photo_url', context: 'user_photo', uploaderColumn: 'user_id' },
+  { table: 'settings', column: 'logo_url', context: 'company_logo', uploaderColumn: null },
+];
+
+const legacyName = (url) => (typeof url === 'string' ? url.match(LEGACY_URL_PATTERN)?.[1] || null : null);
+
+export async function up({ query }) {
+  const userIds = new Set((await query('SELECT id FROM `users`')).map((row) => String(row.id)));
+  // One `files` row per legacy file, shared by every record pointing at it; the first reference decides its context.
+  const imported = new Map();
+
+  const importFile = async (name, context, uploadedBy) => {
+    if (imported.has(name)) return imported.get(name);
+    const safeName = path.basename(name);
+    const stats = await fs.stat(path.join(UPLOAD_DIR, safeName)).catch(() => null);
+    if (!stats?.isFile()) {
+      imported.set(name, null);
+      return null;
+    }
+    const [existing] = await query('SELECT id FROM `files` WHERE stored_name = ? LIMIT 1', [safeName]);
+    const id = existing?.id || crypto.randomBytes(16).toString('hex');
+    if (!existing) {
+      await query('INSERT INTO `files` SET ?', [
+        {
+          id,
+          stored_name: safeName,
+          original_name: safeName,
+          mime_type: MIME_TYPES[safeName.split('.').pop().toLowerCase()] || 'application/octet-stream',
+          size_bytes: stats.size,
+          context,
+          uploaded_by: uploadedBy && userIds.has(String(uploadedBy)) ? uploadedBy : null,
+        },
+      ]);
+    }
+    const url = `/api/files/${id}`;
+    imported.set(name, url);
+    return url;
+  };
+
+  for (const { table, column, context, uploaderColumn } of URL_COLUMNS) {
+    const rows = await query(`SELECT id, ??${uploaderColumn ? ', ?? AS uploaded_by' : ''} FROM ?? WHERE ?? LIKE ?`, [
+      column,
+      ...(uploaderColumn ? [uploaderColumn] : []),
+      table,
+      column,
+      '/uploads/%',
+    ]);
+    for (const row of rows) {
+      const name = legacyName(row[column]);
+      const url = name ? await importFile(name, context, row.uploaded_by) : null;
+      if (url) await query('UPDATE ?? SET ?? = ? WHERE id = ?', [table, column, url, row.id]);
+    }
+  }
+
+  const orders = await query('SELECT id, created_by, documents FROM `sales_orders` WHERE documents LIKE ?', [
+    '%/uploads/%',
+  ]);
+  for (const order of orders) {
+    let documents = order.documents;
+    if (typeof documents === 'string') {
+      try {
+        documents = JSON.parse(documents);
+      } catch {
+        continue;
+      }
+    }
+    if (!Array.isArray(documents)) continue;
+    const next = [];
+    let changed = false;
+    for (const doc of documents) {
+      const name = legacyName(doc?.url);
+      const url = name ? await importFile(name, 'sales_order_document', order.created_by) : null;
+      changed ||= Boolean(url);
+      next.push(url ? { ...doc, url } : doc);
+    }
+    if (changed) await query('UPDATE `sales_orders` SET documents = ? WHERE id = ?', [JSON.stringify(next), order.id]);
+  }
+}
@@ -0,0 +1,120 @@
+-- Default data. Safe to run repeatedly: nothing that already exists is changed.
+
+-- System roles
+INSERT IGNORE INTO `roles` (`name`, `label`, `is_system`) VALUES
+  ('superadmin', 'Superadmin', 1),
+  ('admin', 'Admin', 1),
+  ('manager', 'Manager', 1),
+  ('staff', 'Staff', 1);
+
+-- Default grants are only seeded once so later edits from Settings survive re-running the seed
+INSERT INTO `role_permissions` (`role`, `capability`, `scope`)
+SELECT * FROM (VALUES
+  ROW('admin', 'suppliers.read', 'all'),
+  ROW('admin', 'suppliers.create', 'all'),
+  ROW('admin', 'suppliers.update', 'all'),
+  ROW('admin', 'clients.read', 'all'),
+  ROW('admin', 'clients.create', 'all'),
+  ROW('admin', 'clients.update', 'all'),
+  ROW('admin', 'goods.read', 'all'),
+  ROW('admin', 'goods.create', 'all'),
+  ROW('admin', 'goods.update', 'all'),
+  ROW('admin', 'goods.status', 'all'),
+  ROW('admin', 'rfqs.read', 'all'),
+  ROW('admin', 'rfqs.create', 'all'),
+  ROW('admin', 'rfqs.update', 'all'),
+  ROW('admin', 'rfqs.status', 'all'),
+  ROW('admin', 'quotations.read', 'all'),
+  ROW('admin', 'quotations.create', 'all'),
+  ROW('admin', 'quotations.update', 'own'),
+  ROW('admin', 'sales_orders.read', 'all'),
+  ROW('admin', 'sales_orders.create', 'all'),
+  ROW('admin', 'sales_orders.update', 'all'),
+  ROW('admin', 'delivery_orders.read', 'all'),
+  ROW('admin', 'delivery_orders.create', 'all'),
+  ROW('admin', 'invoices.read', 'all'),
+  ROW('admin', 'invoices.update', 'all'),
+  ROW('admin', 'invoices.status', 'all'),
+  ROW('admin', 'settings.read', 'all'),
+  ROW('admin', 'users.read', 'all'),
+  ROW('admin', 'users.create', 'all'),
+  ROW('admin', 'users.update', 'all'),
+  ROW('admin', 'users.delete', 'all'),
+  ROW('admin', 'activity_logs.read', 'all'),
+  ROW('manager', 'suppliers.read', 'all'),
+  ROW('manager', 'suppliers.create', 'all'),
+  ROW('manager', 'suppliers.update', 'all'),
+  ROW('manager', 'suppliers.status', 'all'),
+  ROW('manager', 'clients.read', 'all'),
+  ROW('manager', 'clients.create', 'all'),
+  ROW('manager', 'clients.update', 'all'),
+  ROW('manager', 'clients.status', 'all'),
+  ROW('manager', 'goods.read', 'all'),
+  ROW('manager', 'goods.create', 'all'),
+  ROW('manager', 'goods.update', 'all'),
+  ROW('manager', 'goods.status', 'all'),
+  ROW('manager', 'rfqs.read', 'all'),
+  ROW('manager', 'rfqs.create', 'all'),
+  ROW('manager', 'rfqs.update', 'all'),
+  ROW('manager', 'rfqs.status', 'all'),
+  ROW('manager', 'quotations.read', 'all'),
+  ROW('manager', 'quotations.create', 'all'),
+  ROW('manager', 'quotations.update', 'all'),
+  ROW('manager', 'quotations.status', 'all'),
+  ROW('manager', 'sales_orders.read', 'all'),
+  ROW('manager', 'sales_orders.create', 'all'),
+  ROW('manager', 'sales_orders.update', 'all'),
+  ROW('manager', 'sales_orders.status', 'all'),
+  ROW('manager', 'delivery_orders.read', 'all'),
+  ROW('manager', 'delivery_orders.create', 'all'),
+  ROW('manager', 'invoices.read', 'all'),
+  ROW('manager', 'invoices.update', 'all'),
+  ROW('manager', 'invoices.status', 'all'),
+  ROW('manager', 'settings.read', 'all'),
+  ROW('manager', 'users.read', 'all'),
+  ROW('manager', 'users.create', 'all'),
+  ROW('manager', 'users.update', 'all'),
+  ROW('manager', 'users.delete', 'all'),
+  ROW('manager', 'activity_logs.read', 'all'),
+  ROW('staff', 'suppliers.read', 'all'),
+  ROW('staff', 'suppliers.create', 'all'),
+  ROW('staff', 'suppliers.update', 'all'),
+  ROW('staff', 'clients.read', 'all'),
+  ROW('staff', 'clients.create', 'all'),
+  ROW('staff', 'clients.update', 'all'),
+  ROW('staff', 'goods.read', 'all'),
+  ROW('staff', 'goods.create', 'all'),
+  ROW('staff', 'goods.update', 'all'),
+  ROW('staff', 'rfqs.read', 'all'),
+  ROW('staff', 'rfqs.create', 'all'),
+  ROW('staff', 'rfqs.update', 'own'),
+  ROW('staff', 'rfqs.status', 'own'),
+  ROW('staff', 'quotations.read', 'all'),
+  ROW('staff', 'quotations.create', 'all'),
+  ROW('staff', 'quotations.update', 'own'),
+  ROW('staff', 'sales_orders.read', 'all'),
+  ROW('staff', 'sales_orders.create', 'all'),
+  ROW('staff', 'sales_orders.update', 'all'),
+  ROW('staff', 'delivery_orders.read', 'all'),
+  ROW('staff', 'delivery_orders.create', 'all'),
+  ROW('staff', 'invoices.read', 'all'),
+  ROW('staff', 'invoices.update', 'all'),
+  ROW('staff', 'invoices.status', 'all'),
+  ROW('staff', 'settings.read', 'all'),
+  ROW('staff', 'users.read', 'all'),
+  ROW('staff', 'users.update', 'own'),
+  ROW('staff', 'activity_logs.read', 'own')
+) AS `defaults`
+WHERE NOT EXISTS (SELECT 1 FROM `role_permissions`);
+
+-- Initial superadmin account, created only when no account uses this email yet
+INSERT INTO `users` (`full_name`, `username`, `email`, `password`, `password_reset_required`, `role`, `title`, `phone`)
+SELECT 'Mhd Zidane Alparizi', 'zidanist', 'zidanalfarizi321@gmail.com', 'scrypt$55bfb64956e76e8a298867897d5d47d6:5067c8b96e780777ddff0dc873790293c1725ecd460e1facb4d708d7a419d1587a87c9be8a62465eb67f09eefd124b9e54e2d69458f90052f862883f1f219adf', 0, 'superadmin', 'Superadmin', '82170179410'
+FROM DUAL
+WHERE NOT EXISTS (SELECT 1 FROM `users` WHERE `email` = 'zidanalfarizi321@gmail.com');
+
+-- Company settings row with the column defaults
+INSERT INTO `settings` (`company_name`)
+SELECT 'PT Royal General Indonesia'
+FROM DUAL
+WHERE NOT EXISTS (SELECT 1 FROM `settings`);
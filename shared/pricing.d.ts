@@ -0,0 +1,32 @@
+export interface PricedItem {
+  name?: string | null;
+  qty?: number | string | null;
+  price?: number | string | null;
+  // Percentage off the line.
+  discount?: number | string | null;
+}
+
+export interface PricingOptions {
+  taxRate?: number | string | null;
+  includeTax?: boolean;
+}
+
+export interface DocumentTotals {
+  totalAmount: number;
+  taxAmount: number;
+  grandTotal: number;
+}
+
+export interface TotalsMismatch {
+  field: 'total_amount' | 'tax_amount' | 'grand_total';
+  expected: number;
+}
+
+export function roundRupiah(value: unknown): number;
+export function calculateLineSubtotal(item: PricedItem): number;
+export function calculateTotals(items: PricedItem[], options?: PricingOptions): DocumentTotals;
+export function validatePricedItems(items: PricedItem[]): string | null;
+export function findTotalsMismatch(
+  submitted: Partial<Record<TotalsMismatch['field'], unknown>> | null | undefined,
+  totals: DocumentTotals,
+): TotalsMismatch | null;
@@ -0,0 +1,52 @@
+// Document pricing shared by the API, which stores the totals, and the forms, which preview them with the same
+// code. Amounts are rupiah: each line subtotal and the tax are rounded to whole rupiah, so both sides arrive at
+// exactly the same numbers.
+
+const toNumber = (value) => Number(value) || 0;
+
+export const roundRupiah = (value) => Math.round(toNumber(value));
+
+// qty × price, less the line's discount percentage.
+export const calculateLineSubtotal = (item) =>
+  roundRupiah(toNumber(item.qty) * toNumber(item.price) * (1 - toNumber(item.discount) / 100));
+
+// With `includeTax` the line prices already contain tax at `taxRate` percent and the tax is taken out of them;
+// otherwise it is added on top.
+export const calculateTotals = (items, { taxRate = 0, includeTax = false } = {}) => {
+  const rate = toNumber(taxRate);
+  const linesTotal = items.reduce((sum, item) => sum + calculateLineSubtotal(item), 0);
+  const taxAmount = roundRupiah(includeTax ? (linesTotal * rate) / (100 + rate) : (linesTotal * rate) / 100);
+  const totalAmount = includeTax ? linesTotal - taxAmount : linesTotal;
+  return { totalAmount, taxAmount, grandTotal: totalAmount + taxAmount };
+};
+
+const isNumeric = (value) => value !== '' && value !== null && value !== undefined && !Number.isNaN(Number(value));
+
+// Why the lines cannot be priced, or null.
+export const validatePricedItems = (items) => {
+  for (const item of items) {
+    const name = item.name || 'an item';
+    if (isNumeric(item.qty) && Number(item.qty) < 0) return `Quantity of ${name} cannot be negative`;
+    if (isNumeric(item.price) && Number(item.price) < 0) return `Price of ${name} cannot be negative`;
+    const discount = item.discount ?? 0;
+    if (discount !== '' && (!isNumeric(discount) || Number(discount) < 0 || Number(discount) > 100)) {
+      return `Discount of ${name} must be between 0 and 100%`;
+    }
+  }
+  return null;
+};
+
+const TOTAL_FIELDS = [
+  ['total_amount', 'totalAmount'],
+  ['tax_amount', 'taxAmount'],
+  ['grand_total', 'grandTotal'],
+];
+
+// The first total in `submitted` (a document payload) that is off from `totals` by a rupiah or more, e.g. from a
+// form that priced the document with an outdated tax rate. Totals left out of the payload are not checked.
+export const findTotalsMismatch = (submitted, totals) => {
+  const mismatch = TOTAL_FIELDS.find(
+    ([field, key]) => isNumeric(submitted?.[field]) && Math.abs(Number(submitted[field]) - totals[key]) >= 1
+  );
+  return mismatch ? { field: mismatch[0], expected: totals[mismatch[1]] } : null;
+};
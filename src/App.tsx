@@ -1,8 +1,11 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from './contexts/AuthContext';
+import { canAccessPage } from './lib/permissions';
+import { buildPath, navigate, useRoute } from './lib/router';
 import { applyTheme, ThemePreference } from './lib/theme';
 import { getThemePreference, setThemePreference as persistThemePreference } from './lib/userPreferences';
 import Login from './components/Auth/Login';
+import TwoFactorRequired from './components/Auth/TwoFactorRequired';
 import Dashboard from './components/Layout/Dashboard';
 import DashboardHome from './components/Pages/DashboardHome';
 import Suppliers from './components/Pages/Suppliers';
@@ -17,24 +20,21 @@ import Users from './components/Pages/Users';
 import Profile from './components/Pages/Profile';
 import Settings from './components/Pages/Settings';
 import OrderProgress from './components/Pages/OrderProgress';
+import RecycleBin from './components/Pages/RecycleBin';
 
 function App() {
-  const { user, profile, loading } = useAuth();
-  const progressOrderId =
-    typeof window !== 'undefined'
-      ? new URLSearchParams(window.location.search).get('progress_order')
-      : null;
-  const [currentPage, setCurrentPage] = useState(() => {
-    if (typeof window === 'undefined') return 'dashboard';
-    return localStorage.getItem('currentPage') || 'dashboard';
-  });
+  const { user, profile, loading, can } = useAuth();
+  const route = useRoute();
+  const currentPage = route.page;
   const [themePreference, setThemePreference] = useState<ThemePreference>(() => getThemePreference());
 
+  // Progress links shared before pages had their own URLs.
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    if (progressOrderId) return;
-    localStorage.setItem('currentPage', currentPage);
-  }, [currentPage, progressOrderId]);
+    const legacyProgressOrder = new URLSearchParams(window.location.search).get('progress_order');
+    if (legacyProgressOrder) {
+      navigate(buildPath('orders', legacyProgressOrder, 'progress'), { replace: true });
+    }
+  }, []);
 
   useEffect(() => {
     persistThemePreference(themePreference);
@@ -53,17 +53,6 @@ function App() {
     return () => mediaQuery.removeEventListener('change', handleChange);
   }, [themePreference]);
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const handleDashboardNavigate = (event: Event) => {
-      const customEvent = event as CustomEvent<string>;
-      if (!customEvent.detail) return;
-      setCurrentPage(customEvent.detail);
-    };
-    window.addEventListener('app:navigate', handleDashboardNavigate as EventListener);
-    return () => window.removeEventListener('app:navigate', handleDashboardNavigate as EventListener);
-  }, []);
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
@@ -79,34 +68,44 @@ function App() {
     return <Login />;
   }
 
-  if (progressOrderId) {
-    return <OrderProgress orderId={progressOrderId} />;
+  if (profile.two_factor_required && !profile.two_factor_enabled) {
+    return <TwoFactorRequired />;
+  }
+
+  if (currentPage === 'orders' && route.recordId && route.view === 'progress') {
+    return <OrderProgress orderId={route.recordId} />;
   }
 
   const renderPage = () => {
+    if (!canAccessPage(currentPage, can, profile.role)) {
+      return <DashboardHome />;
+    }
+
     switch (currentPage) {
       case 'dashboard':
         return <DashboardHome />;
       case 'suppliers':
-        return <Suppliers />;
+        return <Suppliers recordId={route.recordId} />;
       case 'clients':
-        return <Clients />;
+        return <Clients recordId={route.recordId} />;
       case 'goods':
-        return <Goods />;
+        return <Goods recordId={route.recordId} />;
       case 'rfq':
-        return <RFQ />;
+        return <RFQ recordId={route.recordId} />;
       case 'quotations':
-        return <Quotations />;
+        return <Quotations recordId={route.recordId} />;
       case 'orders':
-        return <Orders />;
+        return <Orders recordId={route.recordId} view={route.view} />;
       case 'delivery-orders':
-        return <DeliveryOrders />;
+        return <DeliveryOrders recordId={route.recordId} />;
       case 'invoices':
-        return <Invoices />;
+        return <Invoices recordId={route.recordId} />;
       case 'settings':
         return <Settings />;
       case 'users':
         return <Users />;
+      case 'recycle-bin':
+        return <RecycleBin />;
       case 'profile':
         return <Profile />;
       default:
@@ -117,7 +116,6 @@ function App() {
   return (
     <Dashboard
       currentPage={currentPage}
-      onNavigate={setCurrentPage}
       themePreference={themePreference}
       onThemeChange={setThemePreference}
     >
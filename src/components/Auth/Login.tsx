@@ -15,9 +15,12 @@ declare global {
   }
 }
 
+type PendingSetup = { id?: number | string; email?: string; setup_token?: string };
+
 export default function Login() {
   const searchParams = new URLSearchParams(window.location.search);
   const resetToken = searchParams.get('reset_token');
+  const inviteToken = searchParams.get('invite_token');
   const [identifier, setIdentifier] = useState('');
   const [password, setPassword] = useState('');
   const [forgotEmail, setForgotEmail] = useState('');
@@ -27,15 +30,19 @@ export default function Login() {
   const [setupCurrentPassword, setSetupCurrentPassword] = useState('');
   const [setupPassword, setSetupPassword] = useState('');
   const [setupConfirm, setSetupConfirm] = useState('');
-  const [pendingProfile, setPendingProfile] = useState<{ id?: number | string; email?: string } | null>(null);
+  const [pendingProfile, setPendingProfile] = useState<PendingSetup | null>(null);
+  const [invitation, setInvitation] = useState<{ email: string; full_name: string } | null>(null);
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
   const [error, setError] = useState('');
   const [message, setMessage] = useState('');
   const [loading, setLoading] = useState(false);
-  const [mode, setMode] = useState<'login' | 'forgot' | 'reset' | 'setup'>(
-    resetToken ? 'reset' : 'login'
+  const [mode, setMode] = useState<'login' | 'forgot' | 'reset' | 'setup' | 'two-factor'>(
+    inviteToken ? 'setup' : resetToken ? 'reset' : 'login'
   );
-  const { signIn, signInWithGoogle } = useAuth();
+  const { signIn, signInWithGoogle, completeSetup, acceptInvitation, verifyTwoFactor } = useAuth();
   const googleButtonRef = useRef<HTMLDivElement | null>(null);
   const googleClientId = import.meta.env.VITE_GOOGLE_CLIENT_ID as string | undefined;
   const setupSessionKey = 'rgi_pending_setup';
@@ -57,10 +64,10 @@ export default function Login() {
 
   useEffect(() => {
     const savedSetup = sessionStorage.getItem(setupSessionKey);
-    if (!savedSetup) return;
+    if (!savedSetup || inviteToken) return;
     try {
-      const parsed = JSON.parse(savedSetup) as { id?: number | string; email?: string };
-      if (parsed?.id) {
+      const parsed = JSON.parse(savedSetup) as PendingSetup;
+      if (parsed?.id && parsed.setup_token) {
         setPendingProfile(parsed);
         setMode('setup');
       }
@@ -68,7 +75,26 @@ export default function Login() {
       console.error('Failed to restore setup session', err);
       sessionStorage.removeItem(setupSessionKey);
     }
-  }, [setupSessionKey]);
+  }, [setupSessionKey, inviteToken]);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    const apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api';
+    fetch(`${apiBase}/auth/invitations/${encodeURIComponent(inviteToken)}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.error || 'Invitation link is invalid or has expired.');
+        }
+        setInvitation(data);
+      })
+      .catch((err) => {
+        setError(
+          `${err instanceof Error ? err.message : 'Invitation link is invalid or has expired.'} Ask an administrator to send a new invitation.`
+        );
+        setMode('login');
+      });
+  }, [inviteToken]);
 
   useEffect(() => {
     if (resetToken) {
@@ -76,6 +102,17 @@ export default function Login() {
     }
   }, [resetToken]);
 
+  const startTwoFactorStep = (token?: string) => {
+    if (!token) {
+      setError('Verification session is invalid. Please sign in again.');
+      return;
+    }
+    setTwoFactorToken(token);
+    setTwoFactorCode('');
+    setUseBackupCode(false);
+    setMode('two-factor');
+  };
+
   useEffect(() => {
     if (!googleClientId || mode !== 'login') return;
     let script = document.querySelector<HTMLScriptElement>('script[data-google-identity]');
@@ -90,15 +127,20 @@ export default function Login() {
             setError('');
             setMessage('');
             const result = await signInWithGoogle(response.credential);
+            if (result.requiresTwoFactor) {
+              startTwoFactorStep(result.twoFactorToken);
+              return;
+            }
             if (result.requiresSetup) {
-              setPendingProfile(result.profile || null);
+              const pendingSetup = result.profile ? { ...result.profile, setup_token: result.setupToken } : null;
+              setPendingProfile(pendingSetup);
               setSetupCurrentPassword('');
               setSetupUsername('');
               setSetupPassword('');
               setSetupConfirm('');
               setMode('setup');
-              if (result.profile?.id) {
-                sessionStorage.setItem(setupSessionKey, JSON.stringify(result.profile));
+              if (pendingSetup?.id) {
+                sessionStorage.setItem(setupSessionKey, JSON.stringify(pendingSetup));
               }
               setError(
                 'Account setup required. Please create a username and password before signing in with Google.'
@@ -147,14 +189,15 @@ export default function Login() {
     try {
       const result = await signIn(identifier, password);
       if (result.requiresSetup) {
-        setPendingProfile(result.profile || null);
+        const pendingSetup = result.profile ? { ...result.profile, setup_token: result.setupToken } : null;
+        setPendingProfile(pendingSetup);
         setSetupCurrentPassword(password);
         setSetupUsername('');
         setSetupPassword('');
         setSetupConfirm('');
         setMode('setup');
-        if (result.profile?.id) {
-          sessionStorage.setItem(setupSessionKey, JSON.stringify(result.profile));
+        if (pendingSetup?.id) {
+          sessionStorage.setItem(setupSessionKey, JSON.stringify(pendingSetup));
         }
         return;
       }
@@ -163,6 +206,9 @@ export default function Login() {
       } else {
         localStorage.removeItem('mysql_saved_credentials');
       }
+      if (result.requiresTwoFactor) {
+        startTwoFactorStep(result.twoFactorToken);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to sign in.');
     } finally {
@@ -170,6 +216,28 @@ export default function Login() {
     }
   };
 
+  const handleTwoFactor = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    if (!twoFactorToken) {
+      setError('Verification session is invalid. Please sign in again.');
+      setMode('login');
+      return;
+    }
+    setLoading(true);
+    try {
+      await verifyTwoFactor(twoFactorToken, twoFactorCode);
+      setTwoFactorToken(null);
+      setTwoFactorCode('');
+      setMode('login');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid verification code.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleForgotPassword = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setError('');
@@ -233,7 +301,19 @@ export default function Login() {
       setError('Password and confirmation do not match.');
       return;
     }
-    if (!pendingProfile?.id || !setupCurrentPassword) {
+    if (inviteToken) {
+      setLoading(true);
+      try {
+        await acceptInvitation(inviteToken, setupUsername, setupPassword);
+        window.history.replaceState(null, '', window.location.pathname);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to accept invitation.');
+      } finally {
+        setLoading(false);
+      }
+      return;
+    }
+    if (!pendingProfile?.setup_token || !setupCurrentPassword) {
       setError('Setup session is invalid. Please sign in again.');
       setMode('login');
       sessionStorage.removeItem(setupSessionKey);
@@ -241,29 +321,16 @@ export default function Login() {
     }
     setLoading(true);
     try {
-      const apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api';
-      const response = await fetch(`${apiBase}/auth/complete-setup`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          user_id: pendingProfile.id,
-          current_password: setupCurrentPassword,
-          username: setupUsername,
-          password: setupPassword,
-        }),
+      await completeSetup({
+        setupToken: pendingProfile.setup_token,
+        currentPassword: setupCurrentPassword,
+        username: setupUsername,
+        password: setupPassword,
       });
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data?.error || 'Failed to complete setup.');
-      }
-
-      const loginResult = await signIn(setupUsername, setupPassword);
-      if (!loginResult.requiresSetup) {
-        setMode('login');
-        sessionStorage.removeItem(setupSessionKey);
-        setPendingProfile(null);
-        setSetupCurrentPassword('');
-      }
+      setMode('login');
+      sessionStorage.removeItem(setupSessionKey);
+      setPendingProfile(null);
+      setSetupCurrentPassword('');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to complete setup.');
     } finally {
@@ -301,12 +368,20 @@ export default function Login() {
             {mode === 'forgot' && 'Forgot Password'}
             {mode === 'reset' && 'Reset Password'}
             {mode === 'setup' && 'Setup Account'}
+            {mode === 'two-factor' && 'Two-Factor Verification'}
           </h2>
           <p className="text-gray-600 text-center mb-6">
             {mode === 'login' && 'Sign in with your system account'}
             {mode === 'forgot' && 'Enter your email to receive reset instructions'}
             {mode === 'reset' && 'Set a new password for your account'}
-            {mode === 'setup' && 'Create a new username and password for your account'}
+            {mode === 'setup' &&
+              (invitation
+                ? `Welcome, ${invitation.full_name}. Choose a username and password for ${invitation.email}`
+                : 'Create a new username and password for your account')}
+            {mode === 'two-factor' &&
+              (useBackupCode
+                ? 'Enter one of the backup codes you saved when enabling two-factor authentication'
+                : 'Enter the 6-digit code from your authenticator app')}
           </p>
 
           {error && (
@@ -486,20 +561,22 @@ export default function Login() {
 
           {mode === 'setup' && (
             <form onSubmit={handleSetup} className="space-y-5">
-              <div className="group">
-                <label htmlFor="setup-current-password" className="block text-sm font-semibold text-gray-700 mb-2">
-                  Default Password
-                </label>
-                <input
-                  id="setup-current-password"
-                  type="password"
-                  value={setupCurrentPassword}
-                  onChange={(e) => setSetupCurrentPassword(e.target.value)}
-                  className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:bg-white transition-all duration-200 dark:bg-slate-900 dark:border-slate-700 dark:text-slate-100 dark:focus:bg-slate-900"
-                  placeholder="Enter your default password"
-                  required
-                />
-              </div>
+              {!inviteToken && (
+                <div className="group">
+                  <label htmlFor="setup-current-password" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Default Password
+                  </label>
+                  <input
+                    id="setup-current-password"
+                    type="password"
+                    value={setupCurrentPassword}
+                    onChange={(e) => setSetupCurrentPassword(e.target.value)}
+                    className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:bg-white transition-all duration-200 dark:bg-slate-900 dark:border-slate-700 dark:text-slate-100 dark:focus:bg-slate-900"
+                    placeholder="Enter your default password"
+                    required
+                  />
+                </div>
+              )}
               <div className="group">
                 <label htmlFor="setup-username" className="block text-sm font-semibold text-gray-700 mb-2">
                   Username
@@ -554,6 +631,62 @@ export default function Login() {
               </button>
             </form>
           )}
+
+          {mode === 'two-factor' && (
+            <form onSubmit={handleTwoFactor} className="space-y-5">
+              <div className="group">
+                <label htmlFor="two-factor-code" className="block text-sm font-semibold text-gray-700 mb-2">
+                  {useBackupCode ? 'Backup Code' : 'Authentication Code'}
+                </label>
+                <input
+                  id="two-factor-code"
+                  type="text"
+                  inputMode={useBackupCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:bg-white transition-all duration-200 tracking-widest dark:bg-slate-900 dark:border-slate-700 dark:text-slate-100 dark:focus:bg-slate-900"
+                  placeholder={useBackupCode ? 'xxxxx-xxxxx' : '123456'}
+                  autoFocus
+                  required
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-blue-600 to-emerald-600 hover:from-blue-700 hover:to-emerald-700 text-white font-semibold py-3.5 rounded-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </button>
+
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseBackupCode((prev) => !prev);
+                    setTwoFactorCode('');
+                    setError('');
+                  }}
+                  className="text-blue-600 hover:text-blue-700 font-semibold"
+                >
+                  {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setMode('login');
+                    setTwoFactorToken(null);
+                    setError('');
+                    setMessage('');
+                  }}
+                  className="text-gray-600 hover:text-gray-700 font-semibold"
+                >
+                  Back to sign in
+                </button>
+              </div>
+            </form>
+          )}
         </div>
 
         <p className="text-center text-xs text-gray-500 mt-6 font-medium">
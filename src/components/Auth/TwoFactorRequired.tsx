@@ -0,0 +1,32 @@
+import { LogOut } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import TwoFactorSettings from '../Pages/TwoFactorSettings';
+
+export default function TwoFactorRequired() {
+  const { profile, signOut } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-slate-50 to-emerald-50 dark:from-slate-950 dark:via-slate-900/80 dark:to-slate-900/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl space-y-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900">Secure your account</h1>
+          <p className="text-gray-600 mt-1">
+            Hi {profile?.full_name}, accounts with the {profile?.role} role must use two-factor authentication before
+            continuing.
+          </p>
+        </div>
+        <TwoFactorSettings />
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={signOut}
+            className="inline-flex items-center text-sm text-gray-600 hover:text-gray-800 font-semibold"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
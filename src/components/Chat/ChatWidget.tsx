@@ -1,7 +1,11 @@
 import { ChangeEvent, FormEvent, useEffect, useMemo, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { MessageCircle, Send, X } from 'lucide-react';
-import { UserProfile } from '../../lib/api';
+import { getSessionTokens, uploadFile, UserProfile } from '../../lib/api';
+import FileAudio from '../Files/FileAudio';
+import FileImage from '../Files/FileImage';
+import FileLink from '../Files/FileLink';
+import { navigate } from '../../lib/router';
 
 type ChatMessage = {
   id: string;
@@ -11,6 +15,43 @@ type ChatMessage = {
   created_at: string;
 };
 
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+const isAppLink = (href: string) => {
+  try {
+    return new URL(href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+// Turns URLs in a message into links. Links into this app open the record in place instead of a new tab.
+const renderMessageText = (text: string) =>
+  text.split(URL_PATTERN).map((part, index) => {
+    if (index % 2 === 0) return part;
+    if (isAppLink(part)) {
+      return (
+        <a
+          key={index}
+          href={part}
+          onClick={(event) => {
+            event.preventDefault();
+            const url = new URL(part);
+            navigate(`${url.pathname}${url.search}`);
+          }}
+          className="underline"
+        >
+          {part}
+        </a>
+      );
+    }
+    return (
+      <a key={index} href={part} target="_blank" rel="noopener noreferrer" className="underline break-all">
+        {part}
+      </a>
+    );
+  });
+
 interface ChatWidgetProps {
   profile: UserProfile;
 }
@@ -19,7 +60,9 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [draft, setDraft] = useState('');
-  const [attachment, setAttachment] = useState<{ data: string; name: string; type: string } | null>(null);
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
   const [status, setStatus] = useState<'idle' | 'connecting' | 'connected' | 'error'>('idle');
   const socketRef = useRef<Socket | null>(null);
   const bottomRef = useRef<HTMLDivElement | null>(null);
@@ -44,18 +87,16 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
   useEffect(() => {
     if (!isOpen || socketRef.current) return;
     setStatus('connecting');
-    const socket = io(apiRoot, { transports: ['websocket'] });
+    const socket = io(apiRoot, {
+      transports: ['websocket'],
+      auth: (callback) => callback({ token: getSessionTokens()?.access_token }),
+    });
     socketRef.current = socket;
 
     socket.on('connect', () => {
       socket.emit(
         'register',
-        {
-          user_id: profile.id,
-          role: profile.role,
-          name: profile.full_name,
-          photo_url: profile.photo_url,
-        },
+        {},
         (response: { ok: boolean }) => {
           if (!response?.ok) {
             setStatus('error');
@@ -86,7 +127,7 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
       socket.disconnect();
       socketRef.current = null;
     };
-  }, [apiRoot, isOpen, profile.full_name, profile.id, profile.role]);
+  }, [apiRoot, isOpen, profile.id]);
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -104,12 +145,24 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [isOpen]);
 
-  const handleSend = (event: FormEvent) => {
+  const handleSend = async (event: FormEvent) => {
     event.preventDefault();
-    if ((!draft.trim() && !attachment) || !socketRef.current || status !== 'connected') return;
-    socketRef.current.emit(
+    if ((!draft.trim() && !attachment) || !socketRef.current || status !== 'connected' || sending) return;
+    let uploadedAttachment: { file_id: string } | null = null;
+    if (attachment) {
+      setSending(true);
+      try {
+        uploadedAttachment = { file_id: (await uploadFile(attachment, 'chat_attachment')).id };
+      } catch (error) {
+        setAttachmentError(error instanceof Error ? error.message : 'Gagal mengunggah lampiran.');
+        return;
+      } finally {
+        setSending(false);
+      }
+    }
+    socketRef.current?.emit(
       'chat_message',
-      { message: draft.trim(), attachment },
+      { message: draft.trim(), attachment: uploadedAttachment },
       (response: { ok: boolean }) => {
         if (!response?.ok) {
           setStatus('error');
@@ -123,12 +176,9 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
   const handleAttachmentChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (typeof reader.result !== 'string') return;
-      setAttachment({ data: reader.result, name: file.name, type: file.type });
-    };
-    reader.readAsDataURL(file);
+    setAttachment(file);
+    setAttachmentError(null);
+    event.target.value = '';
   };
 
   return (
@@ -177,7 +227,6 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
                   </div>
                   {group.messages.map((msg) => {
                     const isOwn = String(msg.sender.id) === String(profile.id);
-                    const avatar = msg.sender.photo_url ? `${apiRoot}${msg.sender.photo_url}` : null;
                     return (
                       <div key={msg.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
                         <div
@@ -188,9 +237,9 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
                           }`}
                         >
                           <div className="flex items-center gap-2">
-                            {avatar ? (
-                              <img
-                                src={avatar}
+                            {msg.sender.photo_url ? (
+                              <FileImage
+                                url={msg.sender.photo_url}
                                 alt={msg.sender.name || msg.sender.role}
                                 className="h-6 w-6 rounded-full object-cover"
                               />
@@ -208,22 +257,15 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
                               {msg.sender.name || msg.sender.role}
                             </p>
                           </div>
-                          {msg.message && <p>{msg.message}</p>}
+                          {msg.message && <p className="break-words">{renderMessageText(msg.message)}</p>}
                           {msg.attachment?.url && (
                             <div className="mt-2">
                               {msg.attachment.type?.startsWith('audio') ? (
-                                <audio controls className="w-full">
-                                  <source src={`${apiRoot}${msg.attachment.url}`} type={msg.attachment.type || undefined} />
-                                </audio>
+                                <FileAudio url={msg.attachment.url} type={msg.attachment.type} />
                               ) : (
-                                <a
-                                  href={`${apiRoot}${msg.attachment.url}`}
-                                  className="text-xs font-semibold underline"
-                                  target="_blank"
-                                  rel="noreferrer"
-                                >
+                                <FileLink url={msg.attachment.url} className="text-xs font-semibold underline">
                                   {msg.attachment.name || 'Lampiran'}
-                                </a>
+                                </FileLink>
                               )}
                             </div>
                           )}
@@ -252,13 +294,14 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
                 </button>
               </div>
             )}
+            {attachmentError && <p className="mb-2 text-xs text-red-600">{attachmentError}</p>}
             <div className="flex items-center gap-2">
               <label className="flex cursor-pointer items-center justify-center rounded-full border border-gray-200 bg-white px-3 py-2 text-xs font-semibold text-gray-600 shadow-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200">
                 Lampirkan
                 <input
                   type="file"
                   className="hidden"
-                  accept="audio/*,.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.zip"
+                  accept="audio/*,image/*,.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
                   onChange={handleAttachmentChange}
                 />
               </label>
@@ -270,7 +313,8 @@ export default function ChatWidget({ profile }: ChatWidgetProps) {
               />
               <button
                 type="submit"
-                className="rounded-full bg-blue-600 p-2 text-white hover:bg-blue-500"
+                disabled={sending}
+                className="rounded-full bg-blue-600 p-2 text-white hover:bg-blue-500 disabled:opacity-50"
                 aria-label="Send message"
               >
                 <Send className="h-4 w-4" />
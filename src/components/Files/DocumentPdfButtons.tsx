@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { Download, FileText } from 'lucide-react';
+import { getDocumentPdf, PrintableTable } from '../../lib/api';
+import { downloadGeneratedFile, getPdfFilename, openGeneratedFile } from '../../lib/files';
+
+interface DocumentPdfButtonsProps {
+  table: PrintableTable;
+  id: string | number;
+  // Names the downloaded file, e.g. `Quotation` and the quotation number.
+  label: string;
+  number: string | number;
+}
+
+export default function DocumentPdfButtons({ table, id, label, number }: DocumentPdfButtonsProps) {
+  const [working, setWorking] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setWorking(true);
+    try {
+      await action();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const loadPdf = () => getDocumentPdf(table, id);
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={() => run(() => openGeneratedFile(loadPdf))}
+        disabled={working}
+        className="inline-flex items-center px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+      >
+        <FileText className="h-4 w-4 mr-1" />
+        Preview PDF
+      </button>
+      <button
+        type="button"
+        onClick={() => run(() => downloadGeneratedFile(loadPdf, getPdfFilename(label, number)))}
+        disabled={working}
+        className="inline-flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+      >
+        <Download className="h-4 w-4 mr-1" />
+        Download PDF
+      </button>
+    </div>
+  );
+}
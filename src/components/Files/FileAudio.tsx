@@ -0,0 +1,16 @@
+import { useFileUrl } from '../../lib/files';
+
+interface FileAudioProps {
+  url: string;
+  type?: string | null;
+}
+
+export default function FileAudio({ url, type }: FileAudioProps) {
+  const src = useFileUrl(url);
+  if (!src) return null;
+  return (
+    <audio controls className="w-full">
+      <source src={src} type={type || undefined} />
+    </audio>
+  );
+}
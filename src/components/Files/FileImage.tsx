@@ -0,0 +1,15 @@
+import { ReactNode } from 'react';
+import { useFileUrl } from '../../lib/files';
+
+interface FileImageProps {
+  url: string;
+  alt: string;
+  className?: string;
+  fallback?: ReactNode;
+}
+
+export default function FileImage({ url, alt, className, fallback = null }: FileImageProps) {
+  const src = useFileUrl(url);
+  if (!src) return <>{fallback}</>;
+  return <img src={src} alt={alt} className={className} />;
+}
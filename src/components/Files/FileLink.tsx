@@ -0,0 +1,31 @@
+import { ReactNode } from 'react';
+import { isStoredFileUrl, openFile } from '../../lib/files';
+
+interface FileLinkProps {
+  url: string;
+  className?: string;
+  children: ReactNode;
+}
+
+export default function FileLink({ url, className, children }: FileLinkProps) {
+  if (!isStoredFileUrl(url)) {
+    return (
+      <a href={url} target="_blank" rel="noreferrer" className={className}>
+        {children}
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={url}
+      onClick={(event) => {
+        event.preventDefault();
+        openFile(url);
+      }}
+      className={className}
+    >
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { Mail, Paperclip, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ClientEmailDraft, EmailableTable, getClientEmailDraft, sendClientEmail } from '../../lib/api';
+
+interface SendToClientDialogProps {
+  table: EmailableTable;
+  id: string | number;
+  onClose: () => void;
+}
+
+interface SendToClientButtonProps {
+  table: EmailableTable;
+  id: string | number;
+  ownerId?: string | number | null;
+}
+
+function SendToClientDialog({ table, id, onClose }: SendToClientDialogProps) {
+  const [draft, setDraft] = useState<ClientEmailDraft | null>(null);
+  const [to, setTo] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getClientEmailDraft(table, id)
+      .then((loaded) => {
+        if (cancelled) return;
+        setDraft(loaded);
+        setTo(loaded.to.join(', '));
+        setSubject(loaded.subject);
+        setBody(loaded.body);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to prepare the email.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [table, id]);
+
+  const handleSend = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      const { history } = await sendClientEmail(table, id, { to, subject, body });
+      setDraft((prev) => (prev ? { ...prev, history } : prev));
+      setSentTo(to);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the email.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto dark:bg-slate-900">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-gray-900">Send to Client</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 transition dark:hover:bg-slate-800/60"
+            aria-label="Close send to client"
+          >
+            <X className="h-5 w-5 text-gray-600 dark:text-slate-200" />
+          </button>
+        </div>
+
+        {!draft ? (
+          <div className="p-6 text-sm text-gray-600">{error || 'Preparing email...'}</div>
+        ) : (
+          <form onSubmit={handleSend} className="p-6 space-y-4 text-sm">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="text"
+                value={to}
+                onChange={(event) => setTo(event.target.value)}
+                placeholder="client@example.com, other@example.com"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                required
+              />
+              {draft.cc.length > 0 && <p className="text-xs text-gray-500 mt-1">CC: {draft.cc.join(', ')}</p>}
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">Subject</label>
+              <input
+                type="text"
+                value={subject}
+                onChange={(event) => setSubject(event.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                required
+              />
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">Message</label>
+              <textarea
+                value={body}
+                onChange={(event) => setBody(event.target.value)}
+                rows={10}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                required
+              />
+            </div>
+            <p className="inline-flex items-center text-gray-600">
+              <Paperclip className="h-4 w-4 mr-1" />
+              {draft.attachment_name}
+            </p>
+
+            {error && <p className="text-red-600">{error}</p>}
+            {sentTo && <p className="text-emerald-600">Email sent to {sentTo}.</p>}
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+              <button
+                type="submit"
+                disabled={sending}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-60"
+              >
+                {sending ? 'Sending...' : 'Send'}
+              </button>
+            </div>
+
+            {draft.history.length > 0 && (
+              <div className="border-t border-gray-200 pt-4 dark:border-slate-800">
+                <h3 className="font-semibold text-gray-900 mb-2">Sent Before</h3>
+                <ul className="space-y-2">
+                  {draft.history.map((entry) => (
+                    <li key={entry.id} className="text-gray-700">
+                      <div>
+                        {new Date(entry.created_at).toLocaleString()} to {entry.recipients}
+                        {entry.sent_by_name && <span className="text-gray-500"> by {entry.sent_by_name}</span>}
+                      </div>
+                      {entry.status === 'failed' && (
+                        <div className="text-xs text-red-600">Not sent: {entry.error || 'unknown error'}</div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Hidden from users who cannot update the document, since the API refuses their sends.
+export default function SendToClientButton({ table, id, ownerId }: SendToClientButtonProps) {
+  const { can } = useAuth();
+  const [open, setOpen] = useState(false);
+
+  if (!can(table, 'update', ownerId)) return null;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="inline-flex items-center px-3 py-1.5 text-sm border border-blue-200 bg-white text-blue-700 rounded-lg hover:bg-blue-50"
+      >
+        <Mail className="h-4 w-4 mr-1" />
+        Send to Client
+      </button>
+      {open && <SendToClientDialog table={table} id={id} onClose={() => setOpen(false)} />}
+    </>
+  );
+}
@@ -18,48 +18,55 @@ import {
   Bell,
   CheckCircle,
   ChevronDown,
+  Trash2,
 } from 'lucide-react';
 import { useNotifications } from '../../contexts/NotificationContext';
+import { canAccessPage } from '../../lib/permissions';
+import { buildPath, navigate } from '../../lib/router';
 import { ThemePreference } from '../../lib/theme';
 import ChatWidget from '../Chat/ChatWidget';
+import FileImage from '../Files/FileImage';
+import GlobalSearch from './GlobalSearch';
 
 interface DashboardProps {
   children: ReactNode;
   currentPage: string;
-  onNavigate: (page: string) => void;
   themePreference: ThemePreference;
   onThemeChange: (theme: ThemePreference) => void;
 }
 
-export default function Dashboard({ children, currentPage, onNavigate, themePreference, onThemeChange }: DashboardProps) {
-  const { profile, signOut } = useAuth();
+export default function Dashboard({
+  children,
+  currentPage,
+  themePreference,
+  onThemeChange,
+}: DashboardProps) {
+  const { profile, signOut, can } = useAuth();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isDesktop, setIsDesktop] = useState(false);
   const [notificationsOpen, setNotificationsOpen] = useState(false);
   const [profileMenuOpen, setProfileMenuOpen] = useState(false);
   const notificationRef = useRef<HTMLDivElement | null>(null);
   const profileMenuRef = useRef<HTMLDivElement | null>(null);
-  const apiRoot = (import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api').replace(/\/api$/, '');
   const { notifications, unreadCount, markAllRead, dismissNotification } = useNotifications();
 
   const navigation = [
-    { name: 'Dashboard', icon: Home, page: 'dashboard', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'Suppliers', icon: Users, page: 'suppliers', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'Clients', icon: Building2, page: 'clients', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'Goods', icon: Package, page: 'goods', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'RFQ', icon: FileText, page: 'rfq', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'Quotations', icon: FileCheck, page: 'quotations', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'Sales Orders', icon: ShoppingCart, page: 'orders', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'Delivery Orders', icon: Truck, page: 'delivery-orders', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'Invoices', icon: Receipt, page: 'invoices', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'Profile', icon: UserCircle, page: 'profile', roles: ['superadmin', 'admin', 'manager', 'staff'] },
-    { name: 'User Management', icon: UserCog, page: 'users', roles: ['superadmin', 'admin', 'manager'] },
-    { name: 'Settings', icon: Settings, page: 'settings', roles: ['superadmin'] },
+    { name: 'Dashboard', icon: Home, page: 'dashboard' },
+    { name: 'Suppliers', icon: Users, page: 'suppliers' },
+    { name: 'Clients', icon: Building2, page: 'clients' },
+    { name: 'Goods', icon: Package, page: 'goods' },
+    { name: 'RFQ', icon: FileText, page: 'rfq' },
+    { name: 'Quotations', icon: FileCheck, page: 'quotations' },
+    { name: 'Sales Orders', icon: ShoppingCart, page: 'orders' },
+    { name: 'Delivery Orders', icon: Truck, page: 'delivery-orders' },
+    { name: 'Invoices', icon: Receipt, page: 'invoices' },
+    { name: 'Profile', icon: UserCircle, page: 'profile' },
+    { name: 'User Management', icon: UserCog, page: 'users' },
+    { name: 'Settings', icon: Settings, page: 'settings' },
+    { name: 'Recycle Bin', icon: Trash2, page: 'recycle-bin' },
   ];
 
-  const filteredNavigation = navigation.filter(item =>
-    profile?.role && item.roles.includes(profile.role)
-  );
+  const filteredNavigation = navigation.filter((item) => canAccessPage(item.page, can, profile?.role));
 
   useEffect(() => {
     setNotificationsOpen(false);
@@ -101,7 +108,7 @@ export default function Dashboard({ children, currentPage, onNavigate, themePref
   };
 
   const avatarContent = profile?.photo_url ? (
-    <img src={`${apiRoot}${profile.photo_url}`} alt="Avatar" className="h-full w-full object-cover" />
+    <FileImage url={profile.photo_url} alt="Avatar" className="h-full w-full object-cover" />
   ) : (
     profile?.full_name
       ?.split(' ')
@@ -183,7 +190,7 @@ export default function Dashboard({ children, currentPage, onNavigate, themePref
                 <button
                   key={item.page}
                   onClick={() => {
-                    onNavigate(item.page);
+                    navigate(buildPath(item.page));
                     setNotificationsOpen(false);
                     setProfileMenuOpen(false);
                   }}
@@ -216,7 +223,7 @@ export default function Dashboard({ children, currentPage, onNavigate, themePref
         }`}
       >
         <div className="p-6 lg:p-10">
-          <div className="mb-4 flex items-center justify-between">
+          <div className="mb-4 flex items-center justify-between gap-4">
             <button
               type="button"
               onClick={() => setSidebarOpen((prev) => !prev)}
@@ -225,6 +232,9 @@ export default function Dashboard({ children, currentPage, onNavigate, themePref
             >
               {sidebarOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
             </button>
+            <div className="flex flex-1 justify-center">
+              <GlobalSearch />
+            </div>
             <div className="flex items-center gap-3">
               <div className="relative" ref={notificationRef}>
                 <button
@@ -338,7 +348,7 @@ export default function Dashboard({ children, currentPage, onNavigate, themePref
                       <button
                         type="button"
                         onClick={() => {
-                          onNavigate('profile');
+                          navigate(buildPath('profile'));
                           setProfileMenuOpen(false);
                         }}
                         className="w-full px-4 py-3 text-left text-sm font-medium text-gray-700 hover:bg-gray-50 dark:text-slate-200 dark:hover:bg-slate-800"
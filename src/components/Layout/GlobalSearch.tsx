@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { searchRecords, SearchGroup, TableName } from '../../lib/api';
+import { getTablePage } from '../../lib/permissions';
+import { buildPath, navigate } from '../../lib/router';
+
+const MIN_TERM_LENGTH = 2;
+const SEARCH_DELAY_MS = 300;
+
+const GROUP_LABELS: Partial<Record<TableName, string>> = {
+  rfqs: 'RFQs',
+  quotations: 'Quotations',
+  sales_orders: 'Sales Orders',
+  delivery_orders: 'Delivery Orders',
+  invoices: 'Invoices',
+  clients: 'Clients',
+  suppliers: 'Suppliers',
+  goods: 'Goods',
+};
+
+export default function GlobalSearch() {
+  const [term, setTerm] = useState('');
+  const [groups, setGroups] = useState<SearchGroup[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const trimmedTerm = term.trim();
+
+  useEffect(() => {
+    if (trimmedTerm.length < MIN_TERM_LENGTH) {
+      setGroups([]);
+      setError('');
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        const results = await searchRecords(trimmedTerm);
+        if (cancelled) return;
+        setGroups(results);
+        setError('');
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Search failed', err);
+        setError('Search failed. Please try again.');
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [trimmedTerm]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleSelect = (type: TableName, id: number | string) => {
+    const page = getTablePage(type);
+    if (!page) return;
+    navigate(buildPath(page, id));
+    setOpen(false);
+  };
+
+  const showPanel = open && trimmedTerm.length >= MIN_TERM_LENGTH;
+
+  return (
+    <div className="relative w-full max-w-xl" ref={containerRef}>
+      <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+      <input
+        type="search"
+        value={term}
+        onChange={(event) => {
+          setTerm(event.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={(event) => {
+          if (event.key === 'Escape') setOpen(false);
+        }}
+        placeholder="Search RFQ, quotation, PO, invoice, client, supplier, or SKU..."
+        className="w-full rounded-full border border-gray-200 bg-white py-2 pl-9 pr-9 text-sm text-gray-700 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+        aria-label="Search all records"
+      />
+      {term && (
+        <button
+          type="button"
+          onClick={() => setTerm('')}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-slate-300"
+          aria-label="Clear search"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+      {showPanel && (
+        <div className="absolute left-0 right-0 z-30 mt-2 max-h-96 overflow-y-auto rounded-xl border border-gray-200 bg-white shadow-xl dark:border-slate-700 dark:bg-slate-900">
+          {searching && groups.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-gray-500 dark:text-slate-400">Searching...</div>
+          ) : error ? (
+            <div className="px-4 py-6 text-center text-sm text-red-600">{error}</div>
+          ) : groups.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-gray-500 dark:text-slate-400">
+              No records match "{trimmedTerm}".
+            </div>
+          ) : (
+            groups.map((group) => (
+              <div key={group.type} className="border-b border-gray-100 py-2 last:border-b-0 dark:border-slate-800">
+                <p className="px-4 pb-1 text-xs font-semibold uppercase text-gray-500 dark:text-slate-400">
+                  {GROUP_LABELS[group.type] || group.type}
+                </p>
+                {group.results.map((result) => (
+                  <button
+                    key={result.id}
+                    type="button"
+                    onClick={() => handleSelect(group.type, result.id)}
+                    className="w-full px-4 py-2 text-left hover:bg-gray-50 dark:hover:bg-slate-800"
+                  >
+                    <p className="text-sm font-medium text-gray-900 dark:text-slate-100">{result.title}</p>
+                    {result.subtitle && (
+                      <p className="text-xs text-gray-500 dark:text-slate-400">{result.subtitle}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
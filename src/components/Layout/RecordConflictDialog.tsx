@@ -0,0 +1,94 @@
+import { AlertTriangle } from 'lucide-react';
+
+export interface ConflictField {
+  label: string;
+  mine: string;
+  saved: string;
+}
+
+interface RecordConflictDialogProps {
+  recordName: string;
+  // Every field the form edits; only those that differ from the saved record are listed.
+  fields: ConflictField[];
+  saving?: boolean;
+  onOverwrite: () => void;
+  onUseSaved: () => void;
+  onCancel: () => void;
+}
+
+export default function RecordConflictDialog({
+  recordName,
+  fields,
+  saving = false,
+  onOverwrite,
+  onUseSaved,
+  onCancel,
+}: RecordConflictDialogProps) {
+  const differences = fields.filter((field) => field.mine !== field.saved);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto dark:bg-slate-900">
+        <div className="flex items-start gap-3 px-6 py-4 border-b border-gray-200 dark:border-slate-800">
+          <AlertTriangle className="h-6 w-6 text-amber-500 flex-shrink-0" />
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">This record changed while you were editing</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Someone else saved {recordName} after you opened it. Choose which version to keep.
+            </p>
+          </div>
+        </div>
+        <div className="p-6">
+          {differences.length === 0 ? (
+            <p className="text-sm text-gray-600">The edited fields match the saved record; other details changed.</p>
+          ) : (
+            <table className="w-full text-sm border border-gray-200 dark:border-slate-700">
+              <thead className="bg-gray-50 text-left text-gray-600 dark:bg-slate-800 dark:text-slate-300">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Field</th>
+                  <th className="px-3 py-2 font-medium">Your changes</th>
+                  <th className="px-3 py-2 font-medium">Saved version</th>
+                </tr>
+              </thead>
+              <tbody>
+                {differences.map((field) => (
+                  <tr key={field.label} className="border-t border-gray-200 align-top dark:border-slate-700">
+                    <td className="px-3 py-2 font-medium text-gray-700">{field.label}</td>
+                    <td className="px-3 py-2 text-gray-900 whitespace-pre-line">{field.mine || '-'}</td>
+                    <td className="px-3 py-2 text-gray-900 whitespace-pre-line">{field.saved || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="flex flex-wrap justify-end gap-2 px-6 py-4 border-t border-gray-200 dark:border-slate-800">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={saving}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+          >
+            Keep editing
+          </button>
+          <button
+            type="button"
+            onClick={onUseSaved}
+            disabled={saving}
+            className="px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-60"
+          >
+            Load saved version
+          </button>
+          <button
+            type="button"
+            onClick={onOverwrite}
+            disabled={saving}
+            className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-60"
+          >
+            {saving ? 'Saving...' : 'Overwrite with mine'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
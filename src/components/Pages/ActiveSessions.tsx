@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { LogOut, Monitor, Smartphone } from 'lucide-react';
+import { ActiveSession, getActiveSessions, revokeOtherSessions, revokeSession } from '../../lib/api';
+
+// Checked in order: Edge and Opera user agents also mention Chrome, and Chrome's mentions Safari.
+const BROWSERS: [token: string, name: string][] = [
+  ['Edg/', 'Edge'],
+  ['OPR/', 'Opera'],
+  ['Firefox/', 'Firefox'],
+  ['Chrome/', 'Chrome'],
+  ['Safari/', 'Safari'],
+];
+
+const PLATFORMS: [token: string, name: string][] = [
+  ['Android', 'Android'],
+  ['iPhone', 'iPhone'],
+  ['iPad', 'iPad'],
+  ['Windows', 'Windows'],
+  ['Mac OS X', 'macOS'],
+  ['Linux', 'Linux'],
+];
+
+const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([token]) => userAgent.includes(token))?.[1] || 'Browser';
+  const platform = PLATFORMS.find(([token]) => userAgent.includes(token))?.[1];
+  return platform ? `${browser} on ${platform}` : browser;
+};
+
+const isMobile = (userAgent: string | null) => Boolean(userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent));
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+export default function ActiveSessions() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await getActiveSessions());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load sessions', err);
+      setError('Unable to load active sessions.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setWorking(true);
+    setError(null);
+    try {
+      await action();
+      await loadSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div className="bg-white shadow-sm border border-gray-200 rounded-2xl p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Active Sessions</h2>
+          <p className="text-sm text-gray-600">Devices and browsers currently signed in to your account.</p>
+        </div>
+        {hasOtherSessions && (
+          <button
+            type="button"
+            onClick={() => run(revokeOtherSessions)}
+            disabled={working}
+            className="inline-flex items-center px-4 py-2 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out Other Sessions
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading sessions...</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {sessions.map((session) => {
+            const DeviceIcon = isMobile(session.user_agent) ? Smartphone : Monitor;
+            return (
+              <li key={session.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="flex items-start gap-3">
+                  <DeviceIcon className="h-5 w-5 text-gray-500 mt-0.5" />
+                  <div>
+                    <div className="text-sm font-semibold text-gray-900">
+                      {describeUserAgent(session.user_agent)}
+                      {session.current && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-800">
+                          This device
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {session.ip_address || 'Unknown IP'} · Signed in {formatDateTime(session.created_at)} · Last
+                      active {formatDateTime(session.last_seen_at || session.created_at)}
+                    </div>
+                  </div>
+                </div>
+                {!session.current && (
+                  <button
+                    type="button"
+                    onClick={() => run(() => revokeSession(session.id))}
+                    disabled={working}
+                    className="px-3 py-1.5 text-sm bg-red-50 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50"
+                  >
+                    Sign Out
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
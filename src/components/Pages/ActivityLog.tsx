@@ -1,7 +1,9 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useState } from 'react';
 import { Clock3, Filter } from 'lucide-react';
-import { getActivityLogs, ActivityLog as ActivityLogEntry } from '../../lib/api';
+import { ActivityLog as ActivityLogEntry } from '../../lib/api';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePagedRecords } from '../../lib/pagination';
+import Pagination from '../Layout/Pagination';
 
 interface ActivityLogProps {
   showHeader?: boolean;
@@ -9,9 +11,6 @@ interface ActivityLogProps {
 
 export default function ActivityLog({ showHeader = true }: ActivityLogProps) {
   const { profile } = useAuth();
-  const [logs, setLogs] = useState<ActivityLogEntry[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const formatDate = (date: Date) => {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -20,28 +19,20 @@ export default function ActivityLog({ showHeader = true }: ActivityLogProps) {
   };
   const [selectedDate, setSelectedDate] = useState(() => formatDate(new Date()));
 
-  const filteredLogs = useMemo(
-    () => logs.filter((log) => formatDate(new Date(log.created_at)) === selectedDate),
-    [logs, selectedDate],
-  );
-
-  useEffect(() => {
-    const loadLogs = async () => {
-      if (!profile?.id) return;
-      try {
-        setLoading(true);
-        const data = await getActivityLogs(profile.id);
-        setLogs(data);
-      } catch (err) {
-        console.error('Failed to load activity logs', err);
-        setError('Unable to load activity logs');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadLogs();
-  }, [profile?.id]);
+  const {
+    records: logs,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    loading,
+    error,
+    setPage,
+  } = usePagedRecords<ActivityLogEntry>('activity_logs', {
+    filters: { user_id: profile?.id },
+    dateFrom: selectedDate,
+    dateTo: selectedDate,
+  });
 
   return (
     <div>
@@ -72,12 +63,12 @@ export default function ActivityLog({ showHeader = true }: ActivityLogProps) {
         {loading ? (
           <div className="p-10 text-center text-gray-600">Loading activity...</div>
         ) : error ? (
-          <div className="p-6 text-center text-red-600">{error}</div>
-        ) : filteredLogs.length === 0 ? (
+          <div className="p-6 text-center text-red-600">Unable to load activity logs</div>
+        ) : logs.length === 0 ? (
           <div className="p-10 text-center text-gray-600">No activity recorded yet.</div>
         ) : (
           <ul className="divide-y divide-gray-100">
-            {filteredLogs.map((log) => (
+            {logs.map((log) => (
               <li key={log.id} className="p-4 flex items-start gap-3 hover:bg-gray-50 dark:hover:bg-slate-800/60">
                 <div className="mt-1 text-blue-600">
                   <Clock3 className="h-5 w-5" />
@@ -100,6 +91,7 @@ export default function ActivityLog({ showHeader = true }: ActivityLogProps) {
             ))}
           </ul>
         )}
+        <Pagination page={page} pageCount={pageCount} pageSize={pageSize} total={total} onPageChange={setPage} />
       </div>
     </div>
   );
@@ -1,7 +1,12 @@
-import { useEffect, useMemo, useState } from 'react';
-import { addRecord, getRecords, updateRecord } from '../../lib/api';
+import { useMemo, useState } from 'react';
+import { addRecord, RecordConflictError, updateRecord } from '../../lib/api';
 import { Eye, Plus, Search, Trash2, UserRound, Edit2 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePagedRecords } from '../../lib/pagination';
+import { useRouteRecord } from '../../lib/recordRoute';
+import { buildPath, navigate } from '../../lib/router';
+import Pagination from '../Layout/Pagination';
+import RecordConflictDialog from '../Layout/RecordConflictDialog';
 
 interface Client {
   id: string;
@@ -12,12 +17,12 @@ interface Client {
   tax_id?: string | null;
   ship_addresses?: string[] | string | null;
   status?: string | null;
+  version?: number;
   created_at: string;
 }
 
-type ClientFormData = Omit<Client, 'id' | 'created_at' | 'ship_addresses'> & {
+type ClientFormData = Omit<Client, 'id' | 'created_at' | 'ship_addresses' | 'version'> & {
   ship_addresses: string[];
-  performed_by?: string | number;
 };
 
 const EMPTY_FORM: ClientFormData = {
@@ -58,10 +63,19 @@ const parseShipAddresses = (value?: string[] | string | null) => {
   return [];
 };
 
-export default function Clients() {
-  const { profile } = useAuth();
-  const [clients, setClients] = useState<Client[]>([]);
-  const [loading, setLoading] = useState(true);
+const normalizeClient = (client: Client): Client => ({
+  ...client,
+  ship_addresses: parseShipAddresses(client.ship_addresses),
+  status: client.status || 'active',
+});
+
+interface ClientsProps {
+  recordId?: string | null;
+}
+
+export default function Clients({ recordId }: ClientsProps) {
+  const { can } = useAuth();
+  const canToggleStatus = can('clients', 'status');
   const [showModal, setShowModal] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
   const [detailClient, setDetailClient] = useState<Client | null>(null);
@@ -70,27 +84,32 @@ export default function Clients() {
   const [addressError, setAddressError] = useState('');
   const [formData, setFormData] = useState<ClientFormData>(EMPTY_FORM);
   const [sameAsAddress, setSameAsAddress] = useState(true);
+  // The saved client and the edit it rejected, while the user decides between them.
+  const [conflict, setConflict] = useState<{ current: Client; payload: ClientFormData } | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+  const {
+    records,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    loading,
+    setPage,
+    reload: fetchClients,
+  } = usePagedRecords<Client>('clients', { search: searchTerm });
+
+  const clients = useMemo(() => records.map(normalizeClient), [records]);
+  useRouteRecord<Client>(
+    'clients',
+    recordId,
+    detailClient?.id,
+    (client) => setDetailClient(normalizeClient(client)),
+    () => setDetailClient(null),
+  );
 
-  useEffect(() => {
-    fetchClients();
-  }, []);
-
-  const fetchClients = async () => {
-    try {
-      const data = await getRecords<Client>('clients');
-      const sorted = [...data]
-        .map((client) => ({
-          ...client,
-          ship_addresses: parseShipAddresses(client.ship_addresses),
-          status: client.status || 'active',
-        }))
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-      setClients(sorted);
-    } catch (error) {
-      console.error('Error fetching clients:', error);
-    } finally {
-      setLoading(false);
-    }
+  const openClientDetail = (client: Client) => {
+    setDetailClient(client);
+    navigate(buildPath('clients', client.id));
   };
 
   const openModal = (client?: Client) => {
@@ -145,6 +164,12 @@ export default function Clients() {
     }));
   };
 
+  // Updates `target` only while it is still at the version the form was loaded from; creates a client otherwise.
+  const saveClient = (payload: ClientFormData, target: Client | null) =>
+    target
+      ? updateRecord<Client>('clients', target.id, payload as Client, target.version)
+      : addRecord<Client>('clients', payload as Client);
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     setContactError('');
@@ -182,24 +207,50 @@ export default function Clients() {
       email: emailValue,
       phone: phoneValue,
       ship_addresses: shipAddresses.slice(0, MAX_SHIP_ADDRESSES),
-      performed_by: profile?.id,
     };
 
     try {
-      if (editingClient) {
-        await updateRecord<Client>('clients', editingClient.id, payload as Client);
-      } else {
-        await addRecord<Client>('clients', payload as Client);
+      await saveClient(payload, editingClient);
+      fetchClients();
+      closeModal();
+    } catch (error) {
+      if (error instanceof RecordConflictError) {
+        setConflict({ current: normalizeClient(error.current as Client), payload });
+        return;
       }
-      await fetchClients();
+      console.error('Error saving client:', error);
+    }
+  };
+
+  const overwriteConflict = async () => {
+    if (!conflict) return;
+    setResolvingConflict(true);
+    try {
+      await saveClient(conflict.payload, conflict.current);
+      setConflict(null);
+      fetchClients();
       closeModal();
     } catch (error) {
+      if (error instanceof RecordConflictError) {
+        setConflict({ ...conflict, current: normalizeClient(error.current as Client) });
+        return;
+      }
       console.error('Error saving client:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save client.');
+    } finally {
+      setResolvingConflict(false);
     }
   };
 
+  const loadSavedClient = () => {
+    if (!conflict) return;
+    openModal(conflict.current);
+    setConflict(null);
+    fetchClients();
+  };
+
   const handleToggleStatus = async (client: Client) => {
-    if (!profile || !['superadmin', 'manager'].includes(profile.role)) {
+    if (!canToggleStatus) {
       alert('Only managers can update client status.');
       return;
     }
@@ -213,8 +264,6 @@ export default function Clients() {
     try {
       await updateRecord<Client>('clients', client.id, {
         status: nextStatus,
-        performed_by: profile?.id,
-        performer_role: profile?.role,
       });
       fetchClients();
     } catch (error) {
@@ -223,15 +272,6 @@ export default function Clients() {
     }
   };
 
-  const filteredClients = useMemo(() => {
-    const query = searchTerm.toLowerCase();
-    return clients.filter((client) =>
-      client.company_name.toLowerCase().includes(query) ||
-      client.email.toLowerCase().includes(query) ||
-      client.phone.toLowerCase().includes(query)
-    );
-  }, [clients, searchTerm]);
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -293,7 +333,7 @@ export default function Clients() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredClients.length === 0 ? (
+              {clients.length === 0 ? (
                 <tr>
                   <td colSpan={6} className="px-6 py-12 text-center">
                     <UserRound className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -301,7 +341,7 @@ export default function Clients() {
                   </td>
                 </tr>
               ) : (
-                filteredClients.map((client) => {
+                clients.map((client) => {
                   const shipAddresses = parseShipAddresses(client.ship_addresses);
                   return (
                     <tr key={client.id} className="hover:bg-gray-50 dark:hover:bg-slate-800/60">
@@ -330,7 +370,7 @@ export default function Clients() {
                       </td>
                       <td className="px-6 py-4 text-right space-x-2">
                         <button
-                          onClick={() => setDetailClient(client)}
+                          onClick={() => openClientDetail(client)}
                           className="inline-flex items-center p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
                           aria-label="View client"
                         >
@@ -345,9 +385,9 @@ export default function Clients() {
                         </button>
                         <button
                           onClick={() => handleToggleStatus(client)}
-                          disabled={!profile || !['superadmin', 'manager'].includes(profile.role ?? '')}
+                          disabled={!canToggleStatus}
                           className={`inline-flex items-center p-2 rounded-full transition ${
-                            !profile || !['superadmin', 'manager'].includes(profile.role ?? '')
+                            !canToggleStatus
                               ? 'text-gray-300 cursor-not-allowed'
                               : client.status === 'blacklist'
                                 ? 'text-gray-600 hover:bg-gray-100'
@@ -375,6 +415,7 @@ export default function Clients() {
             </tbody>
           </table>
         </div>
+        <Pagination page={page} pageCount={pageCount} pageSize={pageSize} total={total} onPageChange={setPage} />
       </div>
 
       {showModal && (
@@ -558,6 +599,28 @@ export default function Clients() {
         </div>
       )}
 
+      {conflict && (
+        <RecordConflictDialog
+          recordName={conflict.current.company_name}
+          fields={[
+            { label: 'Company Name', mine: conflict.payload.company_name, saved: conflict.current.company_name },
+            { label: 'Address', mine: conflict.payload.address, saved: conflict.current.address },
+            { label: 'Phone', mine: conflict.payload.phone, saved: conflict.current.phone },
+            { label: 'Email', mine: conflict.payload.email, saved: conflict.current.email },
+            { label: 'Tax ID', mine: conflict.payload.tax_id || '', saved: conflict.current.tax_id || '' },
+            {
+              label: 'Shipping Addresses',
+              mine: conflict.payload.ship_addresses.join('\n'),
+              saved: parseShipAddresses(conflict.current.ship_addresses).join('\n'),
+            },
+          ]}
+          saving={resolvingConflict}
+          onOverwrite={overwriteConflict}
+          onUseSaved={loadSavedClient}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       {detailClient && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
           <div className="bg-white rounded-xl shadow-lg w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto">
@@ -567,7 +630,7 @@ export default function Clients() {
                 <h2 className="text-xl font-bold text-gray-900">{detailClient.company_name}</h2>
               </div>
               <button
-                onClick={() => setDetailClient(null)}
+                onClick={() => navigate(buildPath('clients'))}
                 className="p-2 rounded-full hover:bg-gray-100 transition"
                 aria-label="Close client details"
               >
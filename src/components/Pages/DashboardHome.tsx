@@ -1,18 +1,9 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { Users, Package, FileText, Receipt, TrendingUp, ArrowUpRight, BarChart3, LineChart } from 'lucide-react';
-import { getRecords } from '../../lib/api';
+import { countRecords, getRecordPage, getRecords } from '../../lib/api';
 import { formatRupiah } from '../../lib/format';
-
-interface Supplier {
-  id: string | number;
-  status?: string | null;
-}
-
-interface Good {
-  id: string | number;
-  status?: string | null;
-}
+import { buildPath, navigate } from '../../lib/router';
 
 interface RFQ {
   id: string | number;
@@ -58,40 +49,67 @@ export default function DashboardHome() {
     { invoice: string; company: string; status: string; amount: string }[]
   >([]);
 
-  const handleQuickAction = (page: string) => {
-    if (typeof window === 'undefined') return;
-    window.dispatchEvent(new CustomEvent('app:navigate', { detail: page }));
-  };
+  const handleQuickAction = (page: string) => navigate(buildPath(page));
 
   useEffect(() => {
     let isMounted = true;
     const getDayKey = (date: Date) => date.toISOString().split('T')[0];
     const fetchDashboardData = async () => {
       try {
-        const [suppliers, goods, rfqs, quotations, invoices] = await Promise.all([
-          getRecords<Supplier>('suppliers'),
-          getRecords<Good>('goods'),
-          getRecords<RFQ>('rfqs'),
-          getRecords<Quotation>('quotations'),
-          getRecords<Invoice>('invoices'),
-        ]);
-        if (!isMounted) return;
-
-        setSuppliersCount(suppliers.length);
-        setGoodsCount(goods.length);
-        setActiveRfqsCount(
-          rfqs.filter((rfq) => ['draft', 'process'].includes(rfq.status)).length
-        );
-        setPendingInvoicesCount(
-          invoices.filter((invoice) => invoice.status !== 'paid').length
-        );
-
         const today = new Date();
         const lastSevenDays = Array.from({ length: 7 }, (_, index) => {
           const date = new Date(today);
           date.setDate(today.getDate() - (6 - index));
           return getDayKey(date);
         });
+        const lastSixWeeks = Array.from({ length: 6 }, (_, index) => {
+          const start = new Date(today);
+          start.setDate(today.getDate() - (5 - index) * 7);
+          return getDayKey(start);
+        });
+        const quotationStatuses = ['waiting', 'negotiation', 'process', 'success'];
+
+        // Counts come from the list totals; rows are only fetched for the charts and the open invoices.
+        const [
+          suppliersTotal,
+          goodsTotal,
+          activeRfqsTotal,
+          invoicesTotal,
+          paidInvoicesTotal,
+          quotationStatusTotals,
+          rfqs,
+          quotations,
+          awaiting,
+          overdue,
+          paidToday,
+          latestInvoices,
+        ] = await Promise.all([
+          countRecords('suppliers'),
+          countRecords('goods'),
+          countRecords('rfqs', { filters: { status: ['draft', 'process'] } }),
+          countRecords('invoices'),
+          countRecords('invoices', { filters: { status: 'paid' } }),
+          Promise.all(
+            quotationStatuses.map((status) => countRecords('quotations', { filters: { status } }))
+          ),
+          getRecords<RFQ>('rfqs', { dateFrom: lastSevenDays[0] }),
+          getRecords<Quotation>('quotations', { dateFrom: lastSixWeeks[0] }),
+          getRecords<Invoice>('invoices', { filters: { status: 'waiting payment' } }),
+          getRecords<Invoice>('invoices', { filters: { status: 'overdue' } }),
+          getRecords<Invoice>('invoices', {
+            filters: { status: 'paid' },
+            dateFrom: getDayKey(today),
+            dateTo: getDayKey(today),
+          }),
+          getRecordPage<Invoice>('invoices', { page: 1, limit: 6 }),
+        ]);
+        if (!isMounted) return;
+
+        setSuppliersCount(suppliersTotal);
+        setGoodsCount(goodsTotal);
+        setActiveRfqsCount(activeRfqsTotal);
+        setPendingInvoicesCount(invoicesTotal - paidInvoicesTotal);
+
         const rfqByDay = rfqs.reduce<Record<string, number>>((acc, rfq) => {
           const key = getDayKey(new Date(rfq.created_at));
           acc[key] = (acc[key] || 0) + 1;
@@ -99,11 +117,6 @@ export default function DashboardHome() {
         }, {});
         setRfqTrend(lastSevenDays.map((day) => rfqByDay[day] || 0));
 
-        const lastSixWeeks = Array.from({ length: 6 }, (_, index) => {
-          const start = new Date(today);
-          start.setDate(today.getDate() - (5 - index) * 7);
-          return getDayKey(start);
-        });
         const conversionByWeek = lastSixWeeks.map((weekStart) => {
           const weekStartDate = new Date(weekStart);
           const weekEnd = new Date(weekStartDate);
@@ -115,25 +128,14 @@ export default function DashboardHome() {
         });
         setQuotationConversion(conversionByWeek);
 
-        const statusCounts = quotations.reduce<Record<string, number>>((acc, quotation) => {
-          const status = quotation.status || 'waiting';
-          acc[status] = (acc[status] || 0) + 1;
-          return acc;
-        }, {});
+        const [waitingTotal, negotiationTotal, processTotal, successTotal] = quotationStatusTotals;
         setPipelineStages([
-          { label: 'Waiting', value: statusCounts.waiting || 0, color: 'bg-amber-400' },
-          { label: 'Negotiation', value: statusCounts.negotiation || 0, color: 'bg-blue-500' },
-          { label: 'Process', value: statusCounts.process || 0, color: 'bg-emerald-500' },
-          { label: 'Success', value: statusCounts.success || 0, color: 'bg-emerald-600' },
+          { label: 'Waiting', value: waitingTotal, color: 'bg-amber-400' },
+          { label: 'Negotiation', value: negotiationTotal, color: 'bg-blue-500' },
+          { label: 'Process', value: processTotal, color: 'bg-emerald-500' },
+          { label: 'Success', value: successTotal, color: 'bg-emerald-600' },
         ]);
 
-        const awaiting = invoices.filter((invoice) => invoice.status === 'waiting payment');
-        const overdue = invoices.filter((invoice) => invoice.status === 'overdue');
-        const paidToday = invoices.filter((invoice) => {
-          if (invoice.status !== 'paid') return false;
-          return getDayKey(new Date(invoice.created_at)) === getDayKey(today);
-        });
-
         const sumAmount = (items: Invoice[]) =>
           items.reduce((sum, invoice) => sum + (Number(invoice.grand_total) || 0), 0);
 
@@ -155,11 +157,8 @@ export default function DashboardHome() {
           },
         ]);
 
-        const sortedInvoices = [...invoices].sort(
-          (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        );
         setRecentInvoices(
-          sortedInvoices.slice(0, 6).map((invoice) => ({
+          latestInvoices.data.map((invoice) => ({
             invoice: invoice.invoice_number,
             company: invoice.company_name || '-',
             status: invoice.status,
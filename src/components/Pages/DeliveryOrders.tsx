@@ -1,9 +1,15 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Eye, Pencil, Plus, Search, Truck, X } from 'lucide-react';
-import { addRecord, getRecords, updateRecord } from '../../lib/api';
-import { useAuth } from '../../contexts/AuthContext';
+import { addRecord, getRecord, getRecords, updateRecord } from '../../lib/api';
+import { usePagedRecords } from '../../lib/pagination';
+import { useRouteRecord } from '../../lib/recordRoute';
+import { buildPath, navigate } from '../../lib/router';
+import DocumentPdfButtons from '../Files/DocumentPdfButtons';
+import Pagination from '../Layout/Pagination';
 
 interface DeliveryGood {
+  id?: string;
+  sales_order_item_id?: string | null;
   good_id?: string;
   name?: string;
   description?: string;
@@ -26,11 +32,13 @@ interface DeliveryOrder {
 }
 
 interface SalesOrderGood {
+  id: string;
   good_id?: string;
   name?: string;
   description?: string;
   unit?: string;
   qty: number;
+  shipped_qty?: number;
 }
 
 interface SalesOrder {
@@ -62,36 +70,48 @@ const EMPTY_FORM = {
   ship_address: '',
 };
 
-export default function DeliveryOrders() {
-  const { profile } = useAuth();
-  const [deliveries, setDeliveries] = useState<DeliveryOrder[]>([]);
+const parseGoods = (goods?: SalesOrderGood[] | DeliveryGood[] | string | null) => {
+  if (!goods) return [];
+  if (Array.isArray(goods)) return goods;
+  if (typeof goods === 'string') {
+    try {
+      return JSON.parse(goods);
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+const toDisplayDelivery = (delivery: DeliveryOrder) => ({
+  ...delivery,
+  goods: parseGoods(delivery.goods),
+});
+
+interface DeliveryOrdersProps {
+  recordId?: string | null;
+}
+
+export default function DeliveryOrders({ recordId }: DeliveryOrdersProps) {
   const [salesOrders, setSalesOrders] = useState<SalesOrder[]>([]);
   const [clients, setClients] = useState<ClientOption[]>([]);
   const [goodsRows, setGoodsRows] = useState<DeliveryGood[]>([]);
   const [usersById, setUsersById] = useState<Record<string, string>>({});
-  const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [detailDelivery, setDetailDelivery] = useState<DeliveryOrder | null>(null);
   const [editingDelivery, setEditingDelivery] = useState<DeliveryOrder | null>(null);
   const [formData, setFormData] = useState(EMPTY_FORM);
   const [searchTerm, setSearchTerm] = useState('');
-
-  useEffect(() => {
-    fetchData();
-  }, []);
-
-  const parseGoods = (goods?: SalesOrderGood[] | DeliveryGood[] | string | null) => {
-    if (!goods) return [];
-    if (Array.isArray(goods)) return goods;
-    if (typeof goods === 'string') {
-      try {
-        return JSON.parse(goods);
-      } catch {
-        return [];
-      }
-    }
-    return [];
-  };
+  const {
+    records: deliveryRecords,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    loading,
+    setPage,
+    reload: reloadDeliveries,
+  } = usePagedRecords<DeliveryOrder>('delivery_orders', { search: searchTerm });
 
   const parseShipAddresses = (value?: string[] | string | null) => {
     if (!value) return [];
@@ -118,10 +138,9 @@ export default function DeliveryOrders() {
     return `${year}-${month}-${day}`;
   };
 
-  const fetchData = async () => {
+  const fetchLookups = useCallback(async () => {
     try {
-      const [deliveryData, orderData, userData, clientData] = await Promise.all([
-        getRecords<DeliveryOrder>('delivery_orders'),
+      const [orderData, userData, clientData] = await Promise.all([
         getRecords<SalesOrder>('sales_orders'),
         getRecords<{ id: string; full_name?: string; email?: string }>('users'),
         getRecords<ClientOption>('clients'),
@@ -133,62 +152,35 @@ export default function DeliveryOrders() {
         return acc;
       }, {});
 
-      const mappedDeliveries = deliveryData
-        .map((delivery) => ({
-          ...delivery,
-          goods: parseGoods(delivery.goods),
-        }))
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-
       const mappedOrders = orderData.map((order) => ({
         ...order,
         goods: parseGoods(order.goods),
       }));
 
-      setDeliveries(mappedDeliveries);
       setSalesOrders(mappedOrders);
       setUsersById(userMap);
       setClients(clientData);
     } catch (error) {
       console.error('Error fetching delivery orders:', error);
-    } finally {
-      setLoading(false);
     }
-  };
+  }, []);
 
-  const getNextDeliveryNumber = () => {
-    const year = new Date().getFullYear();
-    const romanMonths = [
-      'I',
-      'II',
-      'III',
-      'IV',
-      'V',
-      'VI',
-      'VII',
-      'VIII',
-      'IX',
-      'X',
-      'XI',
-      'XII',
-    ];
-    const romanMonth = romanMonths[new Date().getMonth()];
-    const maxSequence = deliveries.reduce((max, delivery) => {
-      const match = delivery.delivery_number?.match(/^(\d{4})\/RGI\/DO\/[IVXLCDM]+\/(\d{4})$/);
-      if (!match || Number(match[2]) !== year) return max;
-      const sequence = Number(match[1]);
-      return Number.isNaN(sequence) ? max : Math.max(max, sequence);
-    }, 0);
-    const nextSequence = String(maxSequence + 1).padStart(4, '0');
-    return `${nextSequence}/RGI/DO/${romanMonth}/${year}`;
-  };
+  useEffect(() => {
+    fetchLookups();
+  }, [fetchLookups]);
+
+  const deliveries = useMemo(() => deliveryRecords.map(toDisplayDelivery), [deliveryRecords]);
+  useRouteRecord<DeliveryOrder>(
+    'delivery_orders',
+    recordId,
+    detailDelivery?.id,
+    (delivery) => setDetailDelivery(toDisplayDelivery(delivery)),
+    () => setDetailDelivery(null)
+  );
 
   const openCreateModal = () => {
     setEditingDelivery(null);
-    setFormData({
-      ...EMPTY_FORM,
-      delivery_number: getNextDeliveryNumber(),
-    });
+    setFormData(EMPTY_FORM);
     setGoodsRows([]);
     setShowModal(true);
   };
@@ -200,21 +192,13 @@ export default function DeliveryOrders() {
     setGoodsRows([]);
   };
 
-  const buildShippedMap = (orderId: string, excludeDeliveryId?: string) => {
-    const shippedMap: Record<string, number> = {};
-    deliveries
-      .filter((delivery) => String(delivery.sales_order_id) === String(orderId))
-      .filter((delivery) => (excludeDeliveryId ? String(delivery.id) !== String(excludeDeliveryId) : true))
-      .forEach((delivery) => {
-        parseGoods(delivery.goods).forEach((item) => {
-          const key = item.good_id ? `id:${item.good_id}` : `name:${item.name}`;
-          shippedMap[key] = (shippedMap[key] || 0) + (Number(item.qty) || 0);
-        });
-      });
-    return shippedMap;
+  // Fetched again rather than taken from the list so shipped quantities include deliveries made since.
+  const fetchOrderGoods = async (orderId: string) => {
+    const order = await getRecord<SalesOrder>('sales_orders', orderId);
+    return parseGoods(order.goods) as SalesOrderGood[];
   };
 
-  const handleSalesOrderChange = (salesOrderId: string) => {
+  const handleSalesOrderChange = async (salesOrderId: string) => {
     const order = salesOrders.find((item) => String(item.id) === String(salesOrderId));
     const client = clients.find((item) => String(item.id) === String(order?.client_id));
     const clientShipAddresses = client ? parseShipAddresses(client.ship_addresses) : [];
@@ -224,18 +208,25 @@ export default function DeliveryOrders() {
         : client?.address
           ? [client.address]
           : [];
-    const shippedMap = salesOrderId ? buildShippedMap(salesOrderId) : {};
-    const remainingGoods = parseGoods(order?.goods).map((item) => {
-      const key = item.good_id ? `id:${item.good_id}` : `name:${item.name}`;
-      const orderedQty = Number(item.qty) || 0;
-      const shippedQty = shippedMap[key] || 0;
-      const remaining = Math.max(orderedQty - shippedQty, 0);
-      return {
-        ...item,
-        remaining_qty: remaining,
-        qty: '',
-      };
-    });
+    let orderGoods: SalesOrderGood[] = [];
+    if (salesOrderId) {
+      try {
+        orderGoods = await fetchOrderGoods(salesOrderId);
+      } catch (error) {
+        console.error('Error fetching sales order:', error);
+        alert('Failed to load shipped quantities. Please try again.');
+        return;
+      }
+    }
+    const remainingGoods: DeliveryGood[] = orderGoods.map((item) => ({
+      sales_order_item_id: item.id,
+      good_id: item.good_id,
+      name: item.name,
+      description: item.description,
+      unit: item.unit,
+      remaining_qty: Math.max((Number(item.qty) || 0) - (Number(item.shipped_qty) || 0), 0),
+      qty: '',
+    }));
     const filteredRemaining = remainingGoods.filter((item) => (item.remaining_qty ?? 0) > 0);
 
     setFormData((prev) => ({
@@ -279,10 +270,8 @@ export default function DeliveryOrders() {
     const payloadGoods = goodsRows
       .filter((row) => Number(row.qty) > 0)
       .map((row) => ({
-        good_id: row.good_id,
-        name: row.name,
-        description: row.description,
-        unit: row.unit,
+        id: row.id,
+        sales_order_item_id: row.sales_order_item_id,
         qty: Number(row.qty) || 0,
       }));
 
@@ -307,24 +296,21 @@ export default function DeliveryOrders() {
           delivery_date: formData.delivery_date,
           goods: payloadGoods,
           ship_address: formData.ship_address,
-          performed_by: profile?.id,
         } as DeliveryOrder);
       } else {
         await addRecord<DeliveryOrder>('delivery_orders', {
-          delivery_number: formData.delivery_number,
           delivery_date: formData.delivery_date,
           sales_order_id: formData.sales_order_id,
           client_id: formData.client_id,
           company_name: formData.company_name,
           ship_address: formData.ship_address,
           goods: payloadGoods,
-          created_by: profile?.id,
         });
       }
       setShowModal(false);
       setFormData(EMPTY_FORM);
       setEditingDelivery(null);
-      await fetchData();
+      reloadDeliveries();
     } catch (error) {
       console.error('Failed to save delivery order', error);
       alert('Failed to save delivery order. Please try again.');
@@ -333,6 +319,7 @@ export default function DeliveryOrders() {
 
   const openDetail = (delivery: DeliveryOrder) => {
     setDetailDelivery(delivery);
+    navigate(buildPath('delivery-orders', delivery.id));
   };
 
   const orderMap = useMemo(
@@ -346,7 +333,7 @@ export default function DeliveryOrders() {
     return !['waiting payment', 'done'].includes(order.status);
   };
 
-  const openEditModal = (delivery: DeliveryOrder) => {
+  const openEditModal = async (delivery: DeliveryOrder) => {
     if (!canEditDelivery(delivery)) {
       alert('Delivery order cannot be edited once the sales order is approved or done.');
       return;
@@ -360,22 +347,24 @@ export default function DeliveryOrders() {
         : client?.address
           ? [client.address]
           : [];
-    const shippedMap = buildShippedMap(delivery.sales_order_id, delivery.id);
-    const orderGoods = parseGoods(order?.goods) as SalesOrderGood[];
-    const orderedMap = orderGoods.reduce<Record<string, number>>((acc, item) => {
-      const key = item.good_id ? `id:${item.good_id}` : `name:${item.name}`;
-      acc[key] = (acc[key] || 0) + (Number(item.qty) || 0);
-      return acc;
-    }, {});
-    const maxMap = Object.keys(orderedMap).reduce<Record<string, number>>((acc, key) => {
-      acc[key] = Math.max((orderedMap[key] || 0) - (shippedMap[key] || 0), 0);
-      return acc;
-    }, {});
-    const deliveryGoods = parseGoods(delivery.goods).map((row) => {
-      const key = row.good_id ? `id:${row.good_id}` : `name:${row.name}`;
+    let orderGoods: SalesOrderGood[];
+    try {
+      orderGoods = await fetchOrderGoods(delivery.sales_order_id);
+    } catch (error) {
+      console.error('Error fetching sales order:', error);
+      alert('Failed to load shipped quantities. Please try again.');
+      return;
+    }
+    const orderLines = new Map(orderGoods.map((item) => [String(item.id), item]));
+    // What this delivery already ships stays available to it while editing.
+    const deliveryGoods = (parseGoods(delivery.goods) as DeliveryGood[]).map((row) => {
+      const line = orderLines.get(String(row.sales_order_item_id));
+      const remaining = line
+        ? Math.max((Number(line.qty) || 0) - (Number(line.shipped_qty) || 0), 0) + (Number(row.qty) || 0)
+        : 0;
       return {
         ...row,
-        remaining_qty: maxMap[key] ?? 0,
+        remaining_qty: remaining,
         qty: row.qty ?? '',
       };
     });
@@ -397,21 +386,6 @@ export default function DeliveryOrders() {
     (order) => order.status === 'ongoing' || order.status === 'on-delivery'
   );
 
-  const filteredDeliveries = useMemo(() => {
-    const query = searchTerm.trim().toLowerCase();
-    if (!query) return deliveries;
-    return deliveries.filter((delivery) => {
-      const order = orderMap.get(String(delivery.sales_order_id));
-      return (
-        delivery.delivery_number?.toLowerCase().includes(query) ||
-        delivery.company_name?.toLowerCase().includes(query) ||
-        order?.order_number?.toLowerCase().includes(query) ||
-        order?.po_number?.toLowerCase().includes(query) ||
-        usersById[String(delivery.created_by)]?.toLowerCase().includes(query)
-      );
-    });
-  }, [deliveries, orderMap, searchTerm, usersById]);
-
   const selectedOrder = salesOrders.find((order) => String(order.id) === String(formData.sales_order_id));
   const selectedClient = clients.find((client) => String(client.id) === String(formData.client_id));
   const shipAddresses = selectedClient ? parseShipAddresses(selectedClient.ship_addresses) : [];
@@ -447,7 +421,7 @@ export default function DeliveryOrders() {
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
         <input
           type="text"
-          placeholder="Search delivery orders by number, sales order, company, or creator..."
+          placeholder="Search delivery orders by number, company, or ship address..."
           value={searchTerm}
           onChange={(event) => setSearchTerm(event.target.value)}
           className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -480,7 +454,7 @@ export default function DeliveryOrders() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredDeliveries.length === 0 ? (
+              {deliveries.length === 0 ? (
                 <tr>
                   <td colSpan={6} className="px-6 py-12 text-center">
                     <Truck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -488,7 +462,7 @@ export default function DeliveryOrders() {
                   </td>
                 </tr>
               ) : (
-                filteredDeliveries.map((delivery) => {
+                deliveries.map((delivery) => {
                   const order = orderMap.get(String(delivery.sales_order_id));
                   return (
                     <tr key={delivery.id} className="hover:bg-gray-50 dark:hover:bg-slate-800/60">
@@ -535,6 +509,7 @@ export default function DeliveryOrders() {
             </tbody>
           </table>
         </div>
+        <Pagination page={page} pageCount={pageCount} pageSize={pageSize} total={total} onPageChange={setPage} />
       </div>
 
       {showModal && (
@@ -565,6 +540,7 @@ export default function DeliveryOrders() {
                   <input
                     type="text"
                     value={formData.delivery_number}
+                    placeholder="Assigned when saved"
                     readOnly
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-gray-50"
                   />
@@ -730,13 +706,21 @@ export default function DeliveryOrders() {
                 <p className="text-sm text-gray-500 font-semibold uppercase">Delivery Order Details</p>
                 <h2 className="text-xl font-bold text-gray-900">{detailDelivery.delivery_number}</h2>
               </div>
-              <button
-                onClick={() => setDetailDelivery(null)}
-                className="p-2 rounded-full hover:bg-gray-100 transition"
-                aria-label="Close delivery order details"
-              >
-                <X className="h-5 w-5 text-gray-600" />
-              </button>
+              <div className="flex items-center gap-3">
+                <DocumentPdfButtons
+                  table="delivery_orders"
+                  id={detailDelivery.id}
+                  label="Delivery-Note"
+                  number={detailDelivery.delivery_number || detailDelivery.id}
+                />
+                <button
+                  onClick={() => navigate(buildPath('delivery-orders'))}
+                  className="p-2 rounded-full hover:bg-gray-100 transition"
+                  aria-label="Close delivery order details"
+                >
+                  <X className="h-5 w-5 text-gray-600" />
+                </button>
+              </div>
             </div>
             <div className="p-6 space-y-6 text-sm">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -2,6 +2,10 @@ import { useState, useEffect, FormEvent } from 'react';
 import { addRecord, getRecord, getRecords, updateRecord } from '../../lib/api';
 import { Plus, Edit2, Search, Package, Eye } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePagedRecords } from '../../lib/pagination';
+import { useRouteRecord } from '../../lib/recordRoute';
+import { buildPath, navigate } from '../../lib/router';
+import Pagination from '../Layout/Pagination';
 
 interface Good {
   id: string;
@@ -21,7 +25,6 @@ type GoodFormData = Omit<
   Good,
   'id' | 'created_at' | 'suppliers' | 'price' | 'minimum_order_quantity'
 > & {
-  performed_by?: string | number;
   suppliers?: (string | number)[];
   category: Good['category'] | '';
   unit: string | '';
@@ -29,13 +32,25 @@ type GoodFormData = Omit<
   minimum_order_quantity: number | '';
 };
 
-export default function Goods() {
-  const [goods, setGoods] = useState<Good[]>([]);
+interface GoodsProps {
+  recordId?: string | null;
+}
+
+export default function Goods({ recordId }: GoodsProps) {
   const [suppliers, setSuppliers] = useState<{ id: string; name: string; status?: string | null }[]>([]);
-  const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingGood, setEditingGood] = useState<Good | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const {
+    records: goods,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    loading,
+    setPage,
+    reload: fetchGoods,
+  } = usePagedRecords<Good>('goods', { search: searchTerm });
   const [formData, setFormData] = useState<GoodFormData>({
     sku: '',
     name: '',
@@ -48,11 +63,12 @@ export default function Goods() {
   });
   const [detailGood, setDetailGood] = useState<Good | null>(null);
   const [detailLoading, setDetailLoading] = useState(false);
+  useRouteRecord<Good>('goods', recordId, detailGood?.id, setDetailGood, () => setDetailGood(null));
   const [selectedSuppliers, setSelectedSuppliers] = useState<string[]>([]);
   const [supplierSearch, setSupplierSearch] = useState('');
-  const { profile } = useAuth();
+  const { can } = useAuth();
 
-  const canToggleStatus = ['admin', 'manager', 'superadmin'].includes(profile?.role ?? '');
+  const canToggleStatus = can('goods', 'status');
 
   const categories: Good['category'][] = ['consumable', 'instrument', 'electrical', 'piping', 'other'];
   const getCategoryBadge = (category: Good['category']) => {
@@ -67,12 +83,12 @@ export default function Goods() {
   };
 
   useEffect(() => {
-    fetchGoods();
     fetchSuppliers();
   }, []);
 
-  const generateSku = (category: Good['category']) => {
-    const matchingGoods = goods.filter((item) => item.category === category && item.sku);
+  const generateSku = async (category: Good['category']) => {
+    const categoryGoods = await getRecords<Good>('goods', { filters: { category } });
+    const matchingGoods = categoryGoods.filter((item) => item.sku);
     const highestSequence = matchingGoods.reduce((max, item) => {
       const match = item.sku.match(/rgi-[^-]+-(\d{4})/i);
       if (!match) return max;
@@ -95,20 +111,6 @@ export default function Goods() {
     status: 'active',
   });
 
-  const fetchGoods = async () => {
-    try {
-      const data = await getRecords<Good>('goods');
-      const sorted = [...data].sort((a, b) =>
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
-      setGoods(sorted.map((item) => ({ ...item })));
-    } catch (error) {
-      console.error('Error fetching goods:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const fetchSuppliers = async () => {
     try {
       const data = await getRecords<{ id: string; name: string; status?: string | null }>('suppliers');
@@ -130,7 +132,6 @@ export default function Goods() {
         price: Number(formData.price),
         minimum_order_quantity:
           formData.minimum_order_quantity === '' ? 1 : Number(formData.minimum_order_quantity),
-        performed_by: profile?.id,
         suppliers: selectedSuppliers,
       };
 
@@ -140,7 +141,7 @@ export default function Goods() {
         await addRecord<Good>('goods', payload as Good);
       }
 
-      await fetchGoods();
+      fetchGoods();
       closeModal();
     } catch (error) {
       console.error('Error saving good:', error);
@@ -150,6 +151,7 @@ export default function Goods() {
   const openDetails = async (good: Good) => {
     setDetailLoading(true);
     setDetailGood(good);
+    navigate(buildPath('goods', good.id));
 
     try {
       const detailedGood = await getRecord<Good>('goods', good.id);
@@ -189,15 +191,18 @@ export default function Goods() {
     setSelectedSuppliers([]);
   };
 
-  const handleCategoryChange = (category: Good['category'] | '') => {
+  const handleCategoryChange = async (category: Good['category'] | '') => {
     if (editingGood) {
       setFormData({ ...formData, category });
-    } else {
-      setFormData((prev) => ({
-        ...prev,
-        category,
-        sku: category ? generateSku(category) : '',
-      }));
+      return;
+    }
+    setFormData((prev) => ({ ...prev, category, sku: '' }));
+    if (!category) return;
+    try {
+      const sku = await generateSku(category);
+      setFormData((prev) => (prev.category === category ? { ...prev, sku } : prev));
+    } catch (error) {
+      console.error('Error generating SKU:', error);
     }
   };
 
@@ -216,7 +221,6 @@ export default function Goods() {
     try {
       await updateRecord<Good>('goods', good.id, {
         status: nextStatus,
-        performed_by: profile?.id,
       });
       fetchGoods();
     } catch (error) {
@@ -225,18 +229,6 @@ export default function Goods() {
     }
   };
 
-  const filteredGoods = goods.filter((good) => {
-    const query = searchTerm.trim().toLowerCase();
-    if (!query) return true;
-    return (
-      good.name.toLowerCase().includes(query) ||
-      good.sku.toLowerCase().includes(query) ||
-      good.category.toLowerCase().includes(query) ||
-      good.description.toLowerCase().includes(query) ||
-      good.unit.toLowerCase().includes(query)
-    );
-  });
-
   const activeSuppliers = suppliers.filter((supplier) => (supplier.status || 'active') === 'active');
   const filteredSuppliers = activeSuppliers.filter((supplier) =>
     supplier.name.toLowerCase().includes(supplierSearch.toLowerCase())
@@ -308,14 +300,14 @@ export default function Goods() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200 dark:bg-slate-900 dark:divide-slate-800">
-              {filteredGoods.length === 0 ? (
+              {goods.length === 0 ? (
                 <tr>
                   <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
                     No goods found. Add your first product to get started.
                   </td>
                 </tr>
               ) : (
-                filteredGoods.map((good) => (
+                goods.map((good) => (
                   <tr key={good.id} className="hover:bg-gray-50 dark:hover:bg-slate-800/60">
                     <td className="px-6 py-4">
                       <div className="flex items-center">
@@ -404,6 +396,7 @@ export default function Goods() {
             </tbody>
           </table>
         </div>
+        <Pagination page={page} pageCount={pageCount} pageSize={pageSize} total={total} onPageChange={setPage} />
       </div>
 
       {showModal && (
@@ -662,7 +655,7 @@ export default function Goods() {
                 <p className="text-sm text-gray-600">{`SKU ${detailGood.sku}`}</p>
               </div>
               <button
-                onClick={() => setDetailGood(null)}
+                onClick={() => navigate(buildPath('goods'))}
                 className="text-gray-500 hover:text-gray-700"
                 aria-label="Close details"
               >
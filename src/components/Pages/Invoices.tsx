@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'react';
 import { getRecords, updateRecord } from '../../lib/api';
 import { CheckCircle, Edit2, Eye, Receipt, X } from 'lucide-react';
-import { useAuth } from '../../contexts/AuthContext';
 import { useNotifications } from '../../contexts/NotificationContext';
+import { usePagedRecords } from '../../lib/pagination';
+import { useRouteRecord } from '../../lib/recordRoute';
+import { buildPath, navigate } from '../../lib/router';
+import DocumentPdfButtons from '../Files/DocumentPdfButtons';
+import SendToClientButton from '../Files/SendToClientButton';
+import Pagination from '../Layout/Pagination';
 
 interface InvoiceGood {
   no: number;
@@ -61,14 +66,28 @@ const parseShipAddresses = (value?: string[] | string | null) => {
 const formatRupiah = (value: number) =>
   new Intl.NumberFormat('id-ID', { maximumFractionDigits: 0 }).format(value || 0);
 
-export default function Invoices() {
-  const { profile } = useAuth();
+interface InvoicesProps {
+  recordId?: string | null;
+}
+
+export default function Invoices({ recordId }: InvoicesProps) {
   const { suppressNotification } = useNotifications();
-  const [invoices, setInvoices] = useState<InvoiceType[]>([]);
   const [ordersById, setOrdersById] = useState<Record<string, OrderType>>({});
   const [clientsById, setClientsById] = useState<Record<string, ClientType>>({});
-  const [loading, setLoading] = useState(true);
+  const {
+    records: invoices,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    loading,
+    setPage,
+    reload: reloadInvoices,
+  } = usePagedRecords<InvoiceType>('invoices');
   const [detailInvoice, setDetailInvoice] = useState<InvoiceType | null>(null);
+  useRouteRecord<InvoiceType>('invoices', recordId, detailInvoice?.id, setDetailInvoice, () =>
+    setDetailInvoice(null),
+  );
   const [editingInvoice, setEditingInvoice] = useState<InvoiceType | null>(null);
   const [editForm, setEditForm] = useState({
     payment_time: '',
@@ -76,13 +95,12 @@ export default function Invoices() {
   });
 
   useEffect(() => {
-    fetchInvoices();
+    fetchLookups();
   }, []);
 
-  const fetchInvoices = async () => {
+  const fetchLookups = async () => {
     try {
-      const [invoiceData, orderData, clientData] = await Promise.all([
-        getRecords<InvoiceType>('invoices'),
+      const [orderData, clientData] = await Promise.all([
         getRecords<OrderType>('sales_orders'),
         getRecords<ClientType>('clients'),
       ]);
@@ -99,15 +117,8 @@ export default function Invoices() {
 
       setOrdersById(orderMap);
       setClientsById(clientMap);
-      setInvoices(
-        invoiceData.sort(
-          (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
-        ),
-      );
     } catch (error) {
       console.error('Error fetching invoices:', error);
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -135,10 +146,9 @@ export default function Invoices() {
       await updateRecord<InvoiceType>('invoices', editingInvoice.id, {
         payment_time: editForm.payment_time,
         billing_address: editForm.billing_address,
-        performed_by: profile?.id,
       });
       setEditingInvoice(null);
-      fetchInvoices();
+      reloadInvoices();
     } catch (error) {
       console.error('Error updating invoice:', error);
       alert('Failed to update invoice.');
@@ -155,9 +165,8 @@ export default function Invoices() {
       suppressNotification('invoice_paid', String(invoice.id));
       await updateRecord<InvoiceType>('invoices', invoice.id, {
         status: 'paid',
-        performed_by: profile?.id,
       });
-      fetchInvoices();
+      reloadInvoices();
       if (detailInvoice?.id === invoice.id) {
         setDetailInvoice({ ...invoice, status: 'paid' });
       }
@@ -270,7 +279,10 @@ export default function Invoices() {
                     </td>
                     <td className="px-6 py-4 text-right space-x-2">
                       <button
-                        onClick={() => setDetailInvoice(invoice)}
+                        onClick={() => {
+                          setDetailInvoice(invoice);
+                          navigate(buildPath('invoices', invoice.id));
+                        }}
                         className="inline-flex items-center p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition dark:hover:bg-slate-800/60"
                         aria-label="View invoice"
                       >
@@ -307,6 +319,7 @@ export default function Invoices() {
             </tbody>
           </table>
         </div>
+        <Pagination page={page} pageCount={pageCount} pageSize={pageSize} total={total} onPageChange={setPage} />
       </div>
 
       {detailInvoice && (
@@ -317,12 +330,21 @@ export default function Invoices() {
                 <h2 className="text-2xl font-bold text-gray-900">Invoice Details</h2>
                 <p className="text-sm text-gray-600">{detailInvoice.invoice_number}</p>
               </div>
-              <button
-                onClick={() => setDetailInvoice(null)}
-                className="p-2 hover:bg-gray-100 rounded-lg transition"
-              >
-                <X className="h-5 w-5" />
-              </button>
+              <div className="flex items-center gap-3">
+                <SendToClientButton table="invoices" id={detailInvoice.id} />
+                <DocumentPdfButtons
+                  table="invoices"
+                  id={detailInvoice.id}
+                  label="Invoice"
+                  number={detailInvoice.invoice_number || detailInvoice.id}
+                />
+                <button
+                  onClick={() => navigate(buildPath('invoices'))}
+                  className="p-2 hover:bg-gray-100 rounded-lg transition"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
             </div>
 
             <div className="p-6 space-y-4 text-sm">
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
-import { getRecord, getRecords } from '../../lib/api';
+import { getRecord } from '../../lib/api';
 import { formatRupiah } from '../../lib/format';
+import { calculateLineSubtotal } from '../../../shared/pricing';
 
 interface OrderGood {
   good_id?: string;
@@ -9,6 +10,8 @@ interface OrderGood {
   unit?: string;
   qty: number;
   price: number;
+  discount?: number;
+  shipped_qty?: number;
 }
 
 interface SalesOrder {
@@ -21,16 +24,6 @@ interface SalesOrder {
   created_at: string;
 }
 
-interface DeliveryOrder {
-  id: string;
-  sales_order_id: string;
-  goods?: Array<{
-    good_id?: string;
-    name?: string;
-    qty?: number;
-  }> | string | null;
-}
-
 interface ProgressRow {
   name: string;
   unit: string;
@@ -55,34 +48,16 @@ const parseGoods = (goods?: OrderGood[] | string | null) => {
   }
 };
 
-const parseDeliveryGoods = (goods?: DeliveryOrder['goods']) => {
-  if (!goods) return [];
-  if (Array.isArray(goods)) return goods;
-  try {
-    return JSON.parse(goods) as DeliveryOrder['goods'];
-  } catch {
-    return [];
-  }
-};
-
 const formatCurrency = (value: number) => `Rp ${formatRupiah(value)}`;
 
 export default function OrderProgress({ orderId }: { orderId: string }) {
   const [order, setOrder] = useState<SalesOrder | null>(null);
-  const [deliveries, setDeliveries] = useState<DeliveryOrder[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const fetchProgress = async () => {
       try {
-        const [orderData, deliveryData] = await Promise.all([
-          getRecord<SalesOrder>('sales_orders', orderId),
-          getRecords<DeliveryOrder>('delivery_orders'),
-        ]);
-        setOrder(orderData);
-        setDeliveries(
-          deliveryData.filter((delivery) => String(delivery.sales_order_id) === String(orderId))
-        );
+        setOrder(await getRecord<SalesOrder>('sales_orders', orderId));
       } catch (error) {
         console.error('Failed to load progress data', error);
       } finally {
@@ -96,31 +71,17 @@ export default function OrderProgress({ orderId }: { orderId: string }) {
   const progressRows = useMemo(() => {
     if (!order) return [] as ProgressRow[];
     const orderGoods = parseGoods(order.goods);
-    const shippedMap = new Map<string, number>();
 
-    deliveries.forEach((delivery) => {
-      const items = parseDeliveryGoods(delivery.goods) || [];
-      items.forEach((item) => {
-        const key = item?.good_id ? `id:${item.good_id}` : `name:${item?.name || ''}`;
-        const current = shippedMap.get(key) || 0;
-        shippedMap.set(key, current + (Number(item?.qty) || 0));
-      });
-    });
-
-    const totalSubtotal = orderGoods.reduce(
-      (sum, row) => sum + (Number(row.qty) || 0) * (Number(row.price) || 0),
-      0
-    );
+    const totalSubtotal = orderGoods.reduce((sum, row) => sum + calculateLineSubtotal(row), 0);
 
     return orderGoods.map((row) => {
-      const key = row.good_id ? `id:${row.good_id}` : `name:${row.name || ''}`;
       const orderedQty = Number(row.qty) || 0;
-      const deliveredQty = Math.min(shippedMap.get(key) || 0, orderedQty);
+      const deliveredQty = Math.min(Number(row.shipped_qty) || 0, orderedQty);
       const remainingQty = Math.max(orderedQty - deliveredQty, 0);
-      const subtotal = orderedQty * (Number(row.price) || 0);
+      const subtotal = calculateLineSubtotal(row);
       const workload = totalSubtotal > 0 ? (subtotal / totalSubtotal) * 100 : 0;
-      const progressValue = deliveredQty * (Number(row.price) || 0);
-      const remainingValue = remainingQty * (Number(row.price) || 0);
+      const progressValue = calculateLineSubtotal({ ...row, qty: deliveredQty });
+      const remainingValue = subtotal - progressValue;
       const progressPercent = orderedQty > 0 ? (deliveredQty / orderedQty) * 100 : 0;
 
       return {
@@ -137,7 +98,7 @@ export default function OrderProgress({ orderId }: { orderId: string }) {
         progressPercent,
       };
     });
-  }, [order, deliveries]);
+  }, [order]);
 
   const totals = useMemo(() => {
     return progressRows.reduce(
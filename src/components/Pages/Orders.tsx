@@ -1,13 +1,23 @@
-import { useEffect, useMemo, useState } from 'react';
-import { addRecord, getRecords, updateRecord } from '../../lib/api';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { addRecord, getRecords, RecordConflictError, updateRecord, uploadFile } from '../../lib/api';
 import { formatRupiah } from '../../lib/format';
+import { calculateLineSubtotal, calculateTotals } from '../../../shared/pricing';
 import { CheckCircle, Eye, Pencil, Plus, Search, ShoppingCart, UploadCloud, X } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import DocumentPdfButtons from '../Files/DocumentPdfButtons';
+import FileLink from '../Files/FileLink';
+import { usePagedRecords } from '../../lib/pagination';
+import { useRouteRecord } from '../../lib/recordRoute';
+import { buildAppUrl, buildPath, navigate } from '../../lib/router';
+import Pagination from '../Layout/Pagination';
+import RecordConflictDialog from '../Layout/RecordConflictDialog';
 
 interface OrderDocument {
   name: string;
-  data?: string;
   url?: string;
+  file_id?: string;
+  // `BAST` marks the handover report signed by the client, needed before the order moves to waiting payment.
+  type?: 'BAST';
 }
 
 interface OrderGood {
@@ -17,6 +27,7 @@ interface OrderGood {
   unit?: string;
   qty: number;
   price: number;
+  discount?: number;
   deadline_days?: number | '';
 }
 
@@ -38,9 +49,12 @@ interface OrderType {
   total_amount?: number;
   tax_amount?: number;
   grand_total?: number;
+  tax_rate?: number | string | null;
+  include_tax?: number | boolean;
   status: string;
   created_by?: number | null;
   last_edited_by?: number | null;
+  version?: number;
   created_at: string;
   quotations?: QuotationType;
 }
@@ -59,6 +73,7 @@ interface QuotationType {
   total_amount?: number;
   tax_amount?: number;
   grand_total?: number;
+  tax_rate?: number | string | null;
   include_tax?: number | boolean;
 }
 
@@ -83,60 +98,73 @@ const EMPTY_FORM = {
   payment_time: '',
 };
 
-export default function Orders() {
-  const { profile } = useAuth();
-  const [orders, setOrders] = useState<OrderType[]>([]);
+const parseGoods = (goods?: OrderGood[] | string | null) => {
+  if (!goods) return [];
+  if (Array.isArray(goods)) return goods;
+  if (typeof goods === 'string') {
+    try {
+      return JSON.parse(goods) as OrderGood[];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+const parseDocuments = (docs?: OrderDocument[] | string | null) => {
+  if (!docs) return [];
+  if (Array.isArray(docs)) return docs;
+  if (typeof docs === 'string') {
+    try {
+      return JSON.parse(docs) as OrderDocument[];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+const normalizePoNumber = (value?: string | null) => {
+  if (!value) return '';
+  return value.split('\n')[0].trim();
+};
+
+interface OrdersProps {
+  recordId?: string | null;
+  view?: string | null;
+}
+
+export default function Orders({ recordId, view }: OrdersProps) {
+  const { can } = useAuth();
   const [quotations, setQuotations] = useState<QuotationType[]>([]);
   const [usersById, setUsersById] = useState<Record<string, string>>({});
   const [deliveries, setDeliveries] = useState<DeliveryOrder[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [usedQuotationIds, setUsedQuotationIds] = useState<Set<string>>(new Set());
   const [showModal, setShowModal] = useState(false);
   const [detailOrder, setDetailOrder] = useState<OrderType | null>(null);
-  const [showDoModal, setShowDoModal] = useState(false);
   const [editingOrder, setEditingOrder] = useState<OrderType | null>(null);
   const [formData, setFormData] = useState(EMPTY_FORM);
   const [goodsRows, setGoodsRows] = useState<OrderGood[]>([]);
   const [documents, setDocuments] = useState<OrderDocument[]>([]);
   const [documentsError, setDocumentsError] = useState('');
+  const [uploadingDocuments, setUploadingDocuments] = useState(false);
+  const [uploadingBast, setUploadingBast] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  // The saved order and the edit it rejected, while the user decides between them.
+  const [conflict, setConflict] = useState<{ current: OrderType; payload: Partial<OrderType> } | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+  const {
+    records: orderRecords,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    loading,
+    setPage,
+    reload: reloadOrders,
+  } = usePagedRecords<OrderType>('sales_orders', { search: searchTerm });
   const isEditing = Boolean(editingOrder);
-  const apiRoot = (import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api').replace(/\/api$/, '');
-  const canApprovePayment = profile?.role === 'superadmin' || profile?.role === 'manager';
-
-  useEffect(() => {
-    fetchOrders();
-  }, []);
-
-  const parseGoods = (goods?: OrderGood[] | string | null) => {
-    if (!goods) return [];
-    if (Array.isArray(goods)) return goods;
-    if (typeof goods === 'string') {
-      try {
-        return JSON.parse(goods) as OrderGood[];
-      } catch {
-        return [];
-      }
-    }
-    return [];
-  };
-
-  const parseDocuments = (docs?: OrderDocument[] | string | null) => {
-    if (!docs) return [];
-    if (Array.isArray(docs)) return docs;
-    if (typeof docs === 'string') {
-      try {
-        return JSON.parse(docs) as OrderDocument[];
-      } catch {
-        return [];
-      }
-    }
-    return [];
-  };
-
-  const normalizePoNumber = (value?: string | null) => {
-    if (!value) return '';
-    return value.split('\n')[0].trim();
-  };
+  const canApprovePayment = can('sales_orders', 'status');
 
   const formatLocalDate = (date: Date) => {
     const year = date.getFullYear();
@@ -165,10 +193,7 @@ export default function Orders() {
     const subtotal =
       order?.total_amount !== undefined && order?.total_amount !== null
         ? Number(order.total_amount) || 0
-        : orderGoods.reduce(
-            (sum, row) => sum + (Number(row.qty) || 0) * (Number(row.price) || 0),
-            0
-          );
+        : orderGoods.reduce((sum, row) => sum + calculateLineSubtotal(row), 0);
     const tax =
       order?.tax_amount !== undefined && order?.tax_amount !== null ? Number(order.tax_amount) || 0 : 0;
     const grand =
@@ -178,43 +203,18 @@ export default function Orders() {
     return { subtotal, tax, grand };
   };
 
-  const resolveDocumentUrl = (doc: OrderDocument) => {
-    if (doc.url) {
-      if (doc.url.startsWith('http') || doc.url.startsWith('data:')) {
-        return doc.url;
-      }
-      return `${apiRoot}${doc.url}`;
-    }
-    return doc.data;
-  };
-
-  const fetchOrders = async () => {
+  const fetchLookups = useCallback(async () => {
     try {
-      const [orderData, quotationData, userData, deliveryData] = await Promise.all([
-        getRecords<OrderType>('sales_orders'),
+      const [quotationData, userData] = await Promise.all([
         getRecords<QuotationType>('quotations'),
         getRecords<{ id: string; full_name?: string; email?: string }>('users'),
-        getRecords<DeliveryOrder>('delivery_orders'),
       ]);
 
-      const quotationMap = new Map(quotationData.map((quotation) => [quotation.id, quotation]));
       const userMap = userData.reduce<Record<string, string>>((acc, user) => {
         const name = user.full_name || user.email || 'User';
         acc[String(user.id)] = name;
         return acc;
       }, {});
-      const mappedOrders = orderData
-        .map((order) => ({
-          ...order,
-          goods: parseGoods(order.goods),
-          documents: parseDocuments(order.documents),
-          po_number: normalizePoNumber(order.po_number || order.order_number),
-          quotations: quotationMap.get(order.quotation_id),
-        }))
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-
-      setOrders(mappedOrders);
-      setDeliveries(deliveryData);
       setUsersById(userMap);
       setQuotations(
         quotationData.map((quotation) => ({
@@ -224,11 +224,66 @@ export default function Orders() {
       );
     } catch (error) {
       console.error('Error fetching orders:', error);
-    } finally {
-      setLoading(false);
     }
+  }, []);
+
+  useEffect(() => {
+    fetchLookups();
+  }, [fetchLookups]);
+
+  // A quotation can only be turned into one sales order, so the form needs every order, not just this page.
+  const fetchUsedQuotationIds = async () => {
+    try {
+      const allOrders = await getRecords<OrderType>('sales_orders');
+      setUsedQuotationIds(new Set(allOrders.map((order) => String(order.quotation_id))));
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+    }
+  };
+
+  const quotationMap = useMemo(
+    () => new Map(quotations.map((quotation) => [quotation.id, quotation])),
+    [quotations]
+  );
+
+  const toDisplayOrder = useCallback(
+    (order: OrderType) => ({
+      ...order,
+      goods: parseGoods(order.goods),
+      documents: parseDocuments(order.documents),
+      po_number: normalizePoNumber(order.po_number || order.order_number),
+      quotations: quotationMap.get(order.quotation_id),
+    }),
+    [quotationMap]
+  );
+
+  const orders = useMemo(() => orderRecords.map(toDisplayOrder), [orderRecords, toDisplayOrder]);
+  useRouteRecord<OrderType>(
+    'sales_orders',
+    recordId,
+    detailOrder?.id,
+    (order) => setDetailOrder(toDisplayOrder(order)),
+    () => setDetailOrder(null)
+  );
+  // `/orders/:id/deliveries` opens the order with its linked delivery orders listed.
+  const showDoModal = Boolean(detailOrder) && view === 'deliveries';
+
+  const openOrderDetail = (order: OrderType) => {
+    setDetailOrder(order);
+    navigate(buildPath('orders', order.id));
   };
 
+  const detailOrderId = detailOrder?.id;
+  useEffect(() => {
+    if (!detailOrderId) {
+      setDeliveries([]);
+      return;
+    }
+    getRecords<DeliveryOrder>('delivery_orders', { filters: { sales_order_id: detailOrderId } })
+      .then(setDeliveries)
+      .catch((error) => console.error('Error fetching delivery orders:', error));
+  }, [detailOrderId]);
+
   const openCreateModal = () => {
     setEditingOrder(null);
     setFormData(EMPTY_FORM);
@@ -236,6 +291,7 @@ export default function Orders() {
     setDocuments([]);
     setDocumentsError('');
     setShowModal(true);
+    fetchUsedQuotationIds();
   };
 
   const openEditModal = (order: OrderType) => {
@@ -262,6 +318,7 @@ export default function Orders() {
     setDocuments(parseDocuments(order.documents));
     setDocumentsError('');
     setShowModal(true);
+    fetchUsedQuotationIds();
   };
 
   const handleQuotationChange = (quotationId: string) => {
@@ -276,13 +333,14 @@ export default function Orders() {
       pic_phone: quotation?.pic_phone || '',
       payment_time: quotation?.payment_time || '',
     }));
-      const nextGoods = parseGoods(quotation?.goods || []).map((row) => ({
+      const nextGoods = parseGoods(quotation?.goods || []).map((row): OrderGood => ({
         good_id: row.good_id,
         name: row.name,
         description: row.description,
         unit: row.unit,
         qty: row.qty,
         price: row.price,
+        discount: row.discount,
         deadline_days: '',
       }));
     setGoodsRows(nextGoods);
@@ -291,29 +349,14 @@ export default function Orders() {
   const handleDocumentsChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files ? Array.from(event.target.files) : [];
     if (!files.length) return;
-    const oversizedFile = files.find((file) => file.size > 5 * 1024 * 1024);
-    if (oversizedFile) {
-      event.target.value = '';
-      setDocumentsError('File too large. Maximum size is 5MB per file.');
-      return;
-    }
-
-    const filePromises = files.map(
-      (file) =>
-        new Promise<OrderDocument>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            const result = reader.result?.toString();
-            if (!result) return reject(new Error('Failed to read file'));
-            resolve({ name: file.name, data: result });
-          };
-          reader.onerror = () => reject(new Error('Failed to read file'));
-          reader.readAsDataURL(file);
-        })
-    );
-
+    setUploadingDocuments(true);
     try {
-      const uploadedFiles = await Promise.all(filePromises);
+      const uploadedFiles = await Promise.all(
+        files.map(async (file) => {
+          const uploaded = await uploadFile(file, 'sales_order_document');
+          return { name: file.name, file_id: uploaded.id };
+        })
+      );
       setDocuments((prev) => {
         const filtered = prev.filter(
           (doc) => !uploadedFiles.some((uploaded) => uploaded.name === doc.name)
@@ -323,7 +366,38 @@ export default function Orders() {
       setDocumentsError('');
     } catch (error) {
       console.error('Failed to upload documents', error);
+      setDocumentsError(error instanceof Error ? error.message : 'Failed to upload documents.');
+    } finally {
+      setUploadingDocuments(false);
+      event.target.value = '';
+    }
+  };
+
+  const hasBast = (order: OrderType) => parseDocuments(order.documents).some((doc) => doc.type === 'BAST');
+
+  // A new signed scan replaces the one uploaded before.
+  const handleBastUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !detailOrder) return;
+    setUploadingBast(true);
+    try {
+      const uploaded = await uploadFile(file, 'sales_order_document');
+      const nextDocuments = [
+        ...parseDocuments(detailOrder.documents).filter((doc) => doc.type !== 'BAST'),
+        { name: file.name, file_id: uploaded.id, type: 'BAST' as const },
+      ];
+      const updated = await updateRecord<Pick<OrderType, 'id' | 'documents'>>('sales_orders', detailOrder.id, {
+        documents: nextDocuments,
+      });
+      if (updated) {
+        setDetailOrder((prev) => (prev && prev.id === updated.id ? { ...prev, ...updated } : prev));
+      }
+      reloadOrders();
+    } catch (error) {
+      console.error('Failed to upload BAST', error);
+      alert(error instanceof Error ? error.message : 'Failed to upload the signed BAST.');
     } finally {
+      setUploadingBast(false);
       event.target.value = '';
     }
   };
@@ -342,6 +416,12 @@ export default function Orders() {
     );
   };
 
+  // Used by the form and by overwriting from the conflict dialog.
+  const saveOrder = (payload: Partial<OrderType>, target: OrderType | null) =>
+    target
+      ? updateRecord<OrderType>('sales_orders', target.id, payload, target.version)
+      : addRecord<OrderType>('sales_orders', payload as OrderType);
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     if (documents.length === 0) {
@@ -358,23 +438,6 @@ export default function Orders() {
       alert('Deadline (days) is required for each goods.');
       return;
     }
-    const totalAmount = goodsRows.reduce(
-      (sum, row) => sum + (Number(row.qty) || 0) * (Number(row.price) || 0),
-      0
-    );
-    const taxAmount =
-      selectedQuotation && selectedQuotation.tax_amount !== undefined
-        ? Number(selectedQuotation.tax_amount) || 0
-        : 0;
-    const grandTotal =
-      selectedQuotation && selectedQuotation.grand_total !== undefined
-        ? Number(selectedQuotation.grand_total) || totalAmount + taxAmount
-        : totalAmount + taxAmount;
-    const resolvedTotalAmount =
-      selectedQuotation && selectedQuotation.total_amount !== undefined
-        ? Number(selectedQuotation.total_amount) || totalAmount
-        : totalAmount;
-
     const basePayload = {
       order_number: formData.po_number,
       po_number: formData.po_number,
@@ -385,11 +448,10 @@ export default function Orders() {
         ...row,
         deadline_days: Number(row.deadline_days) || 0,
       })),
-      total_amount: resolvedTotalAmount,
-      tax_amount: taxAmount,
-      grand_total: grandTotal,
+      total_amount: orderTotals.subtotal,
+      tax_amount: orderTotals.tax,
+      grand_total: orderTotals.grand,
       documents,
-      performed_by: profile?.id,
     };
     const payload = editingOrder
       ? basePayload
@@ -402,39 +464,80 @@ export default function Orders() {
           pic_email: formData.pic_email,
           pic_phone: formData.pic_phone,
           status: 'ongoing',
-          created_by: profile?.id,
         } as OrderType);
 
     try {
-      if (editingOrder) {
-        await updateRecord<OrderType>('sales_orders', editingOrder.id, {
-          ...payload,
-          performed_by: profile?.id,
-        });
-      } else {
-        await addRecord<OrderType>('sales_orders', payload);
-      }
+      await saveOrder(payload, editingOrder);
       setShowModal(false);
       setEditingOrder(null);
-      await fetchOrders();
+      reloadOrders();
     } catch (error) {
+      if (error instanceof RecordConflictError) {
+        setConflict({ current: error.current as OrderType, payload });
+        return;
+      }
       console.error('Failed to save sales order', error);
       alert('Failed to save sales order. Please try again.');
     }
   };
 
+  const overwriteConflict = async () => {
+    if (!conflict) return;
+    setResolvingConflict(true);
+    try {
+      await saveOrder(conflict.payload, conflict.current);
+      setConflict(null);
+      setShowModal(false);
+      setEditingOrder(null);
+      reloadOrders();
+    } catch (error) {
+      if (error instanceof RecordConflictError) {
+        setConflict({ ...conflict, current: error.current as OrderType });
+        return;
+      }
+      console.error('Failed to save sales order', error);
+      alert(error instanceof Error ? error.message : 'Failed to save sales order. Please try again.');
+    } finally {
+      setResolvingConflict(false);
+    }
+  };
+
+  const loadSavedOrder = () => {
+    if (!conflict) return;
+    setConflict(null);
+    reloadOrders();
+    if (canEditOrder(conflict.current)) {
+      openEditModal(conflict.current);
+    } else {
+      setShowModal(false);
+      setEditingOrder(null);
+    }
+  };
+
+  const describeGoods = (goods?: OrderGood[] | string | null) =>
+    parseGoods(goods)
+      .map((row) => `${row.name || '-'} × ${row.qty} (${row.deadline_days ?? '-'} days)`)
+      .join('\n');
+
+  const describeDocuments = (value?: OrderDocument[] | string | null) =>
+    parseDocuments(value)
+      .map((doc) => doc.name)
+      .join('\n');
+
   const handleAcceptApproval = async (order?: OrderType) => {
     const targetOrder = order ?? detailOrder;
     if (!targetOrder) return;
+    if (!hasBast(targetOrder)) {
+      alert('Upload the BAST signed by the client before accepting the approval.');
+      return;
+    }
     const confirmed = window.confirm('Accept this approval and move the sales order to waiting payment?');
     if (!confirmed) return;
     try {
       await updateRecord<OrderType>('sales_orders', targetOrder.id, {
         status: 'waiting payment',
-        performed_by: profile?.id,
-        performer_role: profile?.role,
       });
-      await fetchOrders();
+      reloadOrders();
       setDetailOrder((prev) =>
         prev && prev.id === targetOrder.id ? { ...prev, status: 'waiting payment' } : prev
       );
@@ -457,34 +560,10 @@ export default function Orders() {
     return colors[status] || 'bg-gray-100 text-gray-800 dark:bg-slate-700 dark:text-slate-100';
   };
 
-  const filteredOrders = useMemo(() => {
-    const query = searchTerm.trim().toLowerCase();
-    if (!query) return orders;
-    return orders.filter((order) => {
-      const quotationNumber = order.quotations?.quotation_number || '';
-      return (
-        order.order_number?.toLowerCase().includes(query) ||
-        order.po_number?.toLowerCase().includes(query) ||
-        order.project_name?.toLowerCase().includes(query) ||
-        order.company_name?.toLowerCase().includes(query) ||
-        quotationNumber.toLowerCase().includes(query) ||
-        order.status?.toLowerCase().includes(query)
-      );
-    });
-  }, [orders, searchTerm]);
-
-  const linkedDeliveries = detailOrder
-    ? deliveries
-        .filter((delivery) => String(delivery.sales_order_id) === String(detailOrder.id))
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-    : [];
+  const linkedDeliveries = detailOrder ? deliveries : [];
   const detailGoods = detailOrder ? parseGoods(detailOrder.goods) : [];
   const detailTotals = detailOrder ? resolveOrderTotals(detailGoods, detailOrder) : null;
 
-  const usedQuotationIds = useMemo(
-    () => new Set(orders.map((order) => String(order.quotation_id))),
-    [orders]
-  );
   const availableQuotations = quotations.filter(
     (quotation) =>
       ['process', 'success'].includes(quotation.status) &&
@@ -495,27 +574,14 @@ export default function Orders() {
     () => quotations.find((item) => String(item.id) === String(formData.quotation_id)),
     [quotations, formData.quotation_id]
   );
+  // Previewed the way the API prices it: an order keeps the tax rate and mode of its quotation.
   const orderTotals = useMemo(() => {
-    if (editingOrder) {
-      return resolveOrderTotals(goodsRows, editingOrder);
-    }
-    const subtotal = goodsRows.reduce(
-      (sum, row) => sum + (Number(row.qty) || 0) * (Number(row.price) || 0),
-      0
-    );
-    const resolvedSubtotal =
-      selectedQuotation && selectedQuotation.total_amount !== undefined
-        ? Number(selectedQuotation.total_amount) || subtotal
-        : subtotal;
-    const tax =
-      selectedQuotation && selectedQuotation.tax_amount !== undefined
-        ? Number(selectedQuotation.tax_amount) || 0
-        : 0;
-    const grand =
-      selectedQuotation && selectedQuotation.grand_total !== undefined
-        ? Number(selectedQuotation.grand_total) || resolvedSubtotal + tax
-        : resolvedSubtotal + tax;
-    return { subtotal: resolvedSubtotal, tax, grand };
+    const pricedLike = editingOrder || selectedQuotation;
+    const totals = calculateTotals(goodsRows, {
+      taxRate: pricedLike?.tax_rate,
+      includeTax: Boolean(pricedLike?.include_tax),
+    });
+    return { subtotal: totals.totalAmount, tax: totals.taxAmount, grand: totals.grandTotal };
   }, [editingOrder, goodsRows, selectedQuotation]);
 
   if (loading) {
@@ -546,7 +612,7 @@ export default function Orders() {
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
         <input
           type="text"
-          placeholder="Search sales orders by PO, project, quotation, company, or status..."
+          placeholder="Search sales orders by number, PO, project, company, or PIC..."
           value={searchTerm}
           onChange={(event) => setSearchTerm(event.target.value)}
           className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -585,7 +651,7 @@ export default function Orders() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredOrders.length === 0 ? (
+              {orders.length === 0 ? (
                 <tr>
                   <td colSpan={8} className="px-6 py-12 text-center">
                     <ShoppingCart className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -593,7 +659,7 @@ export default function Orders() {
                   </td>
                 </tr>
               ) : (
-                filteredOrders.map((order) => (
+                orders.map((order) => (
                   <tr key={order.id} className="hover:bg-gray-50 dark:hover:bg-slate-800/60">
                     <td className="px-6 py-4">
                       <div className="text-sm font-medium text-gray-900">
@@ -622,10 +688,7 @@ export default function Orders() {
                     </td>
                     <td className="px-6 py-4 text-right space-x-2">
                       <button
-                        onClick={() => {
-                          setDetailOrder(order);
-                          setShowDoModal(false);
-                        }}
+                        onClick={() => openOrderDetail(order)}
                         className="inline-flex items-center p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
                         aria-label="View order"
                       >
@@ -660,6 +723,7 @@ export default function Orders() {
             </tbody>
           </table>
         </div>
+        <Pagination page={page} pageCount={pageCount} pageSize={pageSize} total={total} onPageChange={setPage} />
       </div>
 
       {showModal && (
@@ -811,6 +875,7 @@ export default function Orders() {
                           <th className="px-3 py-2 text-left">Unit</th>
                           <th className="px-3 py-2 text-left">Qty</th>
                           <th className="px-3 py-2 text-left">Price</th>
+                          <th className="px-3 py-2 text-left">Discount</th>
                           <th className="px-3 py-2 text-left">
                             Deadline (days) <span className="text-red-500">*</span>
                           </th>
@@ -826,6 +891,7 @@ export default function Orders() {
                             <td className="px-3 py-2">{row.unit || '-'}</td>
                             <td className="px-3 py-2">{row.qty}</td>
                             <td className="px-3 py-2">{formatCurrency(Number(row.price || 0))}</td>
+                            <td className="px-3 py-2">{Number(row.discount) ? `${Number(row.discount)}%` : '-'}</td>
                             <td className="px-3 py-2">
                               <input
                                 type="number"
@@ -837,7 +903,7 @@ export default function Orders() {
                               />
                             </td>
                             <td className="px-3 py-2">
-                              {formatCurrency((Number(row.qty || 0) * Number(row.price || 0)))}
+                              {formatCurrency(calculateLineSubtotal(row))}
                             </td>
                           </tr>
                         ))}
@@ -870,16 +936,18 @@ export default function Orders() {
                   <UploadCloud className="h-5 w-5 text-gray-500" />
                   <div>
                     <p className="text-sm text-gray-800">Upload supporting documents</p>
-                    <p className="text-xs text-gray-500">PDF or image, max 5MB each</p>
+                    <p className="text-xs text-gray-500">PDF, image or Office document, max 5MB each</p>
                     <input
                       type="file"
                       multiple
+                      accept=".pdf,image/*,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
                       onChange={handleDocumentsChange}
                       className="mt-2"
                       required={documents.length === 0}
                     />
                   </div>
                 </div>
+                {uploadingDocuments && <p className="text-xs text-gray-500 mt-2">Uploading documents...</p>}
                 {documentsError && <p className="text-xs text-red-600 mt-2">{documentsError}</p>}
                 {documents.length > 0 && (
                   <ul className="mt-3 space-y-1 text-sm text-gray-600">
@@ -909,7 +977,8 @@ export default function Orders() {
                 </button>
                 <button
                   type="submit"
-                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                  disabled={uploadingDocuments}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
                 >
                   {editingOrder ? 'Update Sales Order' : 'Save Sales Order'}
                 </button>
@@ -919,6 +988,45 @@ export default function Orders() {
         </div>
       )}
 
+      {conflict && (
+        <RecordConflictDialog
+          recordName={`sales order ${conflict.current.po_number || conflict.current.order_number}`}
+          fields={[
+            {
+              label: 'PO Number',
+              mine: conflict.payload.po_number || '',
+              saved: conflict.current.po_number || conflict.current.order_number || '',
+            },
+            {
+              label: 'Project Name',
+              mine: conflict.payload.project_name || '',
+              saved: conflict.current.project_name || '',
+            },
+            {
+              label: 'Order Date',
+              mine: formatDateInput(conflict.payload.order_date),
+              saved: formatDateInput(conflict.current.order_date),
+            },
+            {
+              label: 'Payment Time',
+              mine: conflict.payload.payment_time || '',
+              saved: conflict.current.payment_time || '',
+            },
+            { label: 'Goods', mine: describeGoods(conflict.payload.goods), saved: describeGoods(conflict.current.goods) },
+            {
+              label: 'Documents',
+              mine: describeDocuments(conflict.payload.documents),
+              saved: describeDocuments(conflict.current.documents),
+            },
+            { label: 'Status', mine: editingOrder?.status || '', saved: conflict.current.status },
+          ]}
+          saving={resolvingConflict}
+          onOverwrite={overwriteConflict}
+          onUseSaved={loadSavedOrder}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       {detailOrder && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
           <div className="bg-white rounded-xl shadow-lg w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto">
@@ -941,16 +1049,13 @@ export default function Orders() {
                 )}
                 <button
                   type="button"
-                  onClick={() => setShowDoModal((prev) => !prev)}
+                  onClick={() => navigate(buildPath('orders', detailOrder.id, showDoModal ? null : 'deliveries'))}
                   className="rounded-lg border border-blue-200 bg-blue-50 px-3 py-2 text-xs font-semibold text-blue-700 hover:bg-blue-100"
                 >
                   View DO Linked
                 </button>
                 <button
-                  onClick={() => {
-                    setDetailOrder(null);
-                    setShowDoModal(false);
-                  }}
+                  onClick={() => navigate(buildPath('orders'))}
                   className="p-2 rounded-full hover:bg-gray-100 transition"
                   aria-label="Close sales order details"
                 >
@@ -1050,7 +1155,7 @@ export default function Orders() {
                     type="button"
                     onClick={() =>
                       window.open(
-                        `${window.location.origin}/?progress_order=${detailOrder.id}`,
+                        buildAppUrl(buildPath('orders', detailOrder.id, 'progress')),
                         '_blank',
                         'noopener,noreferrer'
                       )
@@ -1073,6 +1178,7 @@ export default function Orders() {
                           <th className="px-3 py-2 text-left">Unit</th>
                           <th className="px-3 py-2 text-left">Qty</th>
                           <th className="px-3 py-2 text-left">Price</th>
+                          <th className="px-3 py-2 text-left">Discount</th>
                           <th className="px-3 py-2 text-left">Deadline (days)</th>
                           <th className="px-3 py-2 text-left">Subtotal</th>
                         </tr>
@@ -1086,9 +1192,10 @@ export default function Orders() {
                             <td className="px-3 py-2">{row.unit || '-'}</td>
                             <td className="px-3 py-2">{row.qty}</td>
                             <td className="px-3 py-2">{formatCurrency(Number(row.price || 0))}</td>
+                            <td className="px-3 py-2">{Number(row.discount) ? `${Number(row.discount)}%` : '-'}</td>
                             <td className="px-3 py-2">{row.deadline_days ?? '-'}</td>
                             <td className="px-3 py-2">
-                              {formatCurrency((Number(row.qty || 0) * Number(row.price || 0)))}
+                              {formatCurrency(calculateLineSubtotal(row))}
                             </td>
                           </tr>
                         ))}
@@ -1117,6 +1224,42 @@ export default function Orders() {
                 </div>
               )}
 
+              {['waiting approval', 'waiting payment', 'done'].includes(detailOrder.status) && (
+                <div className="rounded-lg border border-gray-200 p-4 dark:border-slate-700">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">Handover Report (BAST)</h3>
+                      <p className="text-sm text-gray-500">
+                        {hasBast(detailOrder)
+                          ? 'The BAST signed by the client is uploaded.'
+                          : 'Print the BAST for the client to sign, then upload the signed scan.'}
+                      </p>
+                    </div>
+                    <DocumentPdfButtons
+                      table="sales_orders"
+                      id={detailOrder.id}
+                      label="BAST"
+                      number={detailOrder.order_number || detailOrder.id}
+                    />
+                  </div>
+                  {detailOrder.status === 'waiting approval' &&
+                    can('sales_orders', 'update', detailOrder.created_by) && (
+                    <label className="mt-3 inline-flex cursor-pointer items-center rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50">
+                      <UploadCloud className="h-4 w-4 mr-1" />
+                      {uploadingBast && 'Uploading...'}
+                      {!uploadingBast && (hasBast(detailOrder) ? 'Replace signed BAST' : 'Upload signed BAST')}
+                      <input
+                        type="file"
+                        accept=".pdf,image/*"
+                        className="hidden"
+                        onChange={handleBastUpload}
+                        disabled={uploadingBast}
+                      />
+                    </label>
+                  )}
+                </div>
+              )}
+
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-3">Documents</h3>
                 {parseDocuments(detailOrder.documents).length === 0 ? (
@@ -1125,19 +1268,14 @@ export default function Orders() {
                   <ul className="list-disc list-inside text-gray-700 space-y-1">
                     {parseDocuments(detailOrder.documents).map((doc, index) => (
                       <li key={`${doc.name}-${index}`}>
-                        {resolveDocumentUrl(doc) ? (
-                          <a
-                            href={resolveDocumentUrl(doc)}
-                            target="_blank"
-                            rel="noreferrer"
-                            className="text-blue-600 hover:text-blue-700 underline"
-                            download={doc.name}
-                          >
+                        {doc.url ? (
+                          <FileLink url={doc.url} className="text-blue-600 hover:text-blue-700 underline">
                             {doc.name}
-                          </a>
+                          </FileLink>
                         ) : (
                           doc.name
                         )}
+                        {doc.type && <span className="ml-2 text-xs font-semibold text-gray-500">{doc.type}</span>}
                       </li>
                     ))}
                   </ul>
@@ -1,8 +1,11 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Camera, Clock3, Mail, Save, Shield, User as UserIcon } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
-import { getRecord, updateRecord, uploadUserPhoto, UserProfile } from '../../lib/api';
+import { getRecord, updateRecord, uploadFile, uploadUserPhoto, UserProfile } from '../../lib/api';
+import { useFileUrl } from '../../lib/files';
 import ActivityLog from './ActivityLog';
+import ActiveSessions from './ActiveSessions';
+import TwoFactorSettings from './TwoFactorSettings';
 
 const normalizePhoneInput = (value: string) => {
   const digits = value.replace(/\D/g, '');
@@ -21,18 +24,14 @@ export default function Profile() {
     password: '',
     photo_url: '' as string | null,
   });
-  const [photoData, setPhotoData] = useState<string | null>(null);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const photoSrc = useFileUrl(photoPreview);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const [showActivityLog, setShowActivityLog] = useState(false);
 
-  const apiRoot = useMemo(
-    () => (import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api').replace(/\/api$/, ''),
-    [],
-  );
-
   useEffect(() => {
     const loadProfile = async () => {
       if (!profile?.id) return;
@@ -46,7 +45,7 @@ export default function Profile() {
           password: '',
           photo_url: data.photo_url || null,
         });
-        setPhotoPreview(data.photo_url ? `${apiRoot}${data.photo_url}` : null);
+        setPhotoPreview(data.photo_url || null);
         setStatus(null);
       } catch (error) {
         console.error('Error loading profile', error);
@@ -57,21 +56,14 @@ export default function Profile() {
     };
 
     loadProfile();
-  }, [apiRoot, profile?.id]);
+  }, [profile?.id]);
 
   const handlePhotoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result?.toString();
-      if (result) {
-        setPhotoData(result);
-        setPhotoPreview(result);
-      }
-    };
-    reader.readAsDataURL(file);
+    setPhotoFile(file);
+    setPhotoPreview(URL.createObjectURL(file));
   };
 
   const handleSubmit = async (event: React.FormEvent) => {
@@ -93,11 +85,12 @@ export default function Profile() {
       const updated = await updateRecord<UserProfile>('users', profile.id, payload);
       let mergedProfile = updated;
 
-      if (photoData) {
-        const uploadResult = await uploadUserPhoto(profile.id, photoData);
+      if (photoFile) {
+        const uploaded = await uploadFile(photoFile, 'user_photo');
+        const uploadResult = await uploadUserPhoto(profile.id, uploaded.id);
         mergedProfile = { ...updated, photo_url: uploadResult.photo_url };
-        setPhotoPreview(`${apiRoot}${uploadResult.photo_url}`);
-        setPhotoData(null);
+        setPhotoPreview(uploadResult.photo_url);
+        setPhotoFile(null);
       }
 
       setProfileState({ ...profile, ...mergedProfile });
@@ -105,15 +98,15 @@ export default function Profile() {
       setStatus({ type: 'success', message: 'Profile updated successfully.' });
     } catch (error) {
       console.error('Error updating profile', error);
-      setStatus({ type: 'error', message: 'Failed to update profile.' });
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to update profile.' });
     } finally {
       setSaving(false);
     }
   };
 
   const avatarContent = () => {
-    if (photoPreview) {
-      return <img src={photoPreview} alt="Profile" className="w-full h-full object-cover" />;
+    if (photoSrc) {
+      return <img src={photoSrc} alt="Profile" className="w-full h-full object-cover" />;
     }
 
     const initials = formData.full_name
@@ -254,6 +247,10 @@ export default function Profile() {
         </div>
       </form>
 
+      <TwoFactorSettings />
+
+      <ActiveSessions />
+
       {showActivityLog && (
         <div className="fixed inset-0 bg-gray-900/60 z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
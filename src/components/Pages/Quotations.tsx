@@ -1,8 +1,16 @@
-import { useState, useEffect, useMemo } from 'react';
-import { addRecord, getRecords, updateRecord } from '../../lib/api';
+import { useCallback, useState, useEffect, useMemo } from 'react';
+import { addRecord, getRecords, RecordConflictError, updateRecord } from '../../lib/api';
 import { formatRupiah } from '../../lib/format';
+import { calculateLineSubtotal, calculateTotals, validatePricedItems } from '../../../shared/pricing';
 import { Plus, Eye, FileCheck, X, Pencil, CheckCircle, Search } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePagedRecords } from '../../lib/pagination';
+import { useRouteRecord } from '../../lib/recordRoute';
+import { buildPath, navigate } from '../../lib/router';
+import DocumentPdfButtons from '../Files/DocumentPdfButtons';
+import SendToClientButton from '../Files/SendToClientButton';
+import Pagination from '../Layout/Pagination';
+import RecordConflictDialog from '../Layout/RecordConflictDialog';
 
 interface QuotationGood {
   good_id: string;
@@ -11,6 +19,8 @@ interface QuotationGood {
   unit: string;
   qty: number | '';
   price: number | '';
+  // Percentage off the line; empty means none.
+  discount: number | '';
   delivery_time: number | '';
 }
 
@@ -28,9 +38,12 @@ interface QuotationType {
   total_amount: number;
   tax_amount: number;
   grand_total: number;
+  // The rate the quotation was priced with, kept when settings change.
+  tax_rate?: number | string | null;
   include_tax?: number | boolean;
   status: string;
   negotiation_round?: number;
+  version?: number;
   created_at: string;
   performed_by?: number | null;
   rfqs?: RFQTypeLite;
@@ -75,14 +88,20 @@ const EMPTY_GOOD_ROW: QuotationGood = {
   unit: '',
   qty: '',
   price: '',
+  discount: '',
   delivery_time: '',
 };
 
-export default function Quotations() {
-  const { profile } = useAuth();
-  const [quotations, setQuotations] = useState<QuotationType[]>([]);
-  const [loading, setLoading] = useState(true);
+interface QuotationsProps {
+  recordId?: string | null;
+}
+
+export default function Quotations({ recordId }: QuotationsProps) {
+  const { profile, can } = useAuth();
   const [showModal, setShowModal] = useState(false);
+  // The saved quotation and the edit it rejected, while the user decides between them.
+  const [conflict, setConflict] = useState<{ current: QuotationType; payload: Partial<QuotationType> } | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
   const [detailQuotation, setDetailQuotation] = useState<QuotationType | null>(null);
   const [editingQuotation, setEditingQuotation] = useState<QuotationType | null>(null);
   const [statusQuotation, setStatusQuotation] = useState<QuotationType | null>(null);
@@ -90,6 +109,17 @@ export default function Quotations() {
   const [rfqs, setRfqs] = useState<RFQTypeLite[]>([]);
   const [goods, setGoods] = useState<GoodOption[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const {
+    records: quotationRecords,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    loading,
+    setPage,
+    reload: reloadQuotations,
+  } = usePagedRecords<QuotationType>('quotations', { search: searchTerm });
   const [taxRate, setTaxRate] = useState(0);
   const [includeTax, setIncludeTax] = useState(false);
   const [formData, setFormData] = useState({
@@ -106,111 +136,89 @@ export default function Quotations() {
   const [goodsRows, setGoodsRows] = useState<QuotationGood[]>([{ ...EMPTY_GOOD_ROW }]);
 
   useEffect(() => {
-    fetchQuotations();
+    fetchLookups();
   }, []);
 
-  const fetchQuotations = async () => {
+  const fetchLookups = async () => {
     try {
-      const [quotationData, rfqData, goodsData, userData, settingsData] = await Promise.all([
-        getRecords<QuotationType>('quotations'),
+      const [rfqData, goodsData, userData, settingsData] = await Promise.all([
         getRecords<RFQTypeLite>('rfqs'),
         getRecords<GoodOption>('goods'),
         getRecords<{ id: string; full_name?: string; email?: string }>('users'),
         getRecords<CompanySetting>('settings'),
       ]);
 
-      const rfqsById = new Map(rfqData.map((rfq) => [rfq.id, rfq]));
-      const userMap = userData.reduce<Record<string, string>>((acc, user) => {
-        const name = user.full_name || user.email || 'User';
-        acc[String(user.id)] = name;
-        return acc;
-      }, {});
-      const mappedQuotations = quotationData
-        .map((quotation) => {
-          let parsedGoods: QuotationGood[] = [];
-          if (Array.isArray(quotation.goods)) {
-            parsedGoods = quotation.goods as QuotationGood[];
-          } else if (typeof quotation.goods === 'string' && quotation.goods) {
-            try {
-              parsedGoods = JSON.parse(quotation.goods) as QuotationGood[];
-            } catch {
-              parsedGoods = [];
-            }
-          }
-
-          return {
-            ...quotation,
-            goods: parsedGoods,
-            rfqs: rfqsById.get(quotation.rfq_id),
-            creator_name:
-              quotation.creator_name ||
-              (quotation.performed_by ? userMap[String(quotation.performed_by)] : null) ||
-              'Unknown user',
-          };
-        })
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-
-      setQuotations(mappedQuotations);
+      setUserNames(
+        userData.reduce<Record<string, string>>((acc, user) => {
+          acc[String(user.id)] = user.full_name || user.email || 'User';
+          return acc;
+        }, {}),
+      );
       setRfqs(rfqData);
       setGoods(goodsData);
       const currentSettings = settingsData[0];
       setTaxRate(Number(currentSettings?.tax_rate) || 0);
     } catch (error) {
       console.error('Error fetching quotations:', error);
-    } finally {
-      setLoading(false);
     }
   };
 
-  const getNextQuotationNumber = () => {
-    const year = new Date().getFullYear();
-    const romanMonths = [
-      'I',
-      'II',
-      'III',
-      'IV',
-      'V',
-      'VI',
-      'VII',
-      'VIII',
-      'IX',
-      'X',
-      'XI',
-      'XII',
-    ];
-    const romanMonth = romanMonths[new Date().getMonth()];
-    const legacyPrefix = `RGI-QTN-${year}-`;
-    const maxSequence = quotations.reduce((max, quotation) => {
-      const number = quotation.quotation_number || '';
-      const legacyMatch = number.startsWith(legacyPrefix)
-        ? Number(number.replace(legacyPrefix, ''))
-        : null;
-      const newMatch = number.match(/^(\d{4})\/RGI\/QTN\/[IVXLCDM]+\/(\d{4})$/);
-      const legacySequence = legacyMatch && !Number.isNaN(legacyMatch) ? legacyMatch : null;
-      const newSequence =
-        newMatch && Number(newMatch[2]) === year ? Number(newMatch[1]) : null;
-      const sequence = newSequence ?? legacySequence;
-      if (!sequence || Number.isNaN(sequence)) return max;
-      return Math.max(max, sequence);
-    }, 0);
-    const nextSequence = String(maxSequence + 1).padStart(4, '0');
-    return `${nextSequence}/RGI/QTN/${romanMonth}/${year}`;
+  const rfqsById = useMemo(() => new Map(rfqs.map((rfq) => [rfq.id, rfq])), [rfqs]);
+
+  const toDisplayQuotation = useCallback(
+    (quotation: QuotationType) => {
+      let parsedGoods: QuotationGood[] = [];
+      if (Array.isArray(quotation.goods)) {
+        parsedGoods = quotation.goods as QuotationGood[];
+      } else if (typeof quotation.goods === 'string' && quotation.goods) {
+        try {
+          parsedGoods = JSON.parse(quotation.goods) as QuotationGood[];
+        } catch {
+          parsedGoods = [];
+        }
+      }
+
+      return {
+        ...quotation,
+        goods: parsedGoods,
+        rfqs: rfqsById.get(quotation.rfq_id),
+        creator_name:
+          quotation.creator_name ||
+          (quotation.performed_by ? userNames[String(quotation.performed_by)] : null) ||
+          'Unknown user',
+      };
+    },
+    [rfqsById, userNames],
+  );
+
+  const quotations = useMemo(
+    () => quotationRecords.map(toDisplayQuotation),
+    [quotationRecords, toDisplayQuotation],
+  );
+  useRouteRecord<QuotationType>(
+    'quotations',
+    recordId,
+    detailQuotation?.id,
+    (quotation) => setDetailQuotation(toDisplayQuotation(quotation)),
+    () => setDetailQuotation(null),
+  );
+
+  const openQuotationDetail = (quotation: QuotationType) => {
+    setDetailQuotation(quotation);
+    navigate(buildPath('quotations', quotation.id));
   };
 
   const canEditQuotation = (quotation: QuotationType) => {
-    if (!profile) return false;
     if (['rejected', 'reject', 'process', 'success'].includes(quotation.status)) return false;
-    if (['superadmin', 'manager'].includes(profile.role)) return true;
-    if (!quotation.performed_by || !profile.id) return false;
-    return String(quotation.performed_by) === String(profile.id);
+    return can('quotations', 'update', quotation.performed_by);
   };
 
-  const canUpdateStatus = profile && ['superadmin', 'manager'].includes(profile.role);
+  const canUpdateStatus = can('quotations', 'status');
 
   const openCreateModal = () => {
     setEditingQuotation(null);
     setFormData({
-      quotation_number: getNextQuotationNumber(),
+      quotation_number: '',
       rfq_id: '',
       client_id: '',
       company_name: '',
@@ -294,7 +302,7 @@ export default function Quotations() {
       prev.map((row, rowIndex) => {
         if (rowIndex !== index) return row;
         const updatedValue =
-          field === 'qty' || field === 'price' || field === 'delivery_time'
+          field === 'qty' || field === 'price' || field === 'discount' || field === 'delivery_time'
             ? value === ''
               ? ''
               : Number(value)
@@ -312,6 +320,12 @@ export default function Quotations() {
     setGoodsRows((prev) => (prev.length === 1 ? prev : prev.filter((_, rowIndex) => rowIndex !== index)));
   };
 
+  // `target.version` is the version the edit started from, so the API can reject a stale save.
+  const saveQuotation = (payload: Partial<QuotationType>, target: QuotationType | null) =>
+    target
+      ? updateRecord<QuotationType>('quotations', target.id, payload, target.version)
+      : addRecord<QuotationType>('quotations', payload as QuotationType);
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
 
@@ -352,30 +366,26 @@ export default function Quotations() {
       return;
     }
 
-    const rawTotal = goodsRows.reduce(
-      (sum, row) => sum + (Number(row.qty) || 0) * (Number(row.price) || 0),
-      0
-    );
-    const taxAmount = includeTax
-      ? (rawTotal * taxRate) / (100 + taxRate)
-      : (rawTotal * taxRate) / 100;
-    const totalAmount = includeTax ? rawTotal - taxAmount : rawTotal;
-    const grandTotal = includeTax ? rawTotal : rawTotal + taxAmount;
+    const invalidPricing = validatePricedItems(goodsRows);
+    if (invalidPricing) {
+      alert(invalidPricing);
+      return;
+    }
 
     const commonPayload = {
       goods: goodsRows.map((row) => ({
         ...row,
         qty: Number(row.qty) || 0,
         price: Number(row.price) || 0,
+        discount: Number(row.discount) || 0,
         delivery_time: Number(row.delivery_time) || 0,
       })),
-      total_amount: totalAmount,
-      tax_amount: taxAmount,
-      grand_total: grandTotal,
+      // Checked by the API, which prices the quotation with the same module.
+      total_amount: calculatedTotals.totalAmount,
+      tax_amount: calculatedTotals.taxAmount,
+      grand_total: calculatedTotals.grandTotal,
       include_tax: includeTax,
       payment_time: formData.payment_time,
-      performed_by: profile?.id,
-      performer_role: profile?.role,
     };
 
     const payload = editingQuotation
@@ -388,20 +398,63 @@ export default function Quotations() {
         } as QuotationType);
 
     try {
-      if (editingQuotation) {
-        await updateRecord<QuotationType>('quotations', editingQuotation.id, payload);
-      } else {
-        await addRecord<QuotationType>('quotations', payload);
-      }
+      await saveQuotation(payload, editingQuotation);
       setShowModal(false);
       setEditingQuotation(null);
-      fetchQuotations();
+      reloadQuotations();
     } catch (error) {
+      if (error instanceof RecordConflictError) {
+        setConflict({ current: error.current as QuotationType, payload });
+        return;
+      }
       console.error('Error saving quotation:', error);
       alert('Failed to save quotation. Please try again.');
     }
   };
 
+  const overwriteConflict = async () => {
+    if (!conflict) return;
+    setResolvingConflict(true);
+    try {
+      await saveQuotation(conflict.payload, conflict.current);
+      setConflict(null);
+      setShowModal(false);
+      setEditingQuotation(null);
+      reloadQuotations();
+    } catch (error) {
+      if (error instanceof RecordConflictError) {
+        setConflict({ ...conflict, current: error.current as QuotationType });
+        return;
+      }
+      console.error('Error saving quotation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save quotation. Please try again.');
+    } finally {
+      setResolvingConflict(false);
+    }
+  };
+
+  const loadSavedQuotation = () => {
+    if (!conflict) return;
+    setConflict(null);
+    reloadQuotations();
+    if (canEditQuotation(conflict.current)) {
+      openEditModal(conflict.current);
+    } else {
+      setShowModal(false);
+      setEditingQuotation(null);
+    }
+  };
+
+  const describeGoods = (value?: QuotationGood[] | string | null) =>
+    (Array.isArray(value) ? value : [])
+      .map(
+        (row) =>
+          `${row.name || '-'} × ${row.qty} @ Rp ${formatRupiah(Number(row.price) || 0)}${
+            Number(row.discount) ? ` less ${Number(row.discount)}%` : ''
+          } (${row.delivery_time} days)`
+      )
+      .join('\n');
+
   const getStatusColor = (status: string) => {
     const colors = {
       waiting: 'bg-yellow-100 text-yellow-800 dark:bg-amber-500/20 dark:text-amber-200',
@@ -427,25 +480,6 @@ export default function Quotations() {
     return status;
   };
 
-  const renderGoodsSummary = (quotation: QuotationType) => {
-    const goodsList = Array.isArray(quotation.goods) ? quotation.goods : [];
-    if (!goodsList.length) return 'No goods';
-    return goodsList.map((row) => row.name || 'Item').join(', ');
-  };
-
-  const filteredQuotations = quotations.filter((quotation) => {
-    const query = searchTerm.toLowerCase();
-    if (!query) return true;
-    return (
-      quotation.quotation_number?.toLowerCase().includes(query) ||
-      quotation.rfqs?.rfq_number?.toLowerCase().includes(query) ||
-      quotation.company_name?.toLowerCase().includes(query) ||
-      quotation.status?.toLowerCase().includes(query) ||
-      quotation.creator_name?.toLowerCase().includes(query) ||
-      renderGoodsSummary(quotation).toLowerCase().includes(query)
-    );
-  });
-
   const handleStatusUpdate = async (quotation: QuotationType, nextStatus: string) => {
     if (!canUpdateStatus || !profile) return;
     if (nextStatus === 'reject' || nextStatus === 'rejected') {
@@ -455,10 +489,8 @@ export default function Quotations() {
     try {
       const updated = await updateRecord<QuotationType>('quotations', quotation.id, {
         status: nextStatus,
-        performed_by: profile.id,
-        performer_role: profile.role,
       });
-      await fetchQuotations();
+      reloadQuotations();
       if (updated) {
         setDetailQuotation((prev) => (prev && prev.id === quotation.id ? { ...prev, ...updated } : prev));
         setStatusQuotation((prev) => (prev && prev.id === quotation.id ? { ...prev, ...updated } : prev));
@@ -489,18 +521,16 @@ export default function Quotations() {
     return [];
   };
 
-  const calculatedTotals = useMemo(() => {
-    const rawTotal = goodsRows.reduce(
-      (sum, row) => sum + (Number(row.qty) || 0) * (Number(row.price) || 0),
-      0
-    );
-    const taxAmount = includeTax
-      ? (rawTotal * taxRate) / (100 + taxRate)
-      : (rawTotal * taxRate) / 100;
-    const totalAmount = includeTax ? rawTotal - taxAmount : rawTotal;
-    const grandTotal = includeTax ? rawTotal : rawTotal + taxAmount;
-    return { rawTotal, taxAmount, totalAmount, grandTotal };
-  }, [goodsRows, includeTax, taxRate]);
+  // A saved quotation keeps the tax rate it was priced with; new ones use the rate in settings.
+  const pricingTaxRate =
+    editingQuotation?.tax_rate !== undefined && editingQuotation?.tax_rate !== null
+      ? Number(editingQuotation.tax_rate)
+      : taxRate;
+
+  const calculatedTotals = useMemo(
+    () => calculateTotals(goodsRows, { taxRate: pricingTaxRate, includeTax }),
+    [goodsRows, includeTax, pricingTaxRate]
+  );
 
   const activeGoods = goods.filter((good) => good.status === 'active');
   const availableRfqs = rfqs.filter(
@@ -542,7 +572,7 @@ export default function Quotations() {
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
           <input
             type="text"
-            placeholder="Search quotations by number, RFQ, company, goods, or creator..."
+            placeholder="Search quotations by number, company, PIC, or goods..."
             value={searchTerm}
             onChange={(event) => setSearchTerm(event.target.value)}
             className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
@@ -579,7 +609,7 @@ export default function Quotations() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredQuotations.length === 0 ? (
+              {quotations.length === 0 ? (
                 <tr>
                   <td colSpan={7} className="px-6 py-12 text-center">
                     <FileCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -587,7 +617,7 @@ export default function Quotations() {
                   </td>
                 </tr>
               ) : (
-                filteredQuotations.map((quotation) => (
+                quotations.map((quotation) => (
                   <tr key={quotation.id} className="hover:bg-gray-50 dark:hover:bg-slate-800/60">
                     <td className="px-6 py-4">
                       <div className="text-sm font-medium text-gray-900">
@@ -625,7 +655,7 @@ export default function Quotations() {
                     </td>
                     <td className="px-6 py-4 text-right">
                       <button
-                        onClick={() => setDetailQuotation(quotation)}
+                        onClick={() => openQuotationDetail(quotation)}
                         className="inline-flex items-center p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition dark:text-blue-300 dark:hover:bg-blue-500/10"
                       >
                         <Eye className="h-4 w-4" />
@@ -660,6 +690,7 @@ export default function Quotations() {
             </tbody>
           </table>
         </div>
+        <Pagination page={page} pageCount={pageCount} pageSize={pageSize} total={total} onPageChange={setPage} />
       </div>
 
       {showModal && (
@@ -685,11 +716,12 @@ export default function Quotations() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Quotation Number <span className="text-red-500">*</span>
+                    Quotation Number
                   </label>
                   <input
                     type="text"
                     value={formData.quotation_number}
+                    placeholder="Assigned when saved"
                     readOnly
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
                   />
@@ -778,7 +810,7 @@ export default function Quotations() {
                 <div>
                   <p className="text-sm font-semibold text-gray-900">Include Tax</p>
                   <p className="text-xs text-gray-500">
-                    Turn off to add {taxRate}% tax on top of the total.
+                    Turn off to add {pricingTaxRate}% tax on top of the total.
                   </p>
                 </div>
                 <label className="inline-flex items-center cursor-pointer">
@@ -828,6 +860,7 @@ export default function Quotations() {
                         <th className="px-3 py-2 text-left">
                           Price <span className="text-red-500">*</span>
                         </th>
+                        <th className="px-3 py-2 text-left">Discount (%)</th>
                         <th className="px-3 py-2 text-left">
                           Delivery Time (days) <span className="text-red-500">*</span>
                         </th>
@@ -905,6 +938,19 @@ export default function Quotations() {
                                 required
                               />
                             </td>
+                            <td className="px-3 py-2">
+                              <input
+                                type="number"
+                                min="0"
+                                max="100"
+                                step="0.01"
+                                value={row.discount ?? ''}
+                                onChange={(event) =>
+                                  handleGoodsRowChange(index, 'discount', event.target.value)
+                                }
+                                className="w-20 px-2 py-1 border border-gray-300 rounded-lg bg-white dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+                              />
+                            </td>
                             <td className="px-3 py-2">
                               <input
                                 type="number"
@@ -940,7 +986,7 @@ export default function Quotations() {
                   <span>Rp {formatRupiah(Number(calculatedTotals.totalAmount) || 0)}</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span>Tax ({taxRate}%)</span>
+                  <span>Tax ({pricingTaxRate}%)</span>
                   <span>Rp {formatRupiah(Number(calculatedTotals.taxAmount) || 0)}</span>
                 </div>
                 <div className="flex items-center justify-between font-semibold text-gray-900 dark:text-slate-100">
@@ -1016,6 +1062,35 @@ export default function Quotations() {
         </div>
       )}
 
+      {conflict && (
+        <RecordConflictDialog
+          recordName={`quotation ${conflict.current.quotation_number}`}
+          fields={[
+            {
+              label: 'Payment Time',
+              mine: conflict.payload.payment_time || '',
+              saved: conflict.current.payment_time || '',
+            },
+            {
+              label: 'Include Tax',
+              mine: conflict.payload.include_tax ? 'Yes' : 'No',
+              saved: conflict.current.include_tax ? 'Yes' : 'No',
+            },
+            { label: 'Goods', mine: describeGoods(conflict.payload.goods), saved: describeGoods(conflict.current.goods) },
+            {
+              label: 'Grand Total',
+              mine: `Rp ${formatRupiah(Number(conflict.payload.grand_total) || 0)}`,
+              saved: `Rp ${formatRupiah(Number(conflict.current.grand_total) || 0)}`,
+            },
+            { label: 'Status', mine: editingQuotation?.status || '', saved: conflict.current.status },
+          ]}
+          saving={resolvingConflict}
+          onOverwrite={overwriteConflict}
+          onUseSaved={loadSavedQuotation}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       {detailQuotation && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
           <div className="bg-white rounded-xl shadow-lg w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto">
@@ -1024,13 +1099,22 @@ export default function Quotations() {
                 <p className="text-sm text-gray-500 font-semibold uppercase">Quotation Details</p>
                 <h2 className="text-xl font-bold text-gray-900">{detailQuotation.quotation_number}</h2>
               </div>
-              <button
-                onClick={() => setDetailQuotation(null)}
-                className="p-2 rounded-full hover:bg-gray-100 transition dark:hover:bg-slate-800/60"
-                aria-label="Close quotation details"
-              >
-                <X className="h-5 w-5 text-gray-600 dark:text-slate-200" />
-              </button>
+              <div className="flex items-center gap-3">
+                <SendToClientButton table="quotations" id={detailQuotation.id} ownerId={detailQuotation.performed_by} />
+                <DocumentPdfButtons
+                  table="quotations"
+                  id={detailQuotation.id}
+                  label="Quotation"
+                  number={detailQuotation.quotation_number || detailQuotation.id}
+                />
+                <button
+                  onClick={() => navigate(buildPath('quotations'))}
+                  className="p-2 rounded-full hover:bg-gray-100 transition dark:hover:bg-slate-800/60"
+                  aria-label="Close quotation details"
+                >
+                  <X className="h-5 w-5 text-gray-600 dark:text-slate-200" />
+                </button>
+              </div>
             </div>
             <div className="p-6 space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
@@ -1096,6 +1180,7 @@ export default function Quotations() {
                         <th className="px-3 py-2 text-left">Unit</th>
                         <th className="px-3 py-2 text-left">Qty</th>
                         <th className="px-3 py-2 text-left">Price</th>
+                        <th className="px-3 py-2 text-left">Discount</th>
                         <th className="px-3 py-2 text-left">Delivery Time (days)</th>
                         <th className="px-3 py-2 text-left">Subtotal</th>
                       </tr>
@@ -1109,10 +1194,9 @@ export default function Quotations() {
                           <td className="px-3 py-2">{row.unit || '-'}</td>
                           <td className="px-3 py-2">{row.qty}</td>
                           <td className="px-3 py-2">Rp {formatRupiah(Number(row.price) || 0)}</td>
+                          <td className="px-3 py-2">{Number(row.discount) ? `${Number(row.discount)}%` : '-'}</td>
                           <td className="px-3 py-2">{row.delivery_time ?? '-'}</td>
-                          <td className="px-3 py-2">
-                            Rp {formatRupiah((Number(row.qty) || 0) * (Number(row.price) || 0))}
-                          </td>
+                          <td className="px-3 py-2">Rp {formatRupiah(calculateLineSubtotal(row))}</td>
                         </tr>
                       ))}
                     </tbody>
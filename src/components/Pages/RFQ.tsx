@@ -1,7 +1,12 @@
-import { useState, useEffect, ChangeEvent, FormEvent, useMemo } from 'react';
-import { addRecord, getRecords, updateRecord } from '../../lib/api';
+import { useCallback, useState, useEffect, useMemo, ChangeEvent, FormEvent } from 'react';
+import { addRecord, getRecords, updateRecord, uploadFile } from '../../lib/api';
 import { Plus, FileText, UploadCloud, Trash2, Search, Eye, Edit2 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import FileLink from '../Files/FileLink';
+import { usePagedRecords } from '../../lib/pagination';
+import { useRouteRecord } from '../../lib/recordRoute';
+import { buildPath, navigate } from '../../lib/router';
+import Pagination from '../Layout/Pagination';
 
 interface RFQGoodItem {
   type: 'existing' | 'other';
@@ -63,31 +68,43 @@ const DEFAULT_FORM = {
   deadline_days: '' as number | '',
 };
 
-export default function RFQ() {
-  const { profile } = useAuth();
-  const apiRoot = useMemo(
-    () => (import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api').replace(/\/api$/, ''),
-    [],
-  );
-  const [rfqs, setRfqs] = useState<RFQType[]>([]);
+const isExpiredDraft = (item: RFQType, now = Date.now()) =>
+  item.status === 'draft' &&
+  (now - new Date(item.created_at).getTime()) / (1000 * 60 * 60 * 24) > (Number(item.deadline_days) || 30);
+
+interface RFQProps {
+  recordId?: string | null;
+}
+
+export default function RFQ({ recordId }: RFQProps) {
+  const { can } = useAuth();
   const [goods, setGoods] = useState<GoodOption[]>([]);
   const [clients, setClients] = useState<ClientOption[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [editingRfq, setEditingRfq] = useState<RFQType | null>(null);
   const [detailRfq, setDetailRfq] = useState<RFQType | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const {
+    records: rfqRecords,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    loading,
+    setPage,
+    reload: reloadRfqs,
+  } = usePagedRecords<RFQType>('rfqs', { search: searchTerm });
   const [goodsSearch, setGoodsSearch] = useState('');
   const [clientSearch, setClientSearch] = useState('');
   const [selectedGoods, setSelectedGoods] = useState<string[]>([]);
   const [otherGoods, setOtherGoods] = useState<string[]>(['']);
-  const [attachmentData, setAttachmentData] = useState<string | null>(null);
+  const [attachmentFile, setAttachmentFile] = useState<File | null>(null);
   const [formData, setFormData] = useState(DEFAULT_FORM);
   const [goodsError, setGoodsError] = useState('');
   const [attachmentError, setAttachmentError] = useState('');
   const [contactError, setContactError] = useState('');
-  const editableRoles = ['superadmin', 'admin', 'manager'];
   const normalizePhoneInput = (value: string) => {
     const trimmed = value.trim();
     if (trimmed === '-') return '-';
@@ -109,82 +126,23 @@ export default function RFQ() {
     return colors[status] || 'bg-gray-100 text-gray-800 dark:bg-slate-700 dark:text-slate-100';
   };
   const canEditRfq = (rfq: RFQType) => {
-    if (!profile) return false;
     if (rfq.status !== 'draft') return false;
-    if (editableRoles.includes(profile.role)) return true;
-    if (!rfq.performed_by || !profile.id) return false;
-    return String(rfq.performed_by) === String(profile.id);
+    return can('rfqs', 'update', rfq.performed_by);
   };
 
-  useEffect(() => {
-    fetchData();
-    const interval = window.setInterval(() => {
-      fetchData();
-    }, 15000);
-    const handleVisibility = () => {
-      if (document.visibilityState === 'visible') {
-        fetchData();
-      }
-    };
-    document.addEventListener('visibilitychange', handleVisibility);
-    return () => {
-      window.clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibility);
-    };
-  }, []);
-
-  const fetchData = async () => {
+  const fetchLookups = useCallback(async () => {
     try {
-      setLoading(true);
-      const [rfqData, goodsData, userData, clientData] = await Promise.all([
-        getRecords<RFQType>('rfqs'),
+      const [goodsData, userData, clientData] = await Promise.all([
         getRecords<GoodOption>('goods'),
         getRecords<UserOption>('users'),
         getRecords<ClientOption>('clients'),
       ]);
 
-      const now = Date.now();
-      const expiredDrafts = rfqData.filter((item) => {
-        if (item.status !== 'draft') return false;
-        const createdAt = new Date(item.created_at).getTime();
-        const daysSince = (now - createdAt) / (1000 * 60 * 60 * 24);
-        const deadline = Number(item.deadline_days) || 30;
-        return daysSince > deadline;
-      });
-      if (expiredDrafts.length > 0) {
-        await Promise.all(
-          expiredDrafts.map((item) =>
-            updateRecord<RFQType>('rfqs', item.id, {
-              status: 'expired',
-              performed_by: profile?.id,
-              performer_role: profile?.role,
-            })
-          )
-        );
-      }
-
-      const userMap = userData.reduce<Record<string, string>>((acc, user) => {
-        const name = user.full_name || user.email || 'User';
-        acc[String(user.id)] = name;
-        return acc;
-      }, {});
-
-      setRfqs(
-        rfqData
-          .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-          .map((item) => ({
-            ...item,
-            status:
-              item.status === 'draft' &&
-              (now - new Date(item.created_at).getTime()) / (1000 * 60 * 60 * 24) >
-                (Number(item.deadline_days) || 30)
-                ? 'expired'
-                : item.status,
-            requester_name:
-              item.requester_name ||
-              (item.performed_by ? userMap[String(item.performed_by)] : null) ||
-              'Unknown user',
-          })),
+      setUserNames(
+        userData.reduce<Record<string, string>>((acc, user) => {
+          acc[String(user.id)] = user.full_name || user.email || 'User';
+          return acc;
+        }, {}),
       );
       setGoods(
         goodsData.map((good) => ({
@@ -199,29 +157,75 @@ export default function RFQ() {
       setClients(clientData);
     } catch (error) {
       console.error('Error fetching RFQs or goods:', error);
-    } finally {
-      setLoading(false);
     }
+  }, []);
+
+  useEffect(() => {
+    fetchLookups();
+    const refresh = () => {
+      reloadRfqs();
+      fetchLookups();
+    };
+    const interval = window.setInterval(refresh, 15000);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') {
+        refresh();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [fetchLookups, reloadRfqs]);
+
+  // Drafts past their deadline are marked expired as they are listed.
+  useEffect(() => {
+    const expiredDrafts = rfqRecords.filter((item) => isExpiredDraft(item));
+    if (!expiredDrafts.length) return;
+    Promise.all(
+      expiredDrafts.map((item) =>
+        updateRecord<RFQType>('rfqs', item.id, {
+          status: 'expired',
+        })
+      )
+    ).catch((error) => console.error('Error expiring RFQs:', error));
+  }, [rfqRecords]);
+
+  const toDisplayRfq = useCallback(
+    (item: RFQType, now: number) => ({
+      ...item,
+      status: isExpiredDraft(item, now) ? 'expired' : item.status,
+      requester_name:
+        item.requester_name ||
+        (item.performed_by ? userNames[String(item.performed_by)] : null) ||
+        'Unknown user',
+    }),
+    [userNames],
+  );
+
+  const rfqs = useMemo(() => {
+    const now = Date.now();
+    return rfqRecords.map((item) => toDisplayRfq(item, now));
+  }, [rfqRecords, toDisplayRfq]);
+  useRouteRecord<RFQType>(
+    'rfqs',
+    recordId,
+    detailRfq?.id,
+    (rfq) => setDetailRfq(toDisplayRfq(rfq, Date.now())),
+    () => setDetailRfq(null),
+  );
+
+  const openRfqDetail = (rfq: RFQType) => {
+    setDetailRfq(rfq);
+    navigate(buildPath('rfq', rfq.id));
   };
 
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-    if (file.size > 5 * 1024 * 1024) {
-      event.target.value = '';
-      setAttachmentData(null);
-      return;
-    }
-
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result?.toString();
-      if (result) {
-        setAttachmentData(result);
-        if (attachmentError) setAttachmentError('');
-      }
-    };
-    reader.readAsDataURL(file);
+    setAttachmentFile(file);
+    if (attachmentError) setAttachmentError('');
   };
 
   const handleClientChange = (clientId: string) => {
@@ -246,7 +250,7 @@ export default function RFQ() {
     setFormData(DEFAULT_FORM);
     setSelectedGoods([]);
     setOtherGoods(['']);
-    setAttachmentData(null);
+    setAttachmentFile(null);
     setGoodsSearch('');
     setClientSearch('');
     setEditingRfq(null);
@@ -279,7 +283,7 @@ export default function RFQ() {
           .map((item) => String(item.good_id)),
       );
       setOtherGoods(rfq.goods.filter((item) => item.type === 'other' && item.name).map((item) => item.name || ''));
-      setAttachmentData(null);
+      setAttachmentFile(null);
     } else {
       resetForm();
     }
@@ -329,11 +333,20 @@ export default function RFQ() {
         setGoodsError('At least one item is required.');
         return;
       }
-      if (!editingRfq && !attachmentData) {
+      if (!editingRfq && !attachmentFile) {
         setAttachmentError('Document is required.');
         return;
       }
       setSaving(true);
+      let attachmentFileId: string | null = null;
+      if (attachmentFile) {
+        try {
+          attachmentFileId = (await uploadFile(attachmentFile, 'rfq_attachment')).id;
+        } catch (error) {
+          setAttachmentError(error instanceof Error ? error.message : 'Failed to upload document.');
+          return;
+        }
+      }
       const goodsPayload = [
         ...selectedGoods.map((goodId) => ({ type: 'existing', good_id: goodId })),
         ...otherGoods
@@ -348,9 +361,7 @@ export default function RFQ() {
         client_id: formData.client_id,
         deadline_days: formData.deadline_days === '' ? 30 : Number(formData.deadline_days),
         goods: goodsPayload,
-        attachment_data: attachmentData,
-        performed_by: profile?.id,
-        performer_role: profile?.role,
+        attachment_file_id: attachmentFileId,
       } as any;
 
       if (editingRfq) {
@@ -363,7 +374,7 @@ export default function RFQ() {
         await addRecord<RFQType>('rfqs', payload);
       }
 
-      await fetchData();
+      reloadRfqs();
       closeModal();
     } catch (error) {
       console.error('Failed to save RFQ', error);
@@ -380,16 +391,6 @@ export default function RFQ() {
       .join(', ');
   };
 
-  const filteredRfqs = rfqs.filter((rfq) => {
-    const query = searchTerm.toLowerCase();
-    return (
-      rfq.rfq_number.toLowerCase().includes(query) ||
-      rfq.company_name.toLowerCase().includes(query) ||
-      renderGoodsList(rfq).toLowerCase().includes(query) ||
-      (rfq.requester_name || '').toLowerCase().includes(query)
-    );
-  });
-
   const filteredGoods = goods.filter((good) => {
     const query = goodsSearch.trim().toLowerCase();
     if (!query) return true;
@@ -455,7 +456,7 @@ export default function RFQ() {
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200 bg-white">
-              {filteredRfqs.length === 0 ? (
+              {rfqs.length === 0 ? (
                 <tr>
                   <td colSpan={7} className="px-6 py-10 text-center text-gray-500">
                     <div className="flex flex-col items-center">
@@ -465,7 +466,7 @@ export default function RFQ() {
                   </td>
                 </tr>
               ) : (
-                filteredRfqs.map((rfq) => (
+                rfqs.map((rfq) => (
                   <tr key={rfq.id} className="hover:bg-gray-50 dark:hover:bg-slate-800/60">
                     <td className="px-6 py-4 text-sm text-gray-900">
                       <div className="font-semibold">{rfq.rfq_number}</div>
@@ -491,7 +492,7 @@ export default function RFQ() {
                     </td>
                     <td className="px-6 py-4 text-right space-x-2">
                       <button
-                        onClick={() => setDetailRfq(rfq)}
+                        onClick={() => openRfqDetail(rfq)}
                         className="inline-flex items-center p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition dark:text-blue-300 dark:hover:bg-blue-500/10"
                         aria-label="View RFQ details"
                       >
@@ -516,6 +517,7 @@ export default function RFQ() {
             </tbody>
           </table>
         </div>
+        <Pagination page={page} pageCount={pageCount} pageSize={pageSize} total={total} onPageChange={setPage} />
       </div>
 
       {showModal && (
@@ -810,24 +812,22 @@ export default function RFQ() {
                     <p className="text-sm text-gray-800">
                       Upload supporting file <span className="text-red-500">*</span>
                     </p>
-                    <p className="text-xs text-gray-500">PDF or image, max 5MB</p>
+                    <p className="text-xs text-gray-500">PDF, image or Office document, max 5MB</p>
                     <input
                       type="file"
-                      accept=".pdf,image/*"
+                      accept=".pdf,image/*,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
                       className="mt-2"
                       onChange={handleFileChange}
                       required={!editingRfq}
                     />
-                    {attachmentData && <p className="text-xs text-green-600 mt-1">File attached</p>}
-                    {editingRfq?.attachment_url && !attachmentData && (
-                      <a
-                        href={`${apiRoot}${editingRfq.attachment_url}`}
-                        target="_blank"
-                        rel="noreferrer"
+                    {attachmentFile && <p className="text-xs text-green-600 mt-1">File attached</p>}
+                    {editingRfq?.attachment_url && !attachmentFile && (
+                      <FileLink
+                        url={editingRfq.attachment_url}
                         className="text-xs text-blue-600 hover:underline block mt-1"
                       >
                         View current attachment
-                      </a>
+                      </FileLink>
                     )}
                     {attachmentError && <p className="text-xs text-red-600 mt-1">{attachmentError}</p>}
                   </div>
@@ -864,7 +864,7 @@ export default function RFQ() {
                 <p className="text-sm text-gray-600">{detailRfq.rfq_number}</p>
               </div>
               <button
-                onClick={() => setDetailRfq(null)}
+                onClick={() => navigate(buildPath('rfq'))}
                 className="text-gray-500 hover:text-gray-700 dark:text-slate-300 dark:hover:text-slate-100"
                 aria-label="Close RFQ details"
               >
@@ -914,14 +914,9 @@ export default function RFQ() {
               {detailRfq.attachment_url && (
                 <div>
                   <p className="font-semibold text-gray-700">Attachment</p>
-                  <a
-                    href={`${apiRoot}${detailRfq.attachment_url}`}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="text-blue-600 hover:underline"
-                  >
+                  <FileLink url={detailRfq.attachment_url} className="text-blue-600 hover:underline">
                     View attached document
-                  </a>
+                  </FileLink>
                 </div>
               )}
             </div>
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { getRecycleBin, purgeRecycledRecord, RecycledRecord, restoreRecycledRecord, TableName } from '../../lib/api';
+
+const RECORD_LABELS: Partial<Record<TableName, { one: string; many: string }>> = {
+  rfqs: { one: 'RFQ', many: 'RFQs' },
+  quotations: { one: 'Quotation', many: 'Quotations' },
+  sales_orders: { one: 'Sales Order', many: 'Sales Orders' },
+  delivery_orders: { one: 'Delivery Order', many: 'Delivery Orders' },
+  invoices: { one: 'Invoice', many: 'Invoices' },
+};
+
+const describeRelated = (related: RecycledRecord['related']) =>
+  Object.entries(related)
+    .map(([table, count]) => {
+      const label = RECORD_LABELS[table as TableName];
+      return `${count} ${count === 1 ? label?.one || table : label?.many || table}`;
+    })
+    .join(', ');
+
+export default function RecycleBin() {
+  const [records, setRecords] = useState<RecycledRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRecords = async () => {
+    try {
+      setRecords(await getRecycleBin());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load recycle bin', err);
+      setError('Unable to load the recycle bin.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRecords();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setWorking(true);
+    setError(null);
+    try {
+      await action();
+      await loadRecords();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const describeRecord = (record: RecycledRecord) =>
+    `${RECORD_LABELS[record.table]?.one || record.table} ${record.number || `#${record.id}`}`;
+
+  const handleRestore = (record: RecycledRecord) => {
+    const related = describeRelated(record.related);
+    if (!confirm(`Restore ${describeRecord(record)}${related ? ` together with ${related}` : ''}?`)) return;
+    run(() => restoreRecycledRecord(record.table, record.id));
+  };
+
+  const handlePurge = (record: RecycledRecord) => {
+    const related = describeRelated(record.related);
+    if (
+      !confirm(
+        `Permanently delete ${describeRecord(record)}${related ? ` and ${related}` : ''}? This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+    run(() => purgeRecycledRecord(record.table, record.id));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Recycle Bin</h1>
+        <p className="text-gray-600 mt-1">
+          Deleted RFQs, quotations, sales orders, delivery orders and invoices. Restore them or delete them for good.
+        </p>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Record
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Client
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Deleted
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {records.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center text-gray-500">
+                    <Trash2 className="h-10 w-10 text-gray-400 mx-auto mb-4" />
+                    The recycle bin is empty.
+                  </td>
+                </tr>
+              ) : (
+                records.map((record) => {
+                  const related = describeRelated(record.related);
+                  return (
+                    <tr key={`${record.table}-${record.id}`} className="hover:bg-gray-50 dark:hover:bg-slate-800/60">
+                      <td className="px-6 py-4">
+                        <div className="font-semibold text-gray-900">{describeRecord(record)}</div>
+                        {related && <div className="text-xs text-gray-500">Deleted with {related}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-gray-700">{record.company_name || '-'}</td>
+                      <td className="px-6 py-4 text-gray-700">
+                        <div>{new Date(record.deleted_at).toLocaleString()}</div>
+                        {record.deleted_by_name && (
+                          <div className="text-xs text-gray-500">by {record.deleted_by_name}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right space-x-2 whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => handleRestore(record)}
+                          disabled={working}
+                          className="inline-flex items-center px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handlePurge(record)}
+                          disabled={working}
+                          className="inline-flex items-center px-3 py-1.5 text-sm bg-red-50 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete Permanently
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import {
+  Capability,
+  createRole,
+  deleteRole,
+  getPermissionMatrix,
+  PermissionMatrix,
+  PermissionScope,
+  updateRolePermissions,
+} from '../../lib/api';
+
+const SUPERADMIN_ROLE = 'superadmin';
+
+export default function RolePermissions() {
+  const [matrix, setMatrix] = useState<PermissionMatrix | null>(null);
+  const [selectedRole, setSelectedRole] = useState('');
+  const [draftGrants, setDraftGrants] = useState<Record<string, PermissionScope>>({});
+  const [newRole, setNewRole] = useState({ name: '', label: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const applyMatrix = (data: PermissionMatrix, role: string) => {
+    const nextRole = data.roles.some((entry) => entry.name === role)
+      ? role
+      : data.roles.find((entry) => entry.name !== SUPERADMIN_ROLE)?.name || '';
+    setMatrix(data);
+    setSelectedRole(nextRole);
+    setDraftGrants(data.grants[nextRole] || {});
+  };
+
+  useEffect(() => {
+    getPermissionMatrix()
+      .then((data) => applyMatrix(data, ''))
+      .catch((err) => {
+        console.error('Failed to load permission matrix', err);
+        setError('Unable to load roles and permissions.');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const capabilityGroups = useMemo(() => {
+    const groups = new Map<string, Capability[]>();
+    matrix?.capabilities.forEach((capability) => {
+      groups.set(capability.group, [...(groups.get(capability.group) || []), capability]);
+    });
+    return Array.from(groups.entries());
+  }, [matrix]);
+
+  const currentRole = matrix?.roles.find((role) => role.name === selectedRole);
+  const isSuperadmin = selectedRole === SUPERADMIN_ROLE;
+
+  const selectRole = (role: string) => {
+    setSelectedRole(role);
+    setDraftGrants(matrix?.grants[role] || {});
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleScopeChange = (capability: string, scope: PermissionScope | '') => {
+    setDraftGrants((prev) => {
+      const next = { ...prev };
+      if (scope) {
+        next[capability] = scope;
+      } else {
+        delete next[capability];
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!selectedRole || isSuperadmin) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await updateRolePermissions(selectedRole, draftGrants);
+      applyMatrix(data, selectedRole);
+      setMessage(`Permissions for ${currentRole?.label || selectedRole} saved.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save permissions.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateRole = async (event: FormEvent) => {
+    event.preventDefault();
+    const name = newRole.name.trim().toLowerCase();
+    if (!name) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await createRole(name, newRole.label.trim() || name);
+      applyMatrix(data, name);
+      setNewRole({ name: '', label: '' });
+      setMessage(`Role ${name} created. Grant it permissions below.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create role.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRole = async () => {
+    if (!currentRole || currentRole.is_system) return;
+    if (!confirm(`Delete role ${currentRole.label}?`)) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await deleteRole(currentRole.name);
+      applyMatrix(data, '');
+      setMessage(`Role ${currentRole.label} deleted.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete role.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 text-gray-600">
+        Loading roles...
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+      <div className="flex items-start gap-3">
+        <ShieldCheck className="h-6 w-6 text-blue-600 mt-1" />
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Roles & Permissions</h2>
+          <p className="text-sm text-gray-600">
+            Choose what each role can do. The API applies changes immediately; signed-in users see them in the menu after reloading.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {matrix?.roles.map((role) => (
+          <button
+            key={role.name}
+            type="button"
+            onClick={() => selectRole(role.name)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition ${
+              role.name === selectedRole
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {role.label}
+          </button>
+        ))}
+      </div>
+
+      {isSuperadmin ? (
+        <p className="text-sm text-gray-600">Superadmin always has every permission and cannot be restricted.</p>
+      ) : (
+        <div className="space-y-5">
+          {capabilityGroups.map(([group, capabilities]) => (
+            <div key={group}>
+              <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-2">{group}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {capabilities.map((capability) => (
+                  <label
+                    key={capability.key}
+                    className="flex items-center justify-between gap-3 px-3 py-2 border border-gray-200 rounded-lg"
+                  >
+                    <span className="text-sm text-gray-800">{capability.label}</span>
+                    <select
+                      value={draftGrants[capability.key] || ''}
+                      onChange={(event) =>
+                        handleScopeChange(capability.key, event.target.value as PermissionScope | '')
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">No access</option>
+                      <option value="all">All records</option>
+                      {capability.ownable && <option value="own">Own records</option>}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-emerald-600">{message}</p>}
+
+      <div className="flex flex-wrap justify-between gap-3">
+        {currentRole && !currentRole.is_system ? (
+          <button
+            type="button"
+            onClick={handleDeleteRole}
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 rounded-lg bg-red-50 text-red-700 hover:bg-red-100 disabled:opacity-60"
+          >
+            <Trash2 className="h-4 w-4 mr-1" /> Delete Role
+          </button>
+        ) : (
+          <span />
+        )}
+        {!isSuperadmin && (
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || !selectedRole}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-60"
+          >
+            {saving ? 'Saving...' : 'Save Permissions'}
+          </button>
+        )}
+      </div>
+
+      <form onSubmit={handleCreateRole} className="border-t border-gray-200 pt-5 grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input
+          type="text"
+          value={newRole.name}
+          onChange={(event) => setNewRole((prev) => ({ ...prev, name: event.target.value }))}
+          placeholder="Role key, e.g. finance"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+          required
+        />
+        <input
+          type="text"
+          value={newRole.label}
+          onChange={(event) => setNewRole((prev) => ({ ...prev, label: event.target.value }))}
+          placeholder="Display name, e.g. Finance"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center justify-center px-4 py-2 rounded-lg border border-blue-600 text-blue-700 hover:bg-blue-50 disabled:opacity-60"
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Role
+        </button>
+      </form>
+    </div>
+  );
+}
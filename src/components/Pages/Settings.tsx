@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
-import { addRecord, getRecords, updateRecord } from '../../lib/api';
+import { addRecord, getRecords, updateRecord, uploadFile } from '../../lib/api';
 import { useAuth } from '../../contexts/AuthContext';
+import RolePermissions from './RolePermissions';
+import FileImage from '../Files/FileImage';
 
 interface CompanySetting {
   id?: string;
@@ -12,6 +14,13 @@ interface CompanySetting {
   phone: string;
   bank_name: string;
   bank_account: string;
+  quotation_number_format: string;
+  delivery_number_format: string;
+  invoice_number_format: string;
+  quotation_email_subject: string;
+  quotation_email_body: string;
+  invoice_email_subject: string;
+  invoice_email_body: string;
   logo_url?: string | null;
 }
 
@@ -25,9 +34,34 @@ const EMPTY_SETTING: CompanySetting = {
   phone: '+6282170179410',
   bank_name: '',
   bank_account: '',
+  quotation_number_format: '{seq}/RGI/QTN/{roman_month}/{year}',
+  delivery_number_format: '{seq}/RGI/DO/{roman_month}/{year}',
+  invoice_number_format: '{seq}/RGI/INV/{roman_month}/{year}',
+  quotation_email_subject: 'Quotation {number} from {company}',
+  quotation_email_body:
+    'Dear {recipient},\n\nPlease find attached our quotation {number} with a total of {grand_total}.\n\n' +
+    'We look forward to hearing from you.\n\nBest regards,\n{sender}\n{company}',
+  invoice_email_subject: 'Invoice {number} from {company}',
+  invoice_email_body:
+    'Dear {recipient},\n\nPlease find attached invoice {number} for {grand_total}. Payment details are on the ' +
+    'invoice.\n\nThank you for your business.\n\nBest regards,\n{sender}\n{company}',
   logo_url: null,
 };
 
+const NUMBER_FORMAT_FIELDS = [
+  { key: 'quotation_number_format', label: 'Quotation Number Format' },
+  { key: 'delivery_number_format', label: 'Delivery Number Format' },
+  { key: 'invoice_number_format', label: 'Invoice Number Format' },
+] as const;
+
+const EMAIL_TEMPLATE_FIELDS = [
+  { subject: 'quotation_email_subject', body: 'quotation_email_body', label: 'Quotation Email' },
+  { subject: 'invoice_email_subject', body: 'invoice_email_body', label: 'Invoice Email' },
+] as const;
+
+// Numbering restarts every year, so the year has to be part of the number.
+const isValidNumberFormat = (value: string) => value.includes('{seq}') && value.includes('{year}');
+
 const normalizePhoneInput = (value: string) => {
   const digits = value.replace(/\D/g, '');
   if (!digits) return '';
@@ -38,16 +72,15 @@ const normalizePhoneInput = (value: string) => {
 const isValidPhone = (value: string) => /^\+62\d{6,}$/.test(value);
 
 export default function Settings() {
-  const { profile } = useAuth();
+  const { profile, can } = useAuth();
   const [settings, setSettings] = useState<CompanySetting | null>(null);
   const [formData, setFormData] = useState<CompanySetting>(EMPTY_SETTING);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [logoData, setLogoData] = useState<string | null>(null);
+  const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
-  const apiRoot = (import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api').replace(/\/api$/, '');
 
   useEffect(() => {
     const fetchSettings = async () => {
@@ -65,10 +98,17 @@ export default function Settings() {
             phone: normalizePhoneInput(current.phone || EMPTY_SETTING.phone),
             bank_name: current.bank_name || '',
             bank_account: current.bank_account || '',
+            quotation_number_format: current.quotation_number_format || EMPTY_SETTING.quotation_number_format,
+            delivery_number_format: current.delivery_number_format || EMPTY_SETTING.delivery_number_format,
+            invoice_number_format: current.invoice_number_format || EMPTY_SETTING.invoice_number_format,
+            quotation_email_subject: current.quotation_email_subject || EMPTY_SETTING.quotation_email_subject,
+            quotation_email_body: current.quotation_email_body || EMPTY_SETTING.quotation_email_body,
+            invoice_email_subject: current.invoice_email_subject || EMPTY_SETTING.invoice_email_subject,
+            invoice_email_body: current.invoice_email_body || EMPTY_SETTING.invoice_email_body,
             logo_url: current.logo_url || null,
           });
           if (current.logo_url) {
-            setLogoPreview(`${apiRoot}${current.logo_url}`);
+            setLogoPreview(current.logo_url);
           }
         }
       } catch (error) {
@@ -79,19 +119,13 @@ export default function Settings() {
     };
 
     fetchSettings();
-  }, [apiRoot]);
+  }, []);
 
   const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result?.toString();
-      if (!result) return;
-      setLogoData(result);
-      setLogoPreview(result);
-    };
-    reader.readAsDataURL(file);
+    setLogoFile(file);
+    setLogoPreview(URL.createObjectURL(file));
   };
 
   const handleSubmit = async (event: React.FormEvent) => {
@@ -123,6 +157,11 @@ export default function Settings() {
         setSaving(false);
         return;
       }
+      if (NUMBER_FORMAT_FIELDS.some(({ key }) => !isValidNumberFormat(formData[key].trim()))) {
+        setFormError('Number formats must contain {seq} and {year}.');
+        setSaving(false);
+        return;
+      }
 
       const payload: Record<string, unknown> = {
         company_name: formData.company_name,
@@ -133,11 +172,17 @@ export default function Settings() {
         phone: normalizedPhone,
         bank_name: formData.bank_name,
         bank_account: formData.bank_account,
-        performed_by: profile?.id,
+        quotation_number_format: formData.quotation_number_format.trim(),
+        delivery_number_format: formData.delivery_number_format.trim(),
+        invoice_number_format: formData.invoice_number_format.trim(),
+        quotation_email_subject: formData.quotation_email_subject.trim(),
+        quotation_email_body: formData.quotation_email_body,
+        invoice_email_subject: formData.invoice_email_subject.trim(),
+        invoice_email_body: formData.invoice_email_body,
       };
 
-      if (logoData) {
-        payload.logo_data = logoData;
+      if (logoFile) {
+        payload.logo_file_id = (await uploadFile(logoFile, 'company_logo')).id;
       }
 
       let saved: CompanySetting | null = null;
@@ -149,21 +194,21 @@ export default function Settings() {
 
       if (saved) {
         setSettings(saved);
-        setLogoData(null);
+        setLogoFile(null);
         if (saved.logo_url) {
-          setLogoPreview(`${apiRoot}${saved.logo_url}`);
+          setLogoPreview(saved.logo_url);
         }
       }
       setShowSuccessModal(true);
     } catch (error) {
       console.error('Failed to save settings', error);
-      alert('Failed to save settings. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to save settings. Please try again.');
     } finally {
       setSaving(false);
     }
   };
 
-  if (!profile || profile.role !== 'superadmin') {
+  if (!profile || !can('settings', 'update')) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-gray-600">You do not have access to this page.</div>
@@ -310,6 +355,61 @@ export default function Settings() {
           </div>
         </div>
 
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Document Numbering</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Numbers are assigned when a document is saved. Use {'{seq}'} for the running number (restarts every
+            year), {'{year}'}, {'{month}'} and {'{roman_month}'}.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3">
+            {NUMBER_FORMAT_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {label} <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData[key]}
+                  onChange={(event) => setFormData((prev) => ({ ...prev, [key]: event.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                  required
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Client Emails</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Starting text for Send to Client, editable before each send. Use {'{number}'}, {'{client}'},{' '}
+            {'{recipient}'}, {'{grand_total}'}, {'{sender}'} and {'{company}'}.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+            {EMAIL_TEMPLATE_FIELDS.map(({ subject, body, label }) => (
+              <div key={subject} className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">{label}</label>
+                <input
+                  type="text"
+                  value={formData[subject]}
+                  onChange={(event) => setFormData((prev) => ({ ...prev, [subject]: event.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm"
+                  aria-label={`${label} subject`}
+                  required
+                />
+                <textarea
+                  value={formData[body]}
+                  onChange={(event) => setFormData((prev) => ({ ...prev, [body]: event.target.value }))}
+                  rows={8}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm"
+                  aria-label={`${label} message`}
+                  required
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
         {formError && <p className="text-sm text-red-600">{formError}</p>}
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -322,7 +422,7 @@ export default function Settings() {
           </div>
           {logoPreview && (
             <div className="flex items-center justify-center border border-dashed border-gray-200 rounded-lg p-3 bg-gray-50">
-              <img src={logoPreview} alt="Company logo preview" className="max-h-20 object-contain" />
+              <FileImage url={logoPreview} alt="Company logo preview" className="max-h-20 object-contain" />
             </div>
           )}
         </div>
@@ -337,6 +437,7 @@ export default function Settings() {
           </button>
         </div>
       </form>
+      {profile.role === 'superadmin' && <RolePermissions />}
       {showSuccessModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
           <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6 text-center">
@@ -2,6 +2,10 @@ import { useState, useEffect } from 'react';
 import { addRecord, getRecords, updateRecord } from '../../lib/api';
 import { Plus, Edit2, Search, Eye } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePagedRecords } from '../../lib/pagination';
+import { useRouteRecord } from '../../lib/recordRoute';
+import { buildPath, navigate } from '../../lib/router';
+import Pagination from '../Layout/Pagination';
 
 interface Supplier {
   id: string;
@@ -18,7 +22,7 @@ interface Supplier {
   created_at: string;
 }
 
-type SupplierFormData = Omit<Supplier, 'id' | 'created_at'> & { performed_by?: string | number };
+type SupplierFormData = Omit<Supplier, 'id' | 'created_at'>;
 interface Good {
   id: string;
   name: string;
@@ -26,16 +30,32 @@ interface Good {
   suppliers?: { id: string | number; name: string }[];
 }
 
-export default function Suppliers() {
-  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
-  const [loading, setLoading] = useState(true);
+interface SuppliersProps {
+  recordId?: string | null;
+}
+
+export default function Suppliers({ recordId }: SuppliersProps) {
   const [showModal, setShowModal] = useState(false);
   const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const {
+    records: suppliers,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    loading,
+    setPage,
+    reload: fetchSuppliers,
+  } = usePagedRecords<Supplier>('suppliers', { search: searchTerm });
   const [detailSupplier, setDetailSupplier] = useState<Supplier | null>(null);
   const [contactError, setContactError] = useState('');
   const [goods, setGoods] = useState<Good[]>([]);
   const [showGoodsModal, setShowGoodsModal] = useState(false);
+  useRouteRecord<Supplier>('suppliers', recordId, detailSupplier?.id, setDetailSupplier, () => {
+    setDetailSupplier(null);
+    setShowGoodsModal(false);
+  });
   const [formData, setFormData] = useState<SupplierFormData>({
     name: '',
     contact_person: '',
@@ -48,8 +68,8 @@ export default function Suppliers() {
     payment_terms: 'Net 30',
     status: 'active',
   });
-  const { profile } = useAuth();
-  const canDeactivateSupplier = ['superadmin', 'manager'].includes(profile?.role ?? '');
+  const { can } = useAuth();
+  const canDeactivateSupplier = can('suppliers', 'status');
 
   const normalizePhoneInput = (value: string) => {
     const trimmed = value.trim();
@@ -65,24 +85,9 @@ export default function Suppliers() {
   const isValidPhone = (value: string) => value === '-' || /^\+62\d{6,}$/.test(value);
 
   useEffect(() => {
-    fetchSuppliers();
     fetchGoods();
   }, []);
 
-  const fetchSuppliers = async () => {
-    try {
-      const data = await getRecords<Supplier>('suppliers');
-      const sorted = [...data].sort((a, b) =>
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
-      setSuppliers(sorted);
-    } catch (error) {
-      console.error('Error fetching suppliers:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const fetchGoods = async () => {
     try {
       const data = await getRecords<Good>('goods');
@@ -123,7 +128,6 @@ export default function Suppliers() {
         email: emailValue,
         phone: phoneValue,
         country: 'Indonesia',
-        performed_by: profile?.id,
       };
 
       if (editingSupplier) {
@@ -132,7 +136,7 @@ export default function Suppliers() {
         await addRecord<Supplier>('suppliers', payload as Supplier);
       }
 
-      await fetchSuppliers();
+      fetchSuppliers();
       closeModal();
     } catch (error) {
       console.error('Error saving supplier:', error);
@@ -140,7 +144,7 @@ export default function Suppliers() {
   };
 
   const handleToggleStatus = async (supplier: Supplier) => {
-    if (!profile || !['superadmin', 'manager'].includes(profile.role)) {
+    if (!canDeactivateSupplier) {
       alert('Only managers can update supplier status.');
       return;
     }
@@ -154,8 +158,6 @@ export default function Suppliers() {
     try {
       await updateRecord<Supplier>('suppliers', supplier.id, {
         status: nextStatus,
-        performed_by: profile?.id,
-        performer_role: profile?.role,
       });
       fetchSuppliers();
     } catch (error) {
@@ -164,6 +166,11 @@ export default function Suppliers() {
     }
   };
 
+  const openSupplierDetail = (supplier: Supplier) => {
+    setDetailSupplier(supplier);
+    navigate(buildPath('suppliers', supplier.id));
+  };
+
   const openModal = (supplier?: Supplier) => {
     if (supplier) {
       setEditingSupplier(supplier);
@@ -205,12 +212,6 @@ export default function Suppliers() {
     setContactError('');
   };
 
-  const filteredSuppliers = suppliers.filter(supplier =>
-    supplier.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    supplier.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    supplier.city.toLowerCase().includes(searchTerm.toLowerCase())
-  );
-
   const linkedGoods = detailSupplier
     ? goods.filter((good) =>
         (good.suppliers || []).some((supplier) => String(supplier.id) === String(detailSupplier.id))
@@ -280,14 +281,14 @@ export default function Suppliers() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredSuppliers.length === 0 ? (
+              {suppliers.length === 0 ? (
                 <tr>
                   <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
                     No suppliers found. Add your first supplier to get started.
                   </td>
                 </tr>
               ) : (
-                filteredSuppliers.map((supplier) => (
+                suppliers.map((supplier) => (
                   <tr key={supplier.id} className="hover:bg-gray-50 dark:hover:bg-slate-800/60">
                     <td className="px-6 py-4">
                       <div className="text-sm font-medium text-gray-900 dark:text-slate-100">{supplier.name}</div>
@@ -316,7 +317,7 @@ export default function Suppliers() {
                     </td>
                     <td className="px-6 py-4 text-right space-x-2">
                       <button
-                        onClick={() => setDetailSupplier(supplier)}
+                        onClick={() => openSupplierDetail(supplier)}
                         className="inline-flex items-center p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition"
                         aria-label="View details"
                       >
@@ -359,6 +360,7 @@ export default function Suppliers() {
             </tbody>
           </table>
         </div>
+        <Pagination page={page} pageCount={pageCount} pageSize={pageSize} total={total} onPageChange={setPage} />
       </div>
 
       {showModal && (
@@ -528,10 +530,7 @@ export default function Suppliers() {
                 <p className="text-sm text-gray-600">Full profile for {detailSupplier.name}</p>
               </div>
               <button
-                onClick={() => {
-                  setDetailSupplier(null);
-                  setShowGoodsModal(false);
-                }}
+                onClick={() => navigate(buildPath('suppliers'))}
                 className="text-gray-500 hover:text-gray-700"
                 aria-label="Close details"
               >
@@ -0,0 +1,213 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { KeyRound, ShieldCheck } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateBackupCodes,
+  startTwoFactorSetup,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  UserProfile,
+} from '../../lib/api';
+
+export default function TwoFactorSettings() {
+  const { setProfileState } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [enabledProfile, setEnabledProfile] = useState<UserProfile | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getTwoFactorStatus()
+      .then(setStatus)
+      .catch((err) => {
+        console.error('Failed to load two-factor status', err);
+        setError('Unable to load two-factor status.');
+      });
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleStartSetup = () =>
+    run(async () => {
+      setSetup(await startTwoFactorSetup());
+      setCode('');
+    });
+
+  const handleEnable = (event: FormEvent) => {
+    event.preventDefault();
+    return run(async () => {
+      const result = await enableTwoFactor(code);
+      setSetup(null);
+      setCode('');
+      setBackupCodes(result.backup_codes);
+      setEnabledProfile(result.profile);
+      setStatus((prev) => ({
+        enabled: true,
+        required: prev?.required ?? false,
+        backup_codes_remaining: result.backup_codes.length,
+      }));
+    });
+  };
+
+  const handleRegenerate = (event: FormEvent) => {
+    event.preventDefault();
+    return run(async () => {
+      const result = await regenerateBackupCodes(code);
+      setCode('');
+      setBackupCodes(result.backup_codes);
+      setStatus((prev) => (prev ? { ...prev, backup_codes_remaining: result.backup_codes.length } : prev));
+    });
+  };
+
+  const handleDisable = () =>
+    run(async () => {
+      const result = await disableTwoFactor(code);
+      setCode('');
+      setStatus((prev) => (prev ? { ...prev, enabled: false, backup_codes_remaining: 0 } : prev));
+      setProfileState(result.profile);
+    });
+
+  // The profile is only updated once the codes are acknowledged, otherwise the enrollment gate unmounts them.
+  const handleBackupCodesSaved = () => {
+    setBackupCodes(null);
+    if (enabledProfile) {
+      setProfileState(enabledProfile);
+      setEnabledProfile(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-sm border border-gray-200 rounded-2xl p-6 space-y-4">
+      <div className="flex items-start gap-3">
+        <ShieldCheck className="h-6 w-6 text-emerald-600 mt-1" />
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Two-Factor Authentication</h2>
+          <p className="text-sm text-gray-600">
+            {status?.enabled
+              ? `Enabled. ${status.backup_codes_remaining} backup code(s) remaining.`
+              : status?.required
+                ? 'Required for your role. Scan the QR code with an authenticator app to continue.'
+                : 'Protect your account with a code from an authenticator app.'}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {backupCodes ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">
+            Save these backup codes somewhere safe. Each code can be used once if you lose access to your
+            authenticator app. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 border border-gray-200 rounded-lg p-4">
+            {backupCodes.map((backupCode) => (
+              <span key={backupCode}>{backupCode}</span>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleBackupCodesSaved}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              I have saved these codes
+            </button>
+          </div>
+        </div>
+      ) : setup ? (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <div className="flex flex-col md:flex-row items-center gap-6">
+            <img src={setup.qr_code} alt="Authenticator QR code" className="h-44 w-44 border border-gray-200 rounded-lg" />
+            <div className="space-y-2 text-sm text-gray-700">
+              <p>Scan this QR code with Google Authenticator, Microsoft Authenticator, or a similar app.</p>
+              <p>
+                Can't scan it? Enter this key manually:
+                <span className="block font-mono text-gray-900 break-all mt-1">{setup.secret}</span>
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              placeholder="6-digit code"
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg tracking-widest"
+              required
+            />
+            <button
+              type="submit"
+              disabled={working}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {working ? 'Verifying...' : 'Enable'}
+            </button>
+          </div>
+        </form>
+      ) : status?.enabled ? (
+        <form onSubmit={handleRegenerate} className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder="Current 6-digit code"
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg tracking-widest"
+            required
+          />
+          <button
+            type="submit"
+            disabled={working}
+            className="inline-flex items-center justify-center px-4 py-2 border border-blue-600 text-blue-700 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+          >
+            <KeyRound className="h-4 w-4 mr-2" />
+            New Backup Codes
+          </button>
+          {!status.required && (
+            <button
+              type="button"
+              onClick={handleDisable}
+              disabled={working || !code}
+              className="px-4 py-2 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50"
+            >
+              Disable
+            </button>
+          )}
+        </form>
+      ) : (
+        status && (
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleStartSetup}
+              disabled={working}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {working ? 'Preparing...' : 'Set Up Authenticator'}
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,24 @@
 import { useEffect, useState, FormEvent } from 'react';
-import { addRecord, deleteRecord, getRecords, updateRecord } from '../../lib/api';
-import { Plus, Edit2, Trash2, UserPlus } from 'lucide-react';
+import {
+  activateUser,
+  addRecord,
+  deactivateUser,
+  getRecords,
+  getRoles,
+  getUserOpenRecords,
+  InvitationStatus,
+  resendInvitation,
+  resetUserTwoFactor,
+  revokeInvitation,
+  revokeUserSessions,
+  OpenRecords,
+  RoleDefinition,
+  unlockUser,
+  updateRecord,
+} from '../../lib/api';
 import { useAuth } from '../../contexts/AuthContext';
+import { Plus, Edit2, UserPlus, UserX, UserCheck, ShieldOff, Unlock, LogOut, Mail, MailX } from 'lucide-react';
+import FileImage from '../Files/FileImage';
 
 interface ManagedUser {
   id: number | string;
@@ -9,9 +26,15 @@ interface ManagedUser {
   username?: string | null;
   email: string;
   password?: string;
-  role: 'superadmin' | 'admin' | 'manager' | 'staff';
+  role: string;
   phone?: string;
   photo_url?: string | null;
+  totp_enabled?: boolean;
+  locked_until?: string | null;
+  invitation_status?: InvitationStatus;
+  invitation_expires_at?: string;
+  status?: 'active' | 'inactive';
+  deactivated_at?: string | null;
   created_at?: string;
 }
 
@@ -24,6 +47,18 @@ const DEFAULT_FORM: Partial<ManagedUser> = {
   phone: '',
 };
 
+const INVITATION_BADGES: Record<Exclude<InvitationStatus, 'accepted'>, { label: string; className: string }> = {
+  pending: { label: 'Invitation pending', className: 'bg-amber-100 text-amber-800' },
+  expired: { label: 'Invitation expired', className: 'bg-gray-100 text-gray-700' },
+  revoked: { label: 'Invitation revoked', className: 'bg-red-100 text-red-800' },
+};
+
+const OPEN_RECORD_LABELS: Record<keyof OpenRecords, string> = {
+  rfqs: 'RFQs',
+  quotations: 'Quotations',
+  sales_orders: 'Sales Orders',
+};
+
 const normalizePhoneInput = (value: string) => {
   const digits = value.replace(/\D/g, '');
   if (!digits || digits === '62') return '';
@@ -33,13 +68,17 @@ const normalizePhoneInput = (value: string) => {
 };
 
 export default function Users() {
+  const { profile, can } = useAuth();
   const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingUser, setEditingUser] = useState<ManagedUser | null>(null);
   const [formData, setFormData] = useState<Partial<ManagedUser>>(DEFAULT_FORM);
-  const apiRoot = (import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api').replace(/\/api$/, '');
-  const { profile } = useAuth();
+  const [deactivatingUser, setDeactivatingUser] = useState<ManagedUser | null>(null);
+  const [openRecords, setOpenRecords] = useState<OpenRecords | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+  const [deactivating, setDeactivating] = useState(false);
 
   useEffect(() => {
     fetchUsers();
@@ -47,8 +86,9 @@ export default function Users() {
 
   const fetchUsers = async () => {
     try {
-      const data = await getRecords<ManagedUser>('users');
+      const [data, roleData] = await Promise.all([getRecords<ManagedUser>('users'), getRoles()]);
       setUsers(data);
+      setRoles(roleData);
     } catch (error) {
       console.error('Error fetching users:', error);
     } finally {
@@ -56,6 +96,8 @@ export default function Users() {
     }
   };
 
+  const getRoleLabel = (role: string) => roles.find((entry) => entry.name === role)?.label || role;
+
   const openModal = (user?: ManagedUser) => {
     if (user) {
       setEditingUser(user);
@@ -82,14 +124,13 @@ export default function Users() {
     event.preventDefault();
     try {
       const payload = { ...formData, phone: formData.phone ? normalizePhoneInput(formData.phone) : undefined };
-      const creatorContext = { performed_by: profile?.id, creator_role: profile?.role };
       if (editingUser) {
         if (!payload.password) {
           delete payload.password;
         }
-        await updateRecord<ManagedUser>('users', editingUser.id, { ...payload, ...creatorContext });
+        await updateRecord<ManagedUser>('users', editingUser.id, payload);
       } else {
-        await addRecord<ManagedUser>('users', { ...(payload as ManagedUser), ...creatorContext });
+        await addRecord<ManagedUser>('users', payload as ManagedUser);
       }
       await fetchUsers();
       closeModal();
@@ -98,15 +139,112 @@ export default function Users() {
     }
   };
 
-  const handleDelete = async (id: number | string) => {
-    const targetUser = users.find((user) => user.id === id);
-    if (targetUser?.role === 'superadmin') return;
-    if (!confirm('Delete this user?')) return;
+  const openDeactivateModal = async (user: ManagedUser) => {
+    setDeactivatingUser(user);
+    setOpenRecords(null);
+    setReassignTo('');
+    try {
+      setOpenRecords(await getUserOpenRecords(user.id));
+    } catch (error) {
+      console.error('Error loading open records:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load open records.');
+      setDeactivatingUser(null);
+    }
+  };
+
+  const closeDeactivateModal = () => {
+    setDeactivatingUser(null);
+    setOpenRecords(null);
+    setReassignTo('');
+  };
+
+  const openRecordCount = openRecords
+    ? openRecords.rfqs.length + openRecords.quotations.length + openRecords.sales_orders.length
+    : 0;
+
+  const handleDeactivate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!deactivatingUser) return;
+    setDeactivating(true);
+    try {
+      await deactivateUser(deactivatingUser.id, reassignTo || undefined);
+      closeDeactivateModal();
+      await fetchUsers();
+    } catch (error) {
+      console.error('Error deactivating user:', error);
+      alert(error instanceof Error ? error.message : 'Failed to deactivate user.');
+    } finally {
+      setDeactivating(false);
+    }
+  };
+
+  const handleActivate = async (user: ManagedUser) => {
+    try {
+      await activateUser(user.id);
+      await fetchUsers();
+    } catch (error) {
+      console.error('Error activating user:', error);
+      alert(error instanceof Error ? error.message : 'Failed to activate user.');
+    }
+  };
+
+  const handleResetTwoFactor = async (user: ManagedUser) => {
+    if (!confirm(`Reset two-factor authentication for ${user.full_name}? They will enroll again at next sign in.`)) {
+      return;
+    }
+    try {
+      await resetUserTwoFactor(user.id);
+      await fetchUsers();
+    } catch (error) {
+      console.error('Error resetting two-factor:', error);
+      alert(error instanceof Error ? error.message : 'Failed to reset two-factor authentication.');
+    }
+  };
+
+  const handleRevokeSessions = async (user: ManagedUser) => {
+    if (!confirm(`Sign ${user.full_name} out of every device?`)) {
+      return;
+    }
+    try {
+      const { revoked } = await revokeUserSessions(user.id);
+      alert(`${revoked} session(s) signed out.`);
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      alert(error instanceof Error ? error.message : 'Failed to sign out user sessions.');
+    }
+  };
+
+  const handleResendInvitation = async (user: ManagedUser) => {
+    try {
+      await resendInvitation(user.id);
+      await fetchUsers();
+      alert(`A new invitation was sent to ${user.email}.`);
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to send invitation.');
+    }
+  };
+
+  const handleRevokeInvitation = async (user: ManagedUser) => {
+    if (!confirm(`Revoke the pending invitation for ${user.full_name}? The emailed link will stop working.`)) {
+      return;
+    }
     try {
-      await deleteRecord('users', id);
+      await revokeInvitation(user.id);
       await fetchUsers();
     } catch (error) {
-      console.error('Error deleting user:', error);
+      console.error('Error revoking invitation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to revoke invitation.');
+    }
+  };
+
+  const handleUnlock = async (user: ManagedUser) => {
+    try {
+      await unlockUser(user.id);
+      await fetchUsers();
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      alert(error instanceof Error ? error.message : 'Failed to unlock user.');
     }
   };
 
@@ -175,7 +313,7 @@ export default function Users() {
                       <div className="flex items-center gap-3">
                         <div className="w-10 h-10 rounded-full overflow-hidden bg-gray-100 flex items-center justify-center text-gray-600 font-semibold">
                           {user.photo_url ? (
-                            <img src={`${apiRoot}${user.photo_url}`} alt={user.full_name} className="w-full h-full object-cover" />
+                            <FileImage url={user.photo_url} alt={user.full_name} className="w-full h-full object-cover" />
                           ) : (
                             user.full_name
                               .split(' ')
@@ -191,11 +329,52 @@ export default function Users() {
                         )}
                       </div>
                     </td>
-                    <td className="px-6 py-4 text-gray-700">{user.email}</td>
+                    <td className="px-6 py-4 text-gray-700">
+                      {user.email}
+                      {user.invitation_status && user.invitation_status !== 'accepted' && (
+                        <span
+                          title={
+                            user.invitation_expires_at
+                              ? `Link expires ${new Date(user.invitation_expires_at).toLocaleString()}`
+                              : undefined
+                          }
+                          className={`block w-fit mt-1 px-2 py-0.5 rounded-full text-xs font-semibold ${
+                            INVITATION_BADGES[user.invitation_status].className
+                          }`}
+                        >
+                          {INVITATION_BADGES[user.invitation_status].label}
+                        </span>
+                      )}
+                    </td>
                     <td className="px-6 py-4">
                       <span className="px-3 py-1 rounded-full text-xs font-semibold bg-blue-100 text-blue-800 capitalize">
-                        {user.role}
+                        {getRoleLabel(user.role)}
                       </span>
+                      {user.totp_enabled && (
+                        <span className="ml-2 px-2 py-1 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-800">
+                          2FA
+                        </span>
+                      )}
+                      {user.status === 'inactive' && (
+                        <span
+                          title={
+                            user.deactivated_at
+                              ? `Deactivated ${new Date(user.deactivated_at).toLocaleString()}`
+                              : undefined
+                          }
+                          className="ml-2 px-2 py-1 rounded-full text-xs font-semibold bg-gray-200 text-gray-700"
+                        >
+                          Inactive
+                        </span>
+                      )}
+                      {user.locked_until && (
+                        <span
+                          title={`Locked until ${new Date(user.locked_until).toLocaleString()}`}
+                          className="ml-2 px-2 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800"
+                        >
+                          Locked
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-gray-700">{user.phone || '-'}</td>
                     <td className="px-6 py-4 text-right space-x-2">
@@ -205,13 +384,63 @@ export default function Users() {
                       >
                         <Edit2 className="h-4 w-4 mr-1" /> Edit
                       </button>
-                      <button
-                        onClick={() => handleDelete(user.id)}
-                        disabled={user.role === 'superadmin'}
-                        className="inline-flex items-center px-3 py-1.5 text-sm bg-red-50 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        <Trash2 className="h-4 w-4 mr-1" /> Delete
-                      </button>
+                      {profile?.role === 'superadmin' && user.totp_enabled && (
+                        <button
+                          onClick={() => handleResetTwoFactor(user)}
+                          className="inline-flex items-center px-3 py-1.5 text-sm bg-amber-50 text-amber-700 rounded-lg hover:bg-amber-100"
+                        >
+                          <ShieldOff className="h-4 w-4 mr-1" /> Reset 2FA
+                        </button>
+                      )}
+                      {profile?.role === 'superadmin' && String(user.id) !== String(profile.id) && (
+                        <button
+                          onClick={() => handleRevokeSessions(user)}
+                          className="inline-flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                        >
+                          <LogOut className="h-4 w-4 mr-1" /> Sign Out All
+                        </button>
+                      )}
+                      {user.invitation_status && user.invitation_status !== 'accepted' && can('users', 'create') && (
+                        <button
+                          onClick={() => handleResendInvitation(user)}
+                          className="inline-flex items-center px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100"
+                        >
+                          <Mail className="h-4 w-4 mr-1" /> Resend Invite
+                        </button>
+                      )}
+                      {user.invitation_status === 'pending' && can('users', 'create') && (
+                        <button
+                          onClick={() => handleRevokeInvitation(user)}
+                          className="inline-flex items-center px-3 py-1.5 text-sm bg-amber-50 text-amber-700 rounded-lg hover:bg-amber-100"
+                        >
+                          <MailX className="h-4 w-4 mr-1" /> Revoke Invite
+                        </button>
+                      )}
+                      {user.locked_until && can('users', 'update') && (
+                        <button
+                          onClick={() => handleUnlock(user)}
+                          className="inline-flex items-center px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100"
+                        >
+                          <Unlock className="h-4 w-4 mr-1" /> Unlock
+                        </button>
+                      )}
+                      {can('users', 'delete') &&
+                        (user.status === 'inactive' ? (
+                          <button
+                            onClick={() => handleActivate(user)}
+                            className="inline-flex items-center px-3 py-1.5 text-sm bg-emerald-50 text-emerald-700 rounded-lg hover:bg-emerald-100"
+                          >
+                            <UserCheck className="h-4 w-4 mr-1" /> Activate
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => openDeactivateModal(user)}
+                            disabled={String(user.id) === String(profile?.id)}
+                            className="inline-flex items-center px-3 py-1.5 text-sm bg-red-50 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <UserX className="h-4 w-4 mr-1" /> Deactivate
+                          </button>
+                        ))}
                     </td>
                   </tr>
                 ))
@@ -256,7 +485,7 @@ export default function Users() {
 
               {!editingUser && (
                 <p className="text-sm text-gray-500">
-                  Password default akan dikirim ke email user untuk setup awal.
+                  Link undangan akan dikirim ke email user untuk memilih username dan password.
                 </p>
               )}
 
@@ -280,12 +509,16 @@ export default function Users() {
                     ) : (
                       <select
                         value={formData.role || 'staff'}
-                        onChange={(e) => setFormData({ ...formData, role: e.target.value as ManagedUser['role'] })}
+                        onChange={(e) => setFormData({ ...formData, role: e.target.value })}
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent capitalize"
                       >
-                        <option value="manager">Manager</option>
-                        <option value="admin">Admin</option>
-                        <option value="staff">Staff</option>
+                        {roles
+                          .filter((role) => role.name !== 'superadmin')
+                          .map((role) => (
+                            <option key={role.name} value={role.name}>
+                              {role.label}
+                            </option>
+                          ))}
                       </select>
                     )}
                   </div>
@@ -339,6 +572,80 @@ export default function Users() {
           </div>
         </div>
       )}
+
+      {deactivatingUser && (
+        <div className="fixed inset-0 bg-gray-900/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-gray-900">Deactivate {deactivatingUser.full_name}</h3>
+              <button onClick={closeDeactivateModal} className="text-gray-500 hover:text-gray-700">&times;</button>
+            </div>
+
+            <form onSubmit={handleDeactivate} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                The user will be signed out and can no longer sign in. Their activity history is kept and the account
+                can be reactivated later.
+              </p>
+
+              {!openRecords ? (
+                <p className="text-sm text-gray-500">Checking open records...</p>
+              ) : openRecordCount === 0 ? (
+                <p className="text-sm text-gray-700">This user has no open RFQs, quotations or sales orders.</p>
+              ) : (
+                <>
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2">
+                    {(Object.keys(OPEN_RECORD_LABELS) as (keyof OpenRecords)[])
+                      .filter((key) => openRecords[key].length > 0)
+                      .map((key) => (
+                        <div key={key} className="text-sm text-gray-700">
+                          <span className="font-semibold">
+                            {OPEN_RECORD_LABELS[key]} ({openRecords[key].length}):
+                          </span>{' '}
+                          {openRecords[key].map((record) => record.number).join(', ')}
+                        </div>
+                      ))}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Transfer open records to</label>
+                    <select
+                      value={reassignTo}
+                      onChange={(e) => setReassignTo(e.target.value)}
+                      required
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Select a user</option>
+                      {users
+                        .filter((user) => user.status !== 'inactive' && user.id !== deactivatingUser.id)
+                        .map((user) => (
+                          <option key={user.id} value={user.id}>
+                            {user.full_name} ({getRoleLabel(user.role)})
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                </>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeDeactivateModal}
+                  className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!openRecords || deactivating}
+                  className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  {deactivating ? 'Deactivating...' : 'Deactivate User'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,13 +1,45 @@
 /* eslint-disable react-refresh/only-export-components */
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { UserProfile } from '../lib/api';
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import {
+  apiFetch,
+  AuthResponse,
+  getCurrentProfile,
+  getPermissions,
+  getSessionTokens,
+  PermissionAction,
+  PermissionMap,
+  SESSION_EXPIRED_EVENT,
+  setSessionTokens,
+  TableName,
+  UserProfile,
+} from '../lib/api';
+
+type SignInResult = {
+  requiresSetup: boolean;
+  requiresTwoFactor?: boolean;
+  profile?: UserProfile;
+  setupToken?: string;
+  twoFactorToken?: string;
+};
+
+interface CompleteSetupPayload {
+  setupToken: string;
+  currentPassword: string;
+  username: string;
+  password: string;
+}
 
 interface AuthContextType {
   user: { email: string } | null;
   profile: UserProfile | null;
+  permissions: PermissionMap | null;
   loading: boolean;
-  signIn: (identifier: string, password: string) => Promise<{ requiresSetup: boolean; profile?: UserProfile }>;
-  signInWithGoogle: (credential: string) => Promise<{ requiresSetup: boolean; profile?: UserProfile }>;
+  can: (table: TableName, action: PermissionAction, ownerId?: string | number | null) => boolean;
+  signIn: (identifier: string, password: string) => Promise<SignInResult>;
+  signInWithGoogle: (credential: string) => Promise<SignInResult>;
+  completeSetup: (payload: CompleteSetupPayload) => Promise<void>;
+  acceptInvitation: (token: string, username: string, password: string) => Promise<void>;
+  verifyTwoFactor: (twoFactorToken: string, code: string) => Promise<void>;
   signOut: () => Promise<void>;
   setProfileState: (profile: UserProfile | null) => void;
 }
@@ -17,50 +49,76 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<{ email: string } | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [permissions, setPermissions] = useState<PermissionMap | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const SESSION_KEY = 'rgi_session_profile';
-  const SESSION_TTL_MS = 1000 * 60 * 60 * 12;
-
-  type StoredSession = {
-    profile: UserProfile;
-    expiresAt: string;
-  };
+  const LEGACY_SESSION_KEY = 'rgi_session_profile';
 
   useEffect(() => {
-    const savedProfile = localStorage.getItem(SESSION_KEY);
-    if (savedProfile) {
-      try {
-        const parsed = JSON.parse(savedProfile) as StoredSession | UserProfile;
-        const sessionProfile = 'profile' in parsed ? parsed.profile : parsed;
-        const expiresAt = 'expiresAt' in parsed ? new Date(parsed.expiresAt).getTime() : 0;
-
-        if (expiresAt && expiresAt < Date.now()) {
-          localStorage.removeItem(SESSION_KEY);
-        } else if (sessionProfile?.email) {
-          setUser({ email: sessionProfile.email });
-          setProfile(sessionProfile);
-          if (!expiresAt) {
-            localStorage.setItem(
-              SESSION_KEY,
-              JSON.stringify({
-                profile: sessionProfile,
-                expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
-              })
-            );
-          }
-        }
-      } catch (error) {
+    localStorage.removeItem(LEGACY_SESSION_KEY);
+
+    if (!getSessionTokens()) {
+      setLoading(false);
+      return;
+    }
+
+    Promise.all([getCurrentProfile(), getPermissions()])
+      .then(([sessionProfile, rolePermissions]) => {
+        setUser({ email: sessionProfile.email });
+        setProfile(sessionProfile);
+        setPermissions(rolePermissions);
+      })
+      .catch((error) => {
         console.error('Failed to restore session', error);
-        localStorage.removeItem(SESSION_KEY);
+        setSessionTokens(null);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      setUser(null);
+      setProfile(null);
+      setPermissions(null);
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, []);
+
+  const startSession = async (data: AuthResponse): Promise<SignInResult> => {
+    const sessionProfile = data.profile;
+
+    if (data.requires_setup || !data.session) {
+      if (data.requires_two_factor) {
+        return {
+          requiresSetup: false,
+          requiresTwoFactor: true,
+          profile: sessionProfile,
+          twoFactorToken: data.two_factor_token,
+        };
       }
+      return { requiresSetup: true, profile: sessionProfile, setupToken: data.setup_token };
     }
-    setLoading(false);
-  }, []);
+
+    setSessionTokens(data.session);
+    setPermissions(await getPermissions());
+    setUser({ email: sessionProfile.email });
+    setProfile(sessionProfile);
+    return { requiresSetup: false, profile: sessionProfile };
+  };
+
+  const can = useCallback(
+    (table: TableName, action: PermissionAction, ownerId?: string | number | null) => {
+      const grant = permissions?.[table]?.[action];
+      if (grant === true) return true;
+      if (grant !== 'own' || ownerId === undefined || ownerId === null || profile?.id === undefined) return false;
+      return String(ownerId) === String(profile.id);
+    },
+    [permissions, profile?.id]
+  );
 
   const signIn = async (identifier: string, password: string) => {
-    const apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api';
-    const response = await fetch(`${apiBase}/auth/login`, {
+    const response = await apiFetch('/auth/login', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ identifier, password }),
@@ -72,28 +130,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       throw new Error(data?.error || 'Invalid email or password');
     }
 
-    const sessionProfile: UserProfile = data.profile;
-    const requiresSetup = Boolean(data?.requires_setup);
-
-    if (requiresSetup) {
-      return { requiresSetup, profile: sessionProfile };
-    }
-
-    setUser({ email: sessionProfile.email });
-    setProfile(sessionProfile);
-    localStorage.setItem(
-      SESSION_KEY,
-      JSON.stringify({
-        profile: sessionProfile,
-        expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
-      })
-    );
-    return { requiresSetup: false, profile: sessionProfile };
+    return startSession(data);
   };
 
   const signInWithGoogle = async (credential: string) => {
-    const apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api';
-    const response = await fetch(`${apiBase}/auth/google`, {
+    const response = await apiFetch('/auth/google', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ credential }),
@@ -104,48 +145,85 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       throw new Error(data?.error || 'Failed to sign in with Google');
     }
 
-    const sessionProfile: UserProfile = data.profile;
-    const requiresSetup = Boolean(data?.requires_setup);
+    return startSession(data);
+  };
+
+  const completeSetup = async ({ setupToken, currentPassword, username, password }: CompleteSetupPayload) => {
+    const response = await apiFetch('/auth/complete-setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${setupToken}` },
+      body: JSON.stringify({ current_password: currentPassword, username, password }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data?.error || 'Failed to complete setup.');
+    }
+
+    await startSession(data);
+  };
 
-    if (requiresSetup) {
-      return { requiresSetup, profile: sessionProfile };
+  const acceptInvitation = async (token: string, username: string, password: string) => {
+    const response = await apiFetch('/auth/accept-invitation', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, username, password }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data?.error || 'Failed to accept invitation.');
     }
 
-    setUser({ email: sessionProfile.email });
-    setProfile(sessionProfile);
-    localStorage.setItem(
-      SESSION_KEY,
-      JSON.stringify({
-        profile: sessionProfile,
-        expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
-      })
-    );
-    return { requiresSetup: false, profile: sessionProfile };
+    await startSession(data);
   };
 
-  const signOut = async () => {
-    const userId = profile?.id;
-    setUser(null);
-    setProfile(null);
-    localStorage.removeItem(SESSION_KEY);
+  const verifyTwoFactor = async (twoFactorToken: string, code: string) => {
+    const response = await apiFetch('/auth/two-factor/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ two_factor_token: twoFactorToken, code }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data?.error || 'Invalid verification code');
+    }
+
+    await startSession(data);
+  };
 
-    if (userId) {
+  const signOut = async () => {
+    if (getSessionTokens()) {
       try {
-        const apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api';
-        await fetch(`${apiBase}/auth/logout`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ user_id: userId }),
-        });
+        await apiFetch('/auth/logout', { method: 'POST' });
       } catch (error) {
         console.error('Logout activity failed', error);
       }
     }
+
+    setSessionTokens(null);
+    setUser(null);
+    setProfile(null);
+    setPermissions(null);
   };
 
   return (
     <AuthContext.Provider
-      value={{ user, profile, loading, signIn, signInWithGoogle, signOut, setProfileState: setProfile }}
+      value={{
+        user,
+        profile,
+        permissions,
+        loading,
+        can,
+        signIn,
+        signInWithGoogle,
+        completeSetup,
+        acceptInvitation,
+        verifyTwoFactor,
+        signOut,
+        setProfileState: setProfile,
+      }}
     >
       {children}
     </AuthContext.Provider>
@@ -1,5 +1,5 @@
 import { createContext, useContext, ReactNode, useEffect, useRef, useState } from 'react';
-import { getRecords } from '../lib/api';
+import { getRecords, TableName } from '../lib/api';
 import { useAuth } from './AuthContext';
 
 export interface NotificationItem {
@@ -103,7 +103,7 @@ const saveStorage = (key: string, value: unknown) => {
 };
 
 export function NotificationProvider({ children }: { children: ReactNode }) {
-  const { profile } = useAuth();
+  const { profile, can } = useAuth();
   const [notifications, setNotifications] = useState<NotificationItem[]>([]);
   const snapshotRef = useRef<NotificationSnapshot | null>(null);
 
@@ -166,17 +166,20 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
   };
 
   useEffect(() => {
-    if (!profile?.id) return;
+    if (!profile?.id || (profile.two_factor_required && !profile.two_factor_enabled)) return;
     let isMounted = true;
 
+    const getReadableRecords = <T extends { id: string | number }>(table: TableName) =>
+      can(table, 'read') ? getRecords<T & Record<string, unknown>>(table) : Promise.resolve([] as T[]);
+
     const refreshNotifications = async () => {
       try {
         const [rfqs, quotations, salesOrders, deliveryOrders, invoices] = await Promise.all([
-          getRecords<RfqRecord>('rfqs'),
-          getRecords<QuotationRecord>('quotations'),
-          getRecords<SalesOrderRecord>('sales_orders'),
-          getRecords<DeliveryOrderRecord>('delivery_orders'),
-          getRecords<InvoiceRecord>('invoices'),
+          getReadableRecords<RfqRecord>('rfqs'),
+          getReadableRecords<QuotationRecord>('quotations'),
+          getReadableRecords<SalesOrderRecord>('sales_orders'),
+          getReadableRecords<DeliveryOrderRecord>('delivery_orders'),
+          getReadableRecords<InvoiceRecord>('invoices'),
         ]);
 
         if (!isMounted) return;
@@ -196,8 +199,8 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
           return;
         }
 
-        const role = profile.role;
-        const isManager = role === 'manager' || role === 'superadmin';
+        const canApproveQuotations = can('quotations', 'status');
+        const canApproveOrders = can('sales_orders', 'status');
 
         rfqs.forEach((rfq) => {
           if (previous.rfqs[String(rfq.id)]) return;
@@ -213,7 +216,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
           const isCreator = quotation.performed_by && String(quotation.performed_by) === String(profile.id);
           if (!previousQuotation) {
             if (!isCreator) {
-              if (isManager && quotation.status === 'waiting') {
+              if (canApproveQuotations && quotation.status === 'waiting') {
                 pushNotification({
                   title: 'Quotation awaiting approval',
                   message: `Quotation ${quotation.quotation_number} is waiting for approval.`,
@@ -234,7 +237,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
               ['process', 'success', 'renegotiation', 're-negotiating', 'negotiation', 'reject', 'rejected'].includes(
                 status
               );
-            if (notifyForStatus && (isCreator || isManager)) {
+            if (notifyForStatus && (isCreator || canApproveQuotations)) {
               const statusLabel =
                 status === 'process'
                   ? 'approved'
@@ -264,7 +267,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
           return;
           }
           if (previousOrder.status && previousOrder.status !== order.status) {
-            if (order.status === 'waiting approval' && isManager) {
+            if (order.status === 'waiting approval' && canApproveOrders) {
               pushNotification({
                 title: 'Sales order awaiting approval',
                 message: `Sales order ${order.order_number} is waiting for approval.`,
@@ -315,7 +318,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
       isMounted = false;
       window.clearInterval(interval);
     };
-  }, [profile?.id, profile?.role, snapshotKey, suppressionKey]);
+  }, [can, profile?.id, profile?.two_factor_enabled, profile?.two_factor_required, snapshotKey, suppressionKey]);
 
   const unreadCount = notifications.filter((item) => !item.read).length;
 
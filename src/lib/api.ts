@@ -1,6 +1,10 @@
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api';
+const SESSION_KEY = 'rgi_session';
 
-export type UserRole = 'staff' | 'manager' | 'admin' | 'superadmin';
+export const SESSION_EXPIRED_EVENT = 'auth:session-expired';
+
+// Built-in roles plus any custom role the superadmin creates in Settings.
+export type UserRole = string;
 
 export interface ActivityLog {
   id: number;
@@ -20,9 +24,86 @@ export interface UserProfile {
   role: UserRole;
   phone?: string | null;
   photo_url?: string | null;
+  two_factor_enabled?: boolean;
+  two_factor_required?: boolean;
+}
+
+export interface SessionTokens {
+  access_token: string;
+  refresh_token: string;
+  expires_at: string;
+}
+
+export interface AuthResponse {
+  profile: UserProfile;
+  requires_setup?: boolean;
+  setup_token?: string;
+  requires_two_factor?: boolean;
+  two_factor_token?: string;
+  session?: SessionTokens;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backup_codes_remaining: number;
+}
+
+export interface ActiveSession {
+  id: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+  expires_at: string;
+  current: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+export type FileContext = 'rfq_attachment' | 'sales_order_document' | 'chat_attachment' | 'user_photo' | 'company_logo';
+
+export interface UploadedFile {
+  id: string;
+  url: string;
+  name: string | null;
+  mime_type: string;
+  size_bytes: number;
+}
+
+export type PermissionAction = 'read' | 'create' | 'update' | 'delete' | 'status';
+
+export type PermissionGrant = boolean | 'own';
+
+export type PermissionMap = Record<string, Record<PermissionAction, PermissionGrant>>;
+
+export type PermissionScope = 'all' | 'own';
+
+export interface RoleDefinition {
+  id: number;
+  name: string;
+  label: string;
+  is_system: boolean;
+}
+
+export interface Capability {
+  key: string;
+  group: string;
+  label: string;
+  ownable?: boolean;
+}
+
+export interface PermissionMatrix {
+  capabilities: Capability[];
+  roles: RoleDefinition[];
+  grants: Record<string, Record<string, PermissionScope>>;
 }
 
-type TableName =
+export type TableName =
   | 'clients'
   | 'suppliers'
   | 'goods'
@@ -37,24 +118,181 @@ type TableName =
 
 type BaseRecord = { id: string | number; created_at?: string } & Record<string, unknown>;
 
+export type FilterValue = string | number | null | undefined | Array<string | number>;
+
+export interface RecordQuery {
+  search?: string;
+  sort?: string;
+  order?: 'asc' | 'desc';
+  // Exact-match filters such as `status` or `client_id`; arrays match any of the values.
+  filters?: Record<string, FilterValue>;
+  // Inclusive `YYYY-MM-DD` range on the table's main date column.
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface PageQuery extends RecordQuery {
+  page: number;
+  limit: number;
+}
+
+export interface RecordPage<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface SearchResult {
+  id: number | string;
+  title: string;
+  subtitle: string | null;
+}
+
+// Matches for one record type, named by its table.
+export interface SearchGroup {
+  type: TableName;
+  results: SearchResult[];
+}
+
+const buildRecordQuery = (options: RecordQuery & Partial<Pick<PageQuery, 'page' | 'limit'>> = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(options.filters || {}).forEach(([key, value]) => {
+    const values = (Array.isArray(value) ? value : [value]).filter(
+      (item): item is string | number => item !== null && item !== undefined && item !== '',
+    );
+    if (values.length) params.set(key, values.join(','));
+  });
+  if (options.search?.trim()) params.set('search', options.search.trim());
+  if (options.sort) params.set('sort', options.sort);
+  if (options.order) params.set('order', options.order);
+  if (options.dateFrom) params.set('date_from', options.dateFrom);
+  if (options.dateTo) params.set('date_to', options.dateTo);
+  if (options.page) params.set('page', String(options.page));
+  if (options.limit) params.set('limit', String(options.limit));
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+};
+
+const loadSessionTokens = (): SessionTokens | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as SessionTokens) : null;
+  } catch {
+    return null;
+  }
+};
+
+let sessionTokens: SessionTokens | null = loadSessionTokens();
+let refreshPromise: Promise<boolean> | null = null;
+
+export function getSessionTokens() {
+  return sessionTokens;
+}
+
+export function setSessionTokens(tokens: SessionTokens | null) {
+  sessionTokens = tokens;
+  if (tokens) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(tokens));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+}
+
+async function refreshSession(): Promise<boolean> {
+  if (!sessionTokens?.refresh_token) return false;
+  if (!refreshPromise) {
+    const refreshToken = sessionTokens.refresh_token;
+    refreshPromise = fetch(`${API_BASE_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    })
+      .then(async (response) => {
+        const data = (await response.json().catch(() => null)) as AuthResponse | null;
+        if (!response.ok || !data?.session) return false;
+        setSessionTokens(data.session);
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+export async function apiFetch(path: string, init: RequestInit = {}, retry = true): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (sessionTokens?.access_token) {
+    headers.set('Authorization', `Bearer ${sessionTokens.access_token}`);
+  }
+  const response = await fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+
+  if (response.status === 401 && sessionTokens) {
+    if (retry && (await refreshSession())) {
+      return apiFetch(path, init, false);
+    }
+    setSessionTokens(null);
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  }
+
+  return response;
+}
+
+// An update was refused because someone saved the record after it was loaded. `current` is the saved record.
+export class RecordConflictError extends Error {
+  current: unknown;
+
+  constructor(message: string, current: unknown) {
+    super(message);
+    this.name = 'RecordConflictError';
+    this.current = current;
+  }
+}
+
 async function handleResponse(response: Response) {
   const data = await response.json().catch(() => null);
   if (!response.ok) {
     const message = data?.error || 'Request failed';
+    if (response.status === 409 && data?.current) {
+      throw new RecordConflictError(message, data.current);
+    }
     throw new Error(message);
   }
   return data;
 }
 
-export async function getRecords<T extends BaseRecord>(table: TableName): Promise<T[]> {
-  const response = await fetch(`${API_BASE_URL}/${table}`, {
+export async function getRecords<T extends BaseRecord>(table: TableName, options: RecordQuery = {}): Promise<T[]> {
+  const response = await apiFetch(`/${table}${buildRecordQuery(options)}`, {
     headers: {},
   });
   return handleResponse(response);
 }
 
+export async function getRecordPage<T extends BaseRecord>(table: TableName, options: PageQuery): Promise<RecordPage<T>> {
+  const response = await apiFetch(`/${table}${buildRecordQuery(options)}`, {
+    headers: {},
+  });
+  return handleResponse(response);
+}
+
+export async function countRecords(table: TableName, options: RecordQuery = {}): Promise<number> {
+  const result = await getRecordPage(table, { ...options, page: 1, limit: 1 });
+  return result.total;
+}
+
+export async function searchRecords(term: string): Promise<SearchGroup[]> {
+  const response = await apiFetch(`/search?q=${encodeURIComponent(term)}`, {
+    headers: {},
+  });
+  const data = (await handleResponse(response)) as { groups: SearchGroup[] };
+  return data.groups;
+}
+
 export async function getRecord<T extends BaseRecord>(table: TableName, id: string | number): Promise<T> {
-  const response = await fetch(`${API_BASE_URL}/${table}/${id}`, {
+  const response = await apiFetch(`/${table}/${id}`, {
     headers: {},
   });
   return handleResponse(response);
@@ -64,7 +302,7 @@ export async function addRecord<T extends BaseRecord>(
   table: TableName,
   record: Omit<T, 'id' | 'created_at'> & Partial<Pick<T, 'id' | 'created_at'>>,
 ): Promise<T> {
-  const response = await fetch(`${API_BASE_URL}/${table}`, {
+  const response = await apiFetch(`/${table}`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(record),
@@ -72,30 +310,49 @@ export async function addRecord<T extends BaseRecord>(
   return handleResponse(response);
 }
 
-export async function uploadUserPhoto(id: string | number, photoData: string): Promise<{ photo_url: string }> {
-  const response = await fetch(`${API_BASE_URL}/users/${id}/photo`, {
+export async function uploadFile(file: File, context: FileContext): Promise<UploadedFile> {
+  const body = new FormData();
+  body.append('file', file, file.name);
+  const response = await apiFetch(`/files?context=${context}`, {
+    method: 'POST',
+    body,
+  });
+  return handleResponse(response);
+}
+
+export async function uploadUserPhoto(id: string | number, fileId: string): Promise<{ photo_url: string }> {
+  const response = await apiFetch(`/users/${id}/photo`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ photoData }),
+    body: JSON.stringify({ file_id: fileId }),
   });
   return handleResponse(response);
 }
 
+// Pass the `version` the record was loaded with to have the update refused with a RecordConflictError when
+// someone else has saved it since.
 export async function updateRecord<T extends BaseRecord>(
   table: TableName,
   id: string | number,
   updates: Partial<T>,
+  version?: number,
 ): Promise<T | null> {
-  const response = await fetch(`${API_BASE_URL}/${table}/${id}`, {
+  const response = await apiFetch(`/${table}/${id}`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(updates),
+    body: JSON.stringify(version === undefined ? updates : { ...updates, version }),
   });
   return handleResponse(response);
 }
 
-export async function deleteRecord(table: TableName, id: string | number): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/${table}/${id}`, {
+// Documents go to the recycle bin. One with related documents (a sales order with invoices) is refused unless
+// `cascade` sends those along.
+export async function deleteRecord(
+  table: TableName,
+  id: string | number,
+  { cascade = false }: { cascade?: boolean } = {},
+): Promise<void> {
+  const response = await apiFetch(`/${table}/${id}${cascade ? '?cascade=true' : ''}`, {
     method: 'DELETE',
     headers: {},
   });
@@ -111,7 +368,7 @@ export async function deleteRecordWithContext(
   id: string | number,
   payload: Record<string, unknown>,
 ): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/${table}/${id}`, {
+  const response = await apiFetch(`/${table}/${id}`, {
     method: 'DELETE',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(payload),
@@ -124,14 +381,253 @@ export async function deleteRecordWithContext(
   }
 }
 
+export async function getCurrentProfile(): Promise<UserProfile> {
+  const response = await apiFetch('/auth/me');
+  const data = (await handleResponse(response)) as { profile: UserProfile };
+  return data.profile;
+}
+
+export async function getPermissions(): Promise<PermissionMap> {
+  const response = await apiFetch('/auth/permissions');
+  const data = (await handleResponse(response)) as { permissions: PermissionMap };
+  return data.permissions;
+}
+
 export async function logActivity(payload: Partial<ActivityLog>) {
   return addRecord<ActivityLog>('activity_logs', payload as ActivityLog);
 }
 
-export async function getActivityLogs(userId?: number | string) {
-  const query = userId ? `?user_id=${userId}` : '';
-  const response = await fetch(`${API_BASE_URL}/activity_logs${query}`, {
-    headers: {},
+export async function getRoles(): Promise<RoleDefinition[]> {
+  const response = await apiFetch('/roles');
+  return handleResponse(response);
+}
+
+export async function getPermissionMatrix(): Promise<PermissionMatrix> {
+  const response = await apiFetch('/roles/permissions');
+  return handleResponse(response);
+}
+
+export async function createRole(name: string, label: string): Promise<PermissionMatrix> {
+  const response = await apiFetch('/roles', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, label }),
+  });
+  return handleResponse(response);
+}
+
+export async function updateRolePermissions(
+  role: string,
+  grants: Record<string, PermissionScope>,
+): Promise<PermissionMatrix> {
+  const response = await apiFetch(`/roles/${encodeURIComponent(role)}/permissions`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ grants }),
   });
-  return handleResponse(response) as Promise<ActivityLog[]>;
+  return handleResponse(response);
+}
+
+export async function deleteRole(role: string): Promise<PermissionMatrix> {
+  const response = await apiFetch(`/roles/${encodeURIComponent(role)}`, { method: 'DELETE' });
+  return handleResponse(response);
+}
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const response = await apiFetch('/auth/two-factor');
+  return handleResponse(response);
+}
+
+export async function startTwoFactorSetup(): Promise<TwoFactorSetup> {
+  const response = await apiFetch('/auth/two-factor/setup', { method: 'POST' });
+  return handleResponse(response);
+}
+
+export async function enableTwoFactor(code: string): Promise<{ profile: UserProfile; backup_codes: string[] }> {
+  const response = await apiFetch('/auth/two-factor/enable', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code }),
+  });
+  return handleResponse(response);
+}
+
+export async function regenerateBackupCodes(code: string): Promise<{ backup_codes: string[] }> {
+  const response = await apiFetch('/auth/two-factor/backup-codes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code }),
+  });
+  return handleResponse(response);
+}
+
+export async function disableTwoFactor(code: string): Promise<{ profile: UserProfile }> {
+  const response = await apiFetch('/auth/two-factor/disable', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code }),
+  });
+  return handleResponse(response);
+}
+
+export async function resetUserTwoFactor(userId: string | number): Promise<void> {
+  const response = await apiFetch(`/users/${userId}/two-factor/reset`, { method: 'POST' });
+  await handleResponse(response);
+}
+
+export async function unlockUser(userId: string | number): Promise<void> {
+  const response = await apiFetch(`/users/${userId}/unlock`, { method: 'POST' });
+  await handleResponse(response);
+}
+
+export type InvitationStatus = 'pending' | 'expired' | 'revoked' | 'accepted';
+
+export interface InvitationState {
+  invitation_status: InvitationStatus;
+  invitation_expires_at: string;
+}
+
+export async function resendInvitation(userId: string | number): Promise<InvitationState> {
+  const response = await apiFetch(`/users/${userId}/invitation`, { method: 'POST' });
+  return handleResponse(response);
+}
+
+export async function revokeInvitation(userId: string | number): Promise<InvitationState> {
+  const response = await apiFetch(`/users/${userId}/invitation`, { method: 'DELETE' });
+  return handleResponse(response);
+}
+
+export interface OpenRecord {
+  id: number;
+  number: string;
+  status: string | null;
+}
+
+export interface OpenRecords {
+  rfqs: OpenRecord[];
+  quotations: OpenRecord[];
+  sales_orders: OpenRecord[];
+}
+
+export async function getUserOpenRecords(userId: string | number): Promise<OpenRecords> {
+  const response = await apiFetch(`/users/${userId}/open-records`);
+  return handleResponse(response);
+}
+
+export async function deactivateUser(userId: string | number, reassignTo?: string | number): Promise<void> {
+  const response = await apiFetch(`/users/${userId}/deactivate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reassign_to: reassignTo || undefined }),
+  });
+  await handleResponse(response);
+}
+
+export async function activateUser(userId: string | number): Promise<void> {
+  const response = await apiFetch(`/users/${userId}/activate`, { method: 'POST' });
+  await handleResponse(response);
+}
+
+export async function getActiveSessions(): Promise<ActiveSession[]> {
+  const response = await apiFetch('/auth/sessions');
+  return handleResponse(response);
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+  const response = await apiFetch(`/auth/sessions/${sessionId}`, { method: 'DELETE' });
+  await handleResponse(response);
+}
+
+export async function revokeOtherSessions(): Promise<{ revoked: number }> {
+  const response = await apiFetch('/auth/sessions/revoke-others', { method: 'POST' });
+  return handleResponse(response);
+}
+
+export async function revokeUserSessions(userId: string | number): Promise<{ revoked: number }> {
+  const response = await apiFetch(`/users/${userId}/sessions/revoke`, { method: 'POST' });
+  return handleResponse(response);
+}
+
+// A delete in the recycle bin, listed under the record that was deleted.
+export interface RecycledRecord {
+  table: TableName;
+  id: number;
+  number: string | null;
+  company_name: string | null;
+  deleted_at: string;
+  deleted_by_name: string | null;
+  // Documents that went to the bin together with it, per table.
+  related: Partial<Record<TableName, number>>;
+}
+
+export async function getRecycleBin(): Promise<RecycledRecord[]> {
+  const response = await apiFetch('/recycle-bin');
+  return handleResponse(response);
+}
+
+export async function restoreRecycledRecord(table: TableName, id: string | number): Promise<void> {
+  const response = await apiFetch(`/recycle-bin/${table}/${id}/restore`, { method: 'POST' });
+  await handleResponse(response);
+}
+
+export async function purgeRecycledRecord(table: TableName, id: string | number): Promise<void> {
+  const response = await apiFetch(`/recycle-bin/${table}/${id}`, { method: 'DELETE' });
+  await handleResponse(response);
+}
+
+// Documents the API can print on the company letterhead.
+// Sales orders print their handover report (BAST).
+export type PrintableTable = 'quotations' | 'invoices' | 'delivery_orders' | 'sales_orders';
+
+export async function getDocumentPdf(table: PrintableTable, id: string | number): Promise<Blob> {
+  const response = await apiFetch(`/${table}/${id}/pdf`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Failed to generate PDF');
+  }
+  return response.blob();
+}
+
+// Documents that can be emailed to the client with their PDF attached.
+export type EmailableTable = 'quotations' | 'invoices';
+
+export interface DocumentEmail {
+  id: number;
+  recipients: string;
+  cc: string | null;
+  subject: string;
+  attachment_name: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  created_at: string;
+  sent_by_name: string | null;
+}
+
+// A client email filled in from the templates in settings, for the user to edit before sending.
+export interface ClientEmailDraft {
+  to: string[];
+  // The sender, copied on every client email.
+  cc: string[];
+  subject: string;
+  body: string;
+  attachment_name: string;
+  history: DocumentEmail[];
+}
+
+export async function getClientEmailDraft(table: EmailableTable, id: string | number): Promise<ClientEmailDraft> {
+  const response = await apiFetch(`/${table}/${id}/email`);
+  return handleResponse(response);
+}
+
+export async function sendClientEmail(
+  table: EmailableTable,
+  id: string | number,
+  email: { to: string; subject: string; body: string },
+): Promise<{ history: DocumentEmail[] }> {
+  const response = await apiFetch(`/${table}/${id}/email`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(email),
+  });
+  return handleResponse(response);
 }
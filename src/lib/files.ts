@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { apiFetch } from './api';
+
+const objectUrls = new Map<string, Promise<string>>();
+
+// Uploads are only served to signed-in users, so they are fetched with the session token and handed to
+// <img>, <audio> and links as object URLs. External, data and blob URLs are used as they are.
+export const isStoredFileUrl = (url: string) => url.startsWith('/api/files/') || url.startsWith('/uploads/');
+
+// `/uploads/<name>` links from before protected storage are still resolved, from `/api/uploads`.
+const toApiPath = (url: string) => (url.startsWith('/api/') ? url.slice('/api'.length) : url);
+
+export function loadFileObjectUrl(url: string): Promise<string> {
+  if (!isStoredFileUrl(url)) return Promise.resolve(url);
+
+  let pending = objectUrls.get(url);
+  if (!pending) {
+    pending = apiFetch(toApiPath(url)).then(async (response) => {
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to load file');
+      }
+      return URL.createObjectURL(await response.blob());
+    });
+    pending.catch(() => objectUrls.delete(url));
+    objectUrls.set(url, pending);
+  }
+  return pending;
+}
+
+export function useFileUrl(url?: string | null): string | null {
+  const [resolved, setResolved] = useState<string | null>(url && !isStoredFileUrl(url) ? url : null);
+
+  useEffect(() => {
+    if (!url) {
+      setResolved(null);
+      return;
+    }
+    let cancelled = false;
+    loadFileObjectUrl(url)
+      .then((objectUrl) => {
+        if (!cancelled) setResolved(objectUrl);
+      })
+      .catch((error) => {
+        console.error('Failed to load file', error);
+        if (!cancelled) setResolved(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return resolved;
+}
+
+// The tab is opened before the download starts so popup blockers still treat it as a user action.
+export async function openFile(url: string) {
+  const target = window.open('', '_blank');
+  try {
+    const objectUrl = await loadFileObjectUrl(url);
+    if (target) {
+      target.location.href = objectUrl;
+    } else {
+      window.location.assign(objectUrl);
+    }
+  } catch (error) {
+    target?.close();
+    alert(error instanceof Error ? error.message : 'Failed to open file.');
+  }
+}
+
+// Same as the name the API gives generated PDFs, e.g. `Quotation-0001-RGI-QTN-X-2026.pdf`.
+export const getPdfFilename = (label: string, number: string | number) =>
+  `${label}-${String(number).replace(/[^\w.-]+/g, '-')}.pdf`;
+
+// Like `openFile`, for documents the API generates on request instead of stored uploads.
+export async function openGeneratedFile(load: () => Promise<Blob>) {
+  const target = window.open('', '_blank');
+  try {
+    const objectUrl = URL.createObjectURL(await load());
+    if (target) {
+      target.location.href = objectUrl;
+    } else {
+      window.location.assign(objectUrl);
+    }
+    window.setTimeout(() => URL.revokeObjectURL(objectUrl), 60_000);
+  } catch (error) {
+    target?.close();
+    alert(error instanceof Error ? error.message : 'Failed to open file.');
+  }
+}
+
+export async function downloadGeneratedFile(load: () => Promise<Blob>, filename: string) {
+  try {
+    const objectUrl = URL.createObjectURL(await load());
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = filename;
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+  } catch (error) {
+    alert(error instanceof Error ? error.message : 'Failed to download file.');
+  }
+}
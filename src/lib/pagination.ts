@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getRecordPage, RecordQuery, TableName } from './api';
+
+export const DEFAULT_PAGE_SIZE = 20;
+const QUERY_DELAY_MS = 300;
+
+// Loads one page of `table` at a time. Query changes are debounced so typing in a search box does not send a
+// request per keystroke, and they always go back to the first page.
+export function usePagedRecords<T extends { id: string | number }>(
+  table: TableName,
+  query: RecordQuery = {},
+  pageSize = DEFAULT_PAGE_SIZE,
+) {
+  const queryKey = JSON.stringify(query);
+  const [appliedKey, setAppliedKey] = useState(queryKey);
+  const [pageState, setPageState] = useState({ queryKey, page: 1 });
+  const [records, setRecords] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loaded, setLoaded] = useState(false);
+  const [refreshing, setRefreshing] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setAppliedKey(queryKey), QUERY_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [queryKey]);
+
+  const page = pageState.queryKey === appliedKey ? pageState.page : 1;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setRefreshing(true);
+      try {
+        const result = await getRecordPage<T & Record<string, unknown>>(table, {
+          ...(JSON.parse(appliedKey) as RecordQuery),
+          page,
+          limit: pageSize,
+        });
+        if (cancelled) return;
+        setRecords(result.data);
+        setTotal(result.total);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        console.error(`Failed to load ${table}`, err);
+        setError(err instanceof Error ? err.message : 'Failed to load records.');
+      } finally {
+        if (!cancelled) {
+          setLoaded(true);
+          setRefreshing(false);
+        }
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [table, appliedKey, page, pageSize, reloadCount]);
+
+  const setPage = useCallback((nextPage: number) => setPageState({ queryKey: appliedKey, page: nextPage }), [appliedKey]);
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  return {
+    records,
+    total,
+    page,
+    pageSize,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+    // `loading` only covers the first request; `refreshing` is true whenever a request is in flight.
+    loading: !loaded,
+    refreshing,
+    error,
+    setPage,
+    reload,
+  };
+}
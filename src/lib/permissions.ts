@@ -0,0 +1,37 @@
+import { PermissionAction, TableName } from './api';
+
+// Permission a page needs to show up in navigation; `null` pages are open to every signed-in user.
+// What a page needs: a permission, the superadmin role, or nothing (`null`). Unlisted pages are closed.
+export const PAGE_PERMISSIONS: Record<string, [TableName, PermissionAction] | 'superadmin' | null> = {
+  dashboard: null,
+  suppliers: ['suppliers', 'read'],
+  clients: ['clients', 'read'],
+  goods: ['goods', 'read'],
+  rfq: ['rfqs', 'read'],
+  quotations: ['quotations', 'read'],
+  orders: ['sales_orders', 'read'],
+  'delivery-orders': ['delivery_orders', 'read'],
+  invoices: ['invoices', 'read'],
+  profile: null,
+  users: ['users', 'create'],
+  settings: ['settings', 'update'],
+  'recycle-bin': 'superadmin',
+};
+
+export const canAccessPage = (
+  page: string,
+  can: (table: TableName, action: PermissionAction) => boolean,
+  role?: string
+) => {
+  const requirement = PAGE_PERMISSIONS[page];
+  if (requirement === undefined) return false;
+  if (requirement === 'superadmin') return role === 'superadmin';
+  return requirement === null || can(requirement[0], requirement[1]);
+};
+
+// Page that lists a table's records, e.g. `sales_orders` -> `orders`.
+export const getTablePage = (table: TableName) =>
+  Object.keys(PAGE_PERMISSIONS).find((page) => {
+    const requirement = PAGE_PERMISSIONS[page];
+    return Array.isArray(requirement) && requirement[0] === table && requirement[1] === 'read';
+  }) || null;
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { getRecord, TableName } from './api';
+
+// Keeps a page's detail modal in step with the URL. A route record id opens that record, loading it unless it is
+// already the one shown (it may not be on the listed page at all); a route without one closes the modal.
+export function useRouteRecord<T extends { id: string | number }>(
+  table: TableName,
+  recordId: string | null | undefined,
+  shownId: string | number | null | undefined,
+  onOpen: (record: T) => void,
+  onClose: () => void,
+) {
+  const handlersRef = useRef({ onOpen, onClose });
+  handlersRef.current = { onOpen, onClose };
+  const shownIdRef = useRef(shownId);
+  shownIdRef.current = shownId;
+
+  useEffect(() => {
+    if (!recordId) {
+      handlersRef.current.onClose();
+      return;
+    }
+    if (shownIdRef.current !== null && shownIdRef.current !== undefined && String(shownIdRef.current) === recordId) {
+      return;
+    }
+
+    let cancelled = false;
+    getRecord<T & Record<string, unknown>>(table, recordId)
+      .then((record) => {
+        if (!cancelled) handlersRef.current.onOpen(record);
+      })
+      .catch((error) => console.error(`Failed to open ${table} ${recordId}`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [table, recordId]);
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+
+// Pages live at `/<page>`, records at `/<page>/<id>` and record sub-views at `/<page>/<id>/<view>`,
+// e.g. `/quotations/12` or `/orders/45/deliveries`. The dashboard is `/`.
+export interface Route {
+  page: string;
+  recordId: string | null;
+  view: string | null;
+}
+
+const ROUTE_CHANGE_EVENT = 'app:route-change';
+
+export const parseRoute = (pathname: string): Route => {
+  const [page, recordId, view] = pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => decodeURIComponent(segment));
+  return { page: page || 'dashboard', recordId: recordId || null, view: view || null };
+};
+
+export const buildPath = (page: string, recordId?: string | number | null, view?: string | null) => {
+  if (page === 'dashboard') return '/';
+  const segments = [page, recordId, recordId ? view : null].filter(
+    (segment): segment is string | number => segment !== null && segment !== undefined && segment !== '',
+  );
+  return `/${segments.map((segment) => encodeURIComponent(String(segment))).join('/')}`;
+};
+
+export const buildAppUrl = (path: string) => `${window.location.origin}${path}`;
+
+export const navigate = (path: string, { replace = false }: { replace?: boolean } = {}) => {
+  if (path === window.location.pathname) return;
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+};
+
+// The current route, updated on `navigate` and on browser back/forward.
+export function useRoute() {
+  const [route, setRoute] = useState(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handleChange = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handleChange);
+    window.addEventListener(ROUTE_CHANGE_EVENT, handleChange);
+    return () => {
+      window.removeEventListener('popstate', handleChange);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, handleChange);
+    };
+  }, []);
+
+  return route;
+}